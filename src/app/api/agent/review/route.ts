@@ -36,6 +36,7 @@ const suspiciousLineSchema = z.object({
   assignedType: lineTypeSchema,
   totalSuspicion: z.number().min(0).max(100),
   reasons: z.array(z.string()),
+  detectorIds: z.array(z.string()).optional(),
   contextLines: z.array(contextLineSchema),
 });
 
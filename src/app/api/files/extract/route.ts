@@ -28,7 +28,7 @@ export async function POST(
       return NextResponse.json(
         {
           success: false,
-          error: `نوع الملف غير مدعوم: ${file.name}. الأنواع المدعومة: doc, docx, txt, pdf, fountain, fdx`,
+          error: `نوع الملف غير مدعوم: ${file.name}. الأنواع المدعومة: doc, docx, txt, pdf, fountain, fdx, filmlane`,
         },
         { status: 400 }
       );
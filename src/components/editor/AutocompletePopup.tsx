@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { cn, type AutocompleteSuggestion } from "@/utils";
+
+interface AutocompletePopupProps {
+  items: AutocompleteSuggestion[];
+  activeIndex: number;
+  /** الموضع داخل حاوية المحرر (الحافة اليمنى عند المؤشر) */
+  position: { top: number; right: number };
+  onSelect: (suggestion: AutocompleteSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * قائمة اقتراحات الإكمال أسفل السطر الحالي؛ التنقل بالأسهم والاختيار بـ Tab أو بالنقر.
+ */
+export const AutocompletePopup: React.FC<AutocompletePopupProps> = ({
+  items,
+  activeIndex,
+  position,
+  onSelect,
+  onHover,
+}) => (
+  <ul
+    role="listbox"
+    dir="rtl"
+    style={{ top: position.top, right: position.right }}
+    className="absolute z-50 min-w-40 overflow-hidden rounded-md border border-white/10 bg-neutral-900/95 py-1 text-sm text-neutral-100 shadow-lg"
+  >
+    {items.map((item, index) => (
+      <li
+        key={item.value}
+        role="option"
+        aria-selected={index === activeIndex}
+        // منع سرقة التركيز من المحرر قبل الاختيار.
+        onMouseDown={(event) => {
+          event.preventDefault();
+          onSelect(item);
+        }}
+        onMouseEnter={() => onHover(index)}
+        className={cn(
+          "flex cursor-pointer items-center justify-between gap-3 px-3 py-1.5",
+          index === activeIndex && "bg-primary/30"
+        )}
+      >
+        <span>{item.value}</span>
+        {item.inScene ? (
+          <span className="text-[10px] text-primary">في المشهد</span>
+        ) : (
+          item.count > 0 && (
+            <span className="text-[10px] text-neutral-500">{item.count}×</span>
+          )
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+export default AutocompletePopup;
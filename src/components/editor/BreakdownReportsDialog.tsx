@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { BreakdownReportKind, BreakdownTable } from "@/utils";
+
+export type BreakdownExportFormat = "csv" | "excel" | "pdf";
+
+interface BreakdownReportsDialogProps {
+  open: boolean;
+  reports: Record<BreakdownReportKind, BreakdownTable>;
+  /** CSV للتقرير المعروض، وPDF لكل التقارير معًا */
+  onExport: (
+    kind: BreakdownReportKind,
+    format: BreakdownExportFormat
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const REPORT_KINDS: BreakdownReportKind[] = ["scenes", "locations", "cast"];
+
+/**
+ * تقارير التفريغ: قائمة المشاهد والأماكن والممثلين حسب المشهد مع التصدير.
+ */
+export const BreakdownReportsDialog: React.FC<BreakdownReportsDialogProps> = ({
+  open,
+  reports,
+  onExport,
+  onClose,
+}) => {
+  const [kind, setKind] = useState<BreakdownReportKind>("scenes");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = async (format: BreakdownExportFormat) => {
+    setIsExporting(true);
+    try {
+      await onExport(kind, format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onClose();
+      }}
+    >
+      <DialogContent className="flex h-[85vh] max-w-5xl flex-col" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>تقارير التفريغ</DialogTitle>
+          <DialogDescription>
+            {reports.scenes.rows.length} مشهد · {reports.locations.rows.length}{" "}
+            مكان · {Math.max(0, reports.cast.headers.length - 1)} شخصية.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={kind}
+          onValueChange={(value) => setKind(value as BreakdownReportKind)}
+          dir="rtl"
+          className="min-h-0 flex-1"
+        >
+          <TabsList>
+            {REPORT_KINDS.map((reportKind) => (
+              <TabsTrigger key={reportKind} value={reportKind}>
+                {reports[reportKind].title}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {REPORT_KINDS.map((reportKind) => (
+            <TabsContent
+              key={reportKind}
+              value={reportKind}
+              className="min-h-0 overflow-auto rounded border"
+            >
+              {reports[reportKind].rows.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  لا توجد مشاهد في المستند بعد.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {reports[reportKind].headers.map((header, index) => (
+                        <TableHead key={index} className="text-right">
+                          {header}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports[reportKind].rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, cellIndex) => (
+                          <TableCell
+                            key={cellIndex}
+                            className="whitespace-normal text-right"
+                          >
+                            {cell}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={isExporting}
+            onClick={() => void runExport("csv")}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isExporting}
+            onClick={() => void runExport("excel")}
+          >
+            CSV (Excel)
+          </Button>
+          <Button disabled={isExporting} onClick={() => void runExport("pdf")}>
+            PDF (كل التقارير)
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreakdownReportsDialog;
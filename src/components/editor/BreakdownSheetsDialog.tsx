@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  BREAKDOWN_CATEGORIES,
+  getBreakdownCategory,
+  type BreakdownElement,
+  type SceneBreakdownSheet,
+} from "@/utils";
+import type { BreakdownExportFormat } from "./BreakdownReportsDialog";
+
+export type BreakdownSheetsView = "sheets" | "elements";
+
+interface BreakdownSheetsDialogProps {
+  open: boolean;
+  sheets: SceneBreakdownSheet[];
+  elements: BreakdownElement[];
+  /** CSV للعرض الحالي، وPDF لأوراق المشاهد وتقرير العناصر معًا */
+  onExport: (
+    view: BreakdownSheetsView,
+    format: BreakdownExportFormat
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * أوراق تفريغ المشاهد من الوسوم وتقرير العناصر المجمّع مع التصدير.
+ */
+export const BreakdownSheetsDialog: React.FC<BreakdownSheetsDialogProps> = ({
+  open,
+  sheets,
+  elements,
+  onExport,
+  onClose,
+}) => {
+  const [view, setView] = useState<BreakdownSheetsView>("sheets");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = async (format: BreakdownExportFormat) => {
+    setIsExporting(true);
+    try {
+      await onExport(view, format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onClose();
+      }}
+    >
+      <DialogContent className="flex h-[85vh] max-w-5xl flex-col" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>أوراق التفريغ</DialogTitle>
+          <DialogDescription>
+            {sheets.length} مشهد · {elements.length} عنصر موسوم. حدد نصًا في سطر
+            وصف واختر &quot;وسم عنصر تفريغ&quot; لإضافة عناصر.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={view}
+          onValueChange={(value) => setView(value as BreakdownSheetsView)}
+          dir="rtl"
+          className="min-h-0 flex-1"
+        >
+          <TabsList>
+            <TabsTrigger value="sheets">أوراق المشاهد</TabsTrigger>
+            <TabsTrigger value="elements">تقرير العناصر</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sheets" className="min-h-0 overflow-y-auto">
+            <div className="space-y-3">
+              {sheets.map((sheet) => (
+                <section key={sheet.scene.id} className="rounded border p-3">
+                  <header className="mb-2 flex items-baseline justify-between gap-2">
+                    <strong className="truncate">
+                      {sheet.sceneNumber} · {sheet.scene.heading}
+                    </strong>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      صفحة {sheet.scene.pageNumber}
+                    </span>
+                  </header>
+                  {sheet.scene.characters?.length ? (
+                    <p className="mb-2 text-xs text-muted-foreground">
+                      الشخصيات: {sheet.scene.characters.join("، ")}
+                    </p>
+                  ) : null}
+                  <div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
+                    {BREAKDOWN_CATEGORIES.filter(
+                      (category) => sheet.elements[category.id]?.length
+                    ).map((category) => (
+                      <div
+                        key={category.id}
+                        className="bg-muted/40 rounded border-r-4 p-2"
+                        style={{ borderRightColor: category.hex }}
+                      >
+                        <span className="block text-xs text-muted-foreground">
+                          {category.label}
+                        </span>
+                        {sheet.elements[category.id]?.join("، ")}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="elements" className="min-h-0 overflow-y-auto">
+            {elements.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">
+                لا توجد عناصر موسومة بعد.
+              </p>
+            ) : (
+              <div className="divide-y rounded border text-sm">
+                {elements.map((element) => (
+                  <div
+                    key={`${element.category}:${element.name}`}
+                    className="flex items-center gap-3 p-2"
+                  >
+                    <span
+                      className="size-2.5 shrink-0 rounded-full"
+                      style={{
+                        backgroundColor: getBreakdownCategory(element.category)
+                          .hex,
+                      }}
+                    />
+                    <strong className="flex-1 truncate">{element.name}</strong>
+                    <span className="text-xs text-muted-foreground">
+                      {getBreakdownCategory(element.category).label}
+                    </span>
+                    <span className="w-40 truncate text-xs">
+                      المشاهد: {element.scenes.join("، ")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={isExporting}
+            onClick={() => void runExport("csv")}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isExporting}
+            onClick={() => void runExport("excel")}
+          >
+            CSV (Excel)
+          </Button>
+          <Button disabled={isExporting} onClick={() => void runExport("pdf")}>
+            PDF
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreakdownSheetsDialog;
@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  BREAKDOWN_CATEGORIES,
+  getBreakdownCategory,
+  type BreakdownCategoryId,
+  type BreakdownTag,
+} from "@/utils";
+
+interface BreakdownTagDialogProps {
+  open: boolean;
+  /** النص المحدد في سطر الوصف */
+  selectedText: string;
+  /** الوسوم الموجودة في السطر نفسه */
+  tags: BreakdownTag[];
+  onTag: (category: BreakdownCategoryId) => void;
+  onRemoveTag: (tag: BreakdownTag) => void;
+  onClose: () => void;
+}
+
+/**
+ * اختيار فئة عنصر التفريغ للنص المحدد، مع وسوم السطر الحالية وحذفها.
+ */
+export const BreakdownTagDialog: React.FC<BreakdownTagDialogProps> = ({
+  open,
+  selectedText,
+  tags,
+  onTag,
+  onRemoveTag,
+  onClose,
+}) => (
+  <Dialog
+    open={open}
+    onOpenChange={(isOpen) => {
+      if (!isOpen) onClose();
+    }}
+  >
+    <DialogContent className="max-w-md" dir="rtl">
+      <DialogHeader>
+        <DialogTitle>وسم عنصر تفريغ</DialogTitle>
+        <DialogDescription>&quot;{selectedText}&quot;</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 gap-2">
+        {BREAKDOWN_CATEGORIES.map((category) => (
+          <button
+            key={category.id}
+            type="button"
+            onClick={() => onTag(category.id)}
+            className="flex items-center gap-2 rounded border p-2 text-right text-sm hover:bg-muted"
+          >
+            <span
+              className="size-3 shrink-0 rounded-full"
+              style={{ backgroundColor: category.hex }}
+            />
+            {category.label}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <span className="text-xs text-muted-foreground">وسوم هذا السطر</span>
+          {tags.map((tag) => (
+            <div
+              key={`${tag.start}-${tag.end}`}
+              className="flex items-center justify-between gap-2 rounded border px-2 py-1"
+            >
+              <span className="truncate">
+                <span
+                  className="ml-2 inline-block size-2 rounded-full"
+                  style={{
+                    backgroundColor: getBreakdownCategory(tag.category).hex,
+                  }}
+                />
+                {tag.text} · {getBreakdownCategory(tag.category).label}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemoveTag(tag)}
+                className="text-xs text-destructive hover:underline"
+              >
+                حذف
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default BreakdownTagDialog;
@@ -0,0 +1,191 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn, type CharacterStats } from "@/utils";
+
+interface CharactersSheetProps {
+  open: boolean;
+  /** الشخصيات مرتبة حسب عدد سطور الحوار */
+  characters: CharacterStats[];
+  onRename: (
+    character: CharacterStats,
+    newName: string,
+    includeDialogue: boolean
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * لوحة الشخصيات: إحصاءات الحوار لكل شخصية وإعادة تسميتها في كل المستند.
+ */
+export const CharactersSheet: React.FC<CharactersSheetProps> = ({
+  open,
+  characters,
+  onRename,
+  onClose,
+}) => {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [includeDialogue, setIncludeDialogue] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const selected = characters.find(
+    (character) => character.name === selectedName
+  );
+
+  const selectCharacter = (character: CharacterStats) => {
+    setSelectedName(character.name);
+    setNewName(character.name);
+  };
+
+  const rename = async () => {
+    if (!selected) return;
+    setIsRenaming(true);
+    try {
+      await onRename(selected, newName, includeDialogue);
+      setSelectedName(newName.trim());
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onClose();
+      }}
+    >
+      <SheetContent side="left" className="w-full sm:max-w-xl" dir="rtl">
+        <SheetHeader>
+          <SheetTitle>الشخصيات ({characters.length})</SheetTitle>
+          <SheetDescription>
+            الصيغ المتقاربة للاسم (مثل أحمد واحمد) تُحسب شخصية واحدة.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid min-h-0 flex-1 grid-cols-[14rem_1fr] gap-3 px-4 pb-4">
+          <div className="overflow-y-auto rounded border">
+            {characters.length === 0 && (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                لا توجد شخصيات بعد.
+              </p>
+            )}
+            {characters.map((character) => (
+              <button
+                key={character.name}
+                type="button"
+                onClick={() => selectCharacter(character)}
+                className={cn(
+                  "block w-full border-b p-2 text-right text-sm hover:bg-muted",
+                  character.name === selectedName && "bg-muted"
+                )}
+              >
+                <strong className="block truncate">{character.name}</strong>
+                <span className="block text-xs text-muted-foreground">
+                  {character.lineCount} سطر · {character.wordCount} كلمة ·{" "}
+                  {character.scenes.length} مشهد
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex min-h-0 flex-col gap-3 overflow-y-auto text-sm">
+            {selected ? (
+              <>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="rounded border p-2">
+                    <strong className="block text-lg">
+                      {selected.lineCount}
+                    </strong>
+                    <span className="text-xs text-muted-foreground">
+                      سطر حوار
+                    </span>
+                  </div>
+                  <div className="rounded border p-2">
+                    <strong className="block text-lg">
+                      {selected.wordCount}
+                    </strong>
+                    <span className="text-xs text-muted-foreground">كلمة</span>
+                  </div>
+                  <div className="rounded border p-2">
+                    <strong className="block text-lg">
+                      {selected.cueCount}
+                    </strong>
+                    <span className="text-xs text-muted-foreground">
+                      مداخلة
+                    </span>
+                  </div>
+                </div>
+                {selected.description && (
+                  <p className="text-muted-foreground">
+                    {selected.description}
+                  </p>
+                )}
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">
+                    صيغ الاسم
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {selected.variants.map((variant) => (
+                      <Badge key={variant} variant="secondary">
+                        {variant}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-xs text-muted-foreground">المشاهد</span>
+                  <p>{selected.scenes.join("، ") || "—"}</p>
+                </div>
+
+                <div className="mt-auto space-y-2 rounded border p-3">
+                  <strong className="block">إعادة التسمية</strong>
+                  <Input
+                    value={newName}
+                    onChange={(event) => setNewName(event.target.value)}
+                  />
+                  <label className="flex items-center gap-2 text-xs">
+                    <Checkbox
+                      checked={includeDialogue}
+                      onCheckedChange={(checked) =>
+                        setIncludeDialogue(checked === true)
+                      }
+                    />
+                    تحديث الإشارات إلى الاسم داخل الحوار أيضًا
+                  </label>
+                  <Button
+                    disabled={
+                      isRenaming ||
+                      !newName.trim() ||
+                      newName.trim() === selected.name
+                    }
+                    onClick={() => void rename()}
+                  >
+                    إعادة التسمية في كل المستند
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="p-4 text-center text-muted-foreground">
+                اختر شخصية لعرض تفاصيلها.
+              </p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CharactersSheet;
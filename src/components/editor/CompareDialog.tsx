@@ -0,0 +1,285 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { screenplayFormats } from "@/constants/formats";
+import {
+  applyAcceptedChanges,
+  cn,
+  diffScreenplayBlocks,
+  summarizeScreenplayDiff,
+  type BlockDiffEntry,
+  type BlockDiffKind,
+  type ScreenplayBlock,
+} from "@/utils";
+
+/** نسخة قابلة للمقارنة: اسمها وكتلها */
+export interface CompareSource {
+  name: string;
+  blocks: ScreenplayBlock[];
+  /** صُنّف النص تقريبيًا لعدم توفر كتل بنيوية في الملف */
+  approximate?: boolean;
+}
+
+interface CompareDialogProps {
+  open: boolean;
+  /** المستند الحالي كنسخة أساسية افتراضية */
+  currentSource: CompareSource;
+  /** اختيار ملف واستخراج كتله عبر مسار الاستخراج المعتاد */
+  onPickSource: () => Promise<CompareSource | null>;
+  onApply: (blocks: ScreenplayBlock[]) => void;
+  onCancel: () => void;
+}
+
+const DIFF_KIND_LABELS: Record<Exclude<BlockDiffKind, "equal">, string> = {
+  inserted: "مضافة",
+  deleted: "محذوفة",
+  retyped: "تغيّر النوع",
+  edited: "معدّلة",
+};
+
+const DIFF_KIND_CLASSES: Record<BlockDiffKind, string> = {
+  equal: "",
+  inserted: "bg-green-100/70 dark:bg-green-900/30",
+  deleted: "bg-red-100/70 dark:bg-red-900/30",
+  retyped: "bg-blue-100/70 dark:bg-blue-900/30",
+  edited: "bg-amber-100/70 dark:bg-amber-900/30",
+};
+
+const getFormatLabel = (formatId: string): string =>
+  screenplayFormats.find((format) => format.id === formatId)?.label ?? formatId;
+
+const BlockCell: React.FC<{
+  block: ScreenplayBlock | null;
+  highlightFormat: boolean;
+}> = ({ block, highlightFormat }) => {
+  if (!block) return <div className="rounded p-2 opacity-40">—</div>;
+  return (
+    <div className="rounded p-2">
+      <span
+        className={cn(
+          "mb-1 block text-xs text-muted-foreground",
+          highlightFormat && "font-bold text-blue-700 dark:text-blue-300"
+        )}
+      >
+        {getFormatLabel(block.formatId)}
+      </span>
+      <span className="whitespace-pre-wrap">{block.text}</span>
+    </div>
+  );
+};
+
+/**
+ * عرض المقارنة جنبًا إلى جنب بين نسختين مع قبول التغييرات كتلةً كتلة؛
+ * يُركَّب عند الفتح فقط حتى تبدأ كل مقارنة من المستند الحالي.
+ */
+export const CompareDialog: React.FC<CompareDialogProps> = ({
+  open,
+  currentSource,
+  onPickSource,
+  onApply,
+  onCancel,
+}) => {
+  const [baseSource, setBaseSource] = useState<CompareSource>(currentSource);
+  const [revisedSource, setRevisedSource] = useState<CompareSource | null>(
+    null
+  );
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const entries = useMemo<BlockDiffEntry[]>(
+    () =>
+      revisedSource
+        ? diffScreenplayBlocks(baseSource.blocks, revisedSource.blocks)
+        : [],
+    [baseSource, revisedSource]
+  );
+  const changedEntries = entries.filter((entry) => entry.kind !== "equal");
+  const summary = summarizeScreenplayDiff(entries);
+
+  const pickSource = async (target: "base" | "revised") => {
+    setIsLoading(true);
+    try {
+      const source = await onPickSource();
+      if (!source) return;
+      if (target === "base") {
+        setBaseSource(source);
+      } else {
+        setRevisedSource(source);
+      }
+      setAcceptedIds(new Set());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleEntry = (entryId: string, accepted: boolean) => {
+    setAcceptedIds((current) => {
+      const next = new Set(current);
+      if (accepted) {
+        next.add(entryId);
+      } else {
+        next.delete(entryId);
+      }
+      return next;
+    });
+  };
+
+  const approximateNames = [baseSource, revisedSource]
+    .filter((source): source is CompareSource => Boolean(source?.approximate))
+    .map((source) => source.name);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onCancel();
+      }}
+    >
+      <DialogContent className="sm:max-w-5xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>مقارنة نسختين</DialogTitle>
+          <DialogDescription>
+            تُحاذى النسختان مشهدًا بمشهد، ويمكن قبول كل تغيير على حدة ثم تطبيق
+            النتيجة على المحرر.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="flex items-center justify-between gap-2 rounded border p-2">
+            <span>
+              الأساسية: <strong>{baseSource.name}</strong>
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isLoading}
+              onClick={() => void pickSource("base")}
+            >
+              اختيار ملف...
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-2 rounded border p-2">
+            <span>
+              المعدّلة: <strong>{revisedSource?.name ?? "لم تُحدَّد"}</strong>
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isLoading}
+              onClick={() => void pickSource("revised")}
+            >
+              اختيار ملف...
+            </Button>
+          </div>
+        </div>
+
+        {approximateNames.length > 0 && (
+          <p className="text-xs text-amber-700 dark:text-amber-300">
+            ⚠️ لا يحتوي {approximateNames.join(" و ")} على بنية محفوظة، فصُنّفت
+            أسطره تقريبيًا وقد تظهر تغييرات نوع غير حقيقية.
+          </p>
+        )}
+
+        {revisedSource && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span>
+                مضافة: {summary.inserted} · محذوفة: {summary.deleted} · معدّلة:{" "}
+                {summary.edited} · تغيّر النوع: {summary.retyped}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={changedEntries.length === 0}
+                onClick={() =>
+                  setAcceptedIds(
+                    new Set(changedEntries.map((entry) => entry.id))
+                  )
+                }
+              >
+                قبول الكل
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={acceptedIds.size === 0}
+                onClick={() => setAcceptedIds(new Set())}
+              >
+                رفض الكل
+              </Button>
+            </div>
+
+            <div className="max-h-[55vh] overflow-y-auto rounded border text-sm">
+              {changedEntries.length === 0 && (
+                <p className="p-4 text-center text-muted-foreground">
+                  لا توجد فروق بين النسختين.
+                </p>
+              )}
+              {entries.map((entry, index) => {
+                const startsScene =
+                  index > 0 &&
+                  entry.sceneIndex !== entries[index - 1].sceneIndex;
+                return (
+                  <div
+                    key={entry.id}
+                    className={cn(
+                      "grid grid-cols-[2rem_1fr_1fr] items-start gap-2 px-2",
+                      DIFF_KIND_CLASSES[entry.kind],
+                      startsScene && "border-t-2"
+                    )}
+                  >
+                    {entry.kind === "equal" ? (
+                      <span />
+                    ) : (
+                      <Checkbox
+                        className="mt-3"
+                        aria-label={`قبول التغيير: ${DIFF_KIND_LABELS[entry.kind]}`}
+                        title={DIFF_KIND_LABELS[entry.kind]}
+                        checked={acceptedIds.has(entry.id)}
+                        onCheckedChange={(checked) =>
+                          toggleEntry(entry.id, checked === true)
+                        }
+                      />
+                    )}
+                    <BlockCell
+                      block={entry.base}
+                      highlightFormat={entry.formatChanged}
+                    />
+                    <BlockCell
+                      block={entry.revised}
+                      highlightFormat={entry.formatChanged}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <DialogFooter className="flex gap-2 sm:justify-start">
+          <Button variant="outline" onClick={onCancel}>
+            إغلاق
+          </Button>
+          <Button
+            disabled={!revisedSource}
+            onClick={() => onApply(applyAcceptedChanges(entries, acceptedIds))}
+          >
+            تطبيق التغييرات المقبولة ({acceptedIds.size})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompareDialog;
@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  cn,
+  formatPageEighths,
+  getStorylineColor,
+  STORYLINE_COLORS,
+  type SceneCard,
+  type SceneCardDetails,
+  type StorylineColorId,
+} from "@/utils";
+
+interface CorkboardDialogProps {
+  open: boolean;
+  cards: SceneCard[];
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onUpdateCard: (card: SceneCard, details: SceneCardDetails) => void;
+  /** العودة إلى المحرر عند المشهد */
+  onOpenScene: (card: SceneCard) => void;
+  onClose: () => void;
+}
+
+const StorylinePicker: React.FC<{
+  value: StorylineColorId | null;
+  onChange: (storyline: StorylineColorId | null) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex gap-1">
+    {STORYLINE_COLORS.map((color) => (
+      <button
+        key={color.id}
+        type="button"
+        title={color.label}
+        aria-label={`خط ${color.label}`}
+        onClick={() => onChange(value === color.id ? null : color.id)}
+        style={{ backgroundColor: color.hex }}
+        className={cn(
+          "h-3.5 w-3.5 rounded-full opacity-40 transition-opacity hover:opacity-100",
+          value === color.id && "opacity-100 ring-2 ring-offset-1"
+        )}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * لوحة الفلّين: بطاقة لكل مشهد بملخص ولون خط درامي،
+ * وإعادة ترتيب البطاقات تعيد ترتيب المشاهد في المستند.
+ */
+export const CorkboardDialog: React.FC<CorkboardDialogProps> = ({
+  open,
+  cards,
+  onMove,
+  onUpdateCard,
+  onOpenScene,
+  onClose,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [storylineFilter, setStorylineFilter] =
+    useState<StorylineColorId | null>(null);
+  const visibleCards = storylineFilter
+    ? cards.filter((card) => card.storyline === storylineFilter)
+    : cards;
+  const totalEighths = cards.reduce((sum, card) => sum + card.pageEighths, 0);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onClose();
+      }}
+    >
+      <DialogContent className="flex h-[90vh] max-w-6xl flex-col" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>لوحة المشاهد</DialogTitle>
+          <DialogDescription>
+            {cards.length} مشهد · {formatPageEighths(totalEighths)} صفحة. اسحب
+            البطاقة لإعادة ترتيب المشاهد في المستند.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-muted-foreground">الخطوط الدرامية:</span>
+          <button
+            type="button"
+            onClick={() => setStorylineFilter(null)}
+            className={cn(
+              "rounded px-2 py-0.5",
+              storylineFilter === null ? "bg-muted" : "hover:bg-muted"
+            )}
+          >
+            الكل
+          </button>
+          {STORYLINE_COLORS.map((color) => (
+            <button
+              key={color.id}
+              type="button"
+              onClick={() => setStorylineFilter(color.id)}
+              className={cn(
+                "flex items-center gap-1 rounded px-2 py-0.5",
+                storylineFilter === color.id ? "bg-muted" : "hover:bg-muted"
+              )}
+            >
+              <span
+                className="h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: color.hex }}
+              />
+              {color.label} (
+              {cards.filter((card) => card.storyline === color.id).length})
+            </button>
+          ))}
+        </div>
+
+        <div className="grid min-h-0 flex-1 auto-rows-min grid-cols-[repeat(auto-fill,minmax(14rem,1fr))] gap-3 overflow-y-auto p-1">
+          {visibleCards.length === 0 && (
+            <p className="col-span-full p-6 text-center text-sm text-muted-foreground">
+              لا توجد مشاهد لعرضها.
+            </p>
+          )}
+          {visibleCards.map((card) => (
+            <div
+              key={card.blockId ?? card.index}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", String(card.index));
+                setDragIndex(card.index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                setOverIndex(card.index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null && dragIndex !== card.index) {
+                  onMove(dragIndex, card.index);
+                }
+                resetDrag();
+              }}
+              onDragEnd={resetDrag}
+              style={{
+                borderTopColor:
+                  getStorylineColor(card.storyline)?.hex ?? undefined,
+              }}
+              className={cn(
+                "flex cursor-grab flex-col gap-2 rounded-md border border-t-4 bg-amber-50/5 p-3 text-sm shadow-sm",
+                dragIndex === card.index && "opacity-40",
+                overIndex === card.index &&
+                  dragIndex !== card.index &&
+                  "ring-2 ring-primary"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  onClick={() => onOpenScene(card)}
+                  className="font-mono hover:text-primary"
+                  title="الانتقال إلى المشهد في المحرر"
+                >
+                  #{card.sceneNumber ?? card.index + 1}
+                </button>
+                <span>{formatPageEighths(card.pageEighths)} صفحة</span>
+              </div>
+              <strong className="line-clamp-2">
+                {card.heading || "مشهد بلا عنوان"}
+              </strong>
+              {card.firstAction && (
+                <p className="line-clamp-2 text-xs text-muted-foreground">
+                  {card.firstAction}
+                </p>
+              )}
+              <Textarea
+                key={`${card.blockId}:${card.synopsis}`}
+                defaultValue={card.synopsis}
+                placeholder="ملخص المشهد..."
+                rows={3}
+                className="min-h-0 resize-none text-xs"
+                onBlur={(event) => {
+                  if (event.target.value.trim() !== card.synopsis) {
+                    onUpdateCard(card, { synopsis: event.target.value });
+                  }
+                }}
+              />
+              {card.characters.length > 0 && (
+                <p className="truncate text-xs text-muted-foreground">
+                  {card.characters.join("، ")}
+                </p>
+              )}
+              <StorylinePicker
+                value={card.storyline}
+                onChange={(storyline) => onUpdateCard(card, { storyline })}
+              />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CorkboardDialog;
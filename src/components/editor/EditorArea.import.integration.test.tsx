@@ -1,8 +1,9 @@
 import React, { createRef } from "react";
 import { act } from "react";
 import { createRoot, type Root } from "react-dom/client";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { ContextMemoryManager } from "@/utils/context-memory-manager";
 import { EditorArea, type EditorHandle } from "./EditorArea";
 
 function setCursorToEnd(element: HTMLElement) {
@@ -123,4 +124,57 @@ describe("EditorArea file import integration", () => {
 
     expect(collectEditorText(container)).toContain("UNDO SOURCE");
   });
+
+  it("clearing the command history keeps an opened document from being undone", async () => {
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLElement;
+    body.innerHTML = '<div class="format-action">PREVIOUS DOCUMENT</div>';
+
+    await act(async () => {
+      await editorRef.current?.importStructuredBlocks(
+        [{ formatId: "action", text: "OPENED DOCUMENT" }],
+        "replace"
+      );
+      editorRef.current?.clearCommandHistory();
+    });
+
+    await act(async () => {
+      expect(editorRef.current?.undoCommandOperation()).toBe(false);
+    });
+    expect(collectEditorText(container)).toBe("OPENED DOCUMENT");
+  });
+
+  it("classifies text for comparison without touching the document", async () => {
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLElement;
+    body.innerHTML = '<div class="format-action">CURRENT DRAFT</div>';
+    setCursorToEnd(body);
+    const selectionBefore = window.getSelection()?.getRangeAt(0);
+    const updateMemory = vi.spyOn(
+      ContextMemoryManager.prototype,
+      "updateMemory"
+    );
+
+    let blocks: Awaited<ReturnType<EditorHandle["classifyText"]>> = [];
+    await act(async () => {
+      blocks =
+        (await editorRef.current?.classifyText("أحمد:\nصباح الخير")) ?? [];
+    });
+
+    expect(blocks.map((block) => block.formatId)).toEqual([
+      "character",
+      "dialogue",
+    ]);
+    expect(collectEditorText(container)).toBe("CURRENT DRAFT");
+    const selectionAfter = window.getSelection()?.getRangeAt(0);
+    expect(selectionAfter?.startContainer).toBe(
+      selectionBefore?.startContainer
+    );
+    expect(document.body.lastElementChild).toBe(container);
+    // أسماء ملف المقارنة لا تدخل ذاكرة سياق المستند
+    expect(updateMemory).not.toHaveBeenCalled();
+    updateMemory.mockRestore();
+  });
 });
@@ -0,0 +1,285 @@
+import React, { createRef } from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SequenceLineClassifier } from "@/ml/sequence-classifier";
+import { FeedbackCollector, LearnedOverrides } from "@/utils";
+import type { PasteClassifierMode } from "@/utils/paste-classifier";
+import { EditorArea, type EditorHandle } from "./EditorArea";
+
+function setCollapsedSelectionAtEnd(element: HTMLElement) {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  range.collapse(false);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/**
+ * محاكاة insertParagraph كما في المتصفح: السطر الجديد نسخة من كل سمات
+ * السطر الحالي؛ يُنشأ قبله إن كان المؤشر في بدايته، وإلا بعده وينتقل
+ * المؤشر إليه.
+ */
+function insertParagraphLikeBrowser(): boolean {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return false;
+  const range = selection.getRangeAt(0);
+  let line: Node | null = range.startContainer;
+  while (
+    line &&
+    !line.parentElement?.classList.contains("screenplay-sheet__body")
+  ) {
+    line = line.parentNode;
+  }
+  if (!(line instanceof HTMLElement)) return false;
+  const newLine = line.cloneNode(false) as HTMLElement;
+  newLine.appendChild(document.createElement("br"));
+  const atLineStart =
+    range.startOffset === 0 &&
+    (range.startContainer === line || range.startContainer === line.firstChild);
+  if (atLineStart) {
+    line.before(newLine);
+  } else {
+    line.after(newLine);
+    setCollapsedSelectionAtEnd(newLine);
+  }
+  return true;
+}
+
+function pressKey(target: HTMLElement, key: string, ctrlKey = false) {
+  target.dispatchEvent(
+    new KeyboardEvent("keydown", {
+      key,
+      ctrlKey,
+      bubbles: true,
+      cancelable: true,
+    })
+  );
+}
+
+describe("EditorArea Enter line split", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let editorRef: React.RefObject<EditorHandle | null>;
+
+  beforeEach(async () => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    localStorage.clear();
+    Object.defineProperty(document, "execCommand", {
+      configurable: true,
+      value: vi.fn((command: string) =>
+        command === "insertParagraph" ? insertParagraphLikeBrowser() : false
+      ),
+    });
+    // jsdom لا يقيس النطاقات؛ موضع قائمة الإكمال يُحسب من مستطيل المؤشر.
+    Object.defineProperty(Range.prototype, "getBoundingClientRect", {
+      configurable: true,
+      value: () => new DOMRect(),
+    });
+
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+    editorRef = createRef<EditorHandle>();
+
+    await renderEditor();
+  });
+
+  const renderEditor = async (
+    classifierMode?: PasteClassifierMode,
+    documentKey = "format-corrections"
+  ) => {
+    await act(async () => {
+      root.render(
+        <EditorArea
+          ref={editorRef}
+          onContentChange={() => {}}
+          onStatsChange={() => {}}
+          onFormatChange={() => {}}
+          font="AzarMehrMonospaced-San"
+          size="12pt"
+          pageCount={1}
+          documentKey={documentKey}
+          classifierMode={classifierMode}
+        />
+      );
+    });
+  };
+
+  afterEach(async () => {
+    await act(async () => {
+      root.unmount();
+    });
+    container.remove();
+    Reflect.deleteProperty(document, "execCommand");
+    Reflect.deleteProperty(Range.prototype, "getBoundingClientRect");
+    vi.restoreAllMocks();
+  });
+
+  it("does not record corrections for lines typed after a classified line", async () => {
+    const record = vi.spyOn(LearnedOverrides.prototype, "record");
+    const addCorrection = vi.spyOn(
+      FeedbackCollector.prototype,
+      "addCorrection"
+    );
+    const retrainSequence = vi.spyOn(
+      SequenceLineClassifier.prototype,
+      "retrain"
+    );
+
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLDivElement;
+    body.contentEditable = "true";
+    body.innerHTML =
+      '<div class="format-action" data-classified-as="action" data-classified-confidence="80" data-paste-batch="paste-1" data-paste-index="0" data-suspicion-detectors="sequence-violation" title="اشتباه 80%">يدخل أحمد إلى الغرفة</div>';
+    const classified = body.firstElementChild as HTMLElement;
+    setCollapsedSelectionAtEnd(classified);
+
+    await act(async () => {
+      pressKey(body, "Enter");
+    });
+
+    const typed = body.lastElementChild as HTMLElement;
+    expect(typed).not.toBe(classified);
+    expect(typed.hasAttribute("data-classified-as")).toBe(false);
+    expect(typed.hasAttribute("data-paste-batch")).toBe(false);
+    expect(typed.hasAttribute("data-suspicion-detectors")).toBe(false);
+    expect(typed.title).toBe("");
+
+    typed.textContent = "سطر كتبه المستخدم";
+    setCollapsedSelectionAtEnd(typed);
+    await act(async () => {
+      pressKey(body, "2", true);
+    });
+
+    expect(typed.className).toBe("format-character");
+    expect(record).not.toHaveBeenCalled();
+    expect(addCorrection).not.toHaveBeenCalled();
+
+    // تغيير تنسيق السطر المصنَّف نفسه يبقى تصحيحًا
+    setCollapsedSelectionAtEnd(classified);
+    await act(async () => {
+      pressKey(body, "2", true);
+    });
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(addCorrection).toHaveBeenCalledTimes(1);
+    // وضع القواعد لا يستعمل المصنف التسلسلي، فلا يُعاد تدريبه
+    expect(retrainSequence).not.toHaveBeenCalled();
+  });
+
+  it("retrains the sequence classifier on corrections in sequence mode", async () => {
+    const train = vi.spyOn(SequenceLineClassifier.prototype, "train");
+    const retrainSequence = vi.spyOn(
+      SequenceLineClassifier.prototype,
+      "retrain"
+    );
+    new LearnedOverrides("sequence-corrections").record(
+      "قطع إلى:",
+      "transition"
+    );
+    await renderEditor("sequence", "sequence-corrections");
+    // التحول إلى الوضع التسلسلي يدرّبه مرة واحدة من جدول المستند
+    expect(train).toHaveBeenCalledTimes(1);
+
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLDivElement;
+    body.contentEditable = "true";
+    body.innerHTML =
+      '<div class="format-action" data-classified-as="action" data-classified-confidence="80">يدخل أحمد إلى الغرفة</div>';
+    setCollapsedSelectionAtEnd(body.firstElementChild as HTMLElement);
+    await act(async () => {
+      pressKey(body, "2", true);
+    });
+
+    // المصنف التسلسلي يتعلم التصحيح فورًا دون انتظار دفعة إعادة التدريب
+    expect(retrainSequence).toHaveBeenCalledTimes(1);
+    expect(retrainSequence).toHaveBeenCalledWith([
+      { text: "قطع إلى:", label: "transition" },
+      { text: "يدخل أحمد إلى الغرفة", label: "character" },
+    ]);
+  });
+
+  it("ends the typed cue on Enter instead of accepting a suggestion", async () => {
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLDivElement;
+    body.contentEditable = "true";
+    body.innerHTML =
+      '<div class="format-character" data-block-id="cue-1">سميرة:</div>' +
+      '<div class="format-dialogue" data-block-id="line-1">مساء الخير</div>' +
+      '<div class="format-character" data-block-id="cue-2">سم</div>';
+    const typed = body.lastElementChild as HTMLElement;
+    setCollapsedSelectionAtEnd(typed);
+
+    await act(async () => {
+      body.dispatchEvent(new Event("input", { bubbles: true }));
+      // إعادة الترقيم المجدولة بعد الإدخال تسبق ضغط Enter
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+    });
+    expect(container.querySelector('[role="listbox"]')?.textContent).toContain(
+      "سميرة:"
+    );
+
+    setCollapsedSelectionAtEnd(typed);
+    await act(async () => {
+      pressKey(body, "Enter");
+    });
+
+    expect(container.querySelector('[role="listbox"]')).toBeNull();
+    expect(typed.textContent).toBe("سم");
+    expect(body.children).toHaveLength(4);
+  });
+
+  it("keeps the block id and metadata on the line holding the text", async () => {
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLDivElement;
+    body.contentEditable = "true";
+    body.innerHTML =
+      '<div class="format-action" data-block-id="blk-1" data-block-meta="{&quot;synopsis&quot;:&quot;الوصول&quot;}">يدخل أحمد إلى الغرفة</div>';
+    const range = document.createRange();
+    range.setStart(body.firstElementChild as HTMLElement, 0);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+
+    await act(async () => {
+      pressKey(body, "Enter");
+    });
+
+    const blocks = editorRef.current!.exportStructuredBlocks();
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].text).toBe("");
+    expect(blocks[0].id).not.toBe("blk-1");
+    expect(blocks[0].metadata).toBeUndefined();
+    expect(blocks[1]).toMatchObject({
+      id: "blk-1",
+      text: "يدخل أحمد إلى الغرفة",
+      metadata: { synopsis: "الوصول" },
+    });
+  });
+
+  it("drops metadata copied with a duplicated block id", () => {
+    const body = container.querySelector(
+      ".screenplay-sheet__body"
+    ) as HTMLDivElement;
+    const line =
+      '<div class="format-action" data-block-id="blk-1" data-block-meta="{&quot;synopsis&quot;:&quot;الوصول&quot;}">يدخل أحمد</div>';
+    body.innerHTML = line + line;
+
+    const blocks = editorRef.current!.exportStructuredBlocks();
+    expect(blocks[0]).toMatchObject({
+      id: "blk-1",
+      metadata: { synopsis: "الوصول" },
+    });
+    expect(blocks[1].id).not.toBe("blk-1");
+    expect(blocks[1].metadata).toBeUndefined();
+    expect(body.lastElementChild?.hasAttribute("data-block-meta")).toBe(false);
+  });
+});
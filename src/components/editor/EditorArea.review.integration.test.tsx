@@ -0,0 +1,124 @@
+import React, { createRef } from "react";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { SuspiciousLineReview } from "@/types/agent-review";
+import { FeedbackCollector } from "@/utils";
+import { EditorArea, type EditorHandle } from "./EditorArea";
+
+const review: SuspiciousLineReview = {
+  id: "paste-1:0",
+  pasteBatchId: "paste-1",
+  itemIndex: 0,
+  lineIndex: 0,
+  text: "يدخل أحمد",
+  assignedType: "action",
+  totalSuspicion: 80,
+  reasons: ["سطر قصير يشبه اسم شخصية"],
+  contextLines: [],
+  suggestedType: "character",
+  agentConfidence: 0.7,
+  agentReason: null,
+};
+
+describe("EditorArea suspicious line review", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let editorRef: React.RefObject<EditorHandle | null>;
+  let body: HTMLDivElement;
+
+  beforeEach(async () => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    localStorage.clear();
+
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+    editorRef = createRef<EditorHandle>();
+
+    await act(async () => {
+      root.render(
+        <EditorArea
+          ref={editorRef}
+          onContentChange={() => {}}
+          onStatsChange={() => {}}
+          onFormatChange={() => {}}
+          font="AzarMehrMonospaced-San"
+          size="12pt"
+          pageCount={1}
+          documentKey="suspicious-review"
+        />
+      );
+    });
+
+    body = container.querySelector(".screenplay-sheet__body") as HTMLDivElement;
+    body.innerHTML =
+      '<div class="format-action" data-paste-batch="paste-1" data-paste-index="0" data-classified-as="action" data-classified-confidence="62" data-suspicion-detectors="short-line">يدخل أحمد</div>';
+  });
+
+  afterEach(async () => {
+    await act(async () => {
+      root.unmount();
+    });
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the original type without recording a correction on reject", async () => {
+    const addCorrection = vi.spyOn(
+      FeedbackCollector.prototype,
+      "addCorrection"
+    );
+
+    await act(async () => {
+      await editorRef.current?.resolveSuspiciousLine(review, null);
+    });
+
+    const line = body.firstElementChild as HTMLElement;
+    expect(line.className).toBe("format-action");
+    expect(line.hasAttribute("data-suspicion-detectors")).toBe(false);
+    // الاقتراح من الوكيل لا من المصنف، فرفضه ليس تصحيحًا لتصنيف
+    expect(addCorrection).not.toHaveBeenCalled();
+  });
+
+  it("records an accepted suggestion as a correction to the new type", async () => {
+    const addCorrection = vi.spyOn(
+      FeedbackCollector.prototype,
+      "addCorrection"
+    );
+
+    await act(async () => {
+      await editorRef.current?.resolveSuspiciousLine(review, "character");
+    });
+
+    expect((body.firstElementChild as HTMLElement).className).toBe(
+      "format-character"
+    );
+    expect(addCorrection).toHaveBeenCalledWith(
+      "يدخل أحمد",
+      "action",
+      "character",
+      62
+    );
+  });
+
+  it("reports the line as pending again after undoing its resolution", async () => {
+    expect(editorRef.current?.isSuspiciousLinePending(review)).toBe(true);
+
+    await act(async () => {
+      await editorRef.current?.resolveSuspiciousLine(review, "character");
+    });
+    expect(editorRef.current?.isSuspiciousLinePending(review)).toBe(false);
+
+    await act(async () => {
+      editorRef.current?.undoCommandOperation();
+    });
+    expect(editorRef.current?.isSuspiciousLinePending(review)).toBe(true);
+    expect(
+      container.querySelector<HTMLElement>('[data-paste-index="0"]')?.className
+    ).toBe("format-action");
+  });
+});
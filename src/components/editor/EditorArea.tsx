@@ -12,29 +12,56 @@ import {
   handlePaste as newHandlePaste,
   runPendingPasteConfirmations,
   ContextMemoryManager,
+  createBlockId,
   EDITOR_STYLE_FORMAT_IDS,
+  applyRevisionMarks,
+  cssObjectToString,
+  getAutocompleteKind,
+  getAutocompleteSuggestions,
+  getBlockRevisionSet,
   getFormatStyles,
   getNextFormatOnTab,
   getNextFormatOnEnter,
   HybridClassifier,
+  layoutScreenplayPages,
   FeedbackCollector,
+  LearnedOverrides,
   htmlToScreenplayBlocks,
   logger,
+  readBlockAttributesFromElement,
+  readInlineRunsFromElement,
+  moveSceneBlocks,
   screenplayBlocksToHtml,
+  type AutocompleteSuggestion,
+  type PasteClassifierMode,
+  type ReviewerConfig,
+  type RevisionModeState,
 } from "@/utils";
+import { SequenceLineClassifier } from "@/ml/sequence-classifier";
 import { FileImportMode } from "@/types/file-import"; // Import this
-import type { ScreenplayBlock } from "@/utils/document-model";
+import type {
+  ScreenplayBlock,
+  ScreenplayBlockMetadata,
+} from "@/utils/document-model";
 import type { ClipboardOrigin, EditorClipboardPayload } from "@/types/editor-clipboard";
+import type { SuspiciousLineReview } from "@/types/agent-review";
 import { FILMLANE_CLIPBOARD_MIME } from "@/types/editor-clipboard";
 import { ClassificationConfirmationDialog } from "./ConfirmationDialog";
+import { AutocompletePopup } from "./AutocompletePopup";
 import {
   formatClassMap,
   screenplayFormats,
   formatShortcutMap,
-  CONTENT_HEIGHT_PX,
 } from "@/constants";
 import type { DocumentStats } from "@/types/screenplay";
 
+/** نطاق التحديد داخل سطر واحد بمواضع الأحرف في نص الكتلة */
+export interface BlockTextSelection {
+  blockId: string;
+  start: number;
+  end: number;
+}
+
 export interface EditorHandle {
   insertContent: (content: string, mode?: "insert" | "replace") => void;
   getElement: () => HTMLDivElement | null;
@@ -51,6 +78,8 @@ export interface EditorHandle {
   pastePlainTextWithClassifier: (text: string) => Promise<void>;
   undoCommandOperation: () => boolean;
   redoCommandOperation: () => boolean;
+  /** مسح سجل التراجع والإعادة (عند فتح مستند آخر مثلاً) */
+  clearCommandHistory: () => void;
   selectAllContent: () => void;
   focusEditor: () => void;
   /** استيراد نص عبر مسار paste 1:1 (يمرر النص كأنه لصق) */
@@ -63,6 +92,31 @@ export interface EditorHandle {
     mode: "replace" | "insert"
   ) => Promise<void>;
   exportStructuredBlocks: () => ScreenplayBlock[];
+  /** تصنيف نص بمصنف اللصق الحالي دون المساس بالمستند (للمقارنة مثلاً) */
+  classifyText: (text: string) => Promise<ScreenplayBlock[]>;
+  /** نقل مشهد كامل (حتى scene-header-1 التالي) كأمر واحد قابل للتراجع */
+  moveScene: (fromIndex: number, toIndex: number) => Promise<boolean>;
+  /** تمرير المحرر إلى السطر ووضع المؤشر في بدايته */
+  scrollToBlock: (blockId: string) => boolean;
+  /** استبدال البيانات الوصفية لسطر (ملخص المشهد مثلاً) كأمر قابل للتراجع */
+  setBlockMetadata: (
+    blockId: string,
+    metadata: ScreenplayBlockMetadata | undefined
+  ) => Promise<boolean>;
+  /** التحديد الحالي إن كان غير فارغ وداخل سطر واحد */
+  getSelectedBlockRange: () => BlockTextSelection | null;
+  /**
+   * حسم سطر مشتبه فيه من لوحة المراجعة كأمر قابل للتراجع:
+   * نوع جديد يُطبَّق ويُسجَّل تصحيحًا، وnull يبقي التصنيف الحالي
+   */
+  resolveSuspiciousLine: (
+    review: SuspiciousLineReview,
+    finalType: string | null
+  ) => Promise<boolean>;
+  /** تمرير المحرر إلى سطر مشتبه فيه */
+  scrollToSuspiciousLine: (review: SuspiciousLineReview) => boolean;
+  /** هل السطر موجود وما زال بانتظار المراجعة (مثلًا بعد التراجع عن حسمه) */
+  isSuspiciousLinePending: (review: SuspiciousLineReview) => boolean;
 }
 
 interface EditorAreaProps {
@@ -72,6 +126,16 @@ interface EditorAreaProps {
   font: string;
   size: string;
   pageCount: number;
+  /** وضع المراجعة: تُعلَّم الكتل المتغيرة منذ الأساس بعلامة * في الهامش */
+  revisionMode?: RevisionModeState | null;
+  /** مفتاح المستند لجدول التصنيفات المتعلّمة من التصحيحات */
+  documentKey?: string;
+  /** مصنف اللصق والاستيراد المختار */
+  classifierMode?: PasteClassifierMode;
+  /** إعدادات كاشفات الاشتباه للمشروع الحالي (تُقرأ وقت اللصق) */
+  getReviewerConfig?: () => Partial<ReviewerConfig>;
+  /** الأسطر المشتبه فيها بعد كل لصق مع اقتراحات الوكيل (دون تطبيقها) */
+  onSuspiciousLines?: (reviews: SuspiciousLineReview[]) => void;
   onImporterReady?: (
     importer: (text: string, mode: FileImportMode) => Promise<void>
   ) => void;
@@ -90,6 +154,14 @@ type EditorCommandSnapshot = {
   selection: SerializedSelection;
 };
 
+type AutocompleteState = {
+  /** السطر الذي فُتحت له الاقتراحات */
+  blockId: string;
+  items: AutocompleteSuggestion[];
+  activeIndex: number;
+  position: { top: number; right: number };
+};
+
 type EditorCommandEntry = {
   before: EditorCommandSnapshot;
   after: EditorCommandSnapshot;
@@ -103,6 +175,48 @@ const isClipboardSourceKind = (
 ): value is EditorClipboardPayload["sourceKind"] =>
   value === "selection" || value === "document";
 
+/**
+ * سمات السطر التي لا تنتقل إلى السطر الجديد عند Enter
+ * (insertParagraph ينسخ كل سمات div الحالي).
+ */
+const SPLIT_LINE_RESET_ATTRIBUTES = [
+  // تصنيف اللصق: السطر المكتوب يدويًا ليس ناتج المصنف
+  "data-classified-as",
+  "data-classified-confidence",
+  "data-corrected-as",
+  "data-paste-batch",
+  "data-paste-index",
+  // علامة الاشتباه تخص السطر الذي راجعه المصنف
+  "data-suspicion-detectors",
+  "title",
+  // هوية الكتلة وبياناتها الوصفية تخص السطر الأصلي وحده
+  "data-block-id",
+  "data-block-meta",
+] as const;
+
+const clearSplitLineAttributes = (element: HTMLElement) => {
+  // سطر العنوان العلوي يحمل الهوية على عنصريه الداخليين
+  const targets = [
+    element,
+    ...Array.from(element.querySelectorAll<HTMLElement>("[data-block-id]")),
+  ];
+  for (const target of targets) {
+    for (const attribute of SPLIT_LINE_RESET_ATTRIBUTES) {
+      target.removeAttribute(attribute);
+    }
+  }
+};
+
+/**
+ * نصف السطر المنقسم الذي يُعامل كسطر جديد: الثاني عادةً، والأول إن
+ * كان Enter في بداية السطر فبقي فارغًا وانتقل النص كله إلى الثاني.
+ */
+const getSplitOffLine = (
+  first: HTMLElement,
+  second: HTMLElement
+): HTMLElement =>
+  !first.textContent?.trim() && second.textContent?.trim() ? first : second;
+
 const computeClipboardHash = (input: string): string => {
   let hash = 2166136261;
   for (let i = 0; i < input.length; i++) {
@@ -121,6 +235,11 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       font: _font,
       size: _size,
       pageCount: _pageCount,
+      revisionMode = null,
+      documentKey = "default",
+      classifierMode = "heuristic",
+      getReviewerConfig,
+      onSuspiciousLines,
       onImporterReady,
     },
     ref
@@ -139,6 +258,18 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       applying: false,
     });
     const syntheticSelectAllRef = useRef(false);
+    const [autocomplete, setAutocomplete] = useState<AutocompleteState | null>(
+      null
+    );
+    // كتل المستند لاقتراحات الإكمال ما دامت الكتابة في السطر نفسه؛ أي تعديل
+    // آخر يُسقطها فتُقرأ من جديد.
+    const autocompleteBlocksRef = useRef<{
+      line: HTMLElement;
+      blocks: ScreenplayBlock[];
+      blockIndex: number;
+    } | null>(null);
+    // إطار إعادة الترقيم المجدول؛ الإدخالات المتتالية في الإطار نفسه تشترك فيه.
+    const repaginateFrameRef = useRef<number | null>(null);
     const lastInternalClipboardRef = useRef<EditorClipboardPayload | null>(null);
 
     const getAllContentNodes = useCallback(() => {
@@ -166,6 +297,33 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       const formatIds = new Set<string>(EDITOR_STYLE_FORMAT_IDS);
       const blocks: ScreenplayBlock[] = [];
       const bodies = getAllBodies();
+      const seenBlockIds = new Set<string>();
+
+      // معرّف ثابت لكل سطر: يُكتب في DOM عند غيابه أو تكراره
+      // (Enter قد ينسخ data-block-id إلى السطر الجديد).
+      const toBlock = (
+        element: Element,
+        formatId: ScreenplayBlock["formatId"]
+      ): ScreenplayBlock => {
+        const text = (element.textContent || "").trim();
+        const attributes = readBlockAttributesFromElement(element);
+        let id = attributes.id;
+        if (!id || seenBlockIds.has(id)) {
+          if (id) {
+            // نسخة من سطر آخر: بياناته الوصفية لا تنتقل مع النسخة
+            delete attributes.metadata;
+            element.removeAttribute("data-block-meta");
+          }
+          id = createBlockId();
+          element.setAttribute("data-block-id", id);
+        }
+        seenBlockIds.add(id);
+
+        const block: ScreenplayBlock = { ...attributes, formatId, text, id };
+        const runs = readInlineRunsFromElement(element, text);
+        if (runs) block.runs = runs;
+        return block;
+      };
 
       for (const body of bodies) {
         for (const childNode of Array.from(body.childNodes)) {
@@ -181,16 +339,10 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
             );
 
             if (header1) {
-              blocks.push({
-                formatId: "scene-header-1",
-                text: (header1.textContent || "").trim(),
-              });
+              blocks.push(toBlock(header1, "scene-header-1"));
             }
             if (header2) {
-              blocks.push({
-                formatId: "scene-header-2",
-                text: (header2.textContent || "").trim(),
-              });
+              blocks.push(toBlock(header2, "scene-header-2"));
             }
             continue;
           }
@@ -201,10 +353,9 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
           const rawId = classMatch?.slice("format-".length) ?? "";
           const formatId = formatIds.has(rawId) ? rawId : "action";
 
-          blocks.push({
-            formatId: formatId as ScreenplayBlock["formatId"],
-            text: (element.textContent || "").trim(),
-          });
+          blocks.push(
+            toBlock(element, formatId as ScreenplayBlock["formatId"])
+          );
         }
       }
 
@@ -761,10 +912,7 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       }
 
       if (currentElement && currentElement instanceof HTMLElement) {
-        Object.values(formatClassMap).forEach((cls) =>
-          currentElement.classList.remove(cls)
-        );
-        currentElement.classList.add(formatClassMap[formatType]);
+        changeElementFormat(currentElement, formatType);
 
         const newRange = document.createRange();
         newRange.selectNodeContents(currentElement);
@@ -775,180 +923,148 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       }
     };
 
-    // Helper to check if a node is a "character" format (should stay with following dialogue)
-    const isCharacterNode = (node: Element) => {
-      return node.classList.contains(formatClassMap["character"]);
-    };
+    /**
+     * كتل التخطيط لعقد المحرر بالترتيب مع موضع أول كتلة لكل عقدة؛
+     * سطر العنوان العلوي يحمل كتلتي scene-header-1 و scene-header-2.
+     */
+    const readLayoutBlocks = useCallback((nodes: Element[]) => {
+      const formatIds = new Set<string>(EDITOR_STYLE_FORMAT_IDS);
+      const blocks: ScreenplayBlock[] = [];
+      const nodeStarts: number[] = [];
 
-    // Helper to check if a node is dialogue/parenthetical (should stay with character)
-    const isDialogueOrParenthetical = (node: Element) => {
-      return (
-        node.classList.contains(formatClassMap["dialogue"]) ||
-        node.classList.contains(formatClassMap["parenthetical"])
-      );
-    };
+      for (const node of nodes) {
+        nodeStarts.push(blocks.length);
+        const headerParts = node.classList.contains(
+          "format-scene-header-top-line"
+        )
+          ? Array.from(node.children).filter(
+              (child) =>
+                child.classList.contains("format-scene-header-1") ||
+                child.classList.contains("format-scene-header-2")
+            )
+          : [];
+        for (const element of headerParts.length > 0 ? headerParts : [node]) {
+          const rawId =
+            Array.from(element.classList)
+              .find((className) => className.startsWith("format-"))
+              ?.slice("format-".length) ?? "";
+          const formatId = formatIds.has(rawId) ? rawId : "action";
+          blocks.push({
+            formatId: formatId as ScreenplayBlock["formatId"],
+            text: element.textContent ?? "",
+          });
+        }
+      }
+
+      return { blocks, nodeStarts };
+    }, []);
 
+    /**
+     * إعادة توزيع الأسطر على الصفحات، وتحديث إحصاءات المستند من التخطيط نفسه.
+     */
     const repaginate = useCallback(() => {
       if (!containerRef.current) return;
 
       const nodes = getAllContentNodes();
-      if (nodes.length === 0) return;
-
-      const bodies = Array.from(
-        containerRef.current.querySelectorAll(".screenplay-sheet__body")
-      ) as HTMLElement[];
-
-      if (bodies.length === 0) return;
-
-      let currentBodyIndex = 0;
-      let currentBody = bodies[currentBodyIndex];
-      let currentHeight = 0;
+      const { blocks, nodeStarts } = readLayoutBlocks(nodes);
+      const layout = layoutScreenplayPages(blocks);
+
+      const allText = nodes
+        .map((node) => (node as HTMLElement).innerText)
+        .join("\n");
+      onStatsChange({
+        words: allText.trim().split(/\s+/).filter(Boolean).length,
+        characters: allText.length,
+        pages: layout.pageCount,
+        scenes: containerRef.current.querySelectorAll(".format-scene-header-1")
+          .length,
+      });
 
-      const allNodes = [...nodes];
+      const bodies = getAllBodies();
+      if (nodes.length === 0 || bodies.length === 0) return;
 
       bodies.forEach((b) => (b.innerHTML = ""));
+      nodes.forEach((node, index) => {
+        // حتى تُضاف الصفحات الناقصة تبقى العقد الزائدة في آخر صفحة.
+        const pageIndex = Math.min(
+          layout.blockPages[nodeStarts[index]],
+          bodies.length - 1
+        );
+        bodies[pageIndex].appendChild(node);
+      });
 
-      currentBody = bodies[0];
-      currentHeight = 0;
-      currentBodyIndex = 0;
-
-      let nodesBuffer: Element[] = [];
-
-      // Get group of related nodes (character + dialogue/parenthetical)
-      const getRelatedGroup = (startIndex: number): Element[] => {
-        const group: Element[] = [allNodes[startIndex]];
-
-        // If this is a character, include following dialogue/parenthetical
-        if (isCharacterNode(allNodes[startIndex])) {
-          for (let j = startIndex + 1; j < allNodes.length; j++) {
-            if (isDialogueOrParenthetical(allNodes[j])) {
-              group.push(allNodes[j]);
-              // Only keep first dialogue block with character
-              if (allNodes[j].classList.contains(formatClassMap["dialogue"])) {
-                break;
-              }
-            } else {
-              break;
-            }
-          }
-        }
-        return group;
-      };
-
-      for (let i = 0; i < allNodes.length; i++) {
-        const node = allNodes[i] as HTMLElement;
-
-        // Check if this is a character node - we need to keep it with its dialogue
-        if (isCharacterNode(node)) {
-          const group = getRelatedGroup(i);
-          let groupHeight = 0;
-
-          // Calculate total height of the group
-          group.forEach((n) => {
-            currentBody.appendChild(n);
-            groupHeight +=
-              (n as HTMLElement).offsetHeight +
-              parseInt(window.getComputedStyle(n).marginTop || "0") +
-              parseInt(window.getComputedStyle(n).marginBottom || "0");
-          });
-
-          // Remove them temporarily
-          group.forEach((n) => currentBody.removeChild(n));
-
-          // Check if group fits on current page
-          if (
-            currentHeight + groupHeight > CONTENT_HEIGHT_PX - 20 &&
-            currentHeight > 0
-          ) {
-            // Move entire group to next page
-            currentBodyIndex++;
-            if (currentBodyIndex >= bodies.length) {
-              nodesBuffer = allNodes.slice(i);
-              break;
-            }
-            currentBody = bodies[currentBodyIndex];
-            currentHeight = 0;
-          }
-
-          // Add the group
-          group.forEach((n) => {
-            currentBody.appendChild(n);
-            currentHeight +=
-              (n as HTMLElement).offsetHeight +
-              parseInt(window.getComputedStyle(n).marginTop || "0") +
-              parseInt(window.getComputedStyle(n).marginBottom || "0");
-          });
-
-          // Skip the nodes we already processed
-          i += group.length - 1;
-          continue;
-        }
-
-        // Regular node handling
-        currentBody.appendChild(node);
-
-        const nodeHeight =
-          node.offsetHeight +
-          parseInt(window.getComputedStyle(node).marginTop || "0") +
-          parseInt(window.getComputedStyle(node).marginBottom || "0");
-
-        if (currentHeight + nodeHeight > CONTENT_HEIGHT_PX - 20) {
-          if (currentHeight > 0) {
-            currentBody.removeChild(node);
-
-            currentBodyIndex++;
-            if (currentBodyIndex >= bodies.length) {
-              nodesBuffer = allNodes.slice(i);
-              break;
-            }
+      if (layout.pageCount !== bodies.length) {
+        setPages(
+          Array.from({ length: layout.pageCount }, (_, index) => index + 1)
+        );
+      }
+    }, [getAllBodies, getAllContentNodes, readLayoutBlocks, onStatsChange]);
 
-            currentBody = bodies[currentBodyIndex];
-            currentBody.appendChild(node);
-            currentHeight = nodeHeight;
-          } else {
-            currentHeight += nodeHeight;
-          }
-        } else {
-          currentHeight += nodeHeight;
-        }
+    /**
+     * تحديث علامات المراجعة (data-revised) على عناصر الكتل المتغيرة.
+     */
+    const refreshRevisionMarks = useCallback(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const marked = container.querySelectorAll("[data-revised]");
+      if (!revisionMode) {
+        marked.forEach((element) => element.removeAttribute("data-revised"));
+        return;
       }
 
-      if (nodesBuffer.length > 0) {
-        setPages((prev) => [
-          ...prev,
-          ...Array.from({ length: 1 }, (_, k) => prev.length + 1 + k),
-        ]);
-        nodesBuffer.forEach((n) => currentBody.appendChild(n));
+      const elementsById = new Map<string, Element>();
+      const blocks = extractBlocksFromEditorBodies();
+      container
+        .querySelectorAll("[data-block-id]")
+        .forEach((element) =>
+          elementsById.set(element.getAttribute("data-block-id") ?? "", element)
+        );
+      marked.forEach((element) => element.removeAttribute("data-revised"));
+      for (const block of applyRevisionMarks(blocks, revisionMode)) {
+        const revisionSet = getBlockRevisionSet(block, revisionMode.sets);
+        const element = block.id ? elementsById.get(block.id) : undefined;
+        if (revisionSet && element) {
+          element.setAttribute("data-revised", revisionSet.color);
+        }
       }
-    }, [getAllContentNodes]);
+    }, [revisionMode, extractBlocksFromEditorBodies]);
 
-    const handleInput = useCallback(() => {
+    useEffect(() => {
+      refreshRevisionMarks();
+    }, [refreshRevisionMarks]);
+
+    /**
+     * ما يلي كل تعديل: إشعار التغيير وجدولة إعادة الترقيم (ومعها الإحصاءات)
+     * مرة واحدة لكل إطار.
+     */
+    const refreshAfterEdit = useCallback(() => {
       onContentChange();
-      requestAnimationFrame(repaginate);
-
-      if (containerRef.current) {
-        const allText = getAllContentNodes()
-          .map((n) => (n as HTMLElement).innerText)
-          .join("\n");
-        const words = allText.trim().split(/\s+/).filter(Boolean).length;
-        const characters = allText.length;
-        const scenes = containerRef.current.querySelectorAll(
-          ".format-scene-header-1"
-        ).length;
-        onStatsChange({ words, characters, pages: pages.length, scenes });
+      if (repaginateFrameRef.current === null) {
+        repaginateFrameRef.current = requestAnimationFrame(() => {
+          repaginateFrameRef.current = null;
+          repaginate();
+        });
+      }
+      if (revisionMode) {
+        requestAnimationFrame(refreshRevisionMarks);
       }
 
       const format = getCurrentFormat();
       onFormatChange(format);
     }, [
       onContentChange,
-      onStatsChange,
       onFormatChange,
-      getAllContentNodes,
-      pages.length,
       repaginate,
+      revisionMode,
+      refreshRevisionMarks,
     ]);
 
+    /** كل تعديل غير الكتابة داخل السطر الحالي قد يغيّر أسطرًا أخرى */
+    const handleInput = useCallback(() => {
+      autocompleteBlocksRef.current = null;
+      refreshAfterEdit();
+    }, [refreshAfterEdit]);
+
     const applyCommandSnapshot = useCallback(
       (snapshot: EditorCommandSnapshot) => {
         const bodies = getAllBodies();
@@ -985,6 +1101,67 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       return hc;
     }, [memoryManager]);
     const feedbackCollector = useMemo(() => new FeedbackCollector(), []);
+    const learnedOverrides = useMemo(
+      () => new LearnedOverrides(documentKey),
+      [documentKey]
+    );
+    // يُهيَّأ المصنف التسلسلي من تصحيحات المستند المحفوظة في جدوله المتعلَّم
+    // عند فتح المستند أو التحول إلى الوضع التسلسلي، ولا يُنشأ في وضع القواعد.
+    const sequenceClassifier = useMemo(() => {
+      if (classifierMode !== "sequence") return null;
+      const classifier = new SequenceLineClassifier();
+      const corrections = learnedOverrides.exportForTraining();
+      if (corrections.length > 0) classifier.train(corrections);
+      return classifier;
+    }, [learnedOverrides, classifierMode]);
+
+    /**
+     * تغيير تنسيق سطر صنّفه اللصق أو الاستيراد يُسجَّل تصحيحًا في
+     * FeedbackCollector (سجل التصحيحات) وفي جدول المستند المتعلَّم.
+     */
+    const recordFormatCorrection = (
+      element: HTMLElement,
+      newFormat: string
+    ) => {
+      const classifiedAs = element.getAttribute("data-classified-as");
+      const text = (element.textContent ?? "").trim();
+      if (!classifiedAs || !text) return;
+      const previous =
+        element.getAttribute("data-corrected-as") ?? classifiedAs;
+      if (newFormat === previous) return;
+
+      // تصحيح السطر يحسم الاشتباه الذي رفعته الكاشفات
+      if (element.hasAttribute("data-suspicion-detectors")) {
+        element.removeAttribute("data-suspicion-detectors");
+        element.removeAttribute("title");
+      }
+
+      if (previous !== classifiedAs) learnedOverrides.forget(text, previous);
+      if (newFormat === classifiedAs) {
+        element.removeAttribute("data-corrected-as");
+      } else {
+        element.setAttribute("data-corrected-as", newFormat);
+        learnedOverrides.record(text, newFormat);
+        feedbackCollector.addCorrection(
+          text,
+          classifiedAs,
+          newFormat,
+          Number(element.getAttribute("data-classified-confidence") ?? 0)
+        );
+      }
+      // المصنف التسلسلي سريع التدريب، فيُعاد تدريبه من جدول المستند مع كل
+      // تصحيح أو تراجع عنه ما دام الوضع التسلسلي مفعّلًا.
+      sequenceClassifier?.retrain(learnedOverrides.exportForTraining());
+    };
+
+    /** تغيير نوع سطر مع تسجيله تصحيحًا للتصنيف */
+    const changeElementFormat = (element: HTMLElement, formatType: string) => {
+      recordFormatCorrection(element, formatType);
+      Object.values(formatClassMap).forEach((cls) =>
+        element.classList.remove(cls)
+      );
+      element.classList.add(formatClassMap[formatType]);
+    };
 
     const [pendingConfirmations, setPendingConfirmations] = useState<
       Array<{ pasteBatchId: string; count: number }>
@@ -1074,21 +1251,23 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
           virtualEditorRef,
           (formatType) => getFormatStyles(formatType, fixedSize, fixedFont),
           handleInput,
-          memoryManager,
-          undefined,
-          hybridClassifier,
-          feedbackCollector,
-          requestConfirmation,
-          (pasteBatchId, pendingCount) => {
-            setPendingConfirmations((prev) => [
-              ...prev,
-              { pasteBatchId, count: pendingCount },
-            ]);
-          },
-          null,
-          null,
-          null,
-          importSource
+          {
+            memoryManager,
+            hybridClassifier,
+            feedbackCollector,
+            confirmationCallback: requestConfirmation,
+            onPendingConfirmations: (pasteBatchId, pendingCount) => {
+              setPendingConfirmations((prev) => [
+                ...prev,
+                { pasteBatchId, count: pendingCount },
+              ]);
+            },
+            importSource,
+            learnedOverrides,
+            sequenceClassifier,
+            reviewerConfig: getReviewerConfig?.(),
+            onSuspiciousLines,
+          }
         );
       },
       [
@@ -1099,6 +1278,10 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
         memoryManager,
           hybridClassifier,
           feedbackCollector,
+          learnedOverrides,
+          sequenceClassifier,
+          getReviewerConfig,
+          onSuspiciousLines,
           requestConfirmation,
           setPendingConfirmations,
         ]
@@ -1642,6 +1825,176 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       [applyStructuredBlocks]
     );
 
+    /**
+     * يمرر النص عبر مسار اللصق في محرر مؤقت خارج الصفحات ثم يعيد تحديد
+     * الكاتب كما كان؛ بلا تأكيدات ولا مراجعة وكيل.
+     */
+    const classifyText = useCallback(
+      async (text: string): Promise<ScreenplayBlock[]> => {
+        const scratch = document.createElement("div");
+        scratch.contentEditable = "true";
+        scratch.style.position = "fixed";
+        scratch.style.left = "-10000px";
+        document.body.appendChild(scratch);
+
+        const selection = window.getSelection();
+        const savedRange =
+          selection && selection.rangeCount > 0
+            ? selection.getRangeAt(0).cloneRange()
+            : null;
+        const range = document.createRange();
+        range.selectNodeContents(scratch);
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+
+        try {
+          await newHandlePaste(
+            {
+              preventDefault: () => {},
+              clipboardData: {
+                getData: (format: string) =>
+                  format === "text/plain" ? text : "",
+              },
+            } as unknown as React.ClipboardEvent<HTMLDivElement>,
+            { current: scratch },
+            (formatType) => getFormatStyles(formatType, fixedSize, fixedFont),
+            () => {},
+            {
+              // ملف المقارنة (نسخة شريك الكتابة مثلاً) لا يشارك ذاكرة سياق
+              // المستند ولا يُسجَّل فيها.
+              memoryManager: new ContextMemoryManager(),
+              recordMemory: false,
+              importSource: "file-import",
+              learnedOverrides,
+              sequenceClassifier,
+              reviewerConfig: { enabledDetectors: new Set<string>() },
+            }
+          );
+          return htmlToScreenplayBlocks(scratch.innerHTML);
+        } finally {
+          scratch.remove();
+          selection?.removeAllRanges();
+          if (savedRange) selection?.addRange(savedRange);
+        }
+      },
+      [fixedSize, fixedFont, learnedOverrides, sequenceClassifier]
+    );
+
+    const moveScene = useCallback(
+      async (fromIndex: number, toIndex: number): Promise<boolean> => {
+        const blocks = moveSceneBlocks(
+          extractBlocksFromEditorBodies(),
+          fromIndex,
+          toIndex
+        );
+        if (!blocks) return false;
+        await applyStructuredBlocks(blocks, "replace");
+        return true;
+      },
+      [applyStructuredBlocks, extractBlocksFromEditorBodies]
+    );
+
+    const findBlockElement = useCallback(
+      (blockId: string): HTMLElement | null => {
+        const container = containerRef.current;
+        if (!container) return null;
+        return (
+          Array.from(
+            container.querySelectorAll<HTMLElement>("[data-block-id]")
+          ).find(
+            (candidate) => candidate.getAttribute("data-block-id") === blockId
+          ) ?? null
+        );
+      },
+      []
+    );
+
+    const revealElement = useCallback((element: HTMLElement) => {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      const body = element.closest<HTMLElement>(".screenplay-sheet__body");
+      body?.focus({ preventScroll: true });
+      const selection = window.getSelection();
+      if (selection) {
+        const range = document.createRange();
+        range.selectNodeContents(element);
+        range.collapse(true);
+        selection.removeAllRanges();
+        selection.addRange(range);
+      }
+    }, []);
+
+    const scrollToBlock = useCallback(
+      (blockId: string): boolean => {
+        const element = findBlockElement(blockId);
+        if (!element) return false;
+        revealElement(element);
+        return true;
+      },
+      [findBlockElement, revealElement]
+    );
+
+    /** سطر اللصق المقابل لمدخل لوحة المراجعة */
+    const findSuspiciousLineElement = useCallback(
+      (review: SuspiciousLineReview): HTMLElement | null =>
+        containerRef.current?.querySelector<HTMLElement>(
+          `[data-paste-batch="${review.pasteBatchId}"][data-paste-index="${review.itemIndex}"]`
+        ) ?? null,
+      []
+    );
+
+    const scrollToSuspiciousLine = (review: SuspiciousLineReview): boolean => {
+      const element = findSuspiciousLineElement(review);
+      if (!element) return false;
+      revealElement(element);
+      return true;
+    };
+
+    const isSuspiciousLinePending = (review: SuspiciousLineReview): boolean =>
+      findSuspiciousLineElement(review)?.hasAttribute(
+        "data-suspicion-detectors"
+      ) ?? false;
+
+    const resolveSuspiciousLine = async (
+      review: SuspiciousLineReview,
+      finalType: string | null
+    ): Promise<boolean> => {
+      const element = findSuspiciousLineElement(review);
+      if (!element) return false;
+      await executeCommandWithHistory(async () => {
+        if (finalType) {
+          changeElementFormat(element, finalType);
+          element.setAttribute(
+            "style",
+            cssObjectToString(getFormatStyles(finalType, fixedSize, fixedFont))
+          );
+        }
+        element.removeAttribute("data-suspicion-detectors");
+        element.removeAttribute("title");
+      });
+      handleInput();
+      return true;
+    };
+
+    const setBlockMetadata = useCallback(
+      async (
+        blockId: string,
+        metadata: ScreenplayBlockMetadata | undefined
+      ): Promise<boolean> => {
+        const element = findBlockElement(blockId);
+        if (!element) return false;
+        await executeCommandWithHistory(async () => {
+          if (metadata && Object.keys(metadata).length > 0) {
+            element.setAttribute("data-block-meta", JSON.stringify(metadata));
+          } else {
+            element.removeAttribute("data-block-meta");
+          }
+        });
+        handleInput();
+        return true;
+      },
+      [executeCommandWithHistory, findBlockElement, handleInput]
+    );
+
     // Expose importer
     useEffect(() => {
       if (onImporterReady) {
@@ -1699,7 +2052,174 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       ]
     );
 
+    const getCurrentLineElement = (): HTMLElement | null => {
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0) return null;
+      let node: Node | null = selection.getRangeAt(0).startContainer;
+      while (
+        node &&
+        !node.parentElement?.classList.contains("screenplay-sheet__body")
+      ) {
+        node = node.parentNode;
+      }
+      return node instanceof HTMLElement ? node : null;
+    };
+
+    const getSelectedBlockRange = (): BlockTextSelection | null => {
+      const range = getSelectionRangeInsideEditor();
+      const line = getCurrentLineElement();
+      if (!range || range.collapsed || !line?.contains(range.endContainer)) {
+        return null;
+      }
+      // يضمن وجود data-block-id للسطر قبل قراءته.
+      extractBlocksFromEditorBodies();
+      const blockId = line.getAttribute("data-block-id");
+      if (!blockId) return null;
+
+      // نص الكتلة مقصوص الطرفين، فتُطرح المسافات البادئة من المواضع.
+      const content = line.textContent ?? "";
+      const leading = content.length - content.trimStart().length;
+      const offsetOf = (container: Node, offset: number) => {
+        const prefix = document.createRange();
+        prefix.selectNodeContents(line);
+        prefix.setEnd(container, offset);
+        return Math.max(0, prefix.toString().length - leading);
+      };
+      // تحديد يبدأ في سطر سابق يُقصّ إلى بداية السطر الحالي.
+      return {
+        blockId,
+        start: line.contains(range.startContainer)
+          ? offsetOf(range.startContainer, range.startOffset)
+          : 0,
+        end: offsetOf(range.endContainer, range.endOffset),
+      };
+    };
+
+    /**
+     * اقتراحات الإكمال للسطر الحالي (شخصية، مكان، انتقال) بعد كل إدخال.
+     */
+    const updateAutocomplete = () => {
+      const container = containerRef.current;
+      const line = getCurrentLineElement();
+      const kind = getAutocompleteKind(getCurrentFormat());
+      const prefix = line?.textContent ?? "";
+      if (!container || !line || !kind || !prefix.trim()) {
+        autocompleteBlocksRef.current = null;
+        setAutocomplete(null);
+        return;
+      }
+
+      // الكتابة في السطر نفسه لا تغيّر بقية الأسطر، فتُقرأ الكتل مرة لكل سطر.
+      let cached = autocompleteBlocksRef.current;
+      if (cached?.line !== line) {
+        const blocks = extractBlocksFromEditorBodies();
+        const lineBlockId = line.getAttribute("data-block-id") ?? "";
+        cached = {
+          line,
+          blocks,
+          blockIndex: blocks.findIndex((block) => block.id === lineBlockId),
+        };
+        autocompleteBlocksRef.current = cached;
+      }
+      const blockId = line.getAttribute("data-block-id") ?? "";
+      const items = getAutocompleteSuggestions(cached.blocks, {
+        kind,
+        prefix,
+        blockIndex: cached.blockIndex,
+      });
+      if (items.length === 0) {
+        setAutocomplete(null);
+        return;
+      }
+
+      // المؤشر هو نهاية المكتوب؛ في RTL تمتد القائمة من عنده نحو اليسار.
+      const selection = window.getSelection();
+      const caretRect =
+        selection && selection.rangeCount > 0
+          ? selection.getRangeAt(0).getBoundingClientRect()
+          : null;
+      const anchorRect =
+        caretRect && caretRect.height > 0
+          ? caretRect
+          : line.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      setAutocomplete({
+        blockId,
+        items,
+        activeIndex: 0,
+        position: {
+          top: anchorRect.bottom - containerRect.top + 4,
+          right: Math.max(0, containerRect.right - anchorRect.right),
+        },
+      });
+    };
+
+    const acceptAutocomplete = async (suggestion: AutocompleteSuggestion) => {
+      const line = autocomplete ? findBlockElement(autocomplete.blockId) : null;
+      setAutocomplete(null);
+      if (!line) return;
+      await executeCommandWithHistory(async () => {
+        line.textContent = suggestion.value;
+        const selection = window.getSelection();
+        if (!selection) return;
+        const range = document.createRange();
+        range.selectNodeContents(line);
+        range.collapse(false);
+        selection.removeAllRanges();
+        selection.addRange(range);
+      });
+      handleInput();
+    };
+
+    const handleEditorInput = () => {
+      refreshAfterEdit();
+      updateAutocomplete();
+    };
+
+    const handleAutocompleteKeyDown = (
+      e: React.KeyboardEvent<HTMLDivElement>
+    ): boolean => {
+      if (!autocomplete) return false;
+      const count = autocomplete.items.length;
+      switch (e.key) {
+        case "ArrowDown":
+        case "ArrowUp": {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setAutocomplete({
+            ...autocomplete,
+            activeIndex: (autocomplete.activeIndex + step + count) % count,
+          });
+          return true;
+        }
+        case "Tab":
+          if (e.shiftKey) break;
+          e.preventDefault();
+          void acceptAutocomplete(autocomplete.items[autocomplete.activeIndex]);
+          return true;
+        // Enter ينهي السطر كما كُتب؛ القبول بـ Tab أو بالنقر على الاقتراح فقط
+        case "Enter":
+          setAutocomplete(null);
+          break;
+        case "Escape":
+          e.preventDefault();
+          setAutocomplete(null);
+          return true;
+        case "ArrowLeft":
+        case "ArrowRight":
+        case "Home":
+        case "End":
+        case "PageUp":
+        case "PageDown":
+          setAutocomplete(null);
+          break;
+      }
+      return false;
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (handleAutocompleteKeyDown(e)) return;
+
       if (e.key === "Delete" || e.key === "Backspace") {
         const activeRange = getSelectionRangeInsideEditor();
         const hasActiveSelection =
@@ -1716,9 +2236,30 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
         e.preventDefault();
         const currentFormat = getCurrentFormat();
         const nextFormat = getNextFormatOnEnter(currentFormat);
+        const sourceLine = getCurrentLineElement();
+        const previousSibling = sourceLine?.previousElementSibling ?? null;
 
         document.execCommand("insertParagraph");
 
+        const caretLine = getCurrentLineElement();
+        // السطر الآخر: حيث انتقل المؤشر، أو سطر أُدرج قبل السطر الحالي
+        const partner =
+          caretLine !== sourceLine
+            ? caretLine
+            : sourceLine?.previousElementSibling !== previousSibling
+              ? sourceLine?.previousElementSibling
+              : null;
+        if (sourceLine && partner instanceof HTMLElement) {
+          const partnerFollows =
+            sourceLine.compareDocumentPosition(partner) &
+            Node.DOCUMENT_POSITION_FOLLOWING;
+          clearSplitLineAttributes(
+            partnerFollows
+              ? getSplitOffLine(sourceLine, partner)
+              : getSplitOffLine(partner, sourceLine)
+          );
+        }
+
         const selection = window.getSelection();
         if (selection && selection.rangeCount > 0) {
           const range = selection.getRangeAt(0);
@@ -1815,6 +2356,10 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       pastePlainTextWithClassifier,
       undoCommandOperation,
       redoCommandOperation,
+      clearCommandHistory: () => {
+        commandHistoryRef.current.undo = [];
+        commandHistoryRef.current.redo = [];
+      },
       selectAllContent,
       focusEditor: () => {
         const bodies = getAllBodies();
@@ -1825,10 +2370,18 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
       importClassifiedText,
       importStructuredBlocks,
       exportStructuredBlocks: extractBlocksFromEditorBodies,
+      classifyText,
+      moveScene,
+      scrollToBlock,
+      setBlockMetadata,
+      getSelectedBlockRange,
+      resolveSuspiciousLine,
+      scrollToSuspiciousLine,
+      isSuspiciousLinePending,
     }));
 
     return (
-      <div className="screenplay-container" ref={containerRef}>
+      <div className="screenplay-container relative" ref={containerRef}>
         {pendingConfirmations.length > 0 && (
           <div className="mb-3 flex justify-end">
             <button
@@ -1849,6 +2402,17 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
           onConfirm={handleConfirmClassification}
           onCancel={handleCancelConfirmation}
         />
+        {autocomplete && (
+          <AutocompletePopup
+            items={autocomplete.items}
+            activeIndex={autocomplete.activeIndex}
+            position={autocomplete.position}
+            onSelect={(suggestion) => void acceptAutocomplete(suggestion)}
+            onHover={(activeIndex) =>
+              setAutocomplete({ ...autocomplete, activeIndex })
+            }
+          />
+        )}
         {pages.map((pageId, index) => (
           <div
             key={pageId}
@@ -1867,11 +2431,13 @@ export const EditorArea = forwardRef<EditorHandle, EditorAreaProps>(
               className="screenplay-sheet__body"
               contentEditable={true}
               suppressContentEditableWarning={true}
-              onInput={handleInput}
+              onInput={handleEditorInput}
               onPaste={handlePaste}
               onCopy={handleCopyEvent}
               onCut={handleCut}
               onKeyDown={handleKeyDown}
+              onMouseDown={() => setAutocomplete(null)}
+              onBlur={() => setAutocomplete(null)}
             />
 
             <div className="screenplay-sheet__footer">
@@ -1,13 +1,35 @@
 "use client";
 
-import type { DocumentStats } from "@/types/screenplay";
+import type { DocumentStats, SaveState } from "@/types/screenplay";
+import { cn } from "@/utils";
 
 interface EditorFooterProps {
   stats: DocumentStats;
   currentFormatLabel: string;
+  saveState?: SaveState;
 }
 
-export function EditorFooter({ stats, currentFormatLabel }: EditorFooterProps) {
+const SAVE_STATE_LABELS: Record<SaveState, string> = {
+  saved: "محفوظ",
+  unsaved: "تغييرات غير محفوظة",
+  saving: "جاري الحفظ...",
+  "snapshot-saved": "غير محفوظ (لقطة استرجاع محفوظة)",
+  error: "فشل الحفظ",
+};
+
+const SAVE_STATE_DOTS: Record<SaveState, string> = {
+  saved: "bg-green-500",
+  unsaved: "bg-amber-500",
+  saving: "animate-pulse bg-blue-500",
+  "snapshot-saved": "bg-amber-300",
+  error: "bg-red-500",
+};
+
+export function EditorFooter({
+  stats,
+  currentFormatLabel,
+  saveState,
+}: EditorFooterProps) {
   return (
     <footer
       className="flex-shrink-0 border-t bg-card px-4 py-1.5 text-xs"
@@ -21,6 +43,17 @@ export function EditorFooter({ stats, currentFormatLabel }: EditorFooterProps) {
           <span className="hidden sm:inline">{stats.scenes} مشهد</span>
         </div>
         <div className="flex items-center gap-2 text-muted-foreground">
+          {saveState && (
+            <span className="flex items-center gap-1" role="status">
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full",
+                  SAVE_STATE_DOTS[saveState]
+                )}
+              />
+              {SAVE_STATE_LABELS[saveState]}
+            </span>
+          )}
           <span>{currentFormatLabel || "..."}</span>
         </div>
       </div>
@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useState } from "react";
+import { IconGripVertical } from "@tabler/icons-react";
+import { cn, type SceneOutlineEntry } from "@/utils";
+
+interface SceneNavigatorProps {
+  scenes: SceneOutlineEntry[];
+  onSelect: (scene: SceneOutlineEntry) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+}
+
+const describeScene = (scene: SceneOutlineEntry): string =>
+  [scene.setting, scene.time, scene.location].filter(Boolean).join(" · ");
+
+/**
+ * مستكشف المشاهد: الانتقال إلى المشهد بالنقر وإعادة ترتيبه بالسحب والإفلات.
+ */
+export const SceneNavigator: React.FC<SceneNavigatorProps> = ({
+  scenes,
+  onSelect,
+  onMove,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  if (scenes.length === 0) {
+    return (
+      <p className="px-3 py-2 text-xs text-neutral-600">لا توجد مشاهد بعد.</p>
+    );
+  }
+
+  return (
+    <ol className="max-h-80 space-y-1 overflow-y-auto">
+      {scenes.map((scene) => (
+        <li
+          key={scene.blockId ?? scene.index}
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", String(scene.index));
+            setDragIndex(scene.index);
+          }}
+          onDragOver={(event) => {
+            if (dragIndex === null) return;
+            event.preventDefault();
+            setOverIndex(scene.index);
+          }}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (dragIndex !== null && dragIndex !== scene.index) {
+              onMove(dragIndex, scene.index);
+            }
+            resetDrag();
+          }}
+          onDragEnd={resetDrag}
+          onClick={() => onSelect(scene)}
+          className={cn(
+            "flex cursor-pointer items-center gap-2 rounded-lg px-2 py-2 text-xs text-neutral-400 transition-colors hover:bg-white/5 hover:text-white",
+            dragIndex === scene.index && "opacity-40",
+            overIndex === scene.index &&
+              dragIndex !== scene.index &&
+              "bg-primary/10 ring-primary/40 ring-1"
+          )}
+        >
+          <IconGripVertical
+            size={12}
+            className="shrink-0 cursor-grab text-neutral-600"
+          />
+          <span className="w-8 shrink-0 font-mono text-neutral-500">
+            {scene.sceneNumber ?? scene.index + 1}
+          </span>
+          <span className="truncate">
+            {describeScene(scene) || "مشهد بلا عنوان"}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SceneNavigator;
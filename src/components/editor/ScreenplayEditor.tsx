@@ -36,30 +36,146 @@ import {
   IconPrinter,
   IconKeyboard,
   IconHelp,
+  IconListNumbers,
+  IconLock,
+  IconLockOpen,
+  IconAsterisk,
+  IconFlagOff,
+  IconGitCompare,
+  IconBook,
+  IconLayoutList,
+  IconLayoutGrid,
+  IconUsers,
+  IconReportAnalytics,
+  IconTag,
+  IconTags,
+  IconBrain,
+  IconAlertTriangle,
 } from "@tabler/icons-react";
 import {
+  addBreakdownTag,
   applyPhotoMontageToSceneHeaderLine,
+  applyRevisionMarks,
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  buildBreakdownElements,
+  buildBreakdownElementsTable,
+  buildBreakdownScenes,
+  buildBreakdownSheetsTable,
+  buildBreakdownTable,
   buildFileOpenPipelineAction,
+  buildSceneBreakdownSheets,
+  buildSceneCards,
+  buildSceneOutline,
+  buildSeriesBible,
+  clearRevisionMarks,
+  clearLearnedOverrides,
   cn,
+  collectCharacterStats,
+  createProjectFromBlocks,
+  createProjectId,
+  createSnapshotRevision,
+  DEFAULT_EDITOR_SETTINGS,
   EDITOR_STYLE_FORMAT_IDS,
+  exportBreakdownToCsv,
+  exportBreakdownToPDF,
   exportToDocx,
+  exportToFdx,
+  exportToFilmlane,
+  exportToFountain,
   exportToPDF,
+  getCharacterKey,
+  getDocumentStore,
+  isSameSnapshotContent,
+  lockSceneNumbers,
   logger,
+  moveLearnedOverrides,
+  readBreakdownTags,
+  removeBreakdownTags,
+  renameCharacter,
+  renumberScenes,
+  resolveExtractionBlocks,
+  reviewerConfigFromSettings,
+  startRevisionSet,
+  unlockSceneNumbers,
+  withSceneCardDetails,
+  type BreakdownCategoryId,
+  type BreakdownElement,
+  type BreakdownReportKind,
+  type BreakdownTable,
+  type BreakdownTag,
+  type CharacterRenameResult,
+  type CharacterStats,
   type EditorStyleFormatId,
+  type FilmlaneProject,
+  type PasteClassifierMode,
+  type ProjectRevision,
+  type RecoverySnapshot,
+  type RevisionModeState,
+  type ScreenplayBlock,
+  type SceneCard,
+  type SceneBreakdownSheet,
+  type SceneCardDetails,
+  type SceneNumberingResult,
+  type SceneOutlineEntry,
+  type SeriesBible,
+  type WorkspaceDocument,
+  type WorkspaceProject,
+  type WorkspaceProjectKind,
 } from "@/utils";
 import {
   ACCEPTED_FILE_EXTENSIONS,
   type FileExtractionResponse,
+  type FileExtractionResult,
 } from "@/types/file-import";
 import { motion, AnimatePresence } from "motion/react";
 import { insertMenuDefinitions, screenplayFormats } from "@/constants";
-import { EditorArea, EditorHandle } from "./EditorArea";
+import {
+  EditorArea,
+  EditorHandle,
+  type BlockTextSelection,
+} from "./EditorArea";
 import { EditorFooter } from "./EditorFooter";
+import { TitlePageDialog } from "./TitlePageDialog";
+import { CompareDialog, type CompareSource } from "./CompareDialog";
+import { SeriesBibleDialog } from "./SeriesBibleDialog";
+import { SceneNavigator } from "./SceneNavigator";
+import { SuspiciousLinesPanel } from "./SuspiciousLinesPanel";
+import { CorkboardDialog } from "./CorkboardDialog";
+import { CharactersSheet } from "./CharactersSheet";
+import {
+  BreakdownReportsDialog,
+  type BreakdownExportFormat,
+} from "./BreakdownReportsDialog";
+import { BreakdownTagDialog } from "./BreakdownTagDialog";
+import {
+  BreakdownSheetsDialog,
+  type BreakdownSheetsView,
+} from "./BreakdownSheetsDialog";
+import {
+  VersionHistorySheet,
+  type RevisionRestoreTarget,
+} from "./VersionHistorySheet";
 import { HoverBorderGradient } from "@/components/ui/hover-border-gradient";
 import { BackgroundRippleEffect } from "@/components/ui/background-ripple-effect";
 import { useToast } from "@/hooks/use-toast";
-import type { DocumentStats } from "@/types/screenplay";
+import { useSnapshotAutoSave } from "@/hooks/use-snapshot-autosave";
+import type {
+  DocumentStats,
+  EditorSettings,
+  TitlePageInfo,
+} from "@/types/screenplay";
 import type { ClipboardOrigin } from "@/types/editor-clipboard";
+import type { SuspiciousLineReview } from "@/types/agent-review";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   ContextMenu,
   ContextMenuContent,
@@ -114,6 +230,26 @@ const BackgroundGrid = () => (
 );
 
 // --- Sidebar Item Component ---
+type SidebarEntryAction = {
+  label: string;
+  onSelect: () => void;
+  destructive?: boolean;
+};
+
+/** عنصر قائمة جانبية بمعرّف وإجراءات (قائمة السياق بالنقر الأيمن) */
+type SidebarEntry = {
+  id: string;
+  label: string;
+  /** مستوى الإزاحة (حلقات المشروع تحت اسمه) */
+  depth?: number;
+  /** عنصر توضيحي غير قابل للنقر */
+  muted?: boolean;
+  actions?: SidebarEntryAction[];
+};
+
+const toSidebarEntry = (item: string | SidebarEntry): SidebarEntry =>
+  typeof item === "string" ? { id: item, label: item } : item;
+
 const SidebarItem = ({
   icon: Icon,
   label,
@@ -122,14 +258,17 @@ const SidebarItem = ({
   isOpen = false,
   onToggle,
   onItemClick,
+  children,
 }: {
   icon: React.ElementType;
   label: string;
   active?: boolean;
-  items?: string[];
+  items?: Array<string | SidebarEntry>;
   isOpen?: boolean;
   onToggle?: () => void;
   onItemClick?: (item: string) => void;
+  /** محتوى مخصص يُعرض بدل القائمة (مثل مستكشف المشاهد) */
+  children?: React.ReactNode;
 }) => (
   <div className="mb-2">
     <HoverBorderGradient
@@ -144,7 +283,7 @@ const SidebarItem = ({
     >
       <Icon size={20} stroke={1.5} />
       <span className="flex-1 text-right text-sm font-medium">{label}</span>
-      {items.length > 0 && (
+      {(items.length > 0 || children) && (
         <IconChevronDown
           size={14}
           className={cn(
@@ -156,26 +295,54 @@ const SidebarItem = ({
     </HoverBorderGradient>
 
     <AnimatePresence>
-      {isOpen && items.length > 0 && (
+      {isOpen && (items.length > 0 || children) && (
         <motion.div
           initial={{ opacity: 0, height: 0, marginTop: 0 }}
           animate={{ opacity: 1, height: "auto", marginTop: 8 }}
           exit={{ opacity: 0, height: 0, marginTop: 0 }}
           className="overflow-hidden pr-4"
         >
-          {items.map((subItem, idx) => (
-            <motion.div
-              key={idx}
-              initial={{ x: -10, opacity: 0 }}
-              animate={{ x: 0, opacity: 1 }}
-              transition={{ delay: idx * 0.05 }}
-              onClick={() => onItemClick?.(subItem)}
-              className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-2 text-xs text-neutral-400 transition-colors hover:bg-white/5 hover:text-white"
-            >
-              <div className="h-1 w-1 rounded-full bg-neutral-600" />
-              {subItem}
-            </motion.div>
-          ))}
+          {children}
+          {items.map(toSidebarEntry).map((entry, idx) => {
+            const row = (
+              <motion.div
+                key={entry.id}
+                initial={{ x: -10, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ delay: idx * 0.05 }}
+                onClick={() => {
+                  if (!entry.muted) onItemClick?.(entry.id);
+                }}
+                style={{ paddingRight: `${0.75 + (entry.depth ?? 0)}rem` }}
+                className={cn(
+                  "flex items-center gap-2 rounded-lg px-3 py-2 text-xs transition-colors",
+                  entry.muted
+                    ? "text-neutral-600"
+                    : "cursor-pointer text-neutral-400 hover:bg-white/5 hover:text-white"
+                )}
+              >
+                <div className="h-1 w-1 rounded-full bg-neutral-600" />
+                <span className="truncate">{entry.label}</span>
+              </motion.div>
+            );
+            if (!entry.actions?.length) return row;
+            return (
+              <ContextMenu key={entry.id}>
+                <ContextMenuTrigger asChild>{row}</ContextMenuTrigger>
+                <ContextMenuContent>
+                  {entry.actions.map((action) => (
+                    <ContextMenuItem
+                      key={action.label}
+                      onSelect={action.onSelect}
+                      className={cn(action.destructive && "text-red-400")}
+                    >
+                      {action.label}
+                    </ContextMenuItem>
+                  ))}
+                </ContextMenuContent>
+              </ContextMenu>
+            );
+          })}
         </motion.div>
       )}
     </AnimatePresence>
@@ -189,7 +356,14 @@ type MenuActionId =
   | "save-file"
   | "save-as-file"
   | "print-file"
+  | "edit-title-page"
+  | "compare-versions"
+  | "version-history"
   | "export-pdf"
+  | "export-revised-pdf"
+  | "export-docx"
+  | "export-fdx"
+  | "export-fountain"
   | "undo"
   | "redo"
   | "cut"
@@ -202,6 +376,18 @@ type MenuActionId =
   | "align-center"
   | "align-left"
   | "spell-check"
+  | "renumber-scenes"
+  | "lock-scene-numbers"
+  | "unlock-scene-numbers"
+  | "start-revision"
+  | "end-revision"
+  | "series-bible"
+  | "corkboard"
+  | "characters-panel"
+  | "breakdown-reports"
+  | "tag-breakdown-element"
+  | "breakdown-sheets"
+  | "toggle-sequence-classifier"
   | "script-analysis"
   | "ai-suggestions"
   | "show-help"
@@ -225,6 +411,37 @@ const parseInsertActionId = (actionId: string): EditorStyleFormatId | null => {
   return rawId as EditorStyleFormatId;
 };
 
+type WorkspaceListing = {
+  recent: WorkspaceDocument[];
+  projects: Array<{ project: WorkspaceProject; episodes: WorkspaceDocument[] }>;
+};
+
+/** قائمة الشريط الجانبي: المستندات الأخيرة والمشاريع بحلقاتها */
+const loadWorkspaceListing = async (): Promise<WorkspaceListing | null> => {
+  const store = getDocumentStore();
+  try {
+    const [recent, projects] = await Promise.all([
+      store.listRecentDocuments(),
+      store.listProjects(),
+    ]);
+    return {
+      recent,
+      projects: await Promise.all(
+        projects.map(async (project) => ({
+          project,
+          episodes: await store.listProjectDocuments(project.id),
+        }))
+      ),
+    };
+  } catch (error) {
+    logger.warn("تعذّر تحميل مساحة العمل", {
+      component: "Workspace",
+      data: error,
+    });
+    return null;
+  }
+};
+
 export const ScreenplayEditor = () => {
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [openSidebarItem, setOpenSidebarItem] = useState<string | null>(null);
@@ -237,6 +454,88 @@ export const ScreenplayEditor = () => {
   });
 
   const editorRef = useRef<EditorHandle>(null);
+  // بيانات مشروع .filmlane المفتوح حاليًا (صفحة العنوان، الملاحظات، المراجعات...)
+  const projectRef = useRef<FilmlaneProject | null>(null);
+  const [titlePage, setTitlePage] = useState<TitlePageInfo | null>(null);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(
+    DEFAULT_EDITOR_SETTINGS
+  );
+  const [isTitlePageDialogOpen, setIsTitlePageDialogOpen] = useState(false);
+  const [revisionMode, setRevisionMode] = useState<RevisionModeState | null>(
+    null
+  );
+  // كتل المستند عند فتح المقارنة؛ null يعني أن نافذة المقارنة مغلقة.
+  const [compareBaseBlocks, setCompareBaseBlocks] = useState<
+    ScreenplayBlock[] | null
+  >(null);
+  // مستند مساحة العمل المفتوح حاليًا؛ null لمستند لم يُحفظ بعد.
+  const [currentDocument, setCurrentDocument] =
+    useState<WorkspaceDocument | null>(null);
+  // مفتاح جدول التصحيحات المتعلَّمة للمستند غير المحفوظ؛ يتجدد مع كل مستند
+  // جديد أو استيراد يستبدل المحتوى، ويُنقل جدوله إلى معرّف المستند عند حفظه.
+  const [unsavedDocumentKey, setUnsavedDocumentKey] = useState(() =>
+    createProjectId("unsaved")
+  );
+  // مفتاح الجلسة غير المحفوظة الحالية (null والمستند محفوظ) لحذف جدولها
+  // عند إغلاق الصفحة.
+  const unsavedSessionKeyRef = useRef<string | null>(null);
+  const [recentDocuments, setRecentDocuments] = useState<WorkspaceDocument[]>(
+    []
+  );
+  const [workspaceProjects, setWorkspaceProjects] = useState<
+    WorkspaceListing["projects"]
+  >([]);
+  const [seriesBible, setSeriesBible] = useState<{
+    name: string;
+    bible: SeriesBible;
+  } | null>(null);
+  // لقطة جلسة سابقة لم تُحفظ؛ يتوقف الحفظ التلقائي حتى يُقرَّر مصيرها.
+  const [recoverySnapshot, setRecoverySnapshot] =
+    useState<RecoverySnapshot | null>(null);
+  const [isRecoveryChecked, setIsRecoveryChecked] = useState(false);
+  // لقطات سجل النسخ للمستند الحالي؛ null يعني أن اللوحة مغلقة.
+  const [historyRevisions, setHistoryRevisions] = useState<
+    ProjectRevision[] | null
+  >(null);
+  const autoSnapshotRef = useRef<() => Promise<void>>(async () => {});
+  // مخطط المشاهد لمستكشف المشاهد؛ يُحدَّث فقط والمستكشف مفتوح.
+  const [sceneOutline, setSceneOutline] = useState<SceneOutlineEntry[]>([]);
+  const sceneOutlineTimerRef = useRef<number | null>(null);
+  // بطاقات لوحة المشاهد؛ null يعني أن اللوحة مغلقة.
+  const [corkboardCards, setCorkboardCards] = useState<SceneCard[] | null>(
+    null
+  );
+  // إحصاءات لوحة الشخصيات؛ null يعني أن اللوحة مغلقة.
+  const [characterStats, setCharacterStats] = useState<CharacterStats[] | null>(
+    null
+  );
+  // جداول تقارير التفريغ؛ null يعني أن النافذة مغلقة.
+  const [breakdownReports, setBreakdownReports] = useState<Record<
+    BreakdownReportKind,
+    BreakdownTable
+  > | null>(null);
+  // السطر والنطاق المحددان لوسم عنصر تفريغ؛ null يعني أن النافذة مغلقة.
+  const [breakdownTagTarget, setBreakdownTagTarget] = useState<{
+    block: ScreenplayBlock;
+    range: BlockTextSelection;
+  } | null>(null);
+  const [breakdownSheets, setBreakdownSheets] = useState<{
+    sheets: SceneBreakdownSheet[];
+    elements: BreakdownElement[];
+  } | null>(null);
+  const [pasteClassifierMode, setPasteClassifierMode] =
+    useState<PasteClassifierMode>("heuristic");
+  const [suspiciousLines, setSuspiciousLines] = useState<
+    SuspiciousLineReview[]
+  >([]);
+  // أسطر حُسمت من اللوحة؛ تعود إليها إن تراجع المستخدم عن حسمها.
+  const [resolvedSuspiciousLines, setResolvedSuspiciousLines] = useState<
+    SuspiciousLineReview[]
+  >([]);
+  const getProjectReviewerConfig = useCallback(
+    () => reviewerConfigFromSettings(projectRef.current?.reviewer),
+    []
+  );
   const preservedSelectionRef = useRef<Range | null>(null);
   const shortcutActionRef = useRef<
     (actionId: MenuActionId, origin?: CommandOrigin) => void
@@ -247,7 +546,49 @@ export const ScreenplayEditor = () => {
     setActiveMenu(activeMenu === id ? null : id);
   };
 
-  const handleContentChange = useCallback(() => {}, []);
+  const { saveState, markDirty, markSaved } = useSnapshotAutoSave({
+    intervalMs: editorSettings.autoSaveInterval * 1000,
+    enabled: isRecoveryChecked && !recoverySnapshot,
+    save: async () => {
+      await getDocumentStore().saveRecoverySnapshot({
+        documentId: currentDocument?.id ?? null,
+        documentName: currentDocument?.name ?? null,
+        blocks: editorRef.current?.exportStructuredBlocks() ?? [],
+        titlePage,
+        revisionMode,
+        savedAt: new Date().toISOString(),
+      });
+    },
+  });
+
+  const refreshSceneOutline = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor) return [];
+    const outline = buildSceneOutline(editor.exportStructuredBlocks());
+    setSceneOutline(outline);
+    return outline;
+  }, []);
+
+  const handleContentChange = useCallback(() => {
+    markDirty();
+    if (openSidebarItem !== "scenes") return;
+    if (sceneOutlineTimerRef.current !== null) {
+      window.clearTimeout(sceneOutlineTimerRef.current);
+    }
+    sceneOutlineTimerRef.current = window.setTimeout(() => {
+      sceneOutlineTimerRef.current = null;
+      refreshSceneOutline();
+    }, 400);
+  }, [markDirty, openSidebarItem, refreshSceneOutline]);
+
+  useEffect(
+    () => () => {
+      if (sceneOutlineTimerRef.current !== null) {
+        window.clearTimeout(sceneOutlineTimerRef.current);
+      }
+    },
+    []
+  );
   const handleStatsChange = useCallback(
     (newStats: DocumentStats) => setStats(newStats),
     []
@@ -257,12 +598,12 @@ export const ScreenplayEditor = () => {
     []
   );
 
-  const ensureDocxFilename = useCallback((name: string) => {
+  const ensureProjectFilename = useCallback((name: string) => {
     const trimmedName = name.trim();
     if (!trimmedName) return "";
     const sanitizedBase = trimmedName.replace(/[<>:"/\\|?*]+/g, "_");
-    if (!sanitizedBase.toLowerCase().endsWith(".docx")) {
-      return `${sanitizedBase}.docx`;
+    if (!sanitizedBase.toLowerCase().endsWith(".filmlane")) {
+      return `${sanitizedBase}.filmlane`;
     }
     return sanitizedBase;
   }, []);
@@ -435,6 +776,247 @@ export const ScreenplayEditor = () => {
     [captureEditorSelection]
   );
 
+  // ============ WORKSPACE ============
+  const refreshWorkspace = async () => {
+    const listing = await loadWorkspaceListing();
+    if (!listing) return;
+    setRecentDocuments(listing.recent);
+    setWorkspaceProjects(listing.projects);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const listing = await loadWorkspaceListing();
+      if (cancelled || !listing) return;
+      setRecentDocuments(listing.recent);
+      setWorkspaceProjects(listing.projects);
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    getDocumentStore()
+      .getRecoverySnapshot()
+      .then((snapshot) => {
+        if (snapshot?.blocks.some((block) => block.text.trim())) {
+          setRecoverySnapshot(snapshot);
+        }
+      })
+      .catch((error) => {
+        logger.warn("تعذّر قراءة لقطة الاسترجاع", {
+          component: "AutoSave",
+          data: error,
+        });
+      })
+      .finally(() => setIsRecoveryChecked(true));
+  }, []);
+
+  /**
+   * المحتوى الحالي محفوظ (أو متروك عمدًا): لا حاجة للقطة استرجاع.
+   */
+  const markDocumentPersisted = () => {
+    markSaved();
+    getDocumentStore()
+      .clearRecoverySnapshot()
+      .catch((error) => {
+        logger.warn("تعذّر حذف لقطة الاسترجاع", {
+          component: "AutoSave",
+          data: error,
+        });
+      });
+  };
+
+  /**
+   * استعادة لقطة الجلسة السابقة إلى المحرر؛ تبقى غير محفوظة حتى يحفظها المستخدم.
+   */
+  const handleRestoreSnapshot = (snapshot: RecoverySnapshot) =>
+    runWorkspaceAction(async () => {
+      setRecoverySnapshot(null);
+      const store = getDocumentStore();
+      const document = snapshot.documentId
+        ? await store.getDocument(snapshot.documentId)
+        : null;
+      projectRef.current = document
+        ? (await store.openDocument(document.id)).project
+        : null;
+      setEditorSettings(
+        projectRef.current?.settings ?? DEFAULT_EDITOR_SETTINGS
+      );
+      setTitlePage(snapshot.titlePage);
+      setRevisionMode(snapshot.revisionMode);
+      await editorRef.current?.importStructuredBlocks(
+        snapshot.blocks,
+        "replace"
+      );
+      setCurrentDocument(document);
+      setSuspiciousLines([]);
+      setResolvedSuspiciousLines([]);
+      markDirty();
+      toast({
+        title: "استعادة المسودة",
+        description: "تمت استعادة آخر لقطة محفوظة تلقائيًا",
+      });
+    });
+
+  /**
+   * ترك الجلسة غير المحفوظة: يُحذف جدول تصحيحاتها ويبدأ مفتاح جلسة جديد.
+   */
+  const discardUnsavedSession = () => {
+    if (!currentDocument) clearLearnedOverrides(unsavedDocumentKey);
+    setUnsavedDocumentKey(createProjectId("unsaved"));
+  };
+
+  useEffect(() => {
+    unsavedSessionKeyRef.current = currentDocument ? null : unsavedDocumentKey;
+  }, [currentDocument, unsavedDocumentKey]);
+
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (unsavedSessionKeyRef.current) {
+        clearLearnedOverrides(unsavedSessionKeyRef.current);
+      }
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, []);
+
+  const handleDiscardSnapshot = () => {
+    setRecoverySnapshot(null);
+    markDocumentPersisted();
+  };
+
+  /**
+   * تنفيذ عملية على مساحة العمل ثم تحديث الشريط الجانبي، مع إظهار الخطأ.
+   */
+  const runWorkspaceAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "مساحة العمل",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ غير متوقع في مساحة العمل",
+        variant: "destructive",
+      });
+    }
+    await refreshWorkspace();
+  };
+
+  // ============ VERSION HISTORY ============
+  /**
+   * إضافة لقطة إلى سجل المستند المحفوظ ومزامنة المشروع المفتوح معه.
+   */
+  const appendHistorySnapshot = async (
+    documentId: string,
+    revision: ProjectRevision
+  ) => {
+    const revisions = await getDocumentStore().appendDocumentRevision(
+      documentId,
+      revision
+    );
+    if (projectRef.current) {
+      projectRef.current = { ...projectRef.current, revisions };
+    }
+    setHistoryRevisions((current) => (current ? revisions : current));
+  };
+
+  const handleOpenHistory = async () => {
+    setActiveMenu(null);
+    if (!currentDocument) {
+      toast({
+        title: "سجل النسخ",
+        description: "احفظ المستند في مساحة العمل أولاً لبدء سجل نسخه.",
+      });
+      return;
+    }
+    await runWorkspaceAction(async () => {
+      const content = await getDocumentStore().getDocumentContent(
+        currentDocument.id
+      );
+      setHistoryRevisions(content.revisions);
+    });
+  };
+
+  const handleCreateSnapshot = (label: string) =>
+    runWorkspaceAction(async () => {
+      if (!currentDocument) return;
+      const blocks = editorRef.current?.exportStructuredBlocks() ?? [];
+      await appendHistorySnapshot(
+        currentDocument.id,
+        createSnapshotRevision(blocks, label, { titlePage })
+      );
+      toast({ title: "سجل النسخ", description: `تم حفظ اللقطة: ${label}` });
+    });
+
+  const handleRestoreRevision = (
+    revision: ProjectRevision,
+    target: RevisionRestoreTarget
+  ) =>
+    runWorkspaceAction(async () => {
+      setHistoryRevisions(null);
+      if (target === "new") {
+        const saved = await getDocumentStore().saveDocument({
+          name: `${currentDocument?.name ?? "مستند"} - ${revision.label}`,
+          project: createProjectFromBlocks(revision.payload.blocks, {
+            titlePage: revision.payload.titlePage ?? null,
+          }),
+        });
+        await handleOpenWorkspaceDocument(saved.id);
+        return;
+      }
+      setTitlePage(revision.payload.titlePage ?? null);
+      await editorRef.current?.importStructuredBlocks(
+        revision.payload.blocks,
+        "replace"
+      );
+      toast({
+        title: "سجل النسخ",
+        description: `تمت استعادة «${revision.label}» (يمكن التراجع)`,
+      });
+    });
+
+  // لقطة تلقائية دورية للمستند المحفوظ إذا تغيّر منذ آخر لقطة.
+  useEffect(() => {
+    autoSnapshotRef.current = async () => {
+      if (!currentDocument) return;
+      const blocks = editorRef.current?.exportStructuredBlocks() ?? [];
+      const revisions = projectRef.current?.revisions ?? [];
+      if (
+        blocks.length === 0 ||
+        isSameSnapshotContent(blocks, revisions[revisions.length - 1])
+      ) {
+        return;
+      }
+      await appendHistorySnapshot(
+        currentDocument.id,
+        createSnapshotRevision(blocks, "لقطة تلقائية", {
+          auto: true,
+          titlePage,
+        })
+      );
+    };
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      autoSnapshotRef.current().catch((error) => {
+        logger.warn("فشل حفظ اللقطة التلقائية", {
+          component: "VersionHistory",
+          data: error,
+        });
+      });
+    }, AUTO_SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   // ============ FILE OPERATIONS ============
   const handleNewFile = () => {
     if (
@@ -444,6 +1026,15 @@ export const ScreenplayEditor = () => {
         '<div class="format-action"><br></div>',
         "replace"
       );
+      projectRef.current = null;
+      setEditorSettings(DEFAULT_EDITOR_SETTINGS);
+      setTitlePage(null);
+      setRevisionMode(null);
+      discardUnsavedSession();
+      setCurrentDocument(null);
+      setSuspiciousLines([]);
+      setResolvedSuspiciousLines([]);
+      markDocumentPersisted();
       toast({ title: "مستند جديد", description: "تم إنشاء مستند جديد بنجاح" });
     }
     setActiveMenu(null);
@@ -466,49 +1057,60 @@ export const ScreenplayEditor = () => {
   };
 
   /**
-   * مسار مشترك: اختيار ملف → استخراج النص → تمريره عبر paste 1:1
+   * إرسال الملف إلى API الاستخراج؛ يُظهر رسالة الفشل ويعيد null عند الخطأ.
    */
-  const importFileViaPipeline = async (mode: "replace" | "insert") => {
-    const file = await pickFile(ACCEPTED_FILE_EXTENSIONS);
-    if (!file) return;
-
+  const requestFileExtraction = async (
+    file: File
+  ): Promise<FileExtractionResult | null> => {
     toast({
       title: "جاري الاستخراج",
       description: `جاري قراءة الملف: ${file.name}...`,
     });
 
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const response = await fetch("/api/files/extract", {
+      method: "POST",
+      body: formData,
+    });
+
+    let result: FileExtractionResponse | null = null;
+    let fallbackResponseText = "";
+
     try {
-      const formData = new FormData();
-      formData.append("file", file);
+      result = (await response.json()) as FileExtractionResponse;
+    } catch {
+      fallbackResponseText = await response.text().catch(() => "");
+    }
 
-      const response = await fetch("/api/files/extract", {
-        method: "POST",
-        body: formData,
+    if (!response.ok || !result?.success || !result.data) {
+      const statusLabel = `(${response.status})`;
+      toast({
+        title: "فشل الاستخراج",
+        description:
+          result?.error ||
+          fallbackResponseText ||
+          `حدث خطأ أثناء قراءة الملف ${statusLabel}`,
+        variant: "destructive",
       });
+      return null;
+    }
+    return result.data;
+  };
 
-      let result: FileExtractionResponse | null = null;
-      let fallbackResponseText = "";
-
-      try {
-        result = (await response.json()) as FileExtractionResponse;
-      } catch {
-        fallbackResponseText = await response.text().catch(() => "");
-      }
+  /**
+   * مسار مشترك: اختيار ملف → استخراج النص → تمريره عبر paste 1:1
+   */
+  const importFileViaPipeline = async (mode: "replace" | "insert") => {
+    const file = await pickFile(ACCEPTED_FILE_EXTENSIONS);
+    if (!file) return;
 
-      if (!response.ok || !result?.success || !result.data) {
-        const statusLabel = `(${response.status})`;
-        toast({
-          title: "فشل الاستخراج",
-          description:
-            result?.error ||
-            fallbackResponseText ||
-            `حدث خطأ أثناء قراءة الملف ${statusLabel}`,
-          variant: "destructive",
-        });
-        return;
-      }
+    try {
+      const extraction = await requestFileExtraction(file);
+      if (!extraction) return;
 
-      const pipelineAction = buildFileOpenPipelineAction(result.data, mode);
+      const pipelineAction = buildFileOpenPipelineAction(extraction, mode);
       logger.info(`open_pipeline=${pipelineAction.telemetry.openPipeline}`, {
         component: "FileOpen",
         action: mode,
@@ -520,11 +1122,27 @@ export const ScreenplayEditor = () => {
         return;
       }
 
+      if (mode === "replace") {
+        projectRef.current = extraction.project ?? null;
+        setEditorSettings(
+          extraction.project?.settings ?? DEFAULT_EDITOR_SETTINGS
+        );
+        setTitlePage(
+          extraction.project?.titlePage ?? extraction.titlePage ?? null
+        );
+        setRevisionMode(extraction.project?.revisionMode ?? null);
+        discardUnsavedSession();
+        setCurrentDocument(null);
+        setSuspiciousLines([]);
+        setResolvedSuspiciousLines([]);
+      }
+
       if (pipelineAction.kind === "import-structured-blocks") {
         await editorRef.current?.importStructuredBlocks(pipelineAction.blocks, mode);
       } else {
         await editorRef.current?.importClassifiedText(pipelineAction.text, mode);
       }
+      if (mode === "replace") markDocumentPersisted();
       toast(pipelineAction.toast);
     } catch (error) {
       toast({
@@ -556,36 +1174,104 @@ export const ScreenplayEditor = () => {
     });
   };
 
-  const handleSaveFile = async () => {
-    const content = getEditorContentForExport();
-    if (!content) {
-      setActiveMenu(null);
-      return;
-    }
-    const blocks = getEditorBlocksForExport();
-    if (!blocks) {
-      setActiveMenu(null);
-      return;
-    }
+  /**
+   * اختيار ملف للمقارنة واستخراج كتله دون المساس بالمحرر.
+   */
+  const handlePickCompareSource = async (): Promise<CompareSource | null> => {
+    const file = await pickFile(ACCEPTED_FILE_EXTENSIONS);
+    if (!file) return null;
 
     try {
-      await exportToDocx(content, "screenplay.docx", { blocks });
-      toast({
-        title: "تم الحفظ",
-        description: "تم حفظ الملف بصيغة DOCX مع التنسيق",
-      });
+      const extraction = await requestFileExtraction(file);
+      if (!extraction) return null;
+      const editor = editorRef.current;
+      if (!editor) return null;
+      const { blocks, approximate } = await resolveExtractionBlocks(
+        extraction,
+        editor.classifyText
+      );
+      if (blocks.length === 0) {
+        toast({
+          title: "ملف فارغ",
+          description: "لم يتم العثور على نص في الملف المحدد.",
+          variant: "destructive",
+        });
+        return null;
+      }
+      return { name: file.name, blocks, approximate };
     } catch (error) {
       toast({
-        title: "فشل الحفظ",
+        title: "خطأ",
         description:
           error instanceof Error
             ? error.message
-            : "حدث خطأ أثناء إنشاء ملف DOCX.",
+            : "حدث خطأ غير متوقع أثناء استخراج الملف",
         variant: "destructive",
       });
+      return null;
     }
+  };
+
+  const handleOpenCompare = () => {
+    setActiveMenu(null);
+    setCompareBaseBlocks(editorRef.current?.exportStructuredBlocks() ?? []);
+  };
+
+  const handleApplyCompare = async (blocks: ScreenplayBlock[]) => {
+    setCompareBaseBlocks(null);
+    await editorRef.current?.importStructuredBlocks(blocks, "replace");
+    toast({
+      title: "المقارنة",
+      description: "تم تطبيق التغييرات المقبولة على المستند",
+    });
+  };
+
+  /**
+   * بناء مشروع Filmlane من المحرر الحالي مع بيانات المشروع المفتوح.
+   */
+  const buildCurrentProject = (): FilmlaneProject | null => {
+    const blocks = getEditorBlocksForExport();
+    if (!blocks) return null;
+    return createProjectFromBlocks(applyRevisionMarks(blocks, revisionMode), {
+      previous: projectRef.current,
+      titlePage,
+      settings: editorSettings,
+      revisionMode,
+    });
+  };
 
+  /**
+   * حفظ المستند الحالي في مساحة العمل؛ يُطلب اسم عند الحفظ الأول.
+   */
+  const handleSaveFile = async () => {
     setActiveMenu(null);
+    const project = buildCurrentProject();
+    if (!project) return;
+
+    let name = currentDocument?.name ?? null;
+    if (!name) {
+      name = window.prompt(
+        "اسم المستند في مساحة العمل",
+        titlePage?.title?.trim() || "سيناريو بلا عنوان"
+      );
+      if (name === null) return;
+    }
+
+    await runWorkspaceAction(async () => {
+      const saved = await getDocumentStore().saveDocument({
+        id: currentDocument?.id,
+        name,
+        project,
+      });
+      if (!currentDocument) moveLearnedOverrides(unsavedDocumentKey, saved.id);
+      projectRef.current = project;
+      setCurrentDocument(saved);
+      markDocumentPersisted();
+      toast({
+        title: "تم الحفظ",
+        description: `تم حفظ «${saved.name}» في مساحة العمل`,
+      });
+    });
   };
 
   const handleSaveAsFile = async () => {
@@ -600,13 +1286,13 @@ export const ScreenplayEditor = () => {
       return;
     }
 
-    const userInput = window.prompt("اكتب اسم الملف", "screenplay.docx");
+    const userInput = window.prompt("اكتب اسم الملف", "screenplay.filmlane");
     if (userInput === null) {
       setActiveMenu(null);
       return;
     }
 
-    const filename = ensureDocxFilename(userInput);
+    const filename = ensureProjectFilename(userInput);
     if (!filename) {
       toast({
         title: "اسم غير صالح",
@@ -618,7 +1304,14 @@ export const ScreenplayEditor = () => {
     }
 
     try {
-      await exportToDocx(content, filename, { blocks });
+      projectRef.current = await exportToFilmlane(content, filename, {
+        blocks: applyRevisionMarks(blocks, revisionMode),
+        previous: projectRef.current,
+        titlePage,
+        settings: editorSettings,
+        revisionMode,
+      });
+      markDocumentPersisted();
       toast({
         title: "تم الحفظ باسم",
         description: `تم حفظ الملف: ${filename}`,
@@ -626,6 +1319,38 @@ export const ScreenplayEditor = () => {
     } catch (error) {
       toast({
         title: "فشل الحفظ",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ أثناء إنشاء ملف المشروع.",
+        variant: "destructive",
+      });
+    }
+
+    setActiveMenu(null);
+  };
+
+  const handleExportDocx = async () => {
+    const content = getEditorContentForExport();
+    if (!content) {
+      setActiveMenu(null);
+      return;
+    }
+    const blocks = getEditorBlocksForExport();
+    if (!blocks) {
+      setActiveMenu(null);
+      return;
+    }
+
+    try {
+      await exportToDocx(content, "screenplay.docx", { blocks, titlePage });
+      toast({
+        title: "تم التصدير",
+        description: "تم تصدير الملف بصيغة DOCX مع التنسيق",
+      });
+    } catch (error) {
+      toast({
+        title: "فشل التصدير",
         description:
           error instanceof Error
             ? error.message
@@ -650,7 +1375,12 @@ export const ScreenplayEditor = () => {
     }
 
     toast({ title: "جاري الطباعة", description: "جاري تجهيز PDF للطباعة..." });
-    await exportToPDF(content, "سيناريو", { openAfterExport: true, blocks });
+    await exportToPDF(content, "سيناريو", {
+      openAfterExport: true,
+      blocks: applyRevisionMarks(blocks, revisionMode),
+      titlePage,
+      revision: revisionMode ? { sets: revisionMode.sets } : undefined,
+    });
     setActiveMenu(null);
   };
 
@@ -666,11 +1396,132 @@ export const ScreenplayEditor = () => {
 
     toast({ title: "جاري التصدير", description: "جاري إنشاء PDF..." });
 
-    await exportToPDF(content, "سيناريو", { blocks });
+    await exportToPDF(content, "سيناريو", {
+      blocks: applyRevisionMarks(blocks, revisionMode),
+      titlePage,
+      revision: revisionMode ? { sets: revisionMode.sets } : undefined,
+    });
 
     setActiveMenu(null);
   };
 
+  /**
+   * تصدير صفحات مجموعة المراجعة النشطة المعدّلة فقط.
+   */
+  const handleExportRevisedPDF = async () => {
+    setActiveMenu(null);
+    if (!revisionMode) {
+      toast({
+        title: "وضع المراجعة غير مفعّل",
+        description: "ابدأ مجموعة مراجعة أولاً من قائمة أدوات.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const content = getEditorContentForExport();
+    if (!content) return;
+    const blocks = getEditorBlocksForExport();
+    if (!blocks) return;
+
+    try {
+      await exportToPDF(content, "صفحات-معدلة", {
+        blocks: applyRevisionMarks(blocks, revisionMode),
+        includeTitlePage: false,
+        revision: { sets: revisionMode.sets, revisedPagesOnly: true },
+      });
+    } catch (error) {
+      toast({
+        title: "فشل التصدير",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ أثناء إنشاء PDF للصفحات المعدّلة.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportFdx = () => {
+    const content = getEditorContentForExport();
+    if (!content) {
+      setActiveMenu(null);
+      return;
+    }
+    const blocks = getEditorBlocksForExport();
+    if (!blocks) {
+      setActiveMenu(null);
+      return;
+    }
+
+    try {
+      exportToFdx(content, "screenplay.fdx", { blocks, titlePage });
+      toast({
+        title: "تم التصدير",
+        description: "تم تصدير الملف بصيغة Final Draft (FDX)",
+      });
+    } catch (error) {
+      toast({
+        title: "فشل التصدير",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ أثناء إنشاء ملف FDX.",
+        variant: "destructive",
+      });
+    }
+
+    setActiveMenu(null);
+  };
+
+  const handleExportFountain = () => {
+    const content = getEditorContentForExport();
+    if (!content) {
+      setActiveMenu(null);
+      return;
+    }
+    const blocks = getEditorBlocksForExport();
+    if (!blocks) {
+      setActiveMenu(null);
+      return;
+    }
+
+    try {
+      exportToFountain(content, "screenplay.fountain", { blocks, titlePage });
+      toast({
+        title: "تم التصدير",
+        description: "تم تصدير الملف بصيغة Fountain",
+      });
+    } catch (error) {
+      toast({
+        title: "فشل التصدير",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ أثناء إنشاء ملف Fountain.",
+        variant: "destructive",
+      });
+    }
+
+    setActiveMenu(null);
+  };
+
+  const handleEditTitlePage = () => {
+    setIsTitlePageDialogOpen(true);
+    setActiveMenu(null);
+  };
+
+  const handleSaveTitlePage = (nextTitlePage: TitlePageInfo | null) => {
+    setTitlePage(nextTitlePage);
+    markDirty();
+    setIsTitlePageDialogOpen(false);
+    toast({
+      title: "صفحة العنوان",
+      description: nextTitlePage
+        ? "تم تحديث صفحة العنوان وستُضاف عند التصدير"
+        : "تم حذف صفحة العنوان",
+    });
+  };
+
   // ============ EDIT OPERATIONS ============
   const handleUndo = () => {
     ensureEditorFocus();
@@ -679,6 +1530,7 @@ export const ScreenplayEditor = () => {
       executeEditorCommand("undo");
     } else {
       captureEditorSelection();
+      syncSuspiciousLinesWithEditor();
     }
     setActiveMenu(null);
   };
@@ -690,6 +1542,7 @@ export const ScreenplayEditor = () => {
       executeEditorCommand("redo");
     } else {
       captureEditorSelection();
+      syncSuspiciousLinesWithEditor();
     }
     setActiveMenu(null);
   };
@@ -766,141 +1619,816 @@ export const ScreenplayEditor = () => {
       toast({ title: "تم اللصق", description: "تم لصق النص بنجاح" });
     } catch {
       toast({
-        title: "فشل اللصق",
-        description: "تعذّر قراءة الحافظة. تحقق من صلاحيات المتصفح.",
-        variant: "destructive",
+        title: "فشل اللصق",
+        description: "تعذّر قراءة الحافظة. تحقق من صلاحيات المتصفح.",
+        variant: "destructive",
+      });
+    }
+    setActiveMenu(null);
+  };
+
+  const handleSelectAll = () => {
+    editorRef.current?.selectAllContent();
+    captureEditorSelection();
+    setActiveMenu(null);
+  };
+
+  // ============ FORMAT OPERATIONS ============
+  const handleBold = () => {
+    executeEditorCommand("bold");
+  };
+
+  const handleItalic = () => {
+    executeEditorCommand("italic");
+  };
+
+  const handleAlignRight = () => {
+    executeEditorCommand("justifyRight");
+  };
+
+  const handleAlignCenter = () => {
+    executeEditorCommand("justifyCenter");
+  };
+
+  const handleAlignLeft = () => {
+    executeEditorCommand("justifyLeft");
+  };
+
+  // ============ INSERT OPERATIONS ============
+  const handleInsertByFormatId = useCallback(
+    (formatId: EditorStyleFormatId) => {
+      ensureEditorFocus();
+      const definition = insertMenuDefinitions.find(
+        (item) => item.id === formatId
+      );
+      if (!definition) return;
+
+      if (definition.insertBehavior === "photo-montage") {
+        const currentLine = getCurrentEditorLineElement();
+        if (!currentLine || !applyPhotoMontageToSceneHeaderLine(currentLine)) {
+          toast({
+            title: "تعذر إدراج فوتو مونتاج",
+            description: "ضع المؤشر داخل رأس المشهد (1) أولًا.",
+            variant: "destructive",
+          });
+          setActiveMenu(null);
+          return;
+        }
+
+        notifyEditorInput(currentLine);
+        placeCursorAtEndOfNode(currentLine);
+        captureEditorSelection();
+        setActiveMenu(null);
+        return;
+      }
+
+      if (!definition.defaultTemplate) {
+        setActiveMenu(null);
+        return;
+      }
+
+      editorRef.current?.insertContent(
+        `<div class="format-${definition.id}">${definition.defaultTemplate}</div>`,
+        "insert"
+      );
+      captureEditorSelection();
+      setActiveMenu(null);
+    },
+    [
+      captureEditorSelection,
+      ensureEditorFocus,
+      getCurrentEditorLineElement,
+      notifyEditorInput,
+      placeCursorAtEndOfNode,
+      toast,
+    ]
+  );
+
+  // ============ TOOLS ============
+  const handleSpellCheck = () => {
+    toast({
+      title: "فحص الإملاء",
+      description: "جاري فحص الأخطاء الإملائية...",
+    });
+    setActiveMenu(null);
+  };
+
+  /**
+   * تطبيق عملية ترقيم على كتل المستند كأمر واحد قابل للتراجع.
+   */
+  const applySceneNumbering = async (
+    operation: (blocks: ScreenplayBlock[]) => SceneNumberingResult,
+    title: string
+  ) => {
+    setActiveMenu(null);
+    const blocks = editorRef.current?.exportStructuredBlocks() ?? [];
+    if (!blocks.some((block) => block.formatId === "scene-header-1")) {
+      toast({
+        title,
+        description: "لا توجد عناوين مشاهد لترقيمها.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = operation(blocks);
+    await editorRef.current?.importStructuredBlocks(result.blocks, "replace");
+    const omittedNote =
+      result.omitted.length > 0
+        ? ` — مشاهد محذوفة: ${result.omitted.join("، ")}`
+        : "";
+    toast({
+      title,
+      description: `تم تحديث ${result.changed} عنوان مشهد${omittedNote}`,
+    });
+  };
+
+  const handleStartRevision = async () => {
+    setActiveMenu(null);
+    const blocks = editorRef.current?.exportStructuredBlocks() ?? [];
+    const next = startRevisionSet(blocks, revisionMode);
+    await editorRef.current?.importStructuredBlocks(next.blocks, "replace");
+    setRevisionMode(next.state);
+    const activeSet = next.state.sets[next.state.sets.length - 1];
+    toast({
+      title: "وضع المراجعة",
+      description: `بدأت ${activeSet.label} (${activeSet.date}). ستُعلَّم التغييرات بعلامة *`,
+    });
+  };
+
+  const handleEndRevision = async () => {
+    setActiveMenu(null);
+    if (!revisionMode) return;
+    if (!confirm("إنهاء وضع المراجعة وإزالة كل علامات التغيير؟")) return;
+    const blocks = editorRef.current?.exportStructuredBlocks() ?? [];
+    await editorRef.current?.importStructuredBlocks(
+      clearRevisionMarks(blocks),
+      "replace"
+    );
+    setRevisionMode(null);
+    toast({ title: "وضع المراجعة", description: "تم إنهاء وضع المراجعة" });
+  };
+
+  const handleScriptAnalysis = () => {
+    toast({ title: "تحليل السيناريو", description: "جاري تحليل السيناريو..." });
+    setActiveMenu(null);
+  };
+
+  const handleAISuggestions = () => {
+    toast({
+      title: "اقتراحات الذكاء الاصطناعي",
+      description: "جاري توليد الاقتراحات...",
+    });
+    setActiveMenu(null);
+  };
+
+  // ============ HELP ============
+  const handleShowHelp = () => {
+    toast({
+      title: "اختصارات لوحة المفاتيح",
+      description:
+        "Ctrl+1: عنوان مشهد | Ctrl+2: شخصية | Ctrl+3: حوار | Ctrl+4: حدث | Tab: تغيير التنسيق",
+    });
+    setActiveMenu(null);
+  };
+
+  const handleAbout = () => {
+    toast({
+      title: "أفان تيتر",
+      description: "محرر سيناريوهات احترافي - النسخة 1.0",
+    });
+    setActiveMenu(null);
+  };
+
+  // ============ SIDEBAR HANDLERS ============
+  const handleOpenWorkspaceDocument = (documentId: string) =>
+    runWorkspaceAction(async () => {
+      if (
+        saveState !== "saved" &&
+        !confirm("هل تريد فتح المستند؟ سيتم فقدان التغييرات غير المحفوظة.")
+      ) {
+        return;
+      }
+      const { document, project } =
+        await getDocumentStore().openDocument(documentId);
+      projectRef.current = project;
+      setEditorSettings(project.settings);
+      setTitlePage(project.titlePage);
+      setRevisionMode(project.revisionMode ?? null);
+      await editorRef.current?.importStructuredBlocks(
+        project.payload.blocks,
+        "replace"
+      );
+      // فتح المستند لا يُتراجع عنه: التراجع كان سيعيد نص المستند السابق
+      // بينما يشير currentDocument إلى المفتوح فيحفظه فوقه.
+      editorRef.current?.clearCommandHistory();
+      discardUnsavedSession();
+      setCurrentDocument(document);
+      setSuspiciousLines([]);
+      setResolvedSuspiciousLines([]);
+      markDocumentPersisted();
+      toast({ title: "فتح مستند", description: `تم فتح: ${document.name}` });
+    });
+
+  const handleRenameWorkspaceDocument = (document: WorkspaceDocument) =>
+    runWorkspaceAction(async () => {
+      const name = window.prompt("الاسم الجديد للمستند", document.name);
+      if (name === null) return;
+      const renamed = await getDocumentStore().renameDocument(
+        document.id,
+        name
+      );
+      if (currentDocument?.id === renamed.id) setCurrentDocument(renamed);
+    });
+
+  const handleDuplicateWorkspaceDocument = (document: WorkspaceDocument) =>
+    runWorkspaceAction(async () => {
+      const copy = await getDocumentStore().duplicateDocument(document.id);
+      toast({ title: "نسخ مستند", description: `تم إنشاء: ${copy.name}` });
+    });
+
+  const handleDeleteWorkspaceDocument = (document: WorkspaceDocument) =>
+    runWorkspaceAction(async () => {
+      if (!confirm(`هل تريد حذف «${document.name}» نهائيًا؟`)) return;
+      await getDocumentStore().deleteDocument(document.id);
+      clearLearnedOverrides(document.id);
+      if (currentDocument?.id === document.id) setCurrentDocument(null);
+    });
+
+  /**
+   * نقل المستند إلى مشروع بالاسم (يُنشأ إن لم يوجد)، أو فصله باسم فارغ.
+   */
+  const handleMoveWorkspaceDocument = (document: WorkspaceDocument) =>
+    runWorkspaceAction(async () => {
+      const projectNames = workspaceProjects.map(({ project }) => project.name);
+      const input = window.prompt(
+        projectNames.length > 0
+          ? `اسم المشروع (${projectNames.join("، ")})، أو اتركه فارغًا لفصل المستند`
+          : "اسم المشروع الجديد",
+        ""
+      );
+      if (input === null) return;
+      const store = getDocumentStore();
+      const projectName = input.trim();
+      let projectId: string | null = null;
+      if (projectName) {
+        projectId =
+          workspaceProjects.find(({ project }) => project.name === projectName)
+            ?.project.id ?? (await store.createProject(projectName)).id;
+      }
+      const moved = await store.moveDocumentToProject(document.id, projectId);
+      if (currentDocument?.id === moved.id) setCurrentDocument(moved);
+    });
+
+  const getDocumentActions = (
+    document: WorkspaceDocument
+  ): SidebarEntryAction[] => [
+    {
+      label: "فتح",
+      onSelect: () => void handleOpenWorkspaceDocument(document.id),
+    },
+    {
+      label: "إعادة تسمية...",
+      onSelect: () => void handleRenameWorkspaceDocument(document),
+    },
+    {
+      label: "إنشاء نسخة",
+      onSelect: () => void handleDuplicateWorkspaceDocument(document),
+    },
+    {
+      label: "نقل إلى مشروع...",
+      onSelect: () => void handleMoveWorkspaceDocument(document),
+    },
+    {
+      label: "حذف",
+      destructive: true,
+      onSelect: () => void handleDeleteWorkspaceDocument(document),
+    },
+  ];
+
+  const handleCreateWorkspaceProject = (kind: WorkspaceProjectKind) =>
+    runWorkspaceAction(async () => {
+      const name = window.prompt(
+        kind === "series" ? "اسم المسلسل الجديد" : "اسم المشروع الجديد",
+        ""
+      );
+      if (name === null) return;
+      await getDocumentStore().createProject(name, kind);
+    });
+
+  /**
+   * بناء كتاب المسلسل من كل حلقاته المحفوظة وعرضه.
+   */
+  const handleOpenSeriesBible = (project: WorkspaceProject) =>
+    runWorkspaceAction(async () => {
+      const episodes = await getDocumentStore().listProjectEpisodes(project.id);
+      setSeriesBible({ name: project.name, bible: buildSeriesBible(episodes) });
+    });
+
+  const handleOpenCurrentSeriesBible = async () => {
+    setActiveMenu(null);
+    const series = workspaceProjects.find(
+      ({ project }) =>
+        project.kind === "series" && project.id === currentDocument?.projectId
+    );
+    if (!series) {
+      toast({
+        title: "كتاب المسلسل",
+        description: "افتح حلقة من مسلسل محفوظ في مساحة العمل أولاً.",
+      });
+      return;
+    }
+    await handleOpenSeriesBible(series.project);
+  };
+
+  /**
+   * حفظ المحرر الحالي كحلقة جديدة في المشروع.
+   */
+  const handleSaveAsEpisode = (
+    project: WorkspaceProject,
+    episodeCount: number
+  ) =>
+    runWorkspaceAction(async () => {
+      const content = buildCurrentProject();
+      if (!content) return;
+      const name = window.prompt(
+        "اسم الحلقة",
+        `${project.name} - الحلقة ${episodeCount + 1}`
+      );
+      if (name === null) return;
+      const saved = await getDocumentStore().saveDocument({
+        name,
+        project: content,
+        projectId: project.id,
+      });
+      if (!currentDocument) moveLearnedOverrides(unsavedDocumentKey, saved.id);
+      projectRef.current = content;
+      setCurrentDocument(saved);
+      markDocumentPersisted();
+      toast({
+        title: "تم الحفظ",
+        description: `تمت إضافة «${saved.name}» إلى ${project.name}`,
+      });
+    });
+
+  const handleRenameWorkspaceProject = (project: WorkspaceProject) =>
+    runWorkspaceAction(async () => {
+      const name = window.prompt("الاسم الجديد للمشروع", project.name);
+      if (name === null) return;
+      await getDocumentStore().renameProject(project.id, name);
+    });
+
+  const handleDeleteWorkspaceProject = (project: WorkspaceProject) =>
+    runWorkspaceAction(async () => {
+      if (
+        !confirm(
+          `هل تريد حذف المشروع «${project.name}»؟ ستبقى حلقاته مستندات مستقلة.`
+        )
+      ) {
+        return;
+      }
+      await getDocumentStore().deleteProject(project.id);
+    });
+
+  const recentDocumentEntries: SidebarEntry[] =
+    recentDocuments.length > 0
+      ? recentDocuments.map((document) => ({
+          id: document.id,
+          label:
+            currentDocument?.id === document.id
+              ? `${document.name} (مفتوح)`
+              : document.name,
+          actions: getDocumentActions(document),
+        }))
+      : [{ id: "empty", label: "لا توجد مستندات محفوظة بعد", muted: true }];
+
+  const projectEntries: SidebarEntry[] = [
+    ...workspaceProjects.flatMap(({ project, episodes }): SidebarEntry[] => [
+      {
+        id: `project:${project.id}`,
+        label:
+          project.kind === "series"
+            ? `${project.name} (مسلسل · ${episodes.length} حلقات)`
+            : `${project.name} (${episodes.length} مستندات)`,
+        actions: [
+          ...(project.kind === "series"
+            ? [
+                {
+                  label: "كتاب المسلسل (الشخصيات والأماكن)",
+                  onSelect: () => void handleOpenSeriesBible(project),
+                },
+              ]
+            : []),
+          {
+            label: "حفظ المستند الحالي كحلقة جديدة...",
+            onSelect: () => void handleSaveAsEpisode(project, episodes.length),
+          },
+          {
+            label: "إعادة تسمية...",
+            onSelect: () => void handleRenameWorkspaceProject(project),
+          },
+          {
+            label: "حذف المشروع",
+            destructive: true,
+            onSelect: () => void handleDeleteWorkspaceProject(project),
+          },
+        ],
+      },
+      ...episodes.map((document) => ({
+        id: document.id,
+        label: `الحلقة ${document.episodeNumber ?? "?"}: ${document.name}`,
+        depth: 1,
+        actions: getDocumentActions(document),
+      })),
+    ]),
+    { id: "new-series", label: "+ مسلسل جديد" },
+    { id: "new-project", label: "+ مشروع جديد" },
+  ];
+
+  const handleRecentDocClick = (documentId: string) => {
+    void handleOpenWorkspaceDocument(documentId);
+  };
+
+  const handleProjectClick = (entryId: string) => {
+    if (entryId === "new-series" || entryId === "new-project") {
+      void handleCreateWorkspaceProject(
+        entryId === "new-series" ? "series" : "group"
+      );
+      return;
+    }
+    if (!entryId.startsWith("project:")) {
+      void handleOpenWorkspaceDocument(entryId);
+      return;
+    }
+    const series = workspaceProjects.find(
+      ({ project }) =>
+        project.kind === "series" && `project:${project.id}` === entryId
+    );
+    if (series) {
+      void handleOpenSeriesBible(series.project);
+      return;
+    }
+    toast({
+      title: "المشاريع",
+      description:
+        "انقر بالزر الأيمن على المشروع لإضافة حلقة أو إعادة تسميته أو حذفه.",
+    });
+  };
+
+  const handleToggleSceneNavigator = () => {
+    if (openSidebarItem === "scenes") {
+      setOpenSidebarItem(null);
+      return;
+    }
+    refreshSceneOutline();
+    setOpenSidebarItem("scenes");
+  };
+
+  const handleSelectScene = (scene: SceneOutlineEntry) => {
+    if (scene.blockId && editorRef.current?.scrollToBlock(scene.blockId)) {
+      return;
+    }
+    // المخطط قديم (تغيّر المستند بعد آخر تحديث).
+    refreshSceneOutline();
+  };
+
+  /**
+   * أسطر اللصق المشتبه فيها تُعرض في لوحة المراجعة بدل تطبيق قرارات
+   * الوكيل تلقائيًا؛ لصق الدفعة نفسها مجددًا يستبدل أسطرها.
+   */
+  const handleSuspiciousLines = useCallback(
+    (reviews: SuspiciousLineReview[]) => {
+      if (reviews.length === 0) return;
+      const batchId = reviews[0].pasteBatchId;
+      setSuspiciousLines((previous) => [
+        ...previous.filter((review) => review.pasteBatchId !== batchId),
+        ...reviews,
+      ]);
+      setResolvedSuspiciousLines((previous) =>
+        previous.filter((review) => review.pasteBatchId !== batchId)
+      );
+      setOpenSidebarItem("review");
+      toast({
+        title: "مراجعة التصنيف",
+        description: `${reviews.length} سطر مشتبه فيه بانتظار مراجعتك في اللوحة الجانبية.`,
+      });
+    },
+    [toast]
+  );
+
+  const handleSelectSuspiciousLine = (review: SuspiciousLineReview) => {
+    if (editorRef.current?.scrollToSuspiciousLine(review)) return;
+    setSuspiciousLines((previous) =>
+      previous.filter((item) => item.id !== review.id)
+    );
+    toast({
+      title: "مراجعة التصنيف",
+      description: "السطر لم يعد موجودًا في المحرر.",
+    });
+  };
+
+  const handleResolveSuspiciousLine = async (
+    review: SuspiciousLineReview,
+    finalType: string | null
+  ) => {
+    const resolved = await editorRef.current?.resolveSuspiciousLine(
+      review,
+      finalType
+    );
+    setSuspiciousLines((previous) =>
+      previous.filter((item) => item.id !== review.id)
+    );
+    if (resolved) {
+      setResolvedSuspiciousLines((previous) => [...previous, review]);
+    } else {
+      toast({
+        title: "مراجعة التصنيف",
+        description: "السطر لم يعد موجودًا في المحرر.",
       });
     }
-    setActiveMenu(null);
   };
 
-  const handleSelectAll = () => {
-    editorRef.current?.selectAllContent();
-    captureEditorSelection();
-    setActiveMenu(null);
+  /**
+   * بعد التراجع أو الإعادة: السطر الذي عاد مشتبهًا فيه يرجع إلى اللوحة،
+   * والمحسوم مجددًا يخرج منها.
+   */
+  const syncSuspiciousLinesWithEditor = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const reviews = [...suspiciousLines, ...resolvedSuspiciousLines];
+    if (reviews.length === 0) return;
+    const pending = reviews.filter((review) =>
+      editor.isSuspiciousLinePending(review)
+    );
+    setSuspiciousLines(pending);
+    setResolvedSuspiciousLines(
+      reviews.filter((review) => !pending.includes(review))
+    );
   };
 
-  // ============ FORMAT OPERATIONS ============
-  const handleBold = () => {
-    executeEditorCommand("bold");
+  const handleMoveScene = async (fromIndex: number, toIndex: number) => {
+    const editor = editorRef.current;
+    if (!editor || !(await editor.moveScene(fromIndex, toIndex))) return;
+    const movedScene = refreshSceneOutline()[toIndex];
+    if (movedScene?.blockId) editor.scrollToBlock(movedScene.blockId);
   };
 
-  const handleItalic = () => {
-    executeEditorCommand("italic");
+  const refreshCorkboard = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    setCorkboardCards(buildSceneCards(editor.exportStructuredBlocks()));
   };
 
-  const handleAlignRight = () => {
-    executeEditorCommand("justifyRight");
+  const handleOpenCorkboard = () => {
+    setActiveMenu(null);
+    refreshCorkboard();
   };
 
-  const handleAlignCenter = () => {
-    executeEditorCommand("justifyCenter");
+  const handleMoveCorkboardCard = async (
+    fromIndex: number,
+    toIndex: number
+  ) => {
+    if (await editorRef.current?.moveScene(fromIndex, toIndex)) {
+      refreshCorkboard();
+    }
   };
 
-  const handleAlignLeft = () => {
-    executeEditorCommand("justifyLeft");
+  const handleUpdateCorkboardCard = async (
+    card: SceneCard,
+    details: SceneCardDetails
+  ) => {
+    const editor = editorRef.current;
+    if (!editor || !card.blockId) return;
+    const header = editor
+      .exportStructuredBlocks()
+      .find((block) => block.id === card.blockId);
+    if (!header) return;
+    const metadata = withSceneCardDetails(header.metadata, details);
+    if (await editor.setBlockMetadata(card.blockId, metadata)) {
+      refreshCorkboard();
+    }
   };
 
-  // ============ INSERT OPERATIONS ============
-  const handleInsertByFormatId = useCallback(
-    (formatId: EditorStyleFormatId) => {
-      ensureEditorFocus();
-      const definition = insertMenuDefinitions.find(
-        (item) => item.id === formatId
-      );
-      if (!definition) return;
-
-      if (definition.insertBehavior === "photo-montage") {
-        const currentLine = getCurrentEditorLineElement();
-        if (!currentLine || !applyPhotoMontageToSceneHeaderLine(currentLine)) {
-          toast({
-            title: "تعذر إدراج فوتو مونتاج",
-            description: "ضع المؤشر داخل رأس المشهد (1) أولًا.",
-            variant: "destructive",
-          });
-          setActiveMenu(null);
-          return;
-        }
-
-        notifyEditorInput(currentLine);
-        placeCursorAtEndOfNode(currentLine);
-        captureEditorSelection();
-        setActiveMenu(null);
-        return;
-      }
+  const handleOpenBreakdownReports = () => {
+    setActiveMenu(null);
+    const editor = editorRef.current;
+    if (!editor) return;
+    const scenes = buildBreakdownScenes(editor.exportStructuredBlocks());
+    setBreakdownReports({
+      scenes: buildBreakdownTable(scenes, "scenes"),
+      locations: buildBreakdownTable(scenes, "locations"),
+      cast: buildBreakdownTable(scenes, "cast"),
+    });
+  };
 
-      if (!definition.defaultTemplate) {
-        setActiveMenu(null);
-        return;
+  /**
+   * CSV للجدول المعروض، أو PDF يضم كل الجداول.
+   */
+  const exportBreakdownTables = async (
+    tables: BreakdownTable[],
+    current: BreakdownTable,
+    format: BreakdownExportFormat,
+    filename: string
+  ) => {
+    try {
+      if (format === "pdf") {
+        await exportBreakdownToPDF(tables, filename);
+      } else {
+        exportBreakdownToCsv(current, `${filename}.csv`, {
+          excel: format === "excel",
+        });
       }
+      toast({
+        title: "تم التصدير",
+        description:
+          format === "pdf"
+            ? "تم تصدير التقارير بصيغة PDF"
+            : `تم تصدير ${current.title} بصيغة CSV`,
+      });
+    } catch (error) {
+      toast({
+        title: "فشل التصدير",
+        description:
+          error instanceof Error
+            ? error.message
+            : "حدث خطأ أثناء تصدير تقارير التفريغ.",
+        variant: "destructive",
+      });
+    }
+  };
 
-      editorRef.current?.insertContent(
-        `<div class="format-${definition.id}">${definition.defaultTemplate}</div>`,
-        "insert"
-      );
-      captureEditorSelection();
-      setActiveMenu(null);
-    },
-    [
-      captureEditorSelection,
-      ensureEditorFocus,
-      getCurrentEditorLineElement,
-      notifyEditorInput,
-      placeCursorAtEndOfNode,
-      toast,
-    ]
-  );
+  const handleExportBreakdown = async (
+    kind: BreakdownReportKind,
+    format: BreakdownExportFormat
+  ) => {
+    if (!breakdownReports) return;
+    await exportBreakdownTables(
+      Object.values(breakdownReports),
+      breakdownReports[kind],
+      format,
+      format === "pdf" ? "breakdown-reports" : `breakdown-${kind}`
+    );
+  };
 
-  // ============ TOOLS ============
-  const handleSpellCheck = () => {
-    toast({
-      title: "فحص الإملاء",
-      description: "جاري فحص الأخطاء الإملائية...",
-    });
+  const handleOpenBreakdownTag = () => {
     setActiveMenu(null);
+    const editor = editorRef.current;
+    if (!editor) return;
+    restoreEditorSelection();
+    const range = editor.getSelectedBlockRange();
+    const block = range
+      ? editor
+          .exportStructuredBlocks()
+          .find((candidate) => candidate.id === range.blockId)
+      : undefined;
+    if (!range || !block || block.formatId !== "action") {
+      toast({
+        title: "وسم عنصر تفريغ",
+        description: "حدد نصًا داخل سطر وصف (action) أولاً.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setBreakdownTagTarget({ block, range });
   };
 
-  const handleScriptAnalysis = () => {
-    toast({ title: "تحليل السيناريو", description: "جاري تحليل السيناريو..." });
-    setActiveMenu(null);
+  const handleApplyBreakdownTag = async (category: BreakdownCategoryId) => {
+    const editor = editorRef.current;
+    if (!editor || !breakdownTagTarget) return;
+    const { block, range } = breakdownTagTarget;
+    try {
+      const metadata = addBreakdownTag(block, category, range);
+      await editor.setBlockMetadata(range.blockId, metadata);
+      setBreakdownTagTarget(null);
+      toast({
+        title: "تم الوسم",
+        description: `"${block.text.slice(range.start, range.end).trim()}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "وسم عنصر تفريغ",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleAISuggestions = () => {
-    toast({
-      title: "اقتراحات الذكاء الاصطناعي",
-      description: "جاري توليد الاقتراحات...",
-    });
+  const handleRemoveBreakdownTag = async (tag: BreakdownTag) => {
+    const editor = editorRef.current;
+    if (!editor || !breakdownTagTarget) return;
+    const { block, range } = breakdownTagTarget;
+    const metadata = removeBreakdownTags(block, tag);
+    if (await editor.setBlockMetadata(range.blockId, metadata)) {
+      setBreakdownTagTarget({ block: { ...block, metadata }, range });
+    }
+  };
+
+  const handleOpenBreakdownSheets = () => {
     setActiveMenu(null);
+    const editor = editorRef.current;
+    if (!editor) return;
+    const sheets = buildSceneBreakdownSheets(editor.exportStructuredBlocks());
+    setBreakdownSheets({ sheets, elements: buildBreakdownElements(sheets) });
   };
 
-  // ============ HELP ============
-  const handleShowHelp = () => {
+  const handleExportBreakdownSheets = async (
+    view: BreakdownSheetsView,
+    format: BreakdownExportFormat
+  ) => {
+    if (!breakdownSheets) return;
+    const tables = [
+      buildBreakdownSheetsTable(breakdownSheets.sheets),
+      buildBreakdownElementsTable(breakdownSheets.elements),
+    ];
+    await exportBreakdownTables(
+      tables,
+      view === "sheets" ? tables[0] : tables[1],
+      format,
+      format === "pdf" ? "breakdown-sheets" : `breakdown-${view}`
+    );
+  };
+
+  const handleToggleSequenceClassifier = () => {
+    setActiveMenu(null);
+    const next: PasteClassifierMode =
+      pasteClassifierMode === "sequence" ? "heuristic" : "sequence";
+    setPasteClassifierMode(next);
     toast({
-      title: "اختصارات لوحة المفاتيح",
+      title: "مصنف اللصق",
       description:
-        "Ctrl+1: عنوان مشهد | Ctrl+2: شخصية | Ctrl+3: حوار | Ctrl+4: حدث | Tab: تغيير التنسيق",
+        next === "sequence"
+          ? "يُصنَّف النص الملصوق والمستورد بالنموذج التسلسلي على المستند كله"
+          : "عاد التصنيف إلى القواعد سطرًا بسطر",
     });
-    setActiveMenu(null);
   };
 
-  const handleAbout = () => {
-    toast({
-      title: "أفان تيتر",
-      description: "محرر سيناريوهات احترافي - النسخة 1.0",
-    });
-    setActiveMenu(null);
+  const refreshCharacterStats = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    setCharacterStats(
+      collectCharacterStats(
+        editor.exportStructuredBlocks(),
+        projectRef.current?.characters
+      )
+    );
   };
 
-  // ============ SIDEBAR HANDLERS ============
-  const handleRecentDocClick = (item: string) => {
-    toast({ title: "فتح مستند", description: `جاري فتح: ${item}` });
+  const handleOpenCharacters = () => {
+    setActiveMenu(null);
+    refreshCharacterStats();
   };
 
-  const handleProjectClick = (item: string) => {
-    toast({ title: "فتح مشروع", description: `جاري فتح مشروع: ${item}` });
+  const handleRenameCharacter = async (
+    character: CharacterStats,
+    newName: string,
+    includeDialogue: boolean
+  ) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    let result: CharacterRenameResult;
+    try {
+      result = renameCharacter(
+        editor.exportStructuredBlocks(),
+        character.name,
+        newName,
+        { includeDialogue }
+      );
+    } catch (error) {
+      toast({
+        title: "إعادة تسمية الشخصية",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    if (result.cues + result.mentions === 0) return;
+
+    await editor.importStructuredBlocks(result.blocks, "replace");
+    // نقل وصف الشخصية المحفوظ في المشروع إلى الاسم الجديد.
+    const project = projectRef.current;
+    if (project) {
+      const key = getCharacterKey(character.name);
+      projectRef.current = {
+        ...project,
+        characters: project.characters.map((info) =>
+          getCharacterKey(info.name) === key
+            ? { ...info, name: result.name }
+            : info
+        ),
+      };
+    }
+    refreshCharacterStats();
+    toast({
+      title: "إعادة تسمية الشخصية",
+      description: `${character.name} ← ${result.name}: ${result.cues} مداخلة و${result.mentions} إشارة في الحوار`,
+    });
   };
 
   const handleLibraryClick = (item: string) => {
+    if (item === "الشخصيات") {
+      handleOpenCharacters();
+      return;
+    }
     toast({ title: "المكتبة", description: `جاري فتح قسم: ${item}` });
   };
 
@@ -946,9 +2474,30 @@ export const ScreenplayEditor = () => {
       case "print-file":
         void handlePrintFile();
         break;
+      case "compare-versions":
+        handleOpenCompare();
+        break;
+      case "version-history":
+        void handleOpenHistory();
+        break;
+      case "edit-title-page":
+        handleEditTitlePage();
+        break;
       case "export-pdf":
         void handleExportPDF();
         break;
+      case "export-revised-pdf":
+        void handleExportRevisedPDF();
+        break;
+      case "export-docx":
+        void handleExportDocx();
+        break;
+      case "export-fdx":
+        handleExportFdx();
+        break;
+      case "export-fountain":
+        handleExportFountain();
+        break;
       case "undo":
         handleUndo();
         break;
@@ -982,6 +2531,42 @@ export const ScreenplayEditor = () => {
       case "align-left":
         handleAlignLeft();
         break;
+      case "renumber-scenes":
+        void applySceneNumbering(renumberScenes, "ترقيم المشاهد");
+        break;
+      case "lock-scene-numbers":
+        void applySceneNumbering(lockSceneNumbers, "تثبيت أرقام المشاهد");
+        break;
+      case "unlock-scene-numbers":
+        void applySceneNumbering(unlockSceneNumbers, "إلغاء تثبيت الأرقام");
+        break;
+      case "start-revision":
+        void handleStartRevision();
+        break;
+      case "end-revision":
+        void handleEndRevision();
+        break;
+      case "series-bible":
+        void handleOpenCurrentSeriesBible();
+        break;
+      case "corkboard":
+        handleOpenCorkboard();
+        break;
+      case "characters-panel":
+        handleOpenCharacters();
+        break;
+      case "breakdown-reports":
+        handleOpenBreakdownReports();
+        break;
+      case "tag-breakdown-element":
+        handleOpenBreakdownTag();
+        break;
+      case "breakdown-sheets":
+        handleOpenBreakdownSheets();
+        break;
+      case "toggle-sequence-classifier":
+        handleToggleSequenceClassifier();
+        break;
       case "spell-check":
         handleSpellCheck();
         break;
@@ -1130,7 +2715,30 @@ export const ScreenplayEditor = () => {
       { label: "حفظ", icon: IconDeviceFloppy, actionId: "save-file" },
       { label: "حفظ باسم...", icon: IconDownload, actionId: "save-as-file" },
       { label: "طباعة", icon: IconPrinter, actionId: "print-file" },
+      { label: "سجل النسخ", icon: IconHistory, actionId: "version-history" },
+      {
+        label: "صفحة العنوان...",
+        icon: IconFileText,
+        actionId: "edit-title-page",
+      },
+      {
+        label: "مقارنة نسختين...",
+        icon: IconGitCompare,
+        actionId: "compare-versions",
+      },
       { label: "تصدير كـ PDF", icon: IconFileExport, actionId: "export-pdf" },
+      {
+        label: "تصدير الصفحات المعدّلة (PDF)",
+        icon: IconFileExport,
+        actionId: "export-revised-pdf",
+      },
+      { label: "تصدير كـ DOCX", icon: IconFileExport, actionId: "export-docx" },
+      { label: "تصدير كـ FDX", icon: IconFileExport, actionId: "export-fdx" },
+      {
+        label: "تصدير كـ Fountain",
+        icon: IconFileExport,
+        actionId: "export-fountain",
+      },
     ],
     تعديل: [
       { label: "تراجع", icon: IconArrowBackUp, actionId: "undo" },
@@ -1158,6 +2766,53 @@ export const ScreenplayEditor = () => {
     ],
     أدوات: [
       { label: "فحص الإملاء", icon: IconWand, actionId: "spell-check" },
+      {
+        label: "ترقيم المشاهد",
+        icon: IconListNumbers,
+        actionId: "renumber-scenes",
+      },
+      {
+        label: "تثبيت أرقام المشاهد",
+        icon: IconLock,
+        actionId: "lock-scene-numbers",
+      },
+      {
+        label: "إلغاء تثبيت الأرقام",
+        icon: IconLockOpen,
+        actionId: "unlock-scene-numbers",
+      },
+      {
+        label: "بدء مجموعة مراجعة",
+        icon: IconAsterisk,
+        actionId: "start-revision",
+      },
+      {
+        label: "إنهاء وضع المراجعة",
+        icon: IconFlagOff,
+        actionId: "end-revision",
+      },
+      { label: "لوحة المشاهد", icon: IconLayoutGrid, actionId: "corkboard" },
+      { label: "الشخصيات", icon: IconUsers, actionId: "characters-panel" },
+      {
+        label: "تقارير التفريغ",
+        icon: IconReportAnalytics,
+        actionId: "breakdown-reports",
+      },
+      {
+        label: "وسم عنصر تفريغ",
+        icon: IconTag,
+        actionId: "tag-breakdown-element",
+      },
+      { label: "أوراق التفريغ", icon: IconTags, actionId: "breakdown-sheets" },
+      {
+        label:
+          pasteClassifierMode === "sequence"
+            ? "إيقاف المصنف التسلسلي"
+            : "تفعيل المصنف التسلسلي",
+        icon: IconBrain,
+        actionId: "toggle-sequence-classifier",
+      },
+      { label: "كتاب المسلسل", icon: IconBook, actionId: "series-bible" },
       {
         label: "تحليل السيناريو",
         icon: IconStethoscope,
@@ -1347,11 +3002,7 @@ export const ScreenplayEditor = () => {
               <SidebarItem
                 icon={IconFileText}
                 label="المستندات الأخيرة"
-                items={[
-                  "سيناريو فيلم.docx",
-                  "مسودة الحلقة 1.docx",
-                  "ملاحظات المخرج.docx",
-                ]}
+                items={recentDocumentEntries}
                 isOpen={openSidebarItem === "docs"}
                 onToggle={() =>
                   setOpenSidebarItem(openSidebarItem === "docs" ? null : "docs")
@@ -1361,7 +3012,7 @@ export const ScreenplayEditor = () => {
               <SidebarItem
                 icon={IconList}
                 label="المشاريع"
-                items={["مسلسل الأخوة", "فيلم الرحلة", "مسلسل الحارة"]}
+                items={projectEntries}
                 isOpen={openSidebarItem === "projects"}
                 onToggle={() =>
                   setOpenSidebarItem(
@@ -1370,6 +3021,42 @@ export const ScreenplayEditor = () => {
                 }
                 onItemClick={handleProjectClick}
               />
+              <SidebarItem
+                icon={IconLayoutList}
+                label="المشاهد"
+                isOpen={openSidebarItem === "scenes"}
+                onToggle={handleToggleSceneNavigator}
+              >
+                <SceneNavigator
+                  scenes={sceneOutline}
+                  onSelect={handleSelectScene}
+                  onMove={(fromIndex, toIndex) =>
+                    void handleMoveScene(fromIndex, toIndex)
+                  }
+                />
+              </SidebarItem>
+              <SidebarItem
+                icon={IconAlertTriangle}
+                label={
+                  suspiciousLines.length > 0
+                    ? `مراجعة التصنيف (${suspiciousLines.length})`
+                    : "مراجعة التصنيف"
+                }
+                isOpen={openSidebarItem === "review"}
+                onToggle={() =>
+                  setOpenSidebarItem(
+                    openSidebarItem === "review" ? null : "review"
+                  )
+                }
+              >
+                <SuspiciousLinesPanel
+                  lines={suspiciousLines}
+                  onSelect={handleSelectSuspiciousLine}
+                  onResolve={(review, finalType) =>
+                    void handleResolveSuspiciousLine(review, finalType)
+                  }
+                />
+              </SidebarItem>
               <SidebarItem
                 icon={IconUpload}
                 label="المكتبة"
@@ -1458,6 +3145,11 @@ export const ScreenplayEditor = () => {
                   onMouseDown={handlePreserveSelectionMouseDown}
                   onClick={handleAISuggestions}
                 />
+                <DockIcon
+                  icon={IconLayoutGrid}
+                  onMouseDown={handlePreserveSelectionMouseDown}
+                  onClick={() => handleMenuAction("corkboard")}
+                />
 
                 <div className="mx-2 mb-4 h-5 w-[1px] bg-gradient-to-b from-transparent via-neutral-600/50 to-transparent" />
 
@@ -1475,12 +3167,7 @@ export const ScreenplayEditor = () => {
                 <DockIcon
                   icon={IconHistory}
                   onMouseDown={handlePreserveSelectionMouseDown}
-                  onClick={() =>
-                    toast({
-                      title: "السجل",
-                      description: "جاري عرض سجل التغييرات...",
-                    })
-                  }
+                  onClick={() => handleMenuAction("version-history")}
                 />
                 <DockIcon
                   icon={IconUpload}
@@ -1563,9 +3250,14 @@ export const ScreenplayEditor = () => {
                       onContentChange={handleContentChange}
                       onStatsChange={handleStatsChange}
                       onFormatChange={handleFormatChange}
-                      font="AzarMehrMonospaced-San"
-                      size="12pt"
+                      font={editorSettings.font}
+                      size={editorSettings.fontSize}
                       pageCount={stats.pages}
+                      revisionMode={revisionMode}
+                      documentKey={currentDocument?.id ?? unsavedDocumentKey}
+                      classifierMode={pasteClassifierMode}
+                      getReviewerConfig={getProjectReviewerConfig}
+                      onSuspiciousLines={handleSuspiciousLines}
                     />
                   </div>
                 </ContextMenuTrigger>
@@ -1608,11 +3300,149 @@ export const ScreenplayEditor = () => {
       <div className="relative z-50 flex-shrink-0 bg-neutral-950/80 backdrop-blur-md">
         <EditorFooter
           stats={stats}
+          saveState={saveState}
           currentFormatLabel={
             screenplayFormats.find((f) => f.id === currentFormat)?.label || ""
           }
         />
       </div>
+
+      {isTitlePageDialogOpen && (
+        <TitlePageDialog
+          open={isTitlePageDialogOpen}
+          titlePage={titlePage}
+          onSave={handleSaveTitlePage}
+          onCancel={() => setIsTitlePageDialogOpen(false)}
+        />
+      )}
+
+      {compareBaseBlocks && (
+        <CompareDialog
+          open
+          currentSource={{ name: "المستند الحالي", blocks: compareBaseBlocks }}
+          onPickSource={handlePickCompareSource}
+          onApply={(blocks) => void handleApplyCompare(blocks)}
+          onCancel={() => setCompareBaseBlocks(null)}
+        />
+      )}
+
+      <AlertDialog open={recoverySnapshot !== null}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>استعادة المسودة غير المحفوظة؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              وُجدت لقطة محفوظة تلقائيًا
+              {recoverySnapshot?.documentName
+                ? ` من «${recoverySnapshot.documentName}»`
+                : ""}{" "}
+              بتاريخ{" "}
+              {recoverySnapshot
+                ? new Date(recoverySnapshot.savedAt).toLocaleString("ar")
+                : ""}
+              . هل تريد استعادتها؟
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2 sm:justify-start">
+            <AlertDialogAction
+              onClick={() => {
+                if (recoverySnapshot) {
+                  void handleRestoreSnapshot(recoverySnapshot);
+                }
+              }}
+            >
+              استعادة
+            </AlertDialogAction>
+            <AlertDialogCancel onClick={handleDiscardSnapshot}>
+              تجاهل
+            </AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {historyRevisions && currentDocument && (
+        <VersionHistorySheet
+          open
+          documentName={currentDocument.name}
+          revisions={historyRevisions}
+          onCreateSnapshot={handleCreateSnapshot}
+          onRestore={(revision, target) =>
+            void handleRestoreRevision(revision, target)
+          }
+          onClose={() => setHistoryRevisions(null)}
+        />
+      )}
+
+      {seriesBible && (
+        <SeriesBibleDialog
+          open
+          seriesName={seriesBible.name}
+          bible={seriesBible.bible}
+          onOpenEpisode={(documentId) => {
+            setSeriesBible(null);
+            void handleOpenWorkspaceDocument(documentId);
+          }}
+          onCancel={() => setSeriesBible(null)}
+        />
+      )}
+
+      {corkboardCards && (
+        <CorkboardDialog
+          open
+          cards={corkboardCards}
+          onMove={(fromIndex, toIndex) =>
+            void handleMoveCorkboardCard(fromIndex, toIndex)
+          }
+          onUpdateCard={(card, details) =>
+            void handleUpdateCorkboardCard(card, details)
+          }
+          onOpenScene={(card) => {
+            setCorkboardCards(null);
+            handleSelectScene(card);
+          }}
+          onClose={() => setCorkboardCards(null)}
+        />
+      )}
+
+      {characterStats && (
+        <CharactersSheet
+          open
+          characters={characterStats}
+          onRename={handleRenameCharacter}
+          onClose={() => setCharacterStats(null)}
+        />
+      )}
+
+      {breakdownReports && (
+        <BreakdownReportsDialog
+          open
+          reports={breakdownReports}
+          onExport={handleExportBreakdown}
+          onClose={() => setBreakdownReports(null)}
+        />
+      )}
+
+      {breakdownTagTarget && (
+        <BreakdownTagDialog
+          open
+          selectedText={breakdownTagTarget.block.text
+            .slice(breakdownTagTarget.range.start, breakdownTagTarget.range.end)
+            .trim()}
+          tags={readBreakdownTags(breakdownTagTarget.block)}
+          onTag={(category) => void handleApplyBreakdownTag(category)}
+          onRemoveTag={(tag) => void handleRemoveBreakdownTag(tag)}
+          onClose={() => setBreakdownTagTarget(null)}
+        />
+      )}
+
+      {breakdownSheets && (
+        <BreakdownSheetsDialog
+          open
+          sheets={breakdownSheets.sheets}
+          elements={breakdownSheets.elements}
+          onExport={handleExportBreakdownSheets}
+          onClose={() => setBreakdownSheets(null)}
+        />
+      )}
     </div>
   );
 };
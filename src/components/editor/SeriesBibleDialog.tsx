@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { SeriesBible, SeriesBibleEntry } from "@/utils";
+
+interface SeriesBibleDialogProps {
+  open: boolean;
+  seriesName: string;
+  bible: SeriesBible;
+  /** فتح الحلقة في المحرر بالنقر على رقمها */
+  onOpenEpisode: (documentId: string) => void;
+  onCancel: () => void;
+}
+
+const BibleEntryList: React.FC<{
+  entries: SeriesBibleEntry[];
+  showDialogue: boolean;
+  emptyLabel: string;
+  onOpenEpisode: (documentId: string) => void;
+}> = ({ entries, showDialogue, emptyLabel, onOpenEpisode }) => {
+  if (entries.length === 0) {
+    return (
+      <p className="p-4 text-center text-sm text-muted-foreground">
+        {emptyLabel}
+      </p>
+    );
+  }
+  return (
+    <div className="max-h-[55vh] divide-y overflow-y-auto rounded border text-sm">
+      {entries.map((entry) => (
+        <div key={entry.name} className="space-y-1 p-3">
+          <div className="flex items-baseline justify-between gap-2">
+            <strong>{entry.name}</strong>
+            <span className="text-xs text-muted-foreground">
+              {entry.appearances.length} حلقات · {entry.sceneCount} مشاهد
+              {showDialogue && ` · ${entry.dialogueCount} حوارات`}
+            </span>
+          </div>
+          {entry.description && (
+            <p className="text-xs text-muted-foreground">{entry.description}</p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {entry.appearances.map((appearance) => (
+              <button
+                key={appearance.documentId}
+                type="button"
+                title={`${appearance.episodeName} — المشاهد: ${appearance.scenes.join("، ")}`}
+                onClick={() => onOpenEpisode(appearance.documentId)}
+                className="hover:bg-primary/20 rounded bg-muted px-2 py-0.5 text-xs"
+              >
+                الحلقة {appearance.episodeNumber ?? "?"}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * كتاب المسلسل: الشخصيات والأماكن عبر كل الحلقات مع الحلقات التي تظهر فيها.
+ */
+export const SeriesBibleDialog: React.FC<SeriesBibleDialogProps> = ({
+  open,
+  seriesName,
+  bible,
+  onOpenEpisode,
+  onCancel,
+}) => {
+  const [query, setQuery] = useState("");
+  const normalizedQuery = query.trim();
+  const matches = (entry: SeriesBibleEntry) =>
+    !normalizedQuery || entry.name.includes(normalizedQuery);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onCancel();
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>كتاب المسلسل: {seriesName}</DialogTitle>
+          <DialogDescription>
+            مشتق من {bible.episodeCount} حلقات محفوظة في مساحة العمل.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={query}
+          placeholder="ابحث عن شخصية أو مكان..."
+          onChange={(event) => setQuery(event.target.value)}
+        />
+
+        <Tabs defaultValue="characters" dir="rtl">
+          <TabsList>
+            <TabsTrigger value="characters">
+              الشخصيات ({bible.characters.length})
+            </TabsTrigger>
+            <TabsTrigger value="locations">
+              الأماكن ({bible.locations.length})
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="characters">
+            <BibleEntryList
+              entries={bible.characters.filter(matches)}
+              showDialogue
+              emptyLabel="لا توجد شخصيات مطابقة."
+              onOpenEpisode={onOpenEpisode}
+            />
+          </TabsContent>
+          <TabsContent value="locations">
+            <BibleEntryList
+              entries={bible.locations.filter(matches)}
+              showDialogue={false}
+              emptyLabel="لا توجد أماكن مطابقة."
+              onOpenEpisode={onOpenEpisode}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeriesBibleDialog;
@@ -0,0 +1,162 @@
+"use client";
+
+import React from "react";
+import { IconCheck, IconX } from "@tabler/icons-react";
+import { classificationTypeOptions } from "@/constants/formats";
+import { cn, getSuspicionDetectorLabel } from "@/utils";
+import type { SuspiciousLineReview } from "@/types/agent-review";
+
+interface SuspiciousLinesPanelProps {
+  lines: SuspiciousLineReview[];
+  onSelect: (review: SuspiciousLineReview) => void;
+  /** حسم السطر: النوع النهائي، أو null لإبقاء تصنيفه الحالي (رفض) */
+  onResolve: (review: SuspiciousLineReview, finalType: string | null) => void;
+}
+
+const typeLabel = (type: string): string =>
+  classificationTypeOptions.find((option) => option.value === type)?.label ??
+  type;
+
+/**
+ * لوحة مراجعة الأسطر المشتبه فيها بعد اللصق: الاشتباه وأسبابه وسياقه
+ * واقتراح الوكيل، مع قبول الاقتراح أو رفضه أو اختيار نوع آخر.
+ */
+export const SuspiciousLinesPanel: React.FC<SuspiciousLinesPanelProps> = ({
+  lines,
+  onSelect,
+  onResolve,
+}) => {
+  if (lines.length === 0) {
+    return (
+      <p className="px-3 py-2 text-xs text-neutral-600">
+        لا توجد أسطر مشتبه فيها.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="max-h-[28rem] space-y-2 overflow-y-auto">
+      {lines.map((review) => {
+        const canAccept =
+          review.suggestedType !== null &&
+          review.suggestedType !== review.assignedType;
+        return (
+          <li
+            key={review.id}
+            className="space-y-1.5 rounded-lg bg-white/5 px-2 py-2 text-xs text-neutral-400"
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(review)}
+              className="flex w-full items-start gap-2 text-right hover:text-white"
+            >
+              <span className="shrink-0 rounded bg-orange-500/15 px-1 font-mono text-orange-300">
+                {review.totalSuspicion}%
+              </span>
+              <span className="line-clamp-2">{review.text}</span>
+            </button>
+
+            <p>
+              {typeLabel(review.assignedType)}
+              {review.suggestedType !== null && (
+                <>
+                  {" ← "}
+                  <span className="text-white">
+                    {typeLabel(review.suggestedType)}
+                  </span>
+                  {review.agentConfidence !== null &&
+                    ` (${Math.round(review.agentConfidence * 100)}%)`}
+                </>
+              )}
+            </p>
+            {review.suggestedType === null && (
+              <p className="text-neutral-600">لم يقترح الوكيل نوعًا آخر.</p>
+            )}
+            {review.agentReason && (
+              <p className="text-neutral-500">{review.agentReason}</p>
+            )}
+
+            <ul className="list-disc space-y-0.5 pr-4 text-neutral-500">
+              {review.reasons.map((reason, index) => (
+                <li key={index}>
+                  {review.detectorIds?.[index] && (
+                    <span className="text-neutral-400">
+                      {getSuspicionDetectorLabel(review.detectorIds[index])}
+                      :{" "}
+                    </span>
+                  )}
+                  {reason}
+                </li>
+              ))}
+            </ul>
+
+            {review.contextLines.length > 0 && (
+              <details>
+                <summary className="cursor-pointer text-neutral-500">
+                  السياق
+                </summary>
+                <ol className="mt-1 space-y-0.5">
+                  {review.contextLines.map((line) => (
+                    <li
+                      key={line.lineIndex}
+                      className={cn(
+                        "truncate",
+                        line.lineIndex === review.lineIndex && "text-white"
+                      )}
+                    >
+                      <span className="text-neutral-600">
+                        {typeLabel(line.assignedType)}:{" "}
+                      </span>
+                      {line.text}
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+
+            <div className="flex items-center gap-1.5 pt-1">
+              <button
+                type="button"
+                disabled={!canAccept}
+                onClick={() => onResolve(review, review.suggestedType)}
+                className="flex items-center gap-1 rounded-md bg-emerald-500/15 px-2 py-1 text-emerald-300 hover:bg-emerald-500/25 disabled:opacity-40"
+              >
+                <IconCheck size={12} />
+                قبول
+              </button>
+              <button
+                type="button"
+                onClick={() => onResolve(review, null)}
+                className="flex items-center gap-1 rounded-md bg-white/5 px-2 py-1 hover:bg-white/10 hover:text-white"
+              >
+                <IconX size={12} />
+                رفض
+              </button>
+              <select
+                value=""
+                onChange={(event) => {
+                  if (event.target.value) {
+                    onResolve(review, event.target.value);
+                  }
+                }}
+                className="min-w-0 flex-1 rounded-md border border-white/10 bg-transparent px-1 py-1 text-neutral-400"
+                aria-label="تغيير النوع"
+              >
+                <option value="">تغيير إلى…</option>
+                {classificationTypeOptions
+                  .filter((option) => option.value !== review.assignedType)
+                  .map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default SuspiciousLinesPanel;
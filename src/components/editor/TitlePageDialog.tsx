@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { TitlePageInfo } from "@/types/screenplay";
+import { normalizeTitlePage } from "@/utils";
+
+interface TitlePageDialogProps {
+  open: boolean;
+  titlePage: TitlePageInfo | null;
+  onSave: (titlePage: TitlePageInfo | null) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_TITLE_PAGE: TitlePageInfo = { title: "", author: "" };
+
+const TITLE_PAGE_FIELDS: Array<{
+  field: keyof TitlePageInfo;
+  label: string;
+  placeholder: string;
+}> = [
+  { field: "title", label: "العنوان", placeholder: "رحلة الأمل" },
+  { field: "author", label: "تأليف", placeholder: "اسم الكاتب" },
+  { field: "basedOn", label: "مبني على", placeholder: 'رواية "الأمل"' },
+  { field: "draft", label: "المسودة", placeholder: "المسودة الثالثة" },
+  { field: "date", label: "التاريخ", placeholder: "2025-02-08" },
+  { field: "contact", label: "التواصل", placeholder: "بريد أو هاتف" },
+];
+
+/**
+ * محرر صفحة العنوان؛ يُركَّب عند الفتح فقط حتى تبدأ الحقول
+ * دائمًا من صفحة العنوان الحالية.
+ */
+export const TitlePageDialog: React.FC<TitlePageDialogProps> = ({
+  open,
+  titlePage,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<TitlePageInfo>(
+    titlePage ?? EMPTY_TITLE_PAGE
+  );
+
+  const updateField = (field: keyof TitlePageInfo, value: string) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onCancel();
+      }}
+    >
+      <DialogContent className="sm:max-w-md" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>صفحة العنوان</DialogTitle>
+          <DialogDescription>
+            تُحفظ مع المستند وتظهر كصفحة أولى مستقلة عند التصدير إلى PDF و DOCX.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="title-page-form"
+          className="space-y-3 py-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave(normalizeTitlePage(draft));
+          }}
+        >
+          {TITLE_PAGE_FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`title-page-${field}`}>{label}</Label>
+              <Input
+                id={`title-page-${field}`}
+                value={draft[field] ?? ""}
+                placeholder={placeholder}
+                onChange={(e) => updateField(field, e.target.value)}
+                dir="rtl"
+              />
+            </div>
+          ))}
+        </form>
+
+        <DialogFooter className="flex gap-2 sm:justify-start">
+          <Button variant="outline" onClick={onCancel}>
+            إلغاء
+          </Button>
+          <Button variant="outline" onClick={() => setDraft(EMPTY_TITLE_PAGE)}>
+            مسح الحقول
+          </Button>
+          <Button type="submit" form="title-page-form">
+            حفظ
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TitlePageDialog;
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { screenplayFormats } from "@/constants/formats";
+import { cn, getRevisionStats, type ProjectRevision } from "@/utils";
+
+export type RevisionRestoreTarget = "current" | "new";
+
+interface VersionHistorySheetProps {
+  open: boolean;
+  documentName: string;
+  /** لقطات المستند بترتيب إنشائها */
+  revisions: ProjectRevision[];
+  onCreateSnapshot: (label: string) => Promise<void>;
+  onRestore: (revision: ProjectRevision, target: RevisionRestoreTarget) => void;
+  onClose: () => void;
+}
+
+const getFormatLabel = (formatId: string): string =>
+  screenplayFormats.find((format) => format.id === formatId)?.label ?? formatId;
+
+/**
+ * الخط الزمني لنسخ المستند: لقطات تلقائية ويدوية مع معاينة واستعادة.
+ */
+export const VersionHistorySheet: React.FC<VersionHistorySheetProps> = ({
+  open,
+  documentName,
+  revisions,
+  onCreateSnapshot,
+  onRestore,
+  onClose,
+}) => {
+  const [label, setLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const timeline = [...revisions].reverse();
+  const selected = timeline.find((revision) => revision.id === selectedId);
+
+  const createSnapshot = async () => {
+    setIsSaving(true);
+    try {
+      await onCreateSnapshot(label);
+      setLabel("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) onClose();
+      }}
+    >
+      <SheetContent side="left" className="w-full sm:max-w-xl" dir="rtl">
+        <SheetHeader>
+          <SheetTitle>سجل النسخ: {documentName}</SheetTitle>
+          <SheetDescription>
+            لقطة تلقائية كل بضع دقائق عند وجود تغييرات، ولقطات يدوية بأسماء.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 px-4">
+          <Input
+            value={label}
+            placeholder="اسم اللقطة، مثل: مسودة ثانية للمنتج"
+            onChange={(event) => setLabel(event.target.value)}
+          />
+          <Button
+            disabled={isSaving || !label.trim()}
+            onClick={() => void createSnapshot()}
+          >
+            حفظ لقطة
+          </Button>
+        </div>
+
+        <div className="grid min-h-0 flex-1 grid-cols-[14rem_1fr] gap-3 px-4 pb-4">
+          <div className="overflow-y-auto rounded border">
+            {timeline.length === 0 && (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                لا توجد لقطات بعد.
+              </p>
+            )}
+            {timeline.map((revision) => {
+              const stats = getRevisionStats(revision);
+              return (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    "block w-full border-b p-2 text-right text-sm hover:bg-muted",
+                    revision.id === selectedId && "bg-muted"
+                  )}
+                >
+                  <span className="flex items-center justify-between gap-1">
+                    <strong className="truncate">{revision.label}</strong>
+                    {revision.auto && (
+                      <Badge variant="secondary">تلقائية</Badge>
+                    )}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {new Date(revision.createdAt).toLocaleString("ar")}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {stats.words} كلمة · {stats.scenes} مشهد
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex min-h-0 flex-col gap-2">
+            {selected ? (
+              <>
+                <div className="flex-1 space-y-1 overflow-y-auto rounded border p-3 text-sm">
+                  {selected.payload.blocks.map((block, index) => (
+                    <p key={block.id ?? index} className="whitespace-pre-wrap">
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {getFormatLabel(block.formatId)}
+                      </span>
+                      {block.text}
+                    </p>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => onRestore(selected, "current")}>
+                    استعادة كنسخة حالية
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => onRestore(selected, "new")}
+                  >
+                    استعادة في مستند جديد
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                اختر لقطة لمعاينتها.
+              </p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VersionHistorySheet;
@@ -2,3 +2,4 @@ export { useIsMobile } from "./use-mobile";
 export { useToast, toast } from "./use-toast";
 export { useHistory } from "./use-history";
 export { useAutoSave, loadFromStorage } from "./use-local-storage";
+export { useSnapshotAutoSave } from "./use-snapshot-autosave";
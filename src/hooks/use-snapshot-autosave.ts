@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SaveState } from "@/types/screenplay";
+import { logger } from "@/utils/logger";
+
+/**
+ * حفظ لقطات دورية للمحتوى المتغير مع حالة الحفظ وحارس beforeunload.
+ * save تُستدعى فقط عند وجود تغييرات منذ آخر حفظ. اللقطة للاسترجاع فقط،
+ * فتبقى الحالة غير محفوظة ويبقى الحارس حتى يستدعي الحفظ الفعلي markSaved.
+ */
+export function useSnapshotAutoSave({
+  save,
+  intervalMs,
+  enabled = true,
+}: {
+  save: () => Promise<void>;
+  intervalMs: number;
+  enabled?: boolean;
+}) {
+  const [saveState, setSaveState] = useState<SaveState>("saved");
+  const dirtyRef = useRef(false);
+  const saveRef = useRef(save);
+
+  useEffect(() => {
+    saveRef.current = save;
+  }, [save]);
+
+  const markDirty = useCallback(() => {
+    dirtyRef.current = true;
+    setSaveState("unsaved");
+  }, []);
+
+  const markSaved = useCallback(() => {
+    dirtyRef.current = false;
+    setSaveState("saved");
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (!dirtyRef.current) return;
+    dirtyRef.current = false;
+    setSaveState("saving");
+    try {
+      await saveRef.current();
+      // قد يكتب المستخدم أثناء الحفظ فتبقى تغييرات للدورة التالية.
+      setSaveState(dirtyRef.current ? "unsaved" : "snapshot-saved");
+    } catch (error) {
+      dirtyRef.current = true;
+      setSaveState("error");
+      logger.error("فشل الحفظ التلقائي", {
+        component: "AutoSave",
+        data: error,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => void flush(), intervalMs);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") void flush();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [enabled, intervalMs, flush]);
+
+  useEffect(() => {
+    if (saveState === "saved") return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [saveState]);
+
+  return { saveState, markDirty, markSaved, flush };
+}
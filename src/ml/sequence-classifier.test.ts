@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeAll } from "vitest";
+import {
+  SequenceLineClassifier,
+  extractLineFeatures,
+} from "./sequence-classifier";
+
+describe("Sequence Classifier (HMM)", () => {
+  let classifier: SequenceLineClassifier;
+
+  beforeAll(() => {
+    classifier = new SequenceLineClassifier();
+    classifier.train();
+  });
+
+  test("سمات السطر تشمل التعابير والدوال والموضع", () => {
+    const features = extractLineFeatures("مشهد 4", 0);
+    expect(features).toContain("re:scene-number");
+    expect(features).toContain("shape:digits");
+    expect(features).toContain("pos:first");
+    expect(features).toContain("w0:مشهد");
+    expect(extractLineFeatures("يدخل أحمد إلى الغرفة")).toContain(
+      "fn:action-verb"
+    );
+  });
+
+  test("يفك ترميز مستند كامل بتسلسل صحيح", () => {
+    const lines = [
+      "بسم الله الرحمن الرحيم",
+      "مشهد 4",
+      "داخلي - شقة هند - ليل",
+      "صالة الشقة",
+      "تجلس هند أمام التلفزيون",
+      "هند:",
+      "(بقلق)",
+      "هو اتأخر ليه كده؟",
+      "يفتح الباب ويدخل طارق",
+      "طارق:",
+      "آسف، الطريق كان زحمة",
+      "قطع إلى:",
+    ];
+    const result = classifier.decode(lines);
+    expect(result.types).toEqual([
+      "basmala",
+      "scene-header-1",
+      "scene-header-2",
+      "scene-header-3",
+      "action",
+      "character",
+      "parenthetical",
+      "dialogue",
+      "action",
+      "character",
+      "dialogue",
+      "transition",
+    ]);
+    expect(result.confidences).toHaveLength(lines.length);
+    result.confidences.forEach((confidence) => {
+      expect(confidence).toBeGreaterThan(0);
+      expect(confidence).toBeLessThanOrEqual(99);
+    });
+  });
+
+  test("السياق يحدد نوع السطر الملتبس", () => {
+    // "طارق" بلا نقطتين: اسم شخصية قبل الحوار
+    const result = classifier.decode([
+      "يفتح الباب ويدخل طارق",
+      "طارق",
+      "آسف، الطريق كان زحمة",
+    ]);
+    expect(result.types[1]).toBe("character");
+    expect(result.types[2]).toBe("dialogue");
+  });
+
+  test("المستند الفارغ يرجع نتيجة فارغة", () => {
+    expect(classifier.decode([])).toEqual({ types: [], confidences: [] });
+  });
+
+  test("إعادة التدريب بالتصحيحات تغيّر التصنيف", () => {
+    const lines = ["تنظر سارة من النافذة", "ظلام", "يجلس على الكرسي"];
+    const corrected = new SequenceLineClassifier();
+    expect(corrected.decode(lines).types[1]).toBe("character");
+
+    corrected.retrain([{ text: "ظلام", label: "action" }]);
+    expect(corrected.isReady()).toBe(true);
+    expect(corrected.decode(lines).types[1]).toBe("action");
+  });
+
+  test("إعادة التدريب بالتصحيحات نفسها لا تكرر أمثلتها", () => {
+    const lines = ["تنظر سارة من النافذة", "ظلام", "يجلس على الكرسي"];
+    const corrections = [{ text: "ظلام", label: "action" }];
+    const once = new SequenceLineClassifier();
+    once.train(corrections);
+    const repeated = new SequenceLineClassifier();
+    repeated.train(corrections);
+    repeated.retrain(corrections);
+    repeated.retrain(corrections);
+
+    expect(repeated.decode(lines)).toEqual(once.decode(lines));
+  });
+});
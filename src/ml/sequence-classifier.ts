@@ -0,0 +1,361 @@
+/**
+ * =========================
+ *  Sequence Classifier - المصنف التسلسلي (HMM)
+ * =========================
+ *
+ * نموذج ماركوف مخفي فوق سمات كل سطر:
+ * - الانبعاث: Naive Bayes على سمات السطر (تعابير arabic-patterns، دوال
+ *   text-utils، شكل السطر وموضعه، وأول كلمة فيه)
+ * - الانتقال: احتمال النوع بعد النوع السابق من مقاطع TRAINING_SEQUENCES
+ *   مع أولوية قواعد Enter في screenplay-rules
+ * - فك الترميز: Viterbi على المستند الملصوق كاملاً، والثقة من الاحتمال
+ *   الهامشي (forward-backward) للنوع المختار
+ */
+
+import {
+  ACTION_CUE_RE,
+  BASMALA_ALLAH_RE,
+  BASMALA_BASM_RE,
+  CONVERSATIONAL_MARKERS_RE,
+  INLINE_DIALOGUE_RE,
+  PARENTHETICAL_RE,
+  PRONOUN_ACTION_RE,
+  QUOTE_MARKS_RE,
+  SCENE_HEADER3_KNOWN_PLACES_RE,
+  SCENE_LOCATION_RE,
+  SCENE_NUMBER_EXACT_RE,
+  SCENE_TIME_RE,
+  TRANSITION_RE,
+  VOCATIVE_RE,
+} from "@/utils/arabic-patterns";
+import { getNextFormatOnEnter } from "@/utils/screenplay-rules";
+import {
+  hasActionVerbStructure,
+  hasSentencePunctuation,
+  isActionCueLine,
+  isActionVerbStart,
+  isImperativeStart,
+  matchesActionStartPattern,
+  normalizeLine,
+} from "@/utils/text-utils";
+import {
+  TRAINING_EXAMPLES,
+  TRAINING_SEQUENCES,
+  type TrainingExample,
+} from "./training-data";
+
+export interface SequenceDecodeResult {
+  types: string[];
+  /** الاحتمال الهامشي للنوع المختار لكل سطر (0-99) */
+  confidences: number[];
+}
+
+interface LabelledFeatures {
+  label: string;
+  features: string[];
+}
+
+/** Laplace smoothing لاحتمالات السمات */
+const FEATURE_ALPHA = 0.5;
+/** وزن الانتقال المتوقع من قواعد Enter مقابل المقاطع المصنّفة */
+const RULE_TRANSITION_WEIGHT = 2;
+const TRANSITION_ALPHA = 0.1;
+
+const REGEX_FEATURES: Array<[string, RegExp]> = [
+  ["re:scene-number", SCENE_NUMBER_EXACT_RE],
+  ["re:scene-time", SCENE_TIME_RE],
+  ["re:scene-location", SCENE_LOCATION_RE],
+  ["re:known-place", SCENE_HEADER3_KNOWN_PLACES_RE],
+  ["re:transition", TRANSITION_RE],
+  ["re:parenthetical", PARENTHETICAL_RE],
+  ["re:inline-dialogue", INLINE_DIALOGUE_RE],
+  ["re:conversational", CONVERSATIONAL_MARKERS_RE],
+  ["re:vocative", VOCATIVE_RE],
+  ["re:quote", QUOTE_MARKS_RE],
+  ["re:pronoun-action", PRONOUN_ACTION_RE],
+  ["re:action-cue", ACTION_CUE_RE],
+];
+
+const PREDICATE_FEATURES: Array<[string, (line: string) => boolean]> = [
+  ["fn:action-verb", isActionVerbStart],
+  ["fn:action-pattern", matchesActionStartPattern],
+  ["fn:action-structure", hasActionVerbStructure],
+  ["fn:action-cue-line", isActionCueLine],
+  ["fn:imperative", isImperativeStart],
+  ["fn:punctuation", hasSentencePunctuation],
+];
+
+const getWordCountBucket = (count: number): string => {
+  if (count <= 1) return "1";
+  if (count <= 3) return "2-3";
+  if (count <= 7) return "4-7";
+  return "8+";
+};
+
+/**
+ * سمات السطر الفعّالة. سمة الموضع (أول سطر) تُضاف عند تمرير index،
+ * فلا تتعلمها إلا أسطر TRAINING_SEQUENCES.
+ */
+export const extractLineFeatures = (line: string, index?: number): string[] => {
+  const normalized = normalizeLine(line).replace(/\s+/g, " ").trim();
+  if (!normalized) return ["shape:empty"];
+  const withoutColon = normalized.replace(/[:：]\s*$/, "");
+  const words = withoutColon.split(" ").filter(Boolean);
+  const features: string[] = [];
+
+  for (const [name, pattern] of REGEX_FEATURES) {
+    if (pattern.test(normalized)) features.push(name);
+  }
+  for (const [name, predicate] of PREDICATE_FEATURES) {
+    if (predicate(normalized)) features.push(name);
+  }
+  if (BASMALA_BASM_RE.test(normalized) && BASMALA_ALLAH_RE.test(normalized)) {
+    features.push("re:basmala");
+  }
+
+  features.push(`shape:words=${getWordCountBucket(words.length)}`);
+  if (/[:：]$/.test(normalized)) features.push("shape:ends-colon");
+  if (/[?؟]$/.test(normalized)) features.push("shape:ends-question");
+  if (/!$/.test(normalized)) features.push("shape:ends-exclamation");
+  if (/[-–—]/.test(normalized)) features.push("shape:dash");
+  if (/[0-9٠-٩]/.test(normalized)) features.push("shape:digits");
+
+  if (index === 0) features.push("pos:first");
+
+  const firstWord = (words[0] ?? "")
+    .replace(/[()（）]/g, "")
+    .replace(/[0-9٠-٩]+/g, "#");
+  if (firstWord) features.push(`w0:${firstWord}`);
+  return features;
+};
+
+const logSumExp = (values: number[]): number => {
+  const max = Math.max(...values);
+  if (max === -Infinity) return -Infinity;
+  return max + Math.log(values.reduce((sum, v) => sum + Math.exp(v - max), 0));
+};
+
+/**
+ * مصنف تسلسلي (HMM) لأسطر السيناريو
+ */
+export class SequenceLineClassifier {
+  private states: string[] = [];
+  private featureLogProbs: Map<string, Map<string, number>> = new Map();
+  private unseenFeatureLogProbs: Map<string, number> = new Map();
+  private startLogProbs: number[] = [];
+  private transitionLogProbs: number[][] = [];
+  private trained: boolean = false;
+
+  /**
+   * تدريب النموذج من TRAINING_EXAMPLES وTRAINING_SEQUENCES وأمثلة إضافية
+   * (تصحيحات المستخدم أسطر مفردة تؤثر في الانبعاث فقط).
+   */
+  train(extraExamples: TrainingExample[] = []): void {
+    const sequences = TRAINING_SEQUENCES;
+    const observations: LabelledFeatures[] = [
+      ...[...TRAINING_EXAMPLES, ...extraExamples].map((example) => ({
+        label: example.label,
+        features: extractLineFeatures(example.text),
+      })),
+      ...sequences.flatMap((sequence) =>
+        sequence.map((example, index) => ({
+          label: example.label,
+          features: extractLineFeatures(example.text, index),
+        }))
+      ),
+    ];
+    this.states = [...new Set(observations.map((item) => item.label))];
+
+    this.trainEmissions(observations);
+    this.trainTransitions(sequences);
+    this.trained = true;
+  }
+
+  /**
+   * إعادة التدريب بمجموعة التصحيحات الكاملة؛ تحل محل السابقة ولا تُضاف
+   * إليها، فتكرار التصحيح نفسه لا يضاعف وزنه.
+   */
+  retrain(corrections: TrainingExample[]): void {
+    this.train(corrections);
+  }
+
+  isReady(): boolean {
+    return this.trained;
+  }
+
+  /**
+   * تصنيف أسطر المستند كاملة دفعة واحدة (Viterbi)
+   */
+  decode(lines: string[]): SequenceDecodeResult {
+    if (!this.trained) {
+      this.train();
+    }
+    if (lines.length === 0) return { types: [], confidences: [] };
+
+    const emissions = lines.map((line, index) =>
+      this.scoreEmissions(extractLineFeatures(line, index))
+    );
+    const types = this.viterbi(emissions).map((state) => this.states[state]);
+    const posteriors = this.posteriors(emissions);
+    const confidences = types.map((type, index) =>
+      Math.min(
+        Math.round(posteriors[index][this.states.indexOf(type)] * 100),
+        99
+      )
+    );
+    return { types, confidences };
+  }
+
+  private trainEmissions(observations: LabelledFeatures[]): void {
+    const counts = new Map<string, Map<string, number>>();
+    const totals = new Map<string, number>();
+    const vocabulary = new Set<string>();
+
+    for (const { label, features } of observations) {
+      const labelCounts = counts.get(label) ?? new Map();
+      for (const feature of features) {
+        labelCounts.set(feature, (labelCounts.get(feature) ?? 0) + 1);
+        totals.set(label, (totals.get(label) ?? 0) + 1);
+        vocabulary.add(feature);
+      }
+      counts.set(label, labelCounts);
+    }
+
+    this.featureLogProbs = new Map();
+    this.unseenFeatureLogProbs = new Map();
+    for (const state of this.states) {
+      const denominator =
+        (totals.get(state) ?? 0) + FEATURE_ALPHA * vocabulary.size;
+      const logProbs = new Map<string, number>();
+      counts.get(state)?.forEach((count, feature) => {
+        logProbs.set(feature, Math.log((count + FEATURE_ALPHA) / denominator));
+      });
+      this.featureLogProbs.set(state, logProbs);
+      this.unseenFeatureLogProbs.set(
+        state,
+        Math.log(FEATURE_ALPHA / denominator)
+      );
+    }
+  }
+
+  private trainTransitions(sequences: TrainingExample[][]): void {
+    const size = this.states.length;
+    const startCounts = new Array(size).fill(TRANSITION_ALPHA);
+    const counts = this.states.map(() =>
+      new Array(size).fill(TRANSITION_ALPHA)
+    );
+
+    this.states.forEach((state, from) => {
+      const ruleNext = this.states.indexOf(getNextFormatOnEnter(state));
+      if (ruleNext >= 0) counts[from][ruleNext] += RULE_TRANSITION_WEIGHT;
+    });
+
+    for (const sequence of sequences) {
+      sequence.forEach((example, index) => {
+        const current = this.states.indexOf(example.label);
+        if (index === 0) {
+          startCounts[current]++;
+          return;
+        }
+        counts[this.states.indexOf(sequence[index - 1].label)][current]++;
+      });
+    }
+
+    const toLogProbs = (row: number[]) => {
+      const total = row.reduce((sum, count) => sum + count, 0);
+      return row.map((count) => Math.log(count / total));
+    };
+    this.startLogProbs = toLogProbs(startCounts);
+    this.transitionLogProbs = counts.map(toLogProbs);
+  }
+
+  private scoreEmissions(features: string[]): number[] {
+    return this.states.map((state) => {
+      const logProbs = this.featureLogProbs.get(state)!;
+      const unseen = this.unseenFeatureLogProbs.get(state)!;
+      return features.reduce(
+        (score, feature) => score + (logProbs.get(feature) ?? unseen),
+        0
+      );
+    });
+  }
+
+  private viterbi(emissions: number[][]): number[] {
+    const size = this.states.length;
+    let scores = emissions[0].map(
+      (emission, state) => this.startLogProbs[state] + emission
+    );
+    const backPointers: number[][] = [];
+
+    for (let t = 1; t < emissions.length; t++) {
+      const pointers = new Array(size).fill(0);
+      const next = new Array(size).fill(-Infinity);
+      for (let to = 0; to < size; to++) {
+        for (let from = 0; from < size; from++) {
+          const score = scores[from] + this.transitionLogProbs[from][to];
+          if (score > next[to]) {
+            next[to] = score;
+            pointers[to] = from;
+          }
+        }
+        next[to] += emissions[t][to];
+      }
+      backPointers.push(pointers);
+      scores = next;
+    }
+
+    let best = scores.indexOf(Math.max(...scores));
+    const path = [best];
+    for (let t = backPointers.length - 1; t >= 0; t--) {
+      best = backPointers[t][best];
+      path.unshift(best);
+    }
+    return path;
+  }
+
+  private posteriors(emissions: number[][]): number[][] {
+    const size = this.states.length;
+    const stateIndexes = this.states.map((_, state) => state);
+    const forward: number[][] = [
+      emissions[0].map(
+        (emission, state) => this.startLogProbs[state] + emission
+      ),
+    ];
+    for (let t = 1; t < emissions.length; t++) {
+      forward.push(
+        stateIndexes.map(
+          (to) =>
+            logSumExp(
+              stateIndexes.map(
+                (from) =>
+                  forward[t - 1][from] + this.transitionLogProbs[from][to]
+              )
+            ) + emissions[t][to]
+        )
+      );
+    }
+
+    const backward: number[][] = new Array(emissions.length);
+    backward[emissions.length - 1] = new Array(size).fill(0);
+    for (let t = emissions.length - 2; t >= 0; t--) {
+      backward[t] = stateIndexes.map((from) =>
+        logSumExp(
+          stateIndexes.map(
+            (to) =>
+              this.transitionLogProbs[from][to] +
+              emissions[t + 1][to] +
+              backward[t + 1][to]
+          )
+        )
+      );
+    }
+
+    return forward.map((row, t) => {
+      const joint = row.map((score, state) => score + backward[t][state]);
+      const total = logSumExp(joint);
+      return joint.map((score) => Math.exp(score - total));
+    });
+  }
+}
+
+export default SequenceLineClassifier;
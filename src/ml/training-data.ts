@@ -215,3 +215,59 @@ export const TRAINING_EXAMPLES: TrainingExample[] = [
   { text: "بسم الله الرّحمن الرّحيم", label: "basmala" },
   { text: "بسم الله الرحمان الرحيم", label: "basmala" },
 ];
+
+/**
+ * مقاطع سيناريو مصنّفة سطرًا بسطر لتعلّم احتمالات الانتقال بين الأنواع
+ * (شخصية ← حوار ← توصيف ...) في المصنف التسلسلي.
+ */
+export const TRAINING_SEQUENCES: TrainingExample[][] = [
+  [
+    { text: "بسم الله الرحمن الرحيم", label: "basmala" },
+    { text: "مشهد 1", label: "scene-header-1" },
+    { text: "داخلي - بيت أحمد - نهار", label: "scene-header-2" },
+    { text: "غرفة المعيشة", label: "scene-header-3" },
+    { text: "يجلس أحمد على الأريكة يقرأ الجريدة", label: "action" },
+    { text: "تدخل سارة وهي تحمل فنجان قهوة", label: "action" },
+    { text: "سارة:", label: "character" },
+    { text: "صباح الخير يا أحمد، نمت كويس؟", label: "dialogue" },
+    { text: "أحمد:", label: "character" },
+    { text: "(دون أن يرفع عينه)", label: "parenthetical" },
+    { text: "الحمد لله، بس الشغل كتير", label: "dialogue" },
+    { text: "تضع سارة الفنجان أمامه وتجلس بجواره", label: "action" },
+    { text: "قطع إلى:", label: "transition" },
+  ],
+  [
+    { text: "مشهد 2", label: "scene-header-1" },
+    { text: "خارجي - شارع رئيسي - ليل", label: "scene-header-2" },
+    { text: "شارع الهرم", label: "scene-header-3" },
+    { text: "تمر السيارات مسرعة تحت أضواء الشارع", label: "action" },
+    { text: "يقف خالد على الرصيف ينظر في ساعته", label: "action" },
+    { text: "خالد:", label: "character" },
+    { text: "(لنفسه)", label: "parenthetical" },
+    { text: "اتأخر تاني؟ مش معقول", label: "dialogue" },
+    { text: "يرن هاتفه فيرد بسرعة", label: "action" },
+    { text: "خالد:", label: "character" },
+    { text: "أيوه يا عمر، أنت فين؟", label: "dialogue" },
+    { text: "صوت عمر:", label: "character" },
+    { text: "(عبر الهاتف)", label: "parenthetical" },
+    { text: "خمس دقائق وأكون عندك", label: "dialogue" },
+    { text: "اختفاء تدريجي", label: "transition" },
+  ],
+  [
+    { text: "مشهد 3", label: "scene-header-1" },
+    { text: "داخلي - مكتب المدير - صباح", label: "scene-header-2" },
+    { text: "مكتب المدير", label: "scene-header-3" },
+    { text: "المدير يجلس خلف مكتبه وأمامه ملفات كثيرة", label: "action" },
+    { text: "يطرق الباب", label: "action" },
+    { text: "المدير:", label: "character" },
+    { text: "ادخل", label: "dialogue" },
+    { text: "تدخل منى بتردد", label: "action" },
+    { text: "منى:", label: "character" },
+    { text: "حضرتك طلبتني؟", label: "dialogue" },
+    { text: "المدير:", label: "character" },
+    { text: "(بحدة)", label: "parenthetical" },
+    { text: "اقعدي، عندنا مشكلة كبيرة", label: "dialogue" },
+    { text: "وعايز أعرف مين المسؤول عنها", label: "dialogue" },
+    { text: "قطع:", label: "transition" },
+  ],
+];
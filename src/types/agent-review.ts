@@ -55,9 +55,40 @@ export interface AgentSuspiciousLinePayload {
   assignedType: LineType;
   totalSuspicion: number;
   reasons: string[];
+  /** معرّفات الكاشفات التي رفعت الاشتباه (بترتيب reasons) */
+  detectorIds?: string[];
   contextLines: AgentReviewContextLine[];
 }
 
+/**
+ * @description
+ * سطر في لوحة المراجعة - Suspicious Line Review
+ * سطر مشتبه فيه بعد اللصق مع قرار الوكيل المقترح (إن وُجد) دون تطبيقه،
+ * ليحسمه الكاتب بالقبول أو الرفض أو تغيير النوع
+ *
+ * @example
+ * ```typescript
+ * const review: SuspiciousLineReview = {
+ *   ...suspicious,
+ *   id: 'paste-123:3',
+ *   pasteBatchId: 'paste-123',
+ *   suggestedType: 'character',
+ *   agentConfidence: 0.92,
+ *   agentReason: 'اسم شخصية يسبق سطر حوار'
+ * };
+ * ```
+ */
+export interface SuspiciousLineReview extends AgentSuspiciousLinePayload {
+  /** معرّف فريد: دفعة اللصق + رقم العنصر */
+  id: string;
+  pasteBatchId: string;
+  /** التصنيف الذي اقترحه الوكيل (null لو لم يراجع السطر) */
+  suggestedType: LineType | null;
+  /** ثقة الوكيل في اقتراحه (0-1) */
+  agentConfidence: number | null;
+  agentReason: string | null;
+}
+
 /**
  * @description
  * طلب مراجعة الوكيل - Agent Review Request Payload
@@ -13,6 +13,7 @@ describe("getFileType", () => {
     expect(getFileType("test.pdf")).toBe("pdf");
     expect(getFileType("test.fountain")).toBe("fountain");
     expect(getFileType("test.fdx")).toBe("fdx");
+    expect(getFileType("test.filmlane")).toBe("filmlane");
   });
 
   it("should be case insensitive", () => {
@@ -41,5 +42,6 @@ describe("ACCEPTED_FILE_EXTENSIONS", () => {
     expect(ACCEPTED_FILE_EXTENSIONS).toContain(".pdf");
     expect(ACCEPTED_FILE_EXTENSIONS).toContain(".fountain");
     expect(ACCEPTED_FILE_EXTENSIONS).toContain(".fdx");
+    expect(ACCEPTED_FILE_EXTENSIONS).toContain(".filmlane");
   });
 });
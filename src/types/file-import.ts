@@ -4,6 +4,8 @@
  */
 
 import type { ScreenplayBlock } from "@/utils/document-model";
+import type { FilmlaneProject } from "@/utils/project-file";
+import type { TitlePageInfo } from "@/types/screenplay";
 
 /** وضع استيراد الملف */
 export type FileImportMode = "replace" | "insert";
@@ -15,7 +17,8 @@ export type ImportedFileType =
   | "txt"
   | "pdf"
   | "fountain"
-  | "fdx";
+  | "fdx"
+  | "filmlane";
 
 /** طريقة الاستخراج المستخدمة */
 export type ExtractionMethod =
@@ -25,6 +28,9 @@ export type ExtractionMethod =
   | "doc-converter-flow"
   | "word-com"
   | "ocr-mistral"
+  | "fountain-parser"
+  | "fdx-parser"
+  | "filmlane-project"
   | "app-payload";
 
 /** نتيجة استخراج نص من ملف */
@@ -49,6 +55,10 @@ export interface FileExtractionResult {
   structuredBlocks?: ScreenplayBlock[];
   /** إصدار payload عند الاسترجاع المباشر */
   payloadVersion?: number;
+  /** صفحة العنوان المستخرجة من الملف إن وُجدت */
+  titlePage?: TitlePageInfo;
+  /** بيانات مشروع Filmlane كاملة عند فتح ملف .filmlane */
+  project?: FilmlaneProject;
 }
 
 /** طلب استخراج ملف للـ API */
@@ -68,7 +78,7 @@ export interface FileExtractionResponse {
 
 /** امتدادات الملفات المقبولة */
 export const ACCEPTED_FILE_EXTENSIONS =
-  ".doc,.docx,.txt,.pdf,.fountain,.fdx" as const;
+  ".doc,.docx,.txt,.pdf,.fountain,.fdx,.filmlane" as const;
 
 /** Map من الامتدادات إلى أنواع الملفات */
 export function getFileType(filename: string): ImportedFileType | null {
@@ -86,6 +96,8 @@ export function getFileType(filename: string): ImportedFileType | null {
       return "fountain";
     case "fdx":
       return "fdx";
+    case "filmlane":
+      return "filmlane";
     default:
       return null;
   }
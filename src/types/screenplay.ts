@@ -36,7 +36,7 @@ export interface ScreenplayFormat {
  *
  * @responsibilities
  * - حساب عدد الكلمات والحروف في السيناريو
- * - تقدير عدد الصفحات (1 صفحة ≈ 500 كلمة)
+ * - عدد الصفحات من محرك التخطيط المشترك مع المحرر والتصدير (page-layout)
  * - عدد المشاهد المكتشفة
  *
  * @example
@@ -394,6 +394,30 @@ export interface CharacterInfo {
   description?: string; // وصف الشخصية
 }
 
+/**
+ * @description
+ * معلومات المكان - Location Info
+ * بيانات تفصيلية عن كل مكان تصوير في السيناريو
+ *
+ * @responsibilities
+ * - تجميع المشاهد التي تدور في المكان نفسه
+ * - تخزين وصف المكان (اختياري)
+ *
+ * @example
+ * ```typescript
+ * const location: LocationInfo = {
+ *   name: 'منزل أحمد',
+ *   scenes: [1, 4],
+ *   description: 'شقة صغيرة في حي شعبي'
+ * };
+ * ```
+ */
+export interface LocationInfo {
+  name: string; // اسم المكان
+  scenes: number[]; // أرقام المشاهد التي تدور فيه
+  description?: string; // وصف المكان
+}
+
 /**
  * @description
  * نتيجة الذكاء الاصطناعي - AI Result
@@ -451,7 +475,7 @@ export interface LoadingState {
  * الصيغ المدعومة لاستيراد/تصدير السيناريو
  *
  * @responsibilities
- * - تحديد الصيغ القابلة للاستيراد (Fountain, FDX, PDF, DOCX, TXT)
+ * - تحديد الصيغ القابلة للاستيراد (Fountain, FDX, PDF, DOCX, TXT, Filmlane)
  * - تحديد الصيغ القابلة للتصدير
  *
  * @example
@@ -460,7 +484,14 @@ export interface LoadingState {
  * const exportFormat: FileType = 'pdf';
  * ```
  */
-export type FileType = "fountain" | "fdx" | "pdf" | "docx" | "txt" | "html";
+export type FileType =
+  | "fountain"
+  | "fdx"
+  | "pdf"
+  | "docx"
+  | "txt"
+  | "html"
+  | "filmlane";
 
 /**
  * @description
@@ -474,11 +505,18 @@ export type FileType = "fountain" | "fdx" | "pdf" | "docx" | "txt" | "html";
  * @example
  * ```typescript
  * let saveState: SaveState = 'unsaved';
- * // بعد الحفظ:
+ * // بعد حفظ لقطة الاسترجاع فقط (لم يُحفظ المستند بعد):
+ * saveState = 'snapshot-saved';
+ * // بعد الحفظ في مساحة العمل أو في ملف:
  * saveState = 'saved';
  * ```
  */
-export type SaveState = "saved" | "unsaved" | "saving" | "error";
+export type SaveState =
+  | "saved"
+  | "unsaved"
+  | "saving"
+  | "snapshot-saved"
+  | "error";
 
 /**
  * @description
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { TRANSITION_RE } from "./arabic-patterns";
+import {
+  DEFAULT_TRANSITIONS,
+  getAutocompleteKind,
+  getAutocompleteSuggestions,
+} from "./autocomplete";
+import type { ScreenplayBlock } from "./document-model";
+
+const blocks: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "scene-header-3", text: "شقة سمير" },
+  { formatId: "character", text: "سمير:" },
+  { formatId: "dialogue", text: "..." },
+  { formatId: "character", text: "سمير" },
+  { formatId: "dialogue", text: "..." },
+  { formatId: "character", text: "سلمى" },
+  { formatId: "dialogue", text: "..." },
+  { formatId: "transition", text: "قطع إلى:" },
+  { formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "scene-header-3", text: "شارع رئيسي" },
+  { formatId: "character", text: "سعاد" },
+  { formatId: "dialogue", text: "..." },
+  { formatId: "character", text: "س" },
+];
+
+describe("autocomplete", () => {
+  it("ranks characters in the current scene first, then by frequency", () => {
+    const suggestions = getAutocompleteSuggestions(blocks, {
+      kind: "character",
+      prefix: "س",
+      blockIndex: 13,
+    });
+
+    expect(suggestions.map((suggestion) => suggestion.value)).toEqual([
+      "سعاد",
+      "سمير",
+      "سلمى",
+    ]);
+    expect(suggestions[1]).toMatchObject({ count: 2, inScene: false });
+  });
+
+  it("offers nothing once the typed cue is a complete existing name", () => {
+    const cues: ScreenplayBlock[] = [
+      { formatId: "character", text: "سميرة:" },
+      { formatId: "dialogue", text: "..." },
+      { formatId: "character", text: "سمير:" },
+      { formatId: "dialogue", text: "..." },
+      { formatId: "character", text: "سمير:" },
+    ];
+
+    expect(
+      getAutocompleteSuggestions(cues, {
+        kind: "character",
+        prefix: "سمير:",
+        blockIndex: 4,
+      })
+    ).toEqual([]);
+    expect(
+      getAutocompleteSuggestions(cues, {
+        kind: "character",
+        prefix: "سمي",
+        blockIndex: 4,
+      }).map((suggestion) => suggestion.value)
+    ).toEqual(["سمير:", "سميرة:"]);
+  });
+
+  it("suggests locations and transition phrases matching TRANSITION_RE", () => {
+    expect(
+      getAutocompleteSuggestions(blocks, { kind: "location", prefix: "ش" }).map(
+        (suggestion) => suggestion.value
+      )
+    ).toEqual(["شارع رئيسي", "شقة سمير"]);
+
+    const transitions = getAutocompleteSuggestions(blocks, {
+      kind: "transition",
+      prefix: "قط",
+    });
+    expect(transitions[0]).toMatchObject({ value: "قطع إلى:", count: 1 });
+    expect(
+      getAutocompleteSuggestions(blocks, { kind: "transition", prefix: "cu" })
+    ).toEqual([
+      { value: "CUT TO:", kind: "transition", count: 0, inScene: false },
+    ]);
+    expect(
+      DEFAULT_TRANSITIONS.every((phrase) => TRANSITION_RE.test(phrase))
+    ).toBe(true);
+  });
+
+  it("maps line formats to autocomplete kinds", () => {
+    expect(getAutocompleteKind("character")).toBe("character");
+    expect(getAutocompleteKind("scene-header-3")).toBe("location");
+    expect(getAutocompleteKind("dialogue")).toBeNull();
+  });
+});
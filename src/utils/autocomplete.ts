@@ -0,0 +1,153 @@
+/**
+ * autocomplete.ts - الإكمال التلقائي أثناء الكتابة
+ * اقتراحات لأسماء الشخصيات (حسب التكرار والحداثة، وشخصيات المشهد الحالي أولاً)،
+ * وللأماكن في scene-header-3، ولعبارات الانتقال المطابقة لـ TRANSITION_RE.
+ */
+
+import { TRANSITION_RE } from "./arabic-patterns";
+import { getCharacterKey } from "./character-stats";
+import { isSceneStart, type ScreenplayBlock } from "./document-model";
+
+export type AutocompleteKind = "character" | "location" | "transition";
+
+export interface AutocompleteSuggestion {
+  value: string;
+  kind: AutocompleteKind;
+  /** عدد مرات الاستخدام في المستند */
+  count: number;
+  /** هل ظهرت الشخصية في المشهد الحالي */
+  inScene: boolean;
+}
+
+export interface AutocompleteQuery {
+  kind: AutocompleteKind;
+  /** النص المكتوب حتى الآن في السطر */
+  prefix: string;
+  /** موضع السطر الحالي في الكتل (لمعرفة المشهد الحالي) */
+  blockIndex?: number;
+  limit?: number;
+}
+
+const AUTOCOMPLETE_FORMATS: Record<AutocompleteKind, string> = {
+  character: "character",
+  location: "scene-header-3",
+  transition: "transition",
+};
+
+/** عبارات انتقال شائعة تُقترح حتى لو لم تُستخدم بعد */
+export const DEFAULT_TRANSITIONS = [
+  "قطع إلى:",
+  "قطع",
+  "اختفاء إلى:",
+  "تحول إلى:",
+  "انتقال إلى:",
+  "CUT TO:",
+  "FADE TO:",
+  "DISSOLVE TO:",
+  "WIPE TO:",
+].filter((phrase) => TRANSITION_RE.test(phrase));
+
+const collapseSpaces = (text: string): string =>
+  text.replace(/\s+/g, " ").trim();
+
+/** حدود المشهد الذي يحتوي blockIndex */
+const findSceneRange = (
+  blocks: ScreenplayBlock[],
+  blockIndex: number
+): [number, number] => {
+  let start = 0;
+  for (
+    let index = Math.min(blockIndex, blocks.length - 1);
+    index >= 0;
+    index--
+  ) {
+    if (isSceneStart(blocks[index])) {
+      start = index;
+      break;
+    }
+  }
+  let end = blocks.length;
+  for (let index = blockIndex + 1; index < blocks.length; index++) {
+    if (isSceneStart(blocks[index])) {
+      end = index;
+      break;
+    }
+  }
+  return [start, end];
+};
+
+/**
+ * اقتراحات الإكمال للسطر الحالي مرتبة: المشهد الحالي ثم التكرار ثم الحداثة.
+ * الصيغ المتقاربة تُدمج (getCharacterKey) ويُقترح آخر ما كُتب منها.
+ * السطر الحالي نفسه لا يُحتسب. إن طابق المكتوب مدخلاً موجودًا تمامًا فلا
+ * اقتراحات، كي لا يُعرض اسم أطول بدل اسم مكتمل ("سمير:" لا يقترح "سميرة").
+ */
+export const getAutocompleteSuggestions = (
+  blocks: ScreenplayBlock[],
+  { kind, prefix, blockIndex = -1, limit = 6 }: AutocompleteQuery
+): AutocompleteSuggestion[] => {
+  const formatId = AUTOCOMPLETE_FORMATS[kind];
+  const typedKey = getCharacterKey(prefix);
+  const [sceneStart, sceneEnd] =
+    blockIndex >= 0 ? findSceneRange(blocks, blockIndex) : [-1, -1];
+
+  const byKey = new Map<
+    string,
+    AutocompleteSuggestion & { lastIndex: number }
+  >();
+  let typedIsComplete = false;
+  const addCandidate = (value: string, index: number) => {
+    if (!value) return;
+    const key = getCharacterKey(value);
+    if (key === typedKey) {
+      typedIsComplete = true;
+      return;
+    }
+    if (!key.startsWith(typedKey)) return;
+    const candidate = byKey.get(key) ?? {
+      value,
+      kind,
+      count: 0,
+      inScene: false,
+      lastIndex: -1,
+    };
+    if (index >= 0) {
+      candidate.value = value;
+      candidate.count++;
+      candidate.lastIndex = Math.max(candidate.lastIndex, index);
+      if (index >= sceneStart && index < sceneEnd) candidate.inScene = true;
+    }
+    byKey.set(key, candidate);
+  };
+
+  blocks.forEach((block, index) => {
+    if (index === blockIndex || block.formatId !== formatId) return;
+    addCandidate(collapseSpaces(block.text), index);
+  });
+  if (kind === "transition") {
+    DEFAULT_TRANSITIONS.forEach((phrase) => addCandidate(phrase, -1));
+  }
+  if (typedIsComplete) return [];
+
+  return Array.from(byKey.values())
+    .sort(
+      (left, right) =>
+        Number(right.inScene) - Number(left.inScene) ||
+        right.count - left.count ||
+        right.lastIndex - left.lastIndex
+    )
+    .slice(0, limit)
+    .map(({ value, count, inScene }) => ({ value, kind, count, inScene }));
+};
+
+/**
+ * نوع الإكمال المناسب لتنسيق السطر الحالي، أو null إن لم يكن له إكمال.
+ */
+export const getAutocompleteKind = (
+  formatId: string
+): AutocompleteKind | null => {
+  const entry = Object.entries(AUTOCOMPLETE_FORMATS).find(
+    ([, format]) => format === formatId
+  );
+  return entry ? (entry[0] as AutocompleteKind) : null;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import {
+  breakdownTableToCsv,
+  buildBreakdownScenes,
+  buildBreakdownTable,
+  groupScenesByLocation,
+} from "./breakdown-reports";
+
+const blocks: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "scene-header-2", text: "داخلي - ليل" },
+  { formatId: "scene-header-3", text: "شقة سمير" },
+  { formatId: "character", text: "سمير:" },
+  { formatId: "dialogue", text: "من أرسل هذا؟" },
+  { formatId: "character", text: "ليلى" },
+  { formatId: "dialogue", text: "لا أعرف." },
+  { formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "scene-header-2", text: "خارجي - نهار" },
+  { formatId: "scene-header-3", text: "الشارع" },
+  { formatId: "character", text: "ليلي" },
+  { formatId: "dialogue", text: "انتظر!" },
+  { formatId: "scene-header-1", text: "مشهد 3" },
+  { formatId: "scene-header-2", text: "داخلي - نهار" },
+  { formatId: "scene-header-3", text: "شقة سمير" },
+  { formatId: "action", text: "الغرفة فارغة." },
+];
+
+describe("breakdown-reports", () => {
+  it("builds scenes with setting, time, location and unified cast", () => {
+    const scenes = buildBreakdownScenes(blocks);
+
+    expect(scenes.map((scene) => scene.number)).toEqual(["1", "2", "3"]);
+    expect(scenes[0]).toMatchObject({
+      setting: "داخلي",
+      time: "ليل",
+      location: "شقة سمير",
+      cast: ["سمير", "ليلى"],
+    });
+    expect(scenes[1]).toMatchObject({
+      setting: "خارجي",
+      time: "نهار",
+      cast: ["ليلى"],
+    });
+    expect(scenes[2].cast).toEqual([]);
+  });
+
+  it("groups scenes by location in order of first appearance", () => {
+    const locations = groupScenesByLocation(buildBreakdownScenes(blocks));
+
+    expect(locations).toHaveLength(2);
+    expect(locations[0]).toMatchObject({
+      location: "شقة سمير",
+      scenes: ["1", "3"],
+      settings: ["داخلي"],
+      times: ["ليل", "نهار"],
+    });
+    expect(locations[1].location).toBe("الشارع");
+  });
+
+  it("builds a cast-by-scene matrix", () => {
+    const table = buildBreakdownTable(buildBreakdownScenes(blocks), "cast");
+
+    expect(table.headers).toEqual(["المشهد", "سمير", "ليلى"]);
+    expect(table.rows).toEqual([
+      ["1", "X", "X"],
+      ["2", "", "X"],
+      ["3", "", ""],
+    ]);
+  });
+
+  it("serializes CSV with quoting and an Excel-compatible variant", () => {
+    const table = {
+      title: "اختبار",
+      headers: ["المشهد", "الممثلون"],
+      rows: [["1", 'سمير، "ليلى", أحمد']],
+    };
+
+    expect(breakdownTableToCsv(table)).toBe(
+      'المشهد,الممثلون\n1,"سمير، ""ليلى"", أحمد"\n'
+    );
+    const excel = breakdownTableToCsv(table, { excel: true });
+    expect(excel.startsWith("\uFEFF")).toBe(true);
+    expect(excel).toContain("\r\n");
+  });
+});
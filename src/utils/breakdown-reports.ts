@@ -0,0 +1,183 @@
+/**
+ * breakdown-reports.ts - تقارير تفريغ السيناريو للإنتاج
+ * قائمة المشاهد (الرقم، داخلي/خارجي، الزمن، المكان، الطول بالأثمان، الممثلون)،
+ * وتقرير الأماكن، ومصفوفة الممثلين حسب المشهد، مع تحويلها إلى CSV
+ * (عادي أو متوافق مع Excel) والجداول نفسها تُستخدم في تصدير PDF.
+ */
+
+import { SCENE_LOCATION_RE, SCENE_TIME_RE } from "./arabic-patterns";
+import { getCharacterKey } from "./character-stats";
+import type { ScreenplayBlock } from "./document-model";
+import { buildSceneCards, formatPageEighths } from "./scene-cards";
+
+export type BreakdownReportKind = "scenes" | "locations" | "cast";
+
+export interface BreakdownScene {
+  number: string;
+  /** داخلي/خارجي كما يطابق SCENE_LOCATION_RE */
+  setting: string | null;
+  /** نهار/ليل... كما يطابق SCENE_TIME_RE */
+  time: string | null;
+  location: string;
+  pageEighths: number;
+  cast: string[];
+}
+
+export interface BreakdownLocation {
+  location: string;
+  scenes: string[];
+  settings: string[];
+  times: string[];
+  pageEighths: number;
+}
+
+export interface BreakdownTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export const BREAKDOWN_REPORT_TITLES: Record<BreakdownReportKind, string> = {
+  scenes: "قائمة المشاهد",
+  locations: "تقرير الأماكن",
+  cast: "الممثلون حسب المشهد",
+};
+
+const UNKNOWN_LOCATION = "غير محدد";
+
+const uniqueValues = (values: Array<string | null>): string[] =>
+  Array.from(new Set(values.filter((value): value is string => !!value)));
+
+/**
+ * مشاهد التفريغ من كتل المستند؛ صيغ الاسم المتقاربة تُوحَّد بأول صيغة ظهرت.
+ */
+export const buildBreakdownScenes = (
+  blocks: ScreenplayBlock[]
+): BreakdownScene[] => {
+  const castNames = new Map<string, string>();
+  return buildSceneCards(blocks).map((card) => {
+    const headerText =
+      card.setting || card.time
+        ? `${card.setting ?? ""} ${card.time ?? ""}`
+        : card.heading;
+    const cast = uniqueValues(
+      card.characters.map((name) => {
+        const key = getCharacterKey(name);
+        if (!castNames.has(key)) castNames.set(key, name);
+        return castNames.get(key) ?? name;
+      })
+    );
+    return {
+      number: card.sceneNumber ?? String(card.index + 1),
+      setting: headerText.match(SCENE_LOCATION_RE)?.[1] ?? card.setting,
+      time: headerText.match(SCENE_TIME_RE)?.[1] ?? card.time,
+      location: card.location,
+      pageEighths: card.pageEighths,
+      cast,
+    };
+  });
+};
+
+/**
+ * تجميع المشاهد حسب المكان بترتيب أول ظهور.
+ */
+export const groupScenesByLocation = (
+  scenes: BreakdownScene[]
+): BreakdownLocation[] => {
+  const byLocation = new Map<string, BreakdownLocation>();
+  for (const scene of scenes) {
+    const location = scene.location || UNKNOWN_LOCATION;
+    const entry = byLocation.get(location) ?? {
+      location,
+      scenes: [],
+      settings: [],
+      times: [],
+      pageEighths: 0,
+    };
+    entry.scenes.push(scene.number);
+    entry.settings = uniqueValues([...entry.settings, scene.setting]);
+    entry.times = uniqueValues([...entry.times, scene.time]);
+    entry.pageEighths += scene.pageEighths;
+    byLocation.set(location, entry);
+  }
+  return Array.from(byLocation.values());
+};
+
+/**
+ * جدول التقرير المطلوب بعناوين أعمدة عربية.
+ */
+export const buildBreakdownTable = (
+  scenes: BreakdownScene[],
+  kind: BreakdownReportKind
+): BreakdownTable => {
+  const title = BREAKDOWN_REPORT_TITLES[kind];
+  if (kind === "locations") {
+    return {
+      title,
+      headers: [
+        "المكان",
+        "عدد المشاهد",
+        "المشاهد",
+        "داخلي/خارجي",
+        "الزمن",
+        "الطول (صفحات)",
+      ],
+      rows: groupScenesByLocation(scenes).map((entry) => [
+        entry.location,
+        String(entry.scenes.length),
+        entry.scenes.join("، "),
+        entry.settings.join("، "),
+        entry.times.join("، "),
+        formatPageEighths(entry.pageEighths),
+      ]),
+    };
+  }
+  if (kind === "cast") {
+    const cast = uniqueValues(scenes.flatMap((scene) => scene.cast));
+    return {
+      title,
+      headers: ["المشهد", ...cast],
+      rows: scenes.map((scene) => [
+        scene.number,
+        ...cast.map((name) => (scene.cast.includes(name) ? "X" : "")),
+      ]),
+    };
+  }
+  return {
+    title,
+    headers: [
+      "المشهد",
+      "داخلي/خارجي",
+      "الزمن",
+      "المكان",
+      "الطول (صفحات)",
+      "الممثلون",
+    ],
+    rows: scenes.map((scene) => [
+      scene.number,
+      scene.setting ?? "",
+      scene.time ?? "",
+      scene.location,
+      formatPageEighths(scene.pageEighths),
+      scene.cast.join("، "),
+    ]),
+  };
+};
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * تحويل الجدول إلى CSV. صيغة Excel تضيف BOM (حتى يقرأ Excel العربية
+ * بترميز UTF-8) وتستخدم CRLF بين السطور.
+ */
+export const breakdownTableToCsv = (
+  table: BreakdownTable,
+  options: { excel?: boolean } = {}
+): string => {
+  const lineBreak = options.excel ? "\r\n" : "\n";
+  const csv = [table.headers, ...table.rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join(lineBreak);
+  return options.excel ? `\uFEFF${csv}${lineBreak}` : `${csv}\n`;
+};
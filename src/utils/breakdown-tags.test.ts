@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import {
+  addBreakdownTag,
+  buildBreakdownElements,
+  buildBreakdownElementsTable,
+  buildSceneBreakdownSheets,
+  readBreakdownTags,
+  removeBreakdownTags,
+} from "./breakdown-tags";
+
+const action = (text: string): ScreenplayBlock => ({
+  id: "a1",
+  formatId: "action",
+  text,
+});
+
+describe("breakdown-tags", () => {
+  it("stores trimmed ranges and replaces overlapping tags", () => {
+    const block = action("يفتح سمير الحقيبة الحمراء بحذر.");
+    const start = block.text.indexOf("الحقيبة");
+    block.metadata = addBreakdownTag(block, "prop", {
+      start: start - 1,
+      end: start + "الحقيبة الحمراء".length,
+    });
+
+    expect(readBreakdownTags(block)).toEqual([
+      {
+        category: "prop",
+        start,
+        end: start + "الحقيبة الحمراء".length,
+        text: "الحقيبة الحمراء",
+        occurrence: 0,
+      },
+    ]);
+
+    block.metadata = addBreakdownTag(block, "costume", {
+      start,
+      end: start + "الحقيبة".length,
+    });
+    expect(readBreakdownTags(block).map((tag) => tag.category)).toEqual([
+      "costume",
+    ]);
+
+    block.metadata = removeBreakdownTags(block);
+    expect(block.metadata).toBeUndefined();
+  });
+
+  it("relocates tags after the text changes and drops missing ones", () => {
+    const block = action("سيارة أجرة تقف.");
+    block.metadata = addBreakdownTag(block, "vehicle", { start: 0, end: 10 });
+
+    const edited = { ...block, text: "فجأة، سيارة أجرة تقف." };
+    expect(readBreakdownTags(edited)[0]).toMatchObject({
+      start: 6,
+      end: 16,
+    });
+    expect(readBreakdownTags({ ...block, text: "الشارع فارغ." })).toEqual([]);
+  });
+
+  it("relocates a tag to the occurrence that was tagged", () => {
+    const block = action("كلب عند الباب وكلب في الحديقة.");
+    const start = block.text.lastIndexOf("كلب");
+    block.metadata = addBreakdownTag(block, "animal", {
+      start,
+      end: start + "كلب".length,
+    });
+
+    const edited = {
+      ...block,
+      text: "في الصباح الباكر جدًا، كلب عند الباب وكلب في الحديقة.",
+    };
+    const [tag] = readBreakdownTags(edited);
+    expect(tag.start).toBe(edited.text.lastIndexOf("كلب"));
+    expect(edited.text.slice(tag.start, tag.end)).toBe("كلب");
+  });
+
+  it("rejects non-action blocks and empty selections", () => {
+    expect(() =>
+      addBreakdownTag({ formatId: "dialogue", text: "مرحبا" }, "prop", {
+        start: 0,
+        end: 5,
+      })
+    ).toThrow("action");
+    expect(() =>
+      addBreakdownTag(action("نص  قصير"), "prop", { start: 2, end: 4 })
+    ).toThrow();
+  });
+
+  it("builds scene sheets and a consolidated elements report", () => {
+    const tagged = (text: string, element: string, category: "prop") => {
+      const block = action(text);
+      const start = text.indexOf(element);
+      block.metadata = addBreakdownTag(block, category, {
+        start,
+        end: start + element.length,
+      });
+      return block;
+    };
+    const blocks: ScreenplayBlock[] = [
+      { id: "s1", formatId: "scene-header-1", text: "مشهد 1" },
+      { formatId: "scene-header-2", text: "داخلي - ليل" },
+      { formatId: "scene-header-3", text: "شقة سمير" },
+      tagged("على الطاولة مسدس قديم.", "مسدس", "prop"),
+      { formatId: "character", text: "سمير" },
+      { formatId: "dialogue", text: "لا تلمسه." },
+      { id: "s2", formatId: "scene-header-1", text: "مشهد 2" },
+      { formatId: "scene-header-2", text: "خارجي - نهار" },
+      tagged("ليلى تخفي المسدس.", "المسدس", "prop"),
+      tagged("ليلى تخفي مسدس.", "مسدس", "prop"),
+    ];
+
+    const sheets = buildSceneBreakdownSheets(blocks);
+    expect(sheets[0].scene).toMatchObject({
+      id: "s1",
+      number: 1,
+      location: "شقة سمير",
+      timeOfDay: "ليل",
+      pageNumber: 1,
+      characters: ["سمير"],
+    });
+    expect(sheets[0].elements).toEqual({ prop: ["مسدس"] });
+    expect(sheets[1].elements).toEqual({ prop: ["المسدس", "مسدس"] });
+
+    const elements = buildBreakdownElements(sheets);
+    expect(elements).toEqual([
+      { category: "prop", name: "مسدس", scenes: ["1", "2"] },
+      { category: "prop", name: "المسدس", scenes: ["2"] },
+    ]);
+    expect(buildBreakdownElementsTable(elements).rows[0]).toEqual([
+      "إكسسوار",
+      "مسدس",
+      "2",
+      "1، 2",
+    ]);
+  });
+
+  it("keeps elements that differ only inside parentheses apart", () => {
+    const block = action("سيارة (حمراء) تتبع سيارة (زرقاء).");
+    for (const element of ["سيارة (حمراء)", "سيارة (زرقاء)"]) {
+      const start = block.text.indexOf(element);
+      block.metadata = addBreakdownTag(block, "vehicle", {
+        start,
+        end: start + element.length,
+      });
+    }
+    const sheets = buildSceneBreakdownSheets([
+      { formatId: "scene-header-1", text: "مشهد 1" },
+      block,
+    ]);
+
+    expect(sheets[0].elements.vehicle).toEqual([
+      "سيارة (حمراء)",
+      "سيارة (زرقاء)",
+    ]);
+    expect(buildBreakdownElements(sheets).map((item) => item.name)).toEqual([
+      "سيارة (حمراء)",
+      "سيارة (زرقاء)",
+    ]);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * breakdown-tags.ts - وسوم تفريغ الإنتاج داخل سطور الوصف
+ * نص محدد في كتلة action يُوسم كعنصر تفريغ (إكسسوار، أزياء، مجاميع، مركبة...)
+ * ويُحفظ كنطاقات في metadata الكتلة، ومنها تُبنى ورقة تفريغ لكل مشهد
+ * (المشاهد تبدأ عند scene-header-1) وتقرير مجمّع بالعناصر.
+ */
+
+import type { SceneInfo } from "@/types/screenplay";
+import type { BreakdownTable } from "./breakdown-reports";
+import type {
+  ScreenplayBlock,
+  ScreenplayBlockMetadata,
+} from "./document-model";
+import { layoutScreenplayPages } from "./page-layout";
+import { buildSceneCards } from "./scene-cards";
+import { foldArabic } from "./text-utils";
+
+/** metadata تقبل القيم البسيطة فقط، فتُحفظ النطاقات كنص JSON */
+const BREAKDOWN_TAGS_META_KEY = "breakdownTags";
+
+export type BreakdownCategoryId =
+  | "prop"
+  | "costume"
+  | "makeup"
+  | "extras"
+  | "vehicle"
+  | "sfx"
+  | "animal"
+  | "set-dressing";
+
+export interface BreakdownCategory {
+  id: BreakdownCategoryId;
+  label: string;
+  hex: string;
+}
+
+/** فئات عناصر التفريغ بترتيب ظهورها في ورقة التفريغ */
+export const BREAKDOWN_CATEGORIES: BreakdownCategory[] = [
+  { id: "prop", label: "إكسسوار", hex: "#9333EA" },
+  { id: "costume", label: "أزياء", hex: "#2563EB" },
+  { id: "makeup", label: "مكياج وشعر", hex: "#DB2777" },
+  { id: "extras", label: "مجاميع", hex: "#16A34A" },
+  { id: "vehicle", label: "مركبات", hex: "#EA580C" },
+  { id: "sfx", label: "مؤثرات خاصة", hex: "#DC2626" },
+  { id: "animal", label: "حيوانات", hex: "#CA8A04" },
+  { id: "set-dressing", label: "تجهيز الديكور", hex: "#0891B2" },
+];
+
+export interface BreakdownTag {
+  category: BreakdownCategoryId;
+  /** بداية النطاق ونهايته في نص الكتلة */
+  start: number;
+  end: number;
+  /** النص الموسوم وقت الوسم؛ يُستخدم لإعادة تحديد النطاق بعد التعديل */
+  text: string;
+  /** ترتيب ظهور النص الموسوم في السطر وقت الوسم (0 لأول ظهور) */
+  occurrence?: number;
+}
+
+export interface BreakdownTagRange {
+  start: number;
+  end: number;
+}
+
+export interface SceneBreakdownSheet {
+  scene: SceneInfo;
+  /** رقم المشهد كما يُطبع (قد يحمل لاحقة مثل 12A) */
+  sceneNumber: string;
+  elements: Partial<Record<BreakdownCategoryId, string[]>>;
+}
+
+export interface BreakdownElement {
+  category: BreakdownCategoryId;
+  name: string;
+  /** أرقام المشاهد بترتيب ظهورها */
+  scenes: string[];
+}
+
+const isBreakdownCategoryId = (value: unknown): value is BreakdownCategoryId =>
+  BREAKDOWN_CATEGORIES.some((category) => category.id === value);
+
+export const getBreakdownCategory = (
+  id: BreakdownCategoryId
+): BreakdownCategory =>
+  BREAKDOWN_CATEGORIES.find((category) => category.id === id) ??
+  BREAKDOWN_CATEGORIES[0];
+
+const parseStoredTags = (block: ScreenplayBlock): BreakdownTag[] => {
+  const raw = block.metadata?.[BREAKDOWN_TAGS_META_KEY];
+  if (typeof raw !== "string") return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (tag): tag is BreakdownTag =>
+        !!tag &&
+        isBreakdownCategoryId(tag.category) &&
+        Number.isInteger(tag.start) &&
+        Number.isInteger(tag.end) &&
+        typeof tag.text === "string"
+    );
+  } catch {
+    return [];
+  }
+};
+
+/** مواضع ظهور النص في السطر بالترتيب */
+const findOccurrences = (text: string, needle: string): number[] => {
+  const starts: number[] = [];
+  for (
+    let index = text.indexOf(needle);
+    index >= 0;
+    index = text.indexOf(needle, index + 1)
+  ) {
+    starts.push(index);
+  }
+  return starts;
+};
+
+/**
+ * وسوم الكتلة بعد مطابقتها مع نصها الحالي: إن تغيّر النص قبل النطاق
+ * يُبحث عن الظهور نفسه للنص الموسوم (أو أقربها إلى موضعه السابق إن
+ * تغيّر عدد مرات ظهوره)، وإن اختفى يُهمل الوسم.
+ */
+export const readBreakdownTags = (block: ScreenplayBlock): BreakdownTag[] =>
+  parseStoredTags(block)
+    .map((tag) => {
+      if (block.text.slice(tag.start, tag.end) === tag.text) return tag;
+      const starts = findOccurrences(block.text, tag.text);
+      if (starts.length === 0) return null;
+      const start =
+        tag.occurrence !== undefined && tag.occurrence < starts.length
+          ? starts[tag.occurrence]
+          : starts.reduce((nearest, candidate) =>
+              Math.abs(candidate - tag.start) < Math.abs(nearest - tag.start)
+                ? candidate
+                : nearest
+            );
+      return { ...tag, start, end: start + tag.text.length };
+    })
+    .filter((tag): tag is BreakdownTag => tag !== null)
+    .sort((left, right) => left.start - right.start);
+
+const withStoredTags = (
+  metadata: ScreenplayBlockMetadata | undefined,
+  tags: BreakdownTag[]
+): ScreenplayBlockMetadata | undefined => {
+  const next: ScreenplayBlockMetadata = { ...metadata };
+  if (tags.length > 0) {
+    next[BREAKDOWN_TAGS_META_KEY] = JSON.stringify(tags);
+  } else {
+    delete next[BREAKDOWN_TAGS_META_KEY];
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+const overlaps = (tag: BreakdownTagRange, range: BreakdownTagRange) =>
+  tag.start < range.end && range.start < tag.end;
+
+/**
+ * metadata الكتلة بعد وسم النطاق؛ الوسوم المتداخلة معه تُستبدل.
+ * المسافات على طرفي التحديد لا تدخل في النطاق.
+ */
+export const addBreakdownTag = (
+  block: ScreenplayBlock,
+  category: BreakdownCategoryId,
+  range: BreakdownTagRange
+): ScreenplayBlockMetadata | undefined => {
+  if (block.formatId !== "action") {
+    throw new Error("وسوم التفريغ متاحة لسطور الوصف (action) فقط");
+  }
+  const selected = block.text.slice(range.start, range.end);
+  const start = range.start + (selected.length - selected.trimStart().length);
+  const text = selected.trim();
+  if (!text) {
+    throw new Error("حدد نصًا داخل السطر لوسمه كعنصر تفريغ");
+  }
+  const tag: BreakdownTag = {
+    category,
+    start,
+    end: start + text.length,
+    text,
+    occurrence: findOccurrences(block.text, text).indexOf(start),
+  };
+  const tags = readBreakdownTags(block).filter((item) => !overlaps(item, tag));
+  return withStoredTags(
+    block.metadata,
+    [...tags, tag].sort((left, right) => left.start - right.start)
+  );
+};
+
+/**
+ * metadata الكتلة بعد حذف الوسوم المتداخلة مع النطاق (أو كل الوسوم).
+ */
+export const removeBreakdownTags = (
+  block: ScreenplayBlock,
+  range?: BreakdownTagRange
+): ScreenplayBlockMetadata | undefined =>
+  withStoredTags(
+    block.metadata,
+    range ? readBreakdownTags(block).filter((tag) => !overlaps(tag, range)) : []
+  );
+
+/**
+ * مفتاح توحيد العناصر: الأقواس جزء من اسم العنصر («سيارة (حمراء)»)
+ * لا امتداد إشارة شخصية، فيُطوى الإملاء فقط.
+ */
+const getElementKey = (name: string) => foldArabic(name);
+
+const addUniqueElement = (names: string[], name: string) => {
+  const key = getElementKey(name);
+  if (!names.some((existing) => getElementKey(existing) === key)) {
+    names.push(name);
+  }
+};
+
+/**
+ * ورقة تفريغ لكل مشهد: بيانات المشهد (SceneInfo) وعناصره حسب الفئة.
+ */
+export const buildSceneBreakdownSheets = (
+  blocks: ScreenplayBlock[]
+): SceneBreakdownSheet[] => {
+  const { blockPages } = layoutScreenplayPages(blocks);
+  return buildSceneCards(blocks).map((card) => {
+    const elements: SceneBreakdownSheet["elements"] = {};
+    for (const block of blocks.slice(
+      card.blockIndex,
+      card.blockIndex + card.blockCount
+    )) {
+      for (const tag of readBreakdownTags(block)) {
+        addUniqueElement((elements[tag.category] ??= []), tag.text);
+      }
+    }
+    const sceneNumber = card.sceneNumber ?? String(card.index + 1);
+    return {
+      scene: {
+        id: card.blockId ?? `scene-${card.index + 1}`,
+        number: card.index + 1,
+        heading: card.heading,
+        location: card.location,
+        timeOfDay: card.time ?? "",
+        pageNumber: blockPages[card.blockIndex] + 1,
+        characters: card.characters,
+      },
+      sceneNumber,
+      elements,
+    };
+  });
+};
+
+/**
+ * تقرير العناصر المجمّع: كل عنصر مرة واحدة لكل فئة مع المشاهد التي يظهر فيها.
+ */
+export const buildBreakdownElements = (
+  sheets: SceneBreakdownSheet[]
+): BreakdownElement[] => {
+  const byKey = new Map<string, BreakdownElement>();
+  for (const sheet of sheets) {
+    for (const category of BREAKDOWN_CATEGORIES) {
+      for (const name of sheet.elements[category.id] ?? []) {
+        const key = `${category.id}:${getElementKey(name)}`;
+        const element = byKey.get(key) ?? {
+          category: category.id,
+          name,
+          scenes: [],
+        };
+        if (!element.scenes.includes(sheet.sceneNumber)) {
+          element.scenes.push(sheet.sceneNumber);
+        }
+        byKey.set(key, element);
+      }
+    }
+  }
+  const order = BREAKDOWN_CATEGORIES.map((category) => category.id);
+  return Array.from(byKey.values()).sort(
+    (left, right) =>
+      order.indexOf(left.category) - order.indexOf(right.category)
+  );
+};
+
+/**
+ * جدول أوراق التفريغ: صف لكل مشهد وعمود لكل فئة.
+ */
+export const buildBreakdownSheetsTable = (
+  sheets: SceneBreakdownSheet[]
+): BreakdownTable => ({
+  title: "أوراق التفريغ",
+  headers: [
+    "المشهد",
+    "العنوان",
+    "الصفحة",
+    "الشخصيات",
+    ...BREAKDOWN_CATEGORIES.map((category) => category.label),
+  ],
+  rows: sheets.map((sheet) => [
+    sheet.sceneNumber,
+    sheet.scene.heading,
+    String(sheet.scene.pageNumber),
+    (sheet.scene.characters ?? []).join("، "),
+    ...BREAKDOWN_CATEGORIES.map((category) =>
+      (sheet.elements[category.id] ?? []).join("، ")
+    ),
+  ]),
+});
+
+export const buildBreakdownElementsTable = (
+  elements: BreakdownElement[]
+): BreakdownTable => ({
+  title: "تقرير العناصر",
+  headers: ["الفئة", "العنصر", "عدد المشاهد", "المشاهد"],
+  rows: elements.map((element) => [
+    getBreakdownCategory(element.category).label,
+    element.name,
+    String(element.scenes.length),
+    element.scenes.join("، "),
+  ]),
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import { collectCharacterStats, renameCharacter } from "./character-stats";
+
+const blocks: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "character", text: "أحمد:" },
+  { formatId: "dialogue", text: "صباح الخير يا منى" },
+  { formatId: "character", text: "منى" },
+  { formatId: "parenthetical", text: "(بهدوء)" },
+  { formatId: "dialogue", text: "أهلًا يا أحمد، تأخرت." },
+  { formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "action", text: "يدخل احمد مسرعًا." },
+  { formatId: "character", text: "احمد" },
+  { formatId: "dialogue", text: "آسف." },
+  { formatId: "dialogue", text: "الطريق كان مزدحمًا جدًا" },
+  { formatId: "character", text: "أحمد" },
+  { formatId: "dialogue", text: "هل رأيت الأحمدي؟" },
+];
+
+describe("character-stats", () => {
+  it("merges name variants and counts dialogue lines, words and scenes", () => {
+    const stats = collectCharacterStats(blocks, [
+      { name: "احمد", dialogueCount: 0, scenes: [], description: "البطل" },
+    ]);
+
+    expect(stats.map((character) => character.name)).toEqual(["أحمد", "منى"]);
+    expect(stats[0]).toEqual({
+      name: "أحمد",
+      variants: ["أحمد", "احمد"],
+      cueCount: 3,
+      lineCount: 4,
+      wordCount: 12,
+      scenes: [1, 2],
+      description: "البطل",
+    });
+    expect(stats[1]).toMatchObject({ lineCount: 1, wordCount: 4, scenes: [1] });
+  });
+
+  it("renames every cue and optionally whole-word dialogue mentions", () => {
+    const cuesOnly = renameCharacter(blocks, "احمد", "كريم");
+
+    expect(cuesOnly.cues).toBe(3);
+    expect(cuesOnly.mentions).toBe(0);
+    expect(cuesOnly.blocks[1].text).toBe("كريم:");
+    expect(cuesOnly.blocks[8].text).toBe("كريم");
+    expect(cuesOnly.blocks[5].text).toBe("أهلًا يا أحمد، تأخرت.");
+
+    const withDialogue = renameCharacter(blocks, "أحمد", "كريم", {
+      includeDialogue: true,
+    });
+    expect(withDialogue.mentions).toBe(1);
+    expect(withDialogue.blocks[5].text).toBe("أهلًا يا كريم، تأخرت.");
+    expect(withDialogue.blocks[12].text).toBe("هل رأيت الأحمدي؟");
+    expect(withDialogue.blocks[7].text).toBe("يدخل احمد مسرعًا.");
+    expect(() => renameCharacter(blocks, "أحمد", " ")).toThrow(
+      "اسم الشخصية الجديد لا يمكن أن يكون فارغًا"
+    );
+  });
+
+  it("reports the new name normalized like the renamed cues", () => {
+    const result = renameCharacter(blocks, "أحمد", "  كريم : ");
+
+    expect(result.name).toBe("كريم");
+    expect(result.blocks[1].text).toBe("كريم:");
+  });
+
+  it("treats cue extensions as the same character and keeps them on rename", () => {
+    const withExtensions: ScreenplayBlock[] = [
+      { formatId: "scene-header-1", text: "مشهد 1" },
+      { formatId: "character", text: "سمير:" },
+      { formatId: "dialogue", text: "من هناك؟" },
+      { formatId: "character", text: "سمير (صوت):" },
+      { formatId: "dialogue", text: "أنا هنا." },
+      { formatId: "character", text: "SAMIR (V.O.) (CONT'D)" },
+      { formatId: "dialogue", text: "Still here." },
+    ];
+
+    expect(
+      collectCharacterStats(withExtensions).map((character) => [
+        character.name,
+        character.lineCount,
+      ])
+    ).toEqual([
+      ["سمير", 2],
+      ["SAMIR", 1],
+    ]);
+
+    const arabic = renameCharacter(withExtensions, "سمير", "كريم");
+    expect(arabic.cues).toBe(2);
+    expect(arabic.blocks.map((block) => block.text).slice(1, 4)).toEqual([
+      "كريم:",
+      "من هناك؟",
+      "كريم (صوت):",
+    ]);
+
+    const english = renameCharacter(withExtensions, "Samir", "KARIM");
+    expect(english.blocks[5].text).toBe("KARIM (V.O.) (CONT'D)");
+  });
+});
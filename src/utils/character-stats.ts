@@ -0,0 +1,205 @@
+/**
+ * character-stats.ts - إحصاءات الشخصيات وإعادة تسميتها
+ * يجمع الشخصيات من كتل character مع دمج الصيغ المتقاربة ("أحمد" / "احمد")،
+ * ويحسب لكل شخصية عدد سطور الحوار وكلماته والمشاهد التي تظهر فيها،
+ * ويعيد تسمية الشخصية في كل الإشارات (واختياريًا داخل الحوار).
+ */
+
+import type { CharacterInfo } from "@/types/screenplay";
+import { isSceneStart, type ScreenplayBlock } from "./document-model";
+import { foldArabic, normalizeCharacterName } from "./text-utils";
+
+export interface CharacterStats {
+  /** الصيغة الأكثر استخدامًا للاسم */
+  name: string;
+  /** كل الصيغ المكتوبة للاسم في المستند */
+  variants: string[];
+  /** عدد مرات ظهور اسم الشخصية قبل الحوار */
+  cueCount: number;
+  /** عدد سطور الحوار */
+  lineCount: number;
+  wordCount: number;
+  /** أرقام المشاهد بترتيب ظهورها في المستند */
+  scenes: number[];
+  description?: string;
+}
+
+export interface CharacterRenameResult {
+  blocks: ScreenplayBlock[];
+  /** الاسم الجديد بعد التطبيع كما كُتب في المداخلات */
+  name: string;
+  /** عدد كتل character التي تغيّرت */
+  cues: number;
+  /** عدد الإشارات المستبدلة داخل الحوار */
+  mentions: number;
+}
+
+type CharacterAccumulator = CharacterStats & {
+  variantCounts: Map<string, number>;
+};
+
+const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(Boolean).length;
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// امتداد المداخلة بعد الاسم: "سمير (صوت):" أو "NAME (V.O.) (CONT'D)"
+const CUE_EXTENSION_RE = /(?:\s*[(（][^()（）]*[)）])+$/u;
+
+const splitCue = (cue: string): { name: string; extension: string } => {
+  const normalized = normalizeCharacterName(cue);
+  const extension = normalized.match(CUE_EXTENSION_RE)?.[0] ?? "";
+  return {
+    name: normalized.slice(0, normalized.length - extension.length).trim(),
+    extension,
+  };
+};
+
+/**
+ * اسم الشخصية من سطر المداخلة بلا النقطتين ولا امتداد المداخلة بين قوسين.
+ */
+export const getCueName = (cue: string): string => splitCue(cue).name;
+
+/**
+ * مفتاح مقارنة الأسماء: توحيد الألف والياء والتاء المربوطة وحالة الأحرف،
+ * بعد حذف امتداد المداخلة.
+ */
+export const getCharacterKey = (name: string): string =>
+  foldArabic(getCueName(name));
+
+/**
+ * إحصاءات الشخصيات مرتبة حسب عدد سطور الحوار.
+ * الأوصاف تُؤخذ من شخصيات المشروع المحفوظة.
+ */
+export const collectCharacterStats = (
+  blocks: ScreenplayBlock[],
+  known: CharacterInfo[] = []
+): CharacterStats[] => {
+  const descriptions = new Map(
+    known
+      .filter((character) => character.description)
+      .map((character) => [
+        getCharacterKey(character.name),
+        character.description,
+      ])
+  );
+  const byKey = new Map<string, CharacterAccumulator>();
+  let sceneNumber = 0;
+  let speaker: CharacterAccumulator | null = null;
+
+  for (const block of blocks) {
+    if (isSceneStart(block)) {
+      sceneNumber++;
+      speaker = null;
+      continue;
+    }
+    if (block.formatId === "dialogue" && speaker) {
+      speaker.lineCount++;
+      speaker.wordCount += countWords(block.text);
+      continue;
+    }
+    if (block.formatId === "parenthetical" && speaker) continue;
+    speaker = null;
+    if (block.formatId !== "character") continue;
+
+    const name = getCueName(block.text);
+    if (!name) continue;
+    const key = getCharacterKey(name);
+    let stats = byKey.get(key);
+    if (!stats) {
+      stats = {
+        name,
+        variants: [],
+        cueCount: 0,
+        lineCount: 0,
+        wordCount: 0,
+        scenes: [],
+        variantCounts: new Map(),
+      };
+      const description = descriptions.get(key);
+      if (description) stats.description = description;
+      byKey.set(key, stats);
+    }
+    stats.cueCount++;
+    stats.variantCounts.set(name, (stats.variantCounts.get(name) ?? 0) + 1);
+    if (sceneNumber > 0 && !stats.scenes.includes(sceneNumber)) {
+      stats.scenes.push(sceneNumber);
+    }
+    speaker = stats;
+  }
+
+  return Array.from(byKey.values())
+    .map(({ variantCounts, ...stats }) => {
+      const variants = Array.from(variantCounts.entries()).sort(
+        (left, right) => right[1] - left[1]
+      );
+      return {
+        ...stats,
+        name: variants[0][0],
+        variants: variants.map(([variant]) => variant),
+      };
+    })
+    .sort(
+      (left, right) =>
+        right.lineCount - left.lineCount || right.cueCount - left.cueCount
+    );
+};
+
+/**
+ * إعادة تسمية شخصية في كل كتل character المطابقة لها (بكل صيغها ومع بقاء
+ * امتداد المداخلة)، واختياريًا في الإشارات إليها ككلمة مستقلة داخل الحوار.
+ */
+export const renameCharacter = (
+  blocks: ScreenplayBlock[],
+  currentName: string,
+  newName: string,
+  options: { includeDialogue?: boolean } = {}
+): CharacterRenameResult => {
+  const targetName = normalizeCharacterName(newName);
+  if (!targetName) {
+    throw new Error("اسم الشخصية الجديد لا يمكن أن يكون فارغًا");
+  }
+  const key = getCharacterKey(currentName);
+  const variants = new Set<string>([getCueName(currentName)]);
+  for (const block of blocks) {
+    if (block.formatId !== "character") continue;
+    const name = getCueName(block.text);
+    if (name && getCharacterKey(name) === key) variants.add(name);
+  }
+  const mentionRe = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${Array.from(variants)
+      .sort((left, right) => right.length - left.length)
+      .map(escapeRegExp)
+      .join("|")})(?![\\p{L}\\p{N}])`,
+    "gu"
+  );
+
+  let cues = 0;
+  let mentions = 0;
+  const renamed = blocks.map((block) => {
+    let text = block.text;
+    if (block.formatId === "character") {
+      const { name, extension } = splitCue(block.text);
+      if (!name || getCharacterKey(name) !== key || name === targetName) {
+        return block;
+      }
+      const colon = /[:：]\s*$/.test(block.text) ? ":" : "";
+      text = `${targetName}${extension}${colon}`;
+      cues++;
+    } else if (block.formatId === "dialogue" && options.includeDialogue) {
+      text = block.text.replace(mentionRe, (match) => {
+        if (match === targetName) return match;
+        mentions++;
+        return targetName;
+      });
+    }
+    if (text === block.text) return block;
+    const next: ScreenplayBlock = { ...block, text };
+    // المقاطع المنسقة لم تعد تطابق النص بعد الاستبدال.
+    delete next.runs;
+    return next;
+  });
+
+  return { blocks: renamed, name: targetName, cues, mentions };
+};
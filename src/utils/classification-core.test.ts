@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  PostClassificationReviewer,
+  getSuspicionDetectorLabel,
+  getSuspicionDetectors,
+  registerSuspicionDetector,
+  reviewerConfigFromSettings,
+  unregisterSuspicionDetector,
+  type ClassifiedLine,
+  type SuspicionDetector,
+} from "./classification-core";
+
+const lines: ClassifiedLine[] = [
+  "يدخل أحمد إلى الغرفة",
+  "أحمد:",
+  "صباح الخير يا سارة",
+].map((text, lineIndex) => ({
+  lineIndex,
+  text,
+  assignedType: lineIndex === 1 ? "character" : "action",
+  originalConfidence: 90,
+  classificationMethod: "regex",
+}));
+
+const createKnownCharacterDetector = (score: number): SuspicionDetector => ({
+  id: "test-known-character",
+  label: "شخصية غير معروفة",
+  detect(line) {
+    if (line.assignedType !== "character") return null;
+    return {
+      detectorId: "ignored",
+      suspicionScore: score,
+      reason: "الاسم ليس في قائمة الشخصيات",
+      suggestedType: null,
+    };
+  },
+});
+
+const onlyTestDetector = {
+  enabledDetectors: new Set(["test-known-character"]),
+  minSignalsForSuspicion: 1,
+  maxSuspicionRatio: 1,
+};
+
+describe("suspicion detector registry", () => {
+  afterEach(() => {
+    unregisterSuspicionDetector("test-known-character");
+  });
+
+  it("registers the built-in detectors with labels", () => {
+    expect(getSuspicionDetectors().map((detector) => detector.id)).toEqual([
+      "sequence-violation",
+      "content-type-mismatch",
+      "split-character-fragment",
+      "statistical-anomaly",
+      "confidence-drop",
+    ]);
+    expect(getSuspicionDetectorLabel("sequence-violation")).toBe(
+      "انتهاك التسلسل"
+    );
+    expect(getSuspicionDetectorLabel("unknown")).toBe("unknown");
+    expect(() =>
+      registerSuspicionDetector({
+        ...createKnownCharacterDetector(95),
+        id: " ",
+      })
+    ).toThrow("معرّف كاشف الاشتباه مطلوب");
+  });
+
+  it("runs registered detectors and tags findings with their id", () => {
+    registerSuspicionDetector(createKnownCharacterDetector(95));
+
+    const packet = new PostClassificationReviewer(onlyTestDetector).review(
+      lines
+    );
+    expect(packet.suspiciousLines).toHaveLength(1);
+    expect(packet.suspiciousLines[0].line.text).toBe("أحمد:");
+    expect(packet.suspiciousLines[0].findings[0].detectorId).toBe(
+      "test-known-character"
+    );
+    expect(getSuspicionDetectorLabel("test-known-character")).toBe(
+      "شخصية غير معروفة"
+    );
+
+    expect(unregisterSuspicionDetector("test-known-character")).toBe(true);
+    expect(
+      new PostClassificationReviewer(onlyTestDetector).review(lines)
+        .suspiciousLines
+    ).toHaveLength(0);
+  });
+
+  it("runs opt-in detectors only when enabled for the project", () => {
+    registerSuspicionDetector(createKnownCharacterDetector(95), {
+      enabledByDefault: false,
+    });
+    const reviewFindings = (
+      config: ConstructorParameters<typeof PostClassificationReviewer>[0]
+    ) =>
+      new PostClassificationReviewer(config)
+        .review(lines)
+        .suspiciousLines.flatMap((suspect) =>
+          suspect.findings.map((finding) => finding.detectorId)
+        );
+
+    const base = { minSignalsForSuspicion: 1, maxSuspicionRatio: 1 };
+    expect(reviewFindings(base)).not.toContain("test-known-character");
+    expect(
+      reviewFindings({
+        ...base,
+        ...reviewerConfigFromSettings({
+          enabledDetectors: ["test-known-character"],
+        }),
+      })
+    ).toContain("test-known-character");
+  });
+
+  it("applies per-detector weights and thresholds", () => {
+    registerSuspicionDetector(createKnownCharacterDetector(80));
+    const review = (config: object) =>
+      new PostClassificationReviewer({ ...onlyTestDetector, ...config }).review(
+        lines
+      ).suspiciousLines;
+
+    expect(review({})[0].totalSuspicion).toBe(80);
+    expect(
+      review({ detectorWeights: { "test-known-character": 1.2 } })[0]
+        .totalSuspicion
+    ).toBe(96);
+    expect(
+      review({ detectorWeights: { "test-known-character": 0.5 } })
+    ).toHaveLength(0);
+    expect(
+      review({ detectorWeights: { "test-known-character": 0 } })
+    ).toHaveLength(0);
+    expect(
+      review({ detectorThresholds: { "test-known-character": 85 } })
+    ).toHaveLength(0);
+  });
+
+  it("converts project settings into a reviewer config", () => {
+    expect(reviewerConfigFromSettings(null)).toEqual({});
+    const config = reviewerConfigFromSettings({
+      disabledDetectors: ["confidence-drop"],
+      detectorWeights: { "sequence-violation": 1.5 },
+      suspicionThreshold: 60,
+    });
+    expect(config.enabledDetectors?.has("confidence-drop")).toBe(false);
+    expect(config.enabledDetectors?.has("sequence-violation")).toBe(true);
+    expect(config.detectorWeights).toEqual({ "sequence-violation": 1.5 });
+    expect(config.suspicionThreshold).toBe(60);
+    expect(config.minSignalsForSuspicion).toBeUndefined();
+  });
+});
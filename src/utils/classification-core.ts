@@ -135,28 +135,45 @@ export interface ReviewerConfig {
    * (مثال: انتهاك فادح وواضح)
    */
   readonly highSeveritySingleSignal: number;
-  /** تفعيل/تعطيل كاشفات محددة */
+  /**
+   * تفعيل/تعطيل كاشفات محددة
+   * الافتراضي: كل الكاشفات المسجّلة المفعّلة افتراضياً
+   */
   readonly enabledDetectors: ReadonlySet<string>;
+  /** مُضاعِف درجة كل كاشف حسب معرّفه - الافتراضي 1 (و0 يُسكت الكاشف) */
+  readonly detectorWeights: Readonly<Record<string, number>>;
+  /** أقل درجة (بعد المُضاعِف) تُعتمد من كل كاشف - الافتراضي 0 */
+  readonly detectorThresholds: Readonly<Record<string, number>>;
+}
+
+/**
+ * إعدادات المراجع المحفوظة مع المشروع (قابلة للتحويل لـ JSON)
+ * تُحوَّل إلى ReviewerConfig عبر reviewerConfigFromSettings
+ */
+export interface ReviewerProjectSettings {
+  /** كاشفات تُفعَّل إضافةً للافتراضي (مثل كاشف مسجّل غير مفعّل افتراضياً) */
+  enabledDetectors?: string[];
+  /** كاشفات تُعطَّل في هذا المشروع */
+  disabledDetectors?: string[];
+  detectorWeights?: Record<string, number>;
+  detectorThresholds?: Record<string, number>;
+  suspicionThreshold?: number;
+  minSignalsForSuspicion?: number;
 }
 
 // =====================================================================
 // الإعدادات الافتراضية
 // =====================================================================
 
-const DEFAULT_CONFIG: ReviewerConfig = {
+const DEFAULT_CONFIG: Omit<ReviewerConfig, "enabledDetectors"> = {
   contextRadius: 5,
   // إعدادات أكثر تحفظاً لتقليل الإنذارات الكاذبة وقت اللصق
   suspicionThreshold: 74,
   maxSuspicionRatio: 0.08,
   minSignalsForSuspicion: 2,
   highSeveritySingleSignal: 90,
-  enabledDetectors: new Set([
-    "sequence-violation",
-    "content-type-mismatch",
-    "split-character-fragment",
-    "statistical-anomaly",
-    "confidence-drop",
-  ]),
+  detectorWeights: {},
+  detectorThresholds: {},
 };
 
 // =====================================================================
@@ -266,7 +283,7 @@ const SEQUENCE_VIOLATION_SEVERITY: ReadonlyMap<string, number> = new Map([
 // =====================================================================
 
 /** خصائص نصية مستخلصة من السطر */
-interface TextFeatures {
+export interface TextFeatures {
   readonly wordCount: number;
   readonly charCount: number;
   readonly hasColon: boolean;
@@ -415,8 +432,10 @@ const hasStrongNarrativeActionSignal = (text: string): boolean => {
  * واجهة الكاشف الموحدة
  * كل كاشف بيفحص جانب معيّن من صحة التصنيف
  */
-interface SuspicionDetector {
+export interface SuspicionDetector {
   readonly id: string;
+  /** الاسم المعروض في الواجهة */
+  readonly label: string;
   detect(
     line: ClassifiedLine,
     features: TextFeatures,
@@ -439,6 +458,7 @@ interface SuspicionDetector {
  */
 const createSequenceViolationDetector = (): SuspicionDetector => ({
   id: "sequence-violation",
+  label: "انتهاك التسلسل",
 
   detect(
     line: ClassifiedLine,
@@ -551,6 +571,7 @@ const suggestTypeFromSequence = (
  */
 const createContentTypeMismatchDetector = (): SuspicionDetector => ({
   id: "content-type-mismatch",
+  label: "عدم تطابق المحتوى",
 
   detect(
     line: ClassifiedLine,
@@ -669,6 +690,7 @@ const createContentTypeMismatchDetector = (): SuspicionDetector => ({
  */
 const createSplitCharacterFragmentDetector = (): SuspicionDetector => ({
   id: "split-character-fragment",
+  label: "اسم شخصية مجزأ",
 
   detect(
     line: ClassifiedLine,
@@ -767,6 +789,7 @@ const TYPE_STATISTICS: ReadonlyMap<
 
 const createStatisticalAnomalyDetector = (): SuspicionDetector => ({
   id: "statistical-anomaly",
+  label: "شذوذ إحصائي",
 
   detect(
     line: ClassifiedLine,
@@ -821,6 +844,7 @@ const createStatisticalAnomalyDetector = (): SuspicionDetector => ({
  */
 const createConfidenceDropDetector = (): SuspicionDetector => ({
   id: "confidence-drop",
+  label: "انخفاض الثقة",
 
   detect(
     line: ClassifiedLine,
@@ -863,6 +887,96 @@ const createConfidenceDropDetector = (): SuspicionDetector => ({
   },
 });
 
+// =====================================================================
+// سجل الكاشفات (Detector Registry)
+// =====================================================================
+
+interface RegisteredDetector {
+  readonly detector: SuspicionDetector;
+  readonly enabledByDefault: boolean;
+}
+
+/** الكاشفات المسجّلة بترتيب تسجيلها - المدمجة أولاً */
+const detectorRegistry = new Map<string, RegisteredDetector>();
+
+/**
+ * تسجيل كاشف اشتباه إضافي (لهجة، قائمة شخصيات معروفة، مخلفات OCR...)
+ * المعرّف المكرر يستبدل الكاشف السابق في مكانه.
+ * الكاشف غير المفعّل افتراضياً لا يعمل إلا لو ذُكر في enabledDetectors.
+ * المراجعات المُنشأة قبل التسجيل لا تتأثر.
+ */
+export const registerSuspicionDetector = (
+  detector: SuspicionDetector,
+  options: { enabledByDefault?: boolean } = {}
+): void => {
+  if (!detector.id.trim()) {
+    throw new Error("معرّف كاشف الاشتباه مطلوب");
+  }
+  detectorRegistry.set(detector.id, {
+    detector,
+    enabledByDefault: options.enabledByDefault ?? true,
+  });
+};
+
+/** إلغاء تسجيل كاشف - ترجع false لو لم يكن مسجّلاً */
+export const unregisterSuspicionDetector = (id: string): boolean =>
+  detectorRegistry.delete(id);
+
+/** الكاشفات المسجّلة حالياً بترتيب تشغيلها */
+export const getSuspicionDetectors = (): readonly SuspicionDetector[] =>
+  Array.from(detectorRegistry.values(), (entry) => entry.detector);
+
+/** الاسم المعروض للكاشف (أو معرّفه لو غير مسجّل) */
+export const getSuspicionDetectorLabel = (id: string): string =>
+  detectorRegistry.get(id)?.detector.label ?? id;
+
+const getDefaultEnabledDetectors = (): ReadonlySet<string> =>
+  new Set(
+    Array.from(detectorRegistry.values())
+      .filter((entry) => entry.enabledByDefault)
+      .map((entry) => entry.detector.id)
+  );
+
+[
+  createSequenceViolationDetector(),
+  createContentTypeMismatchDetector(),
+  createSplitCharacterFragmentDetector(),
+  createStatisticalAnomalyDetector(),
+  createConfidenceDropDetector(),
+].forEach((detector) => registerSuspicionDetector(detector));
+
+/**
+ * تحويل إعدادات المشروع إلى ReviewerConfig جزئي
+ * القيم غير الرقمية تُهمل، والمفاتيح الغائبة تبقى على الافتراضي.
+ */
+export const reviewerConfigFromSettings = (
+  settings: ReviewerProjectSettings | null | undefined
+): Partial<ReviewerConfig> => {
+  if (!settings) return {};
+  const config: { -readonly [K in keyof ReviewerConfig]?: ReviewerConfig[K] } =
+    {};
+
+  if (settings.enabledDetectors?.length || settings.disabledDetectors?.length) {
+    const enabled = new Set(getDefaultEnabledDetectors());
+    settings.enabledDetectors?.forEach((id) => enabled.add(id));
+    settings.disabledDetectors?.forEach((id) => enabled.delete(id));
+    config.enabledDetectors = enabled;
+  }
+  if (settings.detectorWeights) {
+    config.detectorWeights = settings.detectorWeights;
+  }
+  if (settings.detectorThresholds) {
+    config.detectorThresholds = settings.detectorThresholds;
+  }
+  if (Number.isFinite(settings.suspicionThreshold)) {
+    config.suspicionThreshold = settings.suspicionThreshold;
+  }
+  if (Number.isFinite(settings.minSignalsForSuspicion)) {
+    config.minSignalsForSuspicion = settings.minSignalsForSuspicion;
+  }
+  return config;
+};
+
 // =====================================================================
 // محرك المراجعة الرئيسي (Review Engine)
 // =====================================================================
@@ -932,7 +1046,12 @@ export class PostClassificationReviewer {
   private readonly detectors: readonly SuspicionDetector[];
 
   constructor(config?: Partial<ReviewerConfig>) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      enabledDetectors:
+        config?.enabledDetectors ?? getDefaultEnabledDetectors(),
+    };
     this.detectors = this.initializeDetectors();
   }
 
@@ -951,18 +1070,39 @@ export class PostClassificationReviewer {
   }
 
   /**
-   * تهيئة الكاشفات المفعّلة حسب الإعدادات
+   * تهيئة الكاشفات المفعّلة حسب الإعدادات من سجل الكاشفات
    */
   private initializeDetectors(): readonly SuspicionDetector[] {
-    const allDetectors: readonly SuspicionDetector[] = [
-      createSequenceViolationDetector(),
-      createContentTypeMismatchDetector(),
-      createSplitCharacterFragmentDetector(),
-      createStatisticalAnomalyDetector(),
-      createConfidenceDropDetector(),
-    ];
+    return getSuspicionDetectors().filter((d) =>
+      this.config.enabledDetectors.has(d.id)
+    );
+  }
+
+  /**
+   * تشغيل الكاشفات على سطر مع تطبيق مُضاعِف وعتبة كل كاشف
+   */
+  private runDetectors(
+    line: ClassifiedLine,
+    features: TextFeatures,
+    context: readonly ClassifiedLine[],
+    linePosition: number
+  ): DetectorFinding[] {
+    const findings: DetectorFinding[] = [];
+    for (const detector of this.detectors) {
+      const finding = detector.detect(line, features, context, linePosition);
+      if (finding === null) continue;
+
+      const weight = this.config.detectorWeights[detector.id] ?? 1;
+      const suspicionScore = Math.min(
+        Math.round(finding.suspicionScore * weight),
+        100
+      );
+      const threshold = this.config.detectorThresholds[detector.id] ?? 0;
+      if (suspicionScore <= 0 || suspicionScore < threshold) continue;
 
-    return allDetectors.filter((d) => this.config.enabledDetectors.has(d.id));
+      findings.push({ ...finding, detectorId: detector.id, suspicionScore });
+    }
+    return findings;
   }
 
   /**
@@ -998,18 +1138,12 @@ export class PostClassificationReviewer {
         i - Math.max(0, i - this.config.contextRadius);
 
       // تشغيل كل كاشف
-      const findings: DetectorFinding[] = [];
-      for (const detector of this.detectors) {
-        const finding = detector.detect(
-          line,
-          features,
-          context,
-          linePositionInContext
-        );
-        if (finding !== null) {
-          findings.push(finding);
-        }
-      }
+      const findings = this.runDetectors(
+        line,
+        features,
+        context,
+        linePositionInContext
+      );
 
       // حساب الاشتباه الإجمالي
       const totalSuspicion = calculateTotalSuspicion(findings);
@@ -1057,18 +1191,12 @@ export class PostClassificationReviewer {
     );
     if (linePosition === -1) return null;
 
-    const findings: DetectorFinding[] = [];
-    for (const detector of this.detectors) {
-      const finding = detector.detect(
-        line,
-        features,
-        surroundingLines,
-        linePosition
-      );
-      if (finding !== null) {
-        findings.push(finding);
-      }
-    }
+    const findings = this.runDetectors(
+      line,
+      features,
+      surroundingLines,
+      linePosition
+    );
 
     const totalSuspicion = calculateTotalSuspicion(findings);
 
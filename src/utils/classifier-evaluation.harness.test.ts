@@ -0,0 +1,187 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { ArabicTextClassifier } from "@/ml/text-classifier";
+import { SequenceLineClassifier } from "@/ml/sequence-classifier";
+import {
+  diffEvaluationRuns,
+  evaluateClassifier,
+  formatEvaluationReport,
+  parseGoldDocument,
+  type ClassifierEvaluation,
+  summarizeEvaluationRun,
+  type ClassifierEvaluationRun,
+  type ClassifierEvaluationSummary,
+  type GoldDocument,
+} from "./classifier-evaluation";
+import type { ScreenplayBlock } from "./document-model";
+import {
+  applyAgentReviewDecisions,
+  buildAgentReviewRequest,
+} from "./paste-classifier";
+import { pasteIntoTestEditor } from "./paste-classifier.test-utils";
+
+/**
+ * مقيّم المصنفات على المدوّنة الذهبية (pnpm eval:classifier):
+ * - CLASSIFIER_EVAL_GOLD_DIR: مجلد ملفات *.blocks.json الذهبية
+ * - CLASSIFIER_EVAL_BASELINE: التشغيل السابق للمقارنة (ملخص المقاييس
+ *   المحفوظ، أو تشغيل كامل بأسطره من CLASSIFIER_EVAL_OUT)
+ * - CLASSIFIER_EVAL_UPDATE=1: حفظ ملخص التشغيل الحالي مكان السابق
+ * - CLASSIFIER_EVAL_OUT: مسار لحفظ التشغيل الحالي كاملًا كـ JSON
+ * - CLASSIFIER_EVAL_AGENT=1: تقييم مسار الوكيل (يتطلب ANTHROPIC_API_KEY)
+ * - CLASSIFIER_EVAL_REPORT=1: طباعة التقرير (تلقائيًا تحت eval:classifier)
+ *
+ * تراجع الدقة الكلية أو استدعاء أي نوع عن التشغيل السابق يُفشل الاختبار،
+ * ومع تشغيل سابق كامل يُفشله أيضًا أي سطر كان صحيحًا وأصبح خاطئًا، ما لم
+ * يُحدَّث التشغيل السابق.
+ */
+const GOLD_DIR = resolve(
+  process.cwd(),
+  process.env.CLASSIFIER_EVAL_GOLD_DIR ??
+    resolve("tests", "fixtures", "classifier-gold")
+);
+const BASELINE_PATH = resolve(
+  process.cwd(),
+  process.env.CLASSIFIER_EVAL_BASELINE ??
+    resolve(GOLD_DIR, "evaluation-baseline.json")
+);
+
+const PRINT_REPORT =
+  process.env.npm_lifecycle_event === "eval:classifier" ||
+  process.env.CLASSIFIER_EVAL_REPORT === "1";
+
+const loadGoldDocuments = (): GoldDocument[] =>
+  readdirSync(GOLD_DIR)
+    .filter((file) => file.endsWith(".blocks.json"))
+    .sort()
+    .map((file) =>
+      parseGoldDocument(
+        file.replace(/\.blocks\.json$/, ""),
+        JSON.parse(readFileSync(resolve(GOLD_DIR, file), "utf8"))
+      )
+    );
+
+const classifyViaPastePipeline = async (
+  document: GoldDocument,
+  sequenceClassifier: SequenceLineClassifier | null = null
+): Promise<ScreenplayBlock[]> => {
+  const { blocks } = await pasteIntoTestEditor(
+    document.blocks.map((block) => block.text).join("\n"),
+    { sessionId: `evaluation-${document.name}`, sequenceClassifier }
+  );
+  return blocks;
+};
+
+const classifyWithTextClassifier = (classifier: ArabicTextClassifier) => {
+  return async (document: GoldDocument): Promise<ScreenplayBlock[]> =>
+    document.blocks.map((block) => ({
+      ...block,
+      formatId: classifier.classify(block.text)
+        .type as ScreenplayBlock["formatId"],
+    }));
+};
+
+/**
+ * مسار الوكيل: ناتج اللصق ثم مراجعة الأسطر المشبوهة عبر Claude مباشرة
+ * (مسار /api/agent/review غير متاح في بيئة الاختبار).
+ */
+const classifyViaAgentReview = async (
+  document: GoldDocument
+): Promise<ScreenplayBlock[]> => {
+  const { reviewSuspiciousLinesWithClaude } =
+    await import("./Arabic-Screenplay-Classifier-Agent");
+  const blocks = await classifyViaPastePipeline(document);
+  const types = blocks.map((block) => block.formatId as string);
+  const confidences = blocks.map(() => 80);
+  const review = buildAgentReviewRequest(
+    blocks.map((block) => ({ line: block.text })),
+    types,
+    confidences,
+    `evaluation-agent-${document.name}`
+  );
+  if (review.status === "ready") {
+    const response = await reviewSuspiciousLinesWithClaude(review.request);
+    if (response.status === "applied") {
+      applyAgentReviewDecisions(response, types, confidences);
+    }
+  }
+  return blocks.map((block, index) => ({
+    ...block,
+    formatId: types[index] as ScreenplayBlock["formatId"],
+  }));
+};
+
+const runEvaluation = async (
+  documents: GoldDocument[]
+): Promise<ClassifierEvaluationRun> => {
+  const textClassifier = new ArabicTextClassifier();
+  textClassifier.train();
+
+  const classifiers: Record<string, ClassifierEvaluation> = {
+    paste: await evaluateClassifier(documents, (document) =>
+      classifyViaPastePipeline(document)
+    ),
+    "paste-sequence": await evaluateClassifier(documents, (document) =>
+      classifyViaPastePipeline(document, new SequenceLineClassifier())
+    ),
+    ml: await evaluateClassifier(
+      documents,
+      classifyWithTextClassifier(textClassifier)
+    ),
+  };
+  if (
+    process.env.CLASSIFIER_EVAL_AGENT === "1" &&
+    process.env.ANTHROPIC_API_KEY
+  ) {
+    classifiers.agent = await evaluateClassifier(
+      documents,
+      classifyViaAgentReview
+    );
+  }
+  return { createdAt: new Date().toISOString(), classifiers };
+};
+
+describe("classifier evaluation harness (gold corpus)", () => {
+  it("does not regress any line against the previous run", async () => {
+    const documents = loadGoldDocuments();
+    expect(documents.length).toBeGreaterThan(0);
+
+    const run = await runEvaluation(documents);
+    const previous = existsSync(BASELINE_PATH)
+      ? (JSON.parse(readFileSync(BASELINE_PATH, "utf8")) as
+          | ClassifierEvaluationRun
+          | ClassifierEvaluationSummary)
+      : null;
+    const diffs = previous ? diffEvaluationRuns(previous, run) : [];
+
+    if (PRINT_REPORT) {
+      process.stdout.write(`\n${formatEvaluationReport(run, diffs)}\n`);
+    }
+    if (process.env.CLASSIFIER_EVAL_OUT) {
+      writeFileSync(
+        resolve(process.cwd(), process.env.CLASSIFIER_EVAL_OUT),
+        `${JSON.stringify(run, null, 2)}\n`
+      );
+    }
+    if (process.env.CLASSIFIER_EVAL_UPDATE === "1") {
+      writeFileSync(
+        BASELINE_PATH,
+        `${JSON.stringify(summarizeEvaluationRun(run), null, 2)}\n`
+      );
+      return;
+    }
+
+    for (const diff of diffs) {
+      const hint = `${diff.classifier} (CLASSIFIER_EVAL_UPDATE=1 to accept)`;
+      expect(diff.accuracyDelta, `${hint}: accuracy`).toBeGreaterThanOrEqual(0);
+      expect(
+        Object.entries(diff.perTypeDelta)
+          .filter(([, delta]) => delta.recall < 0)
+          .map(([type]) => type),
+        `${hint}: types with lower recall`
+      ).toEqual([]);
+      expect(diff.regressions, `${hint}: regressed lines`).toEqual([]);
+    }
+  }, 60_000);
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  MISSING_PREDICTION,
+  alignPredictions,
+  computeClassifierMetrics,
+  diffEvaluationRuns,
+  evaluateClassifier,
+  formatEvaluationReport,
+  parseGoldDocument,
+  summarizeEvaluationRun,
+  type ClassifierEvaluationRun,
+} from "./classifier-evaluation";
+import type { ScreenplayBlock } from "./document-model";
+
+const gold: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "action", text: "يدخل أحمد إلى الغرفة" },
+  { formatId: "character", text: "أحمد:" },
+  { formatId: "dialogue", text: "صباح الخير" },
+  { formatId: "transition", text: "قطع إلى:" },
+];
+
+describe("classifier-evaluation", () => {
+  it("parses gold documents from arrays or baseline objects", () => {
+    expect(parseGoldDocument("a", gold).blocks).toHaveLength(5);
+    expect(
+      parseGoldDocument("b", {
+        blocks: [...gold, { formatId: "action", text: "  " }],
+      }).blocks
+    ).toHaveLength(5);
+    expect(() => parseGoldDocument("c", { foo: 1 })).toThrow(
+      "لا يحتوي على مصفوفة كتل"
+    );
+  });
+
+  it("aligns predictions by text and marks dropped lines as missing", () => {
+    const predicted: ScreenplayBlock[] = [
+      { formatId: "scene-header-1", text: "مشهد 1" },
+      { formatId: "character", text: "يدخل أحمد إلى الغرفة" },
+      { formatId: "character", text: "أحمد" },
+      { formatId: "character", text: "صباح:" },
+      { formatId: "dialogue", text: "الخير" },
+      { formatId: "transition", text: "قطع إلى:" },
+    ];
+    expect(
+      alignPredictions(gold, predicted).map((line) => line.predicted)
+    ).toEqual([
+      "scene-header-1",
+      "character",
+      "character",
+      MISSING_PREDICTION,
+      "transition",
+    ]);
+  });
+
+  it("computes accuracy, per-type precision/recall and confusion", () => {
+    const metrics = computeClassifierMetrics([
+      { text: "1", expected: "action", predicted: "action" },
+      { text: "2", expected: "action", predicted: "character" },
+      { text: "3", expected: "character", predicted: "character" },
+      { text: "4", expected: "dialogue", predicted: MISSING_PREDICTION },
+    ]);
+    expect(metrics.accuracy).toBe(0.5);
+    expect(metrics.perType.action).toEqual({
+      precision: 1,
+      recall: 0.5,
+      f1: 0.6667,
+      support: 2,
+    });
+    expect(metrics.perType.character.precision).toBe(0.5);
+    expect(metrics.perType.dialogue.recall).toBe(0);
+    expect(metrics.perType[MISSING_PREDICTION]).toBeUndefined();
+    expect(metrics.confusion.action).toEqual({ action: 1, character: 1 });
+  });
+
+  it("diffs runs into accuracy deltas, regressions and fixes", async () => {
+    const evaluate = (types: string[]) =>
+      evaluateClassifier([{ name: "doc", blocks: gold }], async () =>
+        gold.map((block, index) => ({
+          ...block,
+          formatId: types[index] as ScreenplayBlock["formatId"],
+        }))
+      );
+    const previous: ClassifierEvaluationRun = {
+      createdAt: "2026-01-01T00:00:00.000Z",
+      classifiers: {
+        paste: await evaluate([
+          "scene-header-1",
+          "character",
+          "character",
+          "dialogue",
+          "transition",
+        ]),
+      },
+    };
+    const current: ClassifierEvaluationRun = {
+      createdAt: "2026-01-02T00:00:00.000Z",
+      classifiers: {
+        paste: await evaluate([
+          "scene-header-1",
+          "action",
+          "character",
+          "action",
+          "action",
+        ]),
+        ml: await evaluate(gold.map((block) => block.formatId)),
+      },
+    };
+
+    const [diff] = diffEvaluationRuns(previous, current);
+    expect(diff.classifier).toBe("paste");
+    expect(diff.accuracyDelta).toBe(-0.2);
+    expect(diff.fixes.map((change) => change.text)).toEqual([
+      "يدخل أحمد إلى الغرفة",
+    ]);
+    expect(diff.regressions.map((change) => change.text)).toEqual([
+      "صباح الخير",
+      "قطع إلى:",
+    ]);
+
+    const report = formatEvaluationReport(current, [diff]);
+    expect(report).toContain("== paste: 60.0% (3/5) [-20.0%]");
+    expect(report).toContain("== ml: 100.0% (5/5)");
+    expect(report).toContain("regressions (2):");
+
+    const [summaryDiff] = diffEvaluationRuns(
+      summarizeEvaluationRun(previous),
+      current
+    );
+    expect(summaryDiff.accuracyDelta).toBe(-0.2);
+    expect(summaryDiff.perTypeDelta.dialogue.recall).toBe(-1);
+    expect(summaryDiff.regressions).toEqual([]);
+  });
+});
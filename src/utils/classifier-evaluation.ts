@@ -0,0 +1,366 @@
+/**
+ * classifier-evaluation.ts - تقييم المصنفات على مدوّنة ذهبية
+ * كل مستند ذهبي مصفوفة ScreenplayBlock[] بأنواعها الصحيحة. ناتج المصنف يُحاذى
+ * مع الأسطر الذهبية بالنص (LCS)، ثم تُحسب الدقة وprecision/recall لكل نوع
+ * ومصفوفة الالتباس، ويُقارن التشغيل الحالي بتشغيل سابق سطرًا بسطر.
+ */
+
+import type { ScreenplayBlock } from "./document-model";
+import { getOverrideLineKey } from "./learned-overrides";
+
+/** نوع السطر الذهبي الذي لم يظهر في ناتج المصنف */
+export const MISSING_PREDICTION = "(missing)";
+
+export interface GoldDocument {
+  name: string;
+  blocks: ScreenplayBlock[];
+}
+
+export interface EvaluatedLine {
+  text: string;
+  expected: string;
+  predicted: string;
+}
+
+export interface TypeMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** عدد الأسطر الذهبية من هذا النوع */
+  support: number;
+}
+
+export interface ClassifierMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+  perType: Record<string, TypeMetrics>;
+  /** النوع الصحيح ← النوع المتوقع ← العدد */
+  confusion: Record<string, Record<string, number>>;
+}
+
+export interface ClassifierEvaluation {
+  metrics: ClassifierMetrics;
+  documents: Array<{
+    name: string;
+    metrics: ClassifierMetrics;
+    lines: EvaluatedLine[];
+  }>;
+}
+
+export interface ClassifierEvaluationRun {
+  createdAt: string;
+  /** معرّف المصنف (paste، ml، agent...) ← نتيجته */
+  classifiers: Record<string, ClassifierEvaluation>;
+}
+
+/**
+ * ملخص تشغيل: المقاييس الكلية لكل مصنف دون الأسطر، وهو ما يُحفظ في
+ * المستودع كتشغيل سابق للمقارنة.
+ */
+export interface ClassifierEvaluationSummary {
+  createdAt: string;
+  classifiers: Record<string, Pick<ClassifierEvaluation, "metrics">>;
+}
+
+export interface EvaluationLineChange {
+  document: string;
+  text: string;
+  expected: string;
+  previous: string;
+  current: string;
+}
+
+export interface ClassifierEvaluationDiff {
+  classifier: string;
+  accuracyDelta: number;
+  perTypeDelta: Record<string, { precision: number; recall: number }>;
+  /** أسطر كانت صحيحة وأصبحت خاطئة (تتطلب تشغيلًا سابقًا بأسطره) */
+  regressions: EvaluationLineChange[];
+  /** أسطر كانت خاطئة وأصبحت صحيحة */
+  fixes: EvaluationLineChange[];
+}
+
+const round = (value: number): number => Number(value.toFixed(4));
+
+/**
+ * قراءة مستند ذهبي: مصفوفة كتل، أو كائن فيه blocks (مثل 12.paste-baseline).
+ */
+export const parseGoldDocument = (name: string, raw: unknown): GoldDocument => {
+  const blocks = Array.isArray(raw)
+    ? raw
+    : (raw as { blocks?: unknown } | null)?.blocks;
+  if (!Array.isArray(blocks)) {
+    throw new Error(`المستند الذهبي ${name} لا يحتوي على مصفوفة كتل`);
+  }
+  return {
+    name,
+    blocks: blocks.filter(
+      (block): block is ScreenplayBlock =>
+        typeof block?.formatId === "string" &&
+        typeof block?.text === "string" &&
+        block.text.trim().length > 0
+    ),
+  };
+};
+
+/**
+ * محاذاة ناتج المصنف مع الأسطر الذهبية بأطول تسلسل مشترك للنصوص
+ * (بلا تشكيل أو نقطتين ختاميتين). الأسطر الزائدة في الناتج تُهمل.
+ */
+export const alignPredictions = (
+  gold: ScreenplayBlock[],
+  predicted: ScreenplayBlock[]
+): EvaluatedLine[] => {
+  const goldKeys = gold.map((block) => getOverrideLineKey(block.text));
+  const predictedKeys = predicted.map((block) =>
+    getOverrideLineKey(block.text)
+  );
+  const lengths = Array.from({ length: gold.length + 1 }, () =>
+    new Array<number>(predicted.length + 1).fill(0)
+  );
+  for (let i = gold.length - 1; i >= 0; i--) {
+    for (let j = predicted.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        goldKeys[i] === predictedKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: EvaluatedLine[] = [];
+  let j = 0;
+  for (let i = 0; i < gold.length; i++) {
+    while (
+      j < predicted.length &&
+      goldKeys[i] !== predictedKeys[j] &&
+      lengths[i][j + 1] >= lengths[i][j]
+    ) {
+      j++;
+    }
+    const matched = j < predicted.length && goldKeys[i] === predictedKeys[j];
+    lines.push({
+      text: gold[i].text,
+      expected: gold[i].formatId,
+      predicted: matched ? predicted[j].formatId : MISSING_PREDICTION,
+    });
+    if (matched) j++;
+  }
+  return lines;
+};
+
+export const computeClassifierMetrics = (
+  lines: EvaluatedLine[]
+): ClassifierMetrics => {
+  const confusion: ClassifierMetrics["confusion"] = {};
+  const predictedCounts: Record<string, number> = {};
+  let correct = 0;
+  for (const { expected, predicted } of lines) {
+    const row = (confusion[expected] ??= {});
+    row[predicted] = (row[predicted] ?? 0) + 1;
+    predictedCounts[predicted] = (predictedCounts[predicted] ?? 0) + 1;
+    if (expected === predicted) correct++;
+  }
+
+  const perType: ClassifierMetrics["perType"] = {};
+  const types = new Set([
+    ...Object.keys(confusion),
+    ...Object.keys(predictedCounts),
+  ]);
+  types.delete(MISSING_PREDICTION);
+  for (const type of [...types].sort()) {
+    const truePositives = confusion[type]?.[type] ?? 0;
+    const support = Object.values(confusion[type] ?? {}).reduce(
+      (sum, count) => sum + count,
+      0
+    );
+    const precision = predictedCounts[type]
+      ? truePositives / predictedCounts[type]
+      : 0;
+    const recall = support ? truePositives / support : 0;
+    perType[type] = {
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(
+        precision + recall ? (2 * precision * recall) / (precision + recall) : 0
+      ),
+      support,
+    };
+  }
+
+  return {
+    total: lines.length,
+    correct,
+    accuracy: round(lines.length ? correct / lines.length : 0),
+    perType,
+    confusion,
+  };
+};
+
+/**
+ * تقييم مصنف على المدوّنة: classify يرجع كتل الناتج لكل مستند ذهبي.
+ */
+export const evaluateClassifier = async (
+  documents: GoldDocument[],
+  classify: (document: GoldDocument) => Promise<ScreenplayBlock[]>
+): Promise<ClassifierEvaluation> => {
+  const results: ClassifierEvaluation["documents"] = [];
+  for (const document of documents) {
+    const lines = alignPredictions(document.blocks, await classify(document));
+    results.push({
+      name: document.name,
+      metrics: computeClassifierMetrics(lines),
+      lines,
+    });
+  }
+  return {
+    metrics: computeClassifierMetrics(results.flatMap((doc) => doc.lines)),
+    documents: results,
+  };
+};
+
+const collectLineChanges = (
+  previous: ClassifierEvaluation,
+  current: ClassifierEvaluation
+): { regressions: EvaluationLineChange[]; fixes: EvaluationLineChange[] } => {
+  const regressions: EvaluationLineChange[] = [];
+  const fixes: EvaluationLineChange[] = [];
+  for (const document of current.documents) {
+    const before = previous.documents.find((doc) => doc.name === document.name);
+    if (!before) continue;
+    const beforeByLine = new Map<string, string[]>();
+    for (const line of before.lines) {
+      const key = `${line.expected}|${line.text}`;
+      beforeByLine.set(key, [...(beforeByLine.get(key) ?? []), line.predicted]);
+    }
+    for (const line of document.lines) {
+      const queue = beforeByLine.get(`${line.expected}|${line.text}`);
+      const previousType = queue?.shift();
+      if (previousType === undefined || previousType === line.predicted) {
+        continue;
+      }
+      const change: EvaluationLineChange = {
+        document: document.name,
+        text: line.text,
+        expected: line.expected,
+        previous: previousType,
+        current: line.predicted,
+      };
+      if (previousType === line.expected) regressions.push(change);
+      else if (line.predicted === line.expected) fixes.push(change);
+    }
+  }
+  return { regressions, fixes };
+};
+
+/**
+ * ملخص التشغيل المحفوظ كتشغيل سابق: المقاييس فقط.
+ */
+export const summarizeEvaluationRun = (
+  run: ClassifierEvaluationRun
+): ClassifierEvaluationSummary => ({
+  createdAt: run.createdAt,
+  classifiers: Object.fromEntries(
+    Object.entries(run.classifiers).map(([classifier, evaluation]) => [
+      classifier,
+      { metrics: evaluation.metrics },
+    ])
+  ),
+});
+
+/**
+ * الفروق بين تشغيلين لكل مصنف موجود فيهما معًا؛ مع ملخص سابق تُقارن
+ * المقاييس فقط ولا تُعرف الأسطر المتراجعة.
+ */
+export const diffEvaluationRuns = (
+  previous: ClassifierEvaluationRun | ClassifierEvaluationSummary,
+  current: ClassifierEvaluationRun
+): ClassifierEvaluationDiff[] =>
+  Object.entries(current.classifiers)
+    .filter(([classifier]) => previous.classifiers[classifier])
+    .map(([classifier, evaluation]) => {
+      const before = previous.classifiers[classifier];
+      const perTypeDelta: ClassifierEvaluationDiff["perTypeDelta"] = {};
+      for (const [type, metrics] of Object.entries(
+        evaluation.metrics.perType
+      )) {
+        const old = before.metrics.perType[type];
+        perTypeDelta[type] = {
+          precision: round(metrics.precision - (old?.precision ?? 0)),
+          recall: round(metrics.recall - (old?.recall ?? 0)),
+        };
+      }
+      return {
+        classifier,
+        accuracyDelta: round(
+          evaluation.metrics.accuracy - before.metrics.accuracy
+        ),
+        perTypeDelta,
+        ...("documents" in before
+          ? collectLineChanges(before, evaluation)
+          : { regressions: [], fixes: [] }),
+      };
+    });
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+const signedPercent = (value: number): string =>
+  `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+
+/**
+ * تقرير نصي للتشغيل: الدقة، المقاييس لكل نوع، مصفوفة الالتباس، والفروق.
+ */
+export const formatEvaluationReport = (
+  run: ClassifierEvaluationRun,
+  diffs: ClassifierEvaluationDiff[] = []
+): string => {
+  const lines: string[] = [];
+  for (const [classifier, evaluation] of Object.entries(run.classifiers)) {
+    const { metrics } = evaluation;
+    const diff = diffs.find((item) => item.classifier === classifier);
+    lines.push(
+      `== ${classifier}: ${percent(metrics.accuracy)} (${metrics.correct}/${metrics.total})` +
+        (diff ? ` [${signedPercent(diff.accuracyDelta)}]` : "")
+    );
+    lines.push("type\tprecision\trecall\tf1\tsupport");
+    for (const [type, typeMetrics] of Object.entries(metrics.perType)) {
+      lines.push(
+        [
+          type,
+          percent(typeMetrics.precision),
+          percent(typeMetrics.recall),
+          percent(typeMetrics.f1),
+          typeMetrics.support,
+        ].join("\t")
+      );
+    }
+
+    const predictedTypes = [
+      ...new Set(
+        Object.values(metrics.confusion).flatMap((row) => Object.keys(row))
+      ),
+    ].sort();
+    lines.push(
+      `confusion (expected \\ predicted)\t${predictedTypes.join("\t")}`
+    );
+    for (const [expected, row] of Object.entries(metrics.confusion).sort()) {
+      lines.push(
+        [expected, ...predictedTypes.map((type) => row[type] ?? 0)].join("\t")
+      );
+    }
+
+    for (const [label, changes] of [
+      ["regressions", diff?.regressions ?? []],
+      ["fixes", diff?.fixes ?? []],
+    ] as const) {
+      if (changes.length === 0) continue;
+      lines.push(`${label} (${changes.length}):`);
+      for (const change of changes) {
+        lines.push(
+          `  [${change.document}] ${change.text} — ${change.expected}: ${change.previous} → ${change.current}`
+        );
+      }
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+};
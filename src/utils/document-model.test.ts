@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  createPayloadFromBlocks,
   decodeScreenplayPayload,
   encodeScreenplayPayload,
   htmlToScreenplayBlocks,
@@ -67,13 +68,105 @@ describe("document-model", () => {
     });
     const decoded = decodeScreenplayPayload(encoded);
 
+    expect(decoded?.version).toBe(2);
     expect(decoded?.blocks[0]).toEqual({
       formatId: "scene-header-1",
       text: "مشهد1",
+      id: `v1-${checksum}-0`,
     });
     expect(decoded?.blocks[1]).toEqual({
       formatId: "scene-header-2",
       text: "نهار - داخلي",
+      id: `v1-${checksum}-1`,
     });
+    expect(decodeScreenplayPayload(encoded)).toEqual(decoded);
+  });
+
+  it("round-trips block ids, inline runs and metadata through html", () => {
+    const html = screenplayBlocksToHtml([
+      {
+        formatId: "action",
+        text: "يدخل أحمد بسرعة",
+        id: "blk-1",
+        runs: [
+          { text: "يدخل " },
+          { text: "أحمد", bold: true },
+          { text: " بسرعة", italic: true },
+        ],
+        metadata: { tagged: true },
+      },
+    ]);
+
+    expect(html).toContain('data-block-id="blk-1"');
+    expect(html).toContain("<strong>أحمد</strong>");
+    expect(htmlToScreenplayBlocks(html)).toEqual([
+      {
+        formatId: "action",
+        text: "يدخل أحمد بسرعة",
+        id: "blk-1",
+        runs: [
+          { text: "يدخل " },
+          { text: "أحمد", bold: true },
+          { text: " بسرعة", italic: true },
+        ],
+        metadata: { tagged: true },
+      },
+    ]);
+  });
+
+  it("keeps bold and italic from editor html", () => {
+    const blocks = htmlToScreenplayBlocks(
+      '<div class="format-dialogue"><b>لا</b> <span style="font-style: italic">أعرف</span></div>'
+    );
+
+    expect(blocks[0].runs).toEqual([
+      { text: "لا", bold: true },
+      { text: " " },
+      { text: "أعرف", italic: true },
+    ]);
+  });
+
+  it("assigns unique ids in v2 payloads and rejects tampered ones", () => {
+    const payload = createPayloadFromBlocks([
+      { formatId: "action", text: "أ", id: "same" },
+      { formatId: "action", text: "ب", id: "same" },
+      { formatId: "action", text: "ج" },
+    ]);
+    const ids = payload.blocks.map((block) => block.id);
+
+    expect(payload.version).toBe(2);
+    expect(ids[0]).toBe("same");
+    expect(new Set(ids).size).toBe(3);
+    expect(decodeScreenplayPayload(encodeScreenplayPayload(payload))).toEqual(
+      payload
+    );
+
+    const tampered = {
+      ...payload,
+      blocks: payload.blocks.map((block) => ({ ...block, text: "تغيير" })),
+    };
+    expect(
+      decodeScreenplayPayload(encodeScreenplayPayload(tampered))
+    ).toBeNull();
+  });
+
+  it("persists a trimmed title page inside the signed payload", () => {
+    const payload = createPayloadFromBlocks(
+      [{ formatId: "action", text: "وصف" }],
+      { titlePage: { title: "  رحلة الأمل ", author: "", contact: " " } }
+    );
+
+    expect(payload.titlePage).toEqual({ title: "رحلة الأمل", author: "" });
+    expect(
+      decodeScreenplayPayload(encodeScreenplayPayload(payload))?.titlePage
+    ).toEqual({ title: "رحلة الأمل", author: "" });
+
+    const tampered = { ...payload, titlePage: { title: "آخر", author: "" } };
+    expect(
+      decodeScreenplayPayload(encodeScreenplayPayload(tampered))
+    ).toBeNull();
+    expect(
+      createPayloadFromBlocks([], { titlePage: { title: " ", author: "" } })
+    ).not.toHaveProperty("titlePage");
   });
 });
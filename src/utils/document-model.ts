@@ -1,13 +1,39 @@
+import type { TitlePageInfo } from "@/types/screenplay";
 import {
   EDITOR_STYLE_FORMAT_IDS,
   type EditorStyleFormatId,
 } from "./editor-styles";
 
+/**
+ * مقطع نصي بتنسيق موحّد داخل الكتلة.
+ * مجموع نصوص المقاطع يساوي نص الكتلة تمامًا.
+ */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export type ScreenplayBlockMetadata = Record<
+  string,
+  string | number | boolean | null
+>;
+
 export interface ScreenplayBlock {
   formatId: EditorStyleFormatId;
   text: string;
+  /** معرّف ثابت للكتلة عبر التعديلات (payload v2) */
+  id?: string;
+  /** مقاطع التنسيق داخل السطر (غامق/مائل/تسطير) */
+  runs?: InlineRun[];
+  /** بيانات وصفية اختيارية خاصة بالكتلة */
+  metadata?: ScreenplayBlockMetadata;
 }
 
+/** كتلة تحمل معرّفًا إلزاميًا كما تُخزَّن في payload v2 */
+export type IdentifiedScreenplayBlock = ScreenplayBlock & { id: string };
+
 export interface ScreenplayPayloadV1 {
   version: 1;
   blocks: ScreenplayBlock[];
@@ -17,14 +43,38 @@ export interface ScreenplayPayloadV1 {
   createdAt: string;
 }
 
-export const SCREENPLAY_PAYLOAD_VERSION = 1 as const;
-export const SCREENPLAY_PAYLOAD_TOKEN = "FILMLANE_PAYLOAD_V1" as const;
+export interface ScreenplayPayloadV2 {
+  version: 2;
+  blocks: IdentifiedScreenplayBlock[];
+  font: string;
+  size: string;
+  checksum: string;
+  createdAt: string;
+  /** صفحة العنوان المحفوظة مع المستند (تُحذف إن كانت فارغة) */
+  titlePage?: TitlePageInfo;
+}
+
+/** الإصدار الحالي من payload */
+export type ScreenplayPayload = ScreenplayPayloadV2;
 
+export const SCREENPLAY_PAYLOAD_VERSION = 2 as const;
+export const SCREENPLAY_PAYLOAD_TOKEN = "FILMLANE_PAYLOAD_V2" as const;
+export const LEGACY_SCREENPLAY_PAYLOAD_TOKEN = "FILMLANE_PAYLOAD_V1" as const;
+
+// يطابق markers الإصدارين حتى تُفتح ملفات DOCX/PDF القديمة.
 const MARKER_RE = new RegExp(
-  String.raw`\[\[${SCREENPLAY_PAYLOAD_TOKEN}:([A-Za-z0-9+/=]+)\]\]`,
+  String.raw`\[\[FILMLANE_PAYLOAD_V[12]:([A-Za-z0-9+/=]+)\]\]`,
   "u"
 );
 const FORMAT_ID_SET = new Set<string>(EDITOR_STYLE_FORMAT_IDS);
+const OPTIONAL_TITLE_PAGE_FIELDS = [
+  "basedOn",
+  "contact",
+  "draft",
+  "date",
+] as const;
+const INLINE_BOLD_TAGS = new Set(["B", "STRONG"]);
+const INLINE_ITALIC_TAGS = new Set(["I", "EM"]);
 
 const normalizeBlockText = (value: string): string =>
   (value ?? "").replace(/\u00A0/g, " ").replace(/\r/g, "");
@@ -65,6 +115,253 @@ const fnv1a = (input: string): string => {
 const isEditorStyleFormatId = (value: string): value is EditorStyleFormatId =>
   FORMAT_ID_SET.has(value);
 
+/**
+ * تنقية صفحة العنوان: حقول نصية فقط بعد قص المسافات،
+ * وإرجاع null إن خلت جميع الحقول.
+ */
+export const normalizeTitlePage = (value: unknown): TitlePageInfo | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const read = (field: keyof TitlePageInfo): string =>
+    typeof raw[field] === "string"
+      ? normalizeBlockText(raw[field] as string).trim()
+      : "";
+
+  const titlePage: TitlePageInfo = {
+    title: read("title"),
+    author: read("author"),
+  };
+  for (const field of OPTIONAL_TITLE_PAGE_FIELDS) {
+    const fieldValue = read(field);
+    if (fieldValue) titlePage[field] = fieldValue;
+  }
+
+  return Object.values(titlePage).some(Boolean) ? titlePage : null;
+};
+
+let blockIdCounter = 0;
+
+/**
+ * توليد معرّف كتلة جديد فريد داخل الجلسة.
+ */
+export const createBlockId = (): string => {
+  blockIdCounter = (blockIdCounter + 1) % 0x10000;
+  return `blk-${Date.now().toString(36)}${blockIdCounter
+    .toString(36)
+    .padStart(3, "0")}${Math.random().toString(36).slice(2, 6)}`;
+};
+
+/**
+ * هل تبدأ الكتلة مشهدًا جديدًا (scene-header-1 أو سطر العنوان العلوي)؟
+ */
+export const isSceneStart = (block: ScreenplayBlock): boolean =>
+  block.formatId === "scene-header-1" ||
+  block.formatId === "scene-header-top-line";
+
+const hasInlineMarks = (run: InlineRun): boolean =>
+  Boolean(run.bold || run.italic || run.underline);
+
+const sameInlineMarks = (a: InlineRun, b: InlineRun): boolean =>
+  Boolean(a.bold) === Boolean(b.bold) &&
+  Boolean(a.italic) === Boolean(b.italic) &&
+  Boolean(a.underline) === Boolean(b.underline);
+
+const toCanonicalRun = (run: InlineRun): InlineRun => {
+  const canonical: InlineRun = { text: run.text };
+  if (run.bold) canonical.bold = true;
+  if (run.italic) canonical.italic = true;
+  if (run.underline) canonical.underline = true;
+  return canonical;
+};
+
+/**
+ * يتحقق من المقاطع ويدمج المتجاور منها؛ يعيد undefined إن لم تطابق النص
+ * أو لم تحمل أي تنسيق.
+ */
+const sanitizeInlineRuns = (
+  runs: unknown,
+  text: string
+): InlineRun[] | undefined => {
+  if (!Array.isArray(runs)) return undefined;
+
+  const merged: InlineRun[] = [];
+  for (const run of runs) {
+    if (!run || typeof run !== "object" || typeof run.text !== "string") {
+      return undefined;
+    }
+    if (run.text.length === 0) continue;
+    const canonical = toCanonicalRun(run as InlineRun);
+    const previous = merged[merged.length - 1];
+    if (previous && sameInlineMarks(previous, canonical)) {
+      previous.text += canonical.text;
+    } else {
+      merged.push(canonical);
+    }
+  }
+
+  if (merged.map((run) => run.text).join("") !== text) return undefined;
+  if (!merged.some(hasInlineMarks)) return undefined;
+  return merged;
+};
+
+const sanitizeBlockMetadata = (
+  metadata: unknown
+): ScreenplayBlockMetadata | undefined => {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return undefined;
+  }
+  const sanitized: ScreenplayBlockMetadata = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (
+      value === null ||
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      sanitized[key] = value;
+    }
+  }
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+};
+
+/**
+ * شكل موحّد للكتلة (ترتيب مفاتيح ثابت) حتى يبقى checksum مستقرًا.
+ */
+const toCanonicalBlock = (
+  block: ScreenplayBlock,
+  id: string
+): IdentifiedScreenplayBlock => {
+  const text = normalizeBlockText(block.text);
+  const canonical: IdentifiedScreenplayBlock = {
+    formatId: block.formatId,
+    text,
+    id,
+  };
+  const runs = sanitizeInlineRuns(block.runs, text);
+  if (runs) canonical.runs = runs;
+  const metadata = sanitizeBlockMetadata(block.metadata);
+  if (metadata) canonical.metadata = metadata;
+  return canonical;
+};
+
+/**
+ * يضمن أن لكل كتلة معرّفًا فريدًا؛ المعرّف المكرر يُستبدل بمعرّف جديد.
+ */
+const withBlockIds = (
+  blocks: ScreenplayBlock[],
+  fallbackId: (index: number) => string = createBlockId
+): IdentifiedScreenplayBlock[] => {
+  const seen = new Set<string>();
+  return blocks.map((block, index) => {
+    let id = typeof block.id === "string" ? block.id.trim() : "";
+    if (!id || seen.has(id)) {
+      id = fallbackId(index);
+    }
+    seen.add(id);
+    return toCanonicalBlock(block, id);
+  });
+};
+
+const readMarksFromElement = (
+  element: HTMLElement,
+  inherited: InlineRun
+): InlineRun => {
+  const marks: InlineRun = { ...inherited, text: "" };
+  const tagName = element.tagName.toUpperCase();
+  const style = element.style;
+
+  if (
+    INLINE_BOLD_TAGS.has(tagName) ||
+    style?.fontWeight === "bold" ||
+    Number(style?.fontWeight) >= 600
+  ) {
+    marks.bold = true;
+  }
+  if (INLINE_ITALIC_TAGS.has(tagName) || style?.fontStyle === "italic") {
+    marks.italic = true;
+  }
+  if (tagName === "U" || style?.textDecoration?.includes("underline")) {
+    marks.underline = true;
+  }
+  return marks;
+};
+
+const collectInlineRuns = (
+  node: Node,
+  marks: InlineRun,
+  runs: InlineRun[]
+): void => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    runs.push({ ...marks, text: node.textContent || "" });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const element = node as HTMLElement;
+  if (element.tagName.toUpperCase() === "BR") {
+    runs.push({ ...marks, text: "\n" });
+    return;
+  }
+
+  const childMarks = readMarksFromElement(element, marks);
+  element.childNodes.forEach((child) =>
+    collectInlineRuns(child, childMarks, runs)
+  );
+};
+
+/**
+ * يستخرج مقاطع التنسيق (غامق/مائل/تسطير) من عنصر الكتلة في المحرر.
+ */
+export const readInlineRunsFromElement = (
+  element: Element,
+  text: string
+): InlineRun[] | undefined => {
+  const rawRuns: InlineRun[] = [];
+  element.childNodes.forEach((child) =>
+    collectInlineRuns(child, { text: "" }, rawRuns)
+  );
+
+  const runs = rawRuns.map((run) => ({
+    ...run,
+    text: normalizeBlockText(run.text),
+  }));
+
+  // قص المسافات الطرفية بنفس طريقة trim() على نص الكتلة.
+  while (runs.length > 0 && runs[0].text.trimStart().length === 0) {
+    runs.shift();
+  }
+  while (runs.length > 0 && runs[runs.length - 1].text.trimEnd().length === 0) {
+    runs.pop();
+  }
+  if (runs.length === 0) return undefined;
+  runs[0].text = runs[0].text.trimStart();
+  runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+
+  return sanitizeInlineRuns(runs, text);
+};
+
+/**
+ * يقرأ معرّف الكتلة وبياناتها الوصفية المخزنة كسمات data-* على العنصر.
+ */
+export const readBlockAttributesFromElement = (
+  element: Element
+): Pick<ScreenplayBlock, "id" | "metadata"> => {
+  const attributes: Pick<ScreenplayBlock, "id" | "metadata"> = {};
+  const id = element.getAttribute("data-block-id")?.trim();
+  if (id) attributes.id = id;
+
+  const rawMetadata = element.getAttribute("data-block-meta");
+  if (rawMetadata) {
+    try {
+      const metadata = sanitizeBlockMetadata(JSON.parse(rawMetadata));
+      if (metadata) attributes.metadata = metadata;
+    } catch {
+      // تجاهل البيانات الوصفية التالفة
+    }
+  }
+  return attributes;
+};
+
 const getFormatIdFromElement = (
   element: Element
 ): EditorStyleFormatId | null => {
@@ -102,16 +399,42 @@ const splitLegacyTopLineText = (
   return [{ formatId: "scene-header-2", text: normalized }];
 };
 
+/**
+ * يبني كتل عنصر واحد من المحرر: سطر واحد يحمل المعرّف والتنسيق،
+ * وعند تعدد الأسطر يبقى المعرّف مع السطر الأول فقط.
+ */
+const toBlocksFromElement = (
+  element: Element,
+  formatId: EditorStyleFormatId
+): ScreenplayBlock[] => {
+  const lines = toLineTextsFromNode(element);
+  const attributes = readBlockAttributesFromElement(element);
+
+  return lines.map((line, index) => {
+    if (index > 0) return { formatId, text: line };
+    const block: ScreenplayBlock = { formatId, text: line, ...attributes };
+    if (lines.length === 1) {
+      const runs = readInlineRunsFromElement(element, line);
+      if (runs) block.runs = runs;
+    }
+    return block;
+  });
+};
+
 const normalizeIncomingBlocks = (blocks: ScreenplayBlock[]): ScreenplayBlock[] => {
   const normalizedBlocks: ScreenplayBlock[] = [];
   for (const block of blocks) {
     if (block.formatId === "scene-header-top-line") {
-      normalizedBlocks.push(...splitLegacyTopLineText(block.text));
+      const parts: ScreenplayBlock[] = splitLegacyTopLineText(block.text);
+      if (parts.length > 0 && block.id) {
+        parts[0] = { ...parts[0], id: block.id };
+      }
+      normalizedBlocks.push(...parts);
       continue;
     }
 
     normalizedBlocks.push({
-      formatId: block.formatId,
+      ...block,
       text: normalizeBlockText(block.text),
     });
   }
@@ -133,19 +456,52 @@ const toLineTextsFromNode = (element: Element): string[] => {
 };
 
 const computePayloadChecksum = (
-  payload: Omit<ScreenplayPayloadV1, "checksum">
+  payload:
+    | Omit<ScreenplayPayloadV1, "checksum">
+    | Omit<ScreenplayPayloadV2, "checksum">
 ): string => {
   return fnv1a(JSON.stringify(payload));
 };
 
-export const ensurePayloadChecksum = (
-  payload: Omit<ScreenplayPayloadV1, "checksum"> & {
-    checksum?: string;
-  }
-): ScreenplayPayloadV1 => {
+export const ensurePayloadChecksum = (payload: {
+  blocks: ScreenplayBlock[];
+  font: string;
+  size: string;
+  createdAt: string;
+  titlePage?: TitlePageInfo | null;
+  version?: number;
+  checksum?: string;
+}): ScreenplayPayload => {
+  const unsignedPayload: Omit<ScreenplayPayloadV2, "checksum"> = {
+    version: SCREENPLAY_PAYLOAD_VERSION,
+    blocks: withBlockIds(normalizeIncomingBlocks(payload.blocks)),
+    font: payload.font,
+    size: payload.size,
+    createdAt: payload.createdAt,
+  };
+  const titlePage = normalizeTitlePage(payload.titlePage);
+  if (titlePage) unsignedPayload.titlePage = titlePage;
+  return {
+    ...unsignedPayload,
+    checksum: computePayloadChecksum(unsignedPayload),
+  };
+};
+
+/**
+ * ترقية payload v1 إلى v2: معرّفات حتمية مشتقة من checksum الأصلي
+ * حتى يعطي فتح الملف القديم نفسه المعرّفات ذاتها في كل مرة.
+ */
+export const upgradePayloadV1 = (
+  payload: ScreenplayPayloadV1
+): ScreenplayPayload => {
   const unsignedPayload = {
     version: SCREENPLAY_PAYLOAD_VERSION,
-    blocks: normalizeIncomingBlocks(payload.blocks),
+    blocks: withBlockIds(
+      normalizeIncomingBlocks(
+        payload.blocks.map(({ formatId, text }) => ({ formatId, text }))
+      ),
+      (index) => `v1-${payload.checksum}-${index}`
+    ),
     font: payload.font,
     size: payload.size,
     createdAt: payload.createdAt,
@@ -164,18 +520,100 @@ export const extractEncodedPayloadMarker = (text: string): string | null => {
   return match?.[1] ?? null;
 };
 
-export const encodeScreenplayPayload = (payload: ScreenplayPayloadV1): string =>
-  utf8ToBase64(JSON.stringify(payload));
+export const encodeScreenplayPayload = (
+  payload: ScreenplayPayload | ScreenplayPayloadV1
+): string => utf8ToBase64(JSON.stringify(payload));
 
+const sanitizeDecodedBlocks = (
+  blocks: unknown[],
+  keepV2Fields: boolean
+): ScreenplayBlock[] => {
+  const sanitizedBlocks: ScreenplayBlock[] = [];
+  for (const block of blocks) {
+    if (
+      !block ||
+      typeof block !== "object" ||
+      !("formatId" in block) ||
+      !("text" in block) ||
+      typeof block.formatId !== "string" ||
+      !isEditorStyleFormatId(block.formatId) ||
+      typeof block.text !== "string"
+    ) {
+      continue;
+    }
+    const sanitized: ScreenplayBlock = {
+      formatId: block.formatId,
+      text: normalizeBlockText(block.text),
+    };
+    if (keepV2Fields) {
+      const { id, runs, metadata } = block as ScreenplayBlock;
+      if (typeof id === "string") sanitized.id = id;
+      if (runs !== undefined) sanitized.runs = runs;
+      if (metadata !== undefined) sanitized.metadata = metadata;
+    }
+    sanitizedBlocks.push(sanitized);
+  }
+  return sanitizedBlocks;
+};
+
+const decodeLegacyPayloadV1 = (
+  parsed: Omit<ScreenplayPayloadV1, "blocks"> & { blocks: unknown[] }
+): ScreenplayPayload | null => {
+  const sanitizedBlocks = sanitizeDecodedBlocks(parsed.blocks, false);
+
+  const legacyChecksum = computePayloadChecksum({
+    version: 1,
+    blocks: sanitizedBlocks,
+    font: parsed.font,
+    size: parsed.size,
+    createdAt: parsed.createdAt,
+  });
+
+  const rebuiltBlocks = normalizeIncomingBlocks(sanitizedBlocks);
+  const rebuiltChecksum = computePayloadChecksum({
+    version: 1,
+    blocks: rebuiltBlocks,
+    font: parsed.font,
+    size: parsed.size,
+    createdAt: parsed.createdAt,
+  });
+
+  if (
+    rebuiltChecksum !== parsed.checksum &&
+    legacyChecksum !== parsed.checksum
+  ) {
+    return null;
+  }
+
+  return upgradePayloadV1({
+    version: 1,
+    blocks: rebuiltBlocks,
+    font: parsed.font,
+    size: parsed.size,
+    createdAt: parsed.createdAt,
+    checksum: parsed.checksum,
+  });
+};
+
+/**
+ * فك payload مع التحقق من checksum؛ payload v1 يُرقّى تلقائيًا إلى v2.
+ */
 export const decodeScreenplayPayload = (
   encodedPayload: string
-): ScreenplayPayloadV1 | null => {
+): ScreenplayPayload | null => {
   try {
     const decoded = base64ToUtf8(encodedPayload);
-    const parsed = JSON.parse(decoded) as Partial<ScreenplayPayloadV1>;
+    const parsed = JSON.parse(decoded) as {
+      version?: unknown;
+      blocks?: unknown;
+      font?: unknown;
+      size?: unknown;
+      createdAt?: unknown;
+      checksum?: unknown;
+      titlePage?: unknown;
+    };
     if (
-      parsed?.version !== SCREENPLAY_PAYLOAD_VERSION ||
-      !Array.isArray(parsed.blocks) ||
+      !Array.isArray(parsed?.blocks) ||
       typeof parsed.font !== "string" ||
       typeof parsed.size !== "string" ||
       typeof parsed.createdAt !== "string" ||
@@ -184,40 +622,29 @@ export const decodeScreenplayPayload = (
       return null;
     }
 
-    const sanitizedBlocks: ScreenplayBlock[] = [];
-    for (const block of parsed.blocks) {
-      if (
-        !block ||
-        typeof block !== "object" ||
-        typeof block.formatId !== "string" ||
-        !isEditorStyleFormatId(block.formatId) ||
-        typeof block.text !== "string"
-      ) {
-        continue;
-      }
-      sanitizedBlocks.push({
-        formatId: block.formatId,
-        text: normalizeBlockText(block.text),
+    if (parsed.version === 1) {
+      return decodeLegacyPayloadV1({
+        version: 1,
+        blocks: parsed.blocks,
+        font: parsed.font,
+        size: parsed.size,
+        createdAt: parsed.createdAt,
+        checksum: parsed.checksum,
       });
     }
-
-    const legacyChecksum = computePayloadChecksum({
-      version: SCREENPLAY_PAYLOAD_VERSION,
-      blocks: sanitizedBlocks,
-      font: parsed.font,
-      size: parsed.size,
-      createdAt: parsed.createdAt,
-    });
+    if (parsed.version !== SCREENPLAY_PAYLOAD_VERSION) {
+      return null;
+    }
 
     const rebuilt = ensurePayloadChecksum({
-      version: SCREENPLAY_PAYLOAD_VERSION,
-      blocks: sanitizedBlocks,
+      blocks: sanitizeDecodedBlocks(parsed.blocks, true),
       font: parsed.font,
       size: parsed.size,
       createdAt: parsed.createdAt,
+      titlePage: normalizeTitlePage(parsed.titlePage),
     });
 
-    if (rebuilt.checksum !== parsed.checksum && legacyChecksum !== parsed.checksum) {
+    if (rebuilt.checksum !== parsed.checksum) {
       return null;
     }
 
@@ -229,7 +656,7 @@ export const decodeScreenplayPayload = (
 
 export const extractPayloadFromText = (
   text: string
-): ScreenplayPayloadV1 | null => {
+): ScreenplayPayload | null => {
   const encoded = extractEncodedPayloadMarker(text);
   if (!encoded) return null;
   return decodeScreenplayPayload(encoded);
@@ -275,14 +702,10 @@ export const htmlToScreenplayBlocks = (html: string): ScreenplayBlock[] => {
       );
 
       if (sceneHeader1) {
-        for (const line of toLineTextsFromNode(sceneHeader1)) {
-          blocks.push({ formatId: "scene-header-1", text: line });
-        }
+        blocks.push(...toBlocksFromElement(sceneHeader1, "scene-header-1"));
       }
       if (sceneHeader2) {
-        for (const line of toLineTextsFromNode(sceneHeader2)) {
-          blocks.push({ formatId: "scene-header-2", text: line });
-        }
+        blocks.push(...toBlocksFromElement(sceneHeader2, "scene-header-2"));
       }
       if (!sceneHeader1 && !sceneHeader2) {
         blocks.push(...splitLegacyTopLineText(element.textContent || ""));
@@ -290,14 +713,42 @@ export const htmlToScreenplayBlocks = (html: string): ScreenplayBlock[] => {
       return;
     }
 
-    for (const line of toLineTextsFromNode(element)) {
-      blocks.push({ formatId, text: line });
-    }
+    blocks.push(...toBlocksFromElement(element, formatId));
   });
 
   return normalizeIncomingBlocks(blocks);
 };
 
+const buildBlockAttributes = (block: ScreenplayBlock): string => {
+  let attributes = "";
+  if (block.id) {
+    attributes += ` data-block-id="${escapeHtml(block.id)}"`;
+  }
+  const metadata = sanitizeBlockMetadata(block.metadata);
+  if (metadata) {
+    attributes += ` data-block-meta="${escapeHtml(JSON.stringify(metadata))}"`;
+  }
+  return attributes;
+};
+
+const buildBlockInnerHtml = (block: ScreenplayBlock): string => {
+  const text = normalizeBlockText(block.text);
+  if (text.length === 0) return "<br>";
+
+  const runs = sanitizeInlineRuns(block.runs, text);
+  if (!runs) return escapeHtml(text).replace(/\n/g, "<br>");
+
+  return runs
+    .map((run) => {
+      let html = escapeHtml(run.text).replace(/\n/g, "<br>");
+      if (run.underline) html = `<u>${html}</u>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join("");
+};
+
 export const screenplayBlocksToHtml = (blocks: ScreenplayBlock[]): string => {
   const normalized = normalizeIncomingBlocks(
     (blocks ?? []).filter(
@@ -320,22 +771,22 @@ export const screenplayBlocksToHtml = (blocks: ScreenplayBlock[]): string => {
       next &&
       next.formatId === "scene-header-2"
     ) {
-      const topText = normalizeBlockText(current.text);
-      const bottomText = normalizeBlockText(next.text);
       html.push(
-        `<div class="format-scene-header-top-line"><div class="format-scene-header-1">${
-          topText.length > 0 ? escapeHtml(topText) : "<br>"
-        }</div><div class="format-scene-header-2">${
-          bottomText.length > 0 ? escapeHtml(bottomText) : "<br>"
-        }</div></div>`
+        `<div class="format-scene-header-top-line"><div class="format-scene-header-1"${buildBlockAttributes(
+          current
+        )}>${buildBlockInnerHtml(current)}</div><div class="format-scene-header-2"${buildBlockAttributes(
+          next
+        )}>${buildBlockInnerHtml(next)}</div></div>`
       );
       i++;
       continue;
     }
 
-    const text = normalizeBlockText(current.text);
-    const htmlText = text.length > 0 ? escapeHtml(text).replace(/\n/g, "<br>") : "<br>";
-    html.push(`<div class="format-${current.formatId}">${htmlText}</div>`);
+    html.push(
+      `<div class="format-${current.formatId}"${buildBlockAttributes(
+        current
+      )}>${buildBlockInnerHtml(current)}</div>`
+    );
   }
 
   return html.join("");
@@ -347,14 +798,15 @@ export const createPayloadFromBlocks = (
     font?: string;
     size?: string;
     createdAt?: string;
+    titlePage?: TitlePageInfo | null;
   }
-): ScreenplayPayloadV1 => {
+): ScreenplayPayload => {
   return ensurePayloadChecksum({
-    version: SCREENPLAY_PAYLOAD_VERSION,
-    blocks: normalizeIncomingBlocks(blocks),
+    blocks,
     font: options?.font ?? "AzarMehrMonospaced-San",
     size: options?.size ?? "12pt",
     createdAt: options?.createdAt ?? new Date().toISOString(),
+    titlePage: options?.titlePage,
   });
 };
 
@@ -364,8 +816,9 @@ export const createPayloadFromHtml = (
     font?: string;
     size?: string;
     createdAt?: string;
+    titlePage?: TitlePageInfo | null;
   }
-): ScreenplayPayloadV1 => {
+): ScreenplayPayload => {
   const blocks = htmlToScreenplayBlocks(html);
   return createPayloadFromBlocks(blocks, options);
 };
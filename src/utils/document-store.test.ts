@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryBackend, DocumentStore } from "./document-store";
+import { createProjectFromBlocks } from "./project-file";
+import { createSnapshotRevision } from "./version-history";
+
+const makeProject = (text: string) =>
+  createProjectFromBlocks([{ formatId: "action", text }]);
+
+describe("document-store", () => {
+  let store: DocumentStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T10:00:00Z"));
+    store = new DocumentStore(createMemoryBackend());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lists recent documents by last open and keeps content separately", async () => {
+    const first = await store.saveDocument({
+      name: "الفيلم",
+      project: makeProject("مشهد أول"),
+    });
+    vi.setSystemTime(new Date("2026-01-01T11:00:00Z"));
+    const second = await store.saveDocument({
+      name: "  مسودة  ",
+      project: makeProject("مشهد ثان"),
+    });
+    expect(second.name).toBe("مسودة");
+    expect((await store.listRecentDocuments()).map((doc) => doc.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    const { project } = await store.openDocument(first.id);
+    expect(project.payload.blocks[0].text).toBe("مشهد أول");
+    expect((await store.listRecentDocuments(1))[0].id).toBe(first.id);
+
+    const updated = await store.saveDocument({
+      id: first.id,
+      name: "الفيلم",
+      project: makeProject("نص معدّل"),
+    });
+    expect(updated.id).toBe(first.id);
+    expect(updated.createdAt).toBe(first.createdAt);
+    expect(
+      (await store.openDocument(first.id)).project.payload.blocks[0].text
+    ).toBe("نص معدّل");
+  });
+
+  it("renames, duplicates and deletes documents", async () => {
+    const doc = await store.saveDocument({
+      name: "الرحلة",
+      project: makeProject("بداية"),
+    });
+
+    await expect(store.renameDocument(doc.id, "   ")).rejects.toThrow(
+      "اسم المستند لا يمكن أن يكون فارغًا"
+    );
+    expect((await store.renameDocument(doc.id, "الرحلة الطويلة")).name).toBe(
+      "الرحلة الطويلة"
+    );
+
+    const copy = await store.duplicateDocument(doc.id);
+    expect(copy.id).not.toBe(doc.id);
+    expect(copy.name).toBe("الرحلة الطويلة (نسخة)");
+    expect(
+      (await store.openDocument(copy.id)).project.payload.blocks[0].text
+    ).toBe("بداية");
+
+    await store.deleteDocument(doc.id);
+    expect(await store.getDocument(doc.id)).toBeNull();
+    await expect(store.openDocument(doc.id)).rejects.toThrow(
+      "المستند غير موجود في مساحة العمل"
+    );
+    expect(await store.listRecentDocuments()).toHaveLength(1);
+  });
+
+  it("groups episodes under projects and detaches them when the project is deleted", async () => {
+    const series = await store.createProject("مسلسل الحارة", "series");
+    const episode1 = await store.saveDocument({
+      name: "الحلقة الأولى",
+      project: makeProject("١"),
+      projectId: series.id,
+    });
+    const standalone = await store.saveDocument({
+      name: "الحلقة الثانية",
+      project: makeProject("٢"),
+    });
+    const episode2 = await store.moveDocumentToProject(
+      standalone.id,
+      series.id
+    );
+    const episode3 = await store.duplicateDocument(episode1.id);
+
+    expect(episode1.episodeNumber).toBe(1);
+    expect(episode2.episodeNumber).toBe(2);
+    expect(episode3.projectId).toBe(series.id);
+    expect(
+      (await store.listProjectDocuments(series.id)).map((doc) => doc.id)
+    ).toEqual([episode1.id, episode2.id, episode3.id]);
+    const episodes = await store.listProjectEpisodes(series.id);
+    expect(episodes.map((source) => source.episodeNumber)).toEqual([1, 2, 3]);
+    expect(episodes[1].project.payload.blocks[0].text).toBe("٢");
+
+    await store.renameProject(series.id, "مسلسل الأخوة");
+    expect((await store.listProjects())[0]).toMatchObject({
+      name: "مسلسل الأخوة",
+      kind: "series",
+    });
+
+    await store.deleteProject(series.id);
+    expect(await store.listProjects()).toEqual([]);
+    const detached = await store.getDocument(episode1.id);
+    expect(detached?.projectId).toBeNull();
+    expect(detached?.episodeNumber).toBeNull();
+  });
+
+  it("keeps only the latest recovery snapshot until it is cleared", async () => {
+    expect(await store.getRecoverySnapshot()).toBeNull();
+    const snapshot = {
+      documentId: null,
+      documentName: null,
+      blocks: [{ formatId: "action" as const, text: "مسودة أولى" }],
+      titlePage: null,
+      revisionMode: null,
+      savedAt: new Date().toISOString(),
+    };
+    await store.saveRecoverySnapshot(snapshot);
+    await store.saveRecoverySnapshot({
+      ...snapshot,
+      blocks: [{ formatId: "action", text: "مسودة ثانية" }],
+    });
+    expect((await store.getRecoverySnapshot())?.blocks[0].text).toBe(
+      "مسودة ثانية"
+    );
+
+    await store.clearRecoverySnapshot();
+    expect(await store.getRecoverySnapshot()).toBeNull();
+  });
+
+  it("appends history snapshots without touching the saved content", async () => {
+    const doc = await store.saveDocument({
+      name: "الفيلم",
+      project: makeProject("النسخة المحفوظة"),
+    });
+    const revisions = await store.appendDocumentRevision(
+      doc.id,
+      createSnapshotRevision(
+        [{ formatId: "action", text: "نص لم يُحفظ بعد" }],
+        "مسودة ثانية للمنتج"
+      )
+    );
+
+    expect(revisions.map((revision) => revision.label)).toEqual([
+      "مسودة ثانية للمنتج",
+    ]);
+    const content = await store.getDocumentContent(doc.id);
+    expect(content.payload.blocks[0].text).toBe("النسخة المحفوظة");
+    expect(content.revisions[0].payload.blocks[0].text).toBe("نص لم يُحفظ بعد");
+  });
+});
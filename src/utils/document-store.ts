@@ -0,0 +1,495 @@
+/**
+ * document-store.ts - مساحة العمل متعددة المستندات
+ * يحفظ سيناريوهات المستخدم في IndexedDB (لا يتسع localStorage لعدد كبير منها)
+ * مع قائمة المستندات الأخيرة، والمشاريع التي تجمع عدة حلقات.
+ *
+ * بيانات المستند الوصفية (الاسم، المشروع، رقم الحلقة، آخر فتح) في مخزن
+ * "documents"، ومحتواه (FilmlaneProject) في مخزن "contents" حتى تبقى قراءة
+ * قائمة المستندات خفيفة مهما كبرت السيناريوهات. مخزن "snapshots" يحمل
+ * لقطة الاسترجاع الدورية للمحرر حتى لا يضيع المسودة عند انهيار المتصفح.
+ */
+
+import type { TitlePageInfo } from "@/types/screenplay";
+import type { ScreenplayBlock } from "./document-model";
+import { logger } from "./logger";
+import {
+  createProjectId,
+  type FilmlaneProject,
+  type ProjectRevision,
+} from "./project-file";
+import type { RevisionModeState } from "./revision-mode";
+import type { SeriesEpisodeSource } from "./series-bible";
+import { appendSnapshot } from "./version-history";
+
+export const WORKSPACE_DB_NAME = "filmlane-workspace";
+const WORKSPACE_DB_VERSION = 2;
+const DEFAULT_RECENT_LIMIT = 8;
+
+export type WorkspaceStoreName =
+  | "documents"
+  | "contents"
+  | "projects"
+  | "snapshots";
+
+const WORKSPACE_STORES: WorkspaceStoreName[] = [
+  "documents",
+  "contents",
+  "projects",
+  "snapshots",
+];
+
+/** مفتاح لقطة الجلسة الوحيدة (أحدث لقطة فقط) */
+const RECOVERY_SNAPSHOT_KEY = "session";
+
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  /** المشروع الذي ينتمي إليه المستند كحلقة (null لمستند مستقل) */
+  projectId: string | null;
+  /** رقم الحلقة داخل المشروع */
+  episodeNumber: number | null;
+  createdAt: string;
+  updatedAt: string;
+  openedAt: string;
+}
+
+/**
+ * نوع المشروع: مجموعة مستندات عامة، أو مسلسل كل مستند فيه حلقة
+ * ويُشتق له كتاب شخصيات وأماكن مشترك.
+ */
+export type WorkspaceProjectKind = "group" | "series";
+
+export interface WorkspaceProject {
+  id: string;
+  name: string;
+  kind: WorkspaceProjectKind;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** لقطة استرجاع لمحتوى المحرر غير المحفوظ */
+export interface RecoverySnapshot {
+  /** مستند مساحة العمل الذي كانت اللقطة تعدّله (null لمستند جديد) */
+  documentId: string | null;
+  documentName: string | null;
+  blocks: ScreenplayBlock[];
+  titlePage: TitlePageInfo | null;
+  revisionMode: RevisionModeState | null;
+  savedAt: string;
+}
+
+/**
+ * واجهة التخزين الخلفية: IndexedDB في المتصفح، والذاكرة في الاختبارات
+ * وبيئات لا تدعم IndexedDB.
+ */
+export interface DocumentStoreBackend {
+  getAll<T>(store: WorkspaceStoreName): Promise<T[]>;
+  get<T>(store: WorkspaceStoreName, key: string): Promise<T | undefined>;
+  put<T>(store: WorkspaceStoreName, key: string, value: T): Promise<void>;
+  delete(store: WorkspaceStoreName, key: string): Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbBackend = (
+  dbName: string = WORKSPACE_DB_NAME
+): DocumentStoreBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, WORKSPACE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of WORKSPACE_STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        }
+      };
+      dbPromise = requestToPromise(request).catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    store: WorkspaceStoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(
+      run(db.transaction(store, mode).objectStore(store))
+    );
+  };
+
+  return {
+    getAll: <T>(store: WorkspaceStoreName) =>
+      withStore(store, "readonly", (objectStore) =>
+        objectStore.getAll()
+      ) as Promise<T[]>,
+    get: <T>(store: WorkspaceStoreName, key: string) =>
+      withStore(store, "readonly", (objectStore) =>
+        objectStore.get(key)
+      ) as Promise<T | undefined>,
+    put: async <T>(store: WorkspaceStoreName, key: string, value: T) => {
+      await withStore(store, "readwrite", (objectStore) =>
+        objectStore.put(value, key)
+      );
+    },
+    delete: async (store: WorkspaceStoreName, key: string) => {
+      await withStore(store, "readwrite", (objectStore) =>
+        objectStore.delete(key)
+      );
+    },
+  };
+};
+
+/**
+ * تخزين في الذاكرة بنسخ القيم (كما يفعل IndexedDB) حتى لا تتسرب التعديلات.
+ */
+export const createMemoryBackend = (): DocumentStoreBackend => {
+  const stores = new Map<WorkspaceStoreName, Map<string, string>>(
+    WORKSPACE_STORES.map((store) => [store, new Map<string, string>()])
+  );
+  const storeOf = (store: WorkspaceStoreName) =>
+    stores.get(store) as Map<string, string>;
+
+  return {
+    getAll: async <T>(store: WorkspaceStoreName) =>
+      Array.from(storeOf(store).values(), (value) => JSON.parse(value) as T),
+    get: async <T>(store: WorkspaceStoreName, key: string) => {
+      const value = storeOf(store).get(key);
+      return value === undefined ? undefined : (JSON.parse(value) as T);
+    },
+    put: async <T>(store: WorkspaceStoreName, key: string, value: T) => {
+      storeOf(store).set(key, JSON.stringify(value));
+    },
+    delete: async (store: WorkspaceStoreName, key: string) => {
+      storeOf(store).delete(key);
+    },
+  };
+};
+
+const requireName = (name: string, message: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(message);
+  return trimmed;
+};
+
+const byLatest =
+  <K extends "openedAt" | "updatedAt">(field: K) =>
+  (left: Record<K, string>, right: Record<K, string>): number =>
+    right[field].localeCompare(left[field]);
+
+/**
+ * @description
+ * مخزن مستندات مساحة العمل - Document Store
+ *
+ * @responsibilities
+ * - حفظ المستندات وفتحها وإعادة تسميتها ونسخها وحذفها
+ * - قائمة المستندات الأخيرة مرتبة بآخر فتح
+ * - المشاريع التي تجمع عدة حلقات مرقمة
+ * - لقطة استرجاع الجلسة الأخيرة بعد انهيار المتصفح
+ *
+ * @boundaries
+ * - يفعل: تخزين FilmlaneProject كما هو مع بياناته الوصفية
+ * - لا يفعل: لا يبني المشروع من المحرر ولا يتعامل مع واجهة المستخدم
+ *
+ * @example
+ * ```typescript
+ * const store = getDocumentStore();
+ * const doc = await store.saveDocument({ name: "الحلقة 1", project });
+ * const recent = await store.listRecentDocuments();
+ * ```
+ */
+export class DocumentStore {
+  constructor(private readonly backend: DocumentStoreBackend) {}
+
+  async listRecentDocuments(
+    limit: number = DEFAULT_RECENT_LIMIT
+  ): Promise<WorkspaceDocument[]> {
+    const documents = await this.backend.getAll<WorkspaceDocument>("documents");
+    return documents.sort(byLatest("openedAt")).slice(0, limit);
+  }
+
+  async getDocument(id: string): Promise<WorkspaceDocument | null> {
+    return (await this.backend.get<WorkspaceDocument>("documents", id)) ?? null;
+  }
+
+  /**
+   * فتح مستند: إرجاع بياناته ومحتواه وتحديث وقت آخر فتح.
+   */
+  async openDocument(
+    id: string
+  ): Promise<{ document: WorkspaceDocument; project: FilmlaneProject }> {
+    const document = await this.requireDocument(id);
+    const project = await this.requireContent(document);
+
+    const opened = { ...document, openedAt: new Date().toISOString() };
+    await this.backend.put("documents", id, opened);
+    return { document: opened, project };
+  }
+
+  /**
+   * حفظ مستند جديد (بلا id) أو تحديث محتوى مستند موجود.
+   */
+  async saveDocument(input: {
+    id?: string | null;
+    name: string;
+    project: FilmlaneProject;
+    projectId?: string | null;
+  }): Promise<WorkspaceDocument> {
+    const now = new Date().toISOString();
+    const name = requireName(input.name, "اسم المستند لا يمكن أن يكون فارغًا");
+    const existing = input.id ? await this.getDocument(input.id) : null;
+
+    let document: WorkspaceDocument;
+    if (existing) {
+      document = { ...existing, name, updatedAt: now, openedAt: now };
+    } else {
+      const projectId = input.projectId ?? null;
+      document = {
+        id: createProjectId("doc"),
+        name,
+        projectId,
+        episodeNumber: projectId
+          ? await this.nextEpisodeNumber(projectId)
+          : null,
+        createdAt: now,
+        updatedAt: now,
+        openedAt: now,
+      };
+    }
+
+    await this.backend.put("contents", document.id, input.project);
+    await this.backend.put("documents", document.id, document);
+    if (document.projectId) await this.touchProject(document.projectId, now);
+    return document;
+  }
+
+  /** محتوى المستند دون تحديث وقت آخر فتح */
+  async getDocumentContent(id: string): Promise<FilmlaneProject> {
+    return this.requireContent(await this.requireDocument(id));
+  }
+
+  /**
+   * إضافة لقطة إلى سجل نسخ المستند المحفوظ دون تغيير محتواه الحالي.
+   */
+  async appendDocumentRevision(
+    id: string,
+    revision: ProjectRevision
+  ): Promise<ProjectRevision[]> {
+    const project = await this.getDocumentContent(id);
+    const revisions = appendSnapshot(project.revisions, revision);
+    await this.backend.put("contents", id, { ...project, revisions });
+    return revisions;
+  }
+
+  async renameDocument(id: string, name: string): Promise<WorkspaceDocument> {
+    const document = await this.requireDocument(id);
+    const renamed = {
+      ...document,
+      name: requireName(name, "اسم المستند لا يمكن أن يكون فارغًا"),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.backend.put("documents", id, renamed);
+    return renamed;
+  }
+
+  /**
+   * نسخ مستند باسم جديد؛ النسخة من حلقات المشروع نفسه تأخذ رقم الحلقة التالي.
+   */
+  async duplicateDocument(id: string): Promise<WorkspaceDocument> {
+    const document = await this.requireDocument(id);
+    const project = await this.requireContent(document);
+    return this.saveDocument({
+      name: `${document.name} (نسخة)`,
+      project,
+      projectId: document.projectId,
+    });
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await this.backend.delete("documents", id);
+    await this.backend.delete("contents", id);
+  }
+
+  async listProjects(): Promise<WorkspaceProject[]> {
+    const projects = await this.backend.getAll<WorkspaceProject>("projects");
+    // مشاريع ما قبل أنواع المشاريع مجموعاتٌ عامة.
+    return projects
+      .map((project) => ({ ...project, kind: project.kind ?? "group" }))
+      .sort(byLatest("updatedAt"));
+  }
+
+  async createProject(
+    name: string,
+    kind: WorkspaceProjectKind = "group"
+  ): Promise<WorkspaceProject> {
+    const now = new Date().toISOString();
+    const project: WorkspaceProject = {
+      id: createProjectId("project"),
+      name: requireName(name, "اسم المشروع لا يمكن أن يكون فارغًا"),
+      kind,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.backend.put("projects", project.id, project);
+    return project;
+  }
+
+  async renameProject(id: string, name: string): Promise<WorkspaceProject> {
+    const project = await this.requireProject(id);
+    const renamed = {
+      ...project,
+      name: requireName(name, "اسم المشروع لا يمكن أن يكون فارغًا"),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.backend.put("projects", id, renamed);
+    return renamed;
+  }
+
+  /**
+   * حذف المشروع فقط؛ حلقاته تبقى مستندات مستقلة.
+   */
+  async deleteProject(id: string): Promise<void> {
+    for (const document of await this.listProjectDocuments(id)) {
+      await this.backend.put("documents", document.id, {
+        ...document,
+        projectId: null,
+        episodeNumber: null,
+      });
+    }
+    await this.backend.delete("projects", id);
+  }
+
+  /** حلقات المشروع مرتبة برقم الحلقة */
+  async listProjectDocuments(projectId: string): Promise<WorkspaceDocument[]> {
+    const documents = await this.backend.getAll<WorkspaceDocument>("documents");
+    return documents
+      .filter((document) => document.projectId === projectId)
+      .sort(
+        (left, right) => (left.episodeNumber ?? 0) - (right.episodeNumber ?? 0)
+      );
+  }
+
+  /**
+   * حلقات المشروع مع محتواها، مصدرًا لكتاب المسلسل.
+   */
+  async listProjectEpisodes(projectId: string): Promise<SeriesEpisodeSource[]> {
+    const episodes: SeriesEpisodeSource[] = [];
+    for (const document of await this.listProjectDocuments(projectId)) {
+      episodes.push({
+        documentId: document.id,
+        episodeNumber: document.episodeNumber,
+        name: document.name,
+        project: await this.requireContent(document),
+      });
+    }
+    return episodes;
+  }
+
+  /**
+   * نقل مستند إلى مشروع كحلقة أخيرة فيه، أو فصله عن مشروعه (null).
+   */
+  async moveDocumentToProject(
+    id: string,
+    projectId: string | null
+  ): Promise<WorkspaceDocument> {
+    const document = await this.requireDocument(id);
+    if (document.projectId === projectId) return document;
+    const now = new Date().toISOString();
+    if (projectId) await this.touchProject(projectId, now);
+
+    const moved: WorkspaceDocument = {
+      ...document,
+      projectId,
+      episodeNumber: projectId ? await this.nextEpisodeNumber(projectId) : null,
+      updatedAt: now,
+    };
+    await this.backend.put("documents", id, moved);
+    return moved;
+  }
+
+  async saveRecoverySnapshot(snapshot: RecoverySnapshot): Promise<void> {
+    await this.backend.put("snapshots", RECOVERY_SNAPSHOT_KEY, snapshot);
+  }
+
+  async getRecoverySnapshot(): Promise<RecoverySnapshot | null> {
+    return (
+      (await this.backend.get<RecoverySnapshot>(
+        "snapshots",
+        RECOVERY_SNAPSHOT_KEY
+      )) ?? null
+    );
+  }
+
+  async clearRecoverySnapshot(): Promise<void> {
+    await this.backend.delete("snapshots", RECOVERY_SNAPSHOT_KEY);
+  }
+
+  private async requireDocument(id: string): Promise<WorkspaceDocument> {
+    const document = await this.getDocument(id);
+    if (!document) throw new Error("المستند غير موجود في مساحة العمل");
+    return document;
+  }
+
+  private async requireContent(
+    document: WorkspaceDocument
+  ): Promise<FilmlaneProject> {
+    const project = await this.backend.get<FilmlaneProject>(
+      "contents",
+      document.id
+    );
+    if (!project) throw new Error(`محتوى المستند "${document.name}" مفقود`);
+    return project;
+  }
+
+  private async requireProject(id: string): Promise<WorkspaceProject> {
+    const project = await this.backend.get<WorkspaceProject>("projects", id);
+    if (!project) throw new Error("المشروع غير موجود في مساحة العمل");
+    return project;
+  }
+
+  private async nextEpisodeNumber(projectId: string): Promise<number> {
+    const episodes = await this.listProjectDocuments(projectId);
+    return (
+      episodes.reduce(
+        (max, document) => Math.max(max, document.episodeNumber ?? 0),
+        0
+      ) + 1
+    );
+  }
+
+  private async touchProject(id: string, updatedAt: string): Promise<void> {
+    const project = await this.requireProject(id);
+    await this.backend.put("projects", id, { ...project, updatedAt });
+  }
+}
+
+let defaultStore: DocumentStore | null = null;
+
+/**
+ * مخزن مساحة العمل المشترك: IndexedDB إن توفر، وإلا الذاكرة (مثل SSR).
+ */
+export const getDocumentStore = (): DocumentStore => {
+  if (!defaultStore) {
+    const hasIndexedDb = typeof indexedDB !== "undefined";
+    if (!hasIndexedDb) {
+      logger.warn("IndexedDB غير متاح؛ مساحة العمل ستُحفظ في الذاكرة فقط", {
+        component: "DocumentStore",
+      });
+    }
+    defaultStore = new DocumentStore(
+      hasIndexedDb ? createIndexedDbBackend() : createMemoryBackend()
+    );
+  }
+  return defaultStore;
+};
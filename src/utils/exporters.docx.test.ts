@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { exportToDocx } from "./exporters";
+import { layoutScreenplayPages } from "./page-layout";
 
 const documentCtorMock = vi.fn();
 const paragraphCtorMock = vi.fn();
@@ -36,8 +37,12 @@ vi.mock("docx", () => {
       JUSTIFIED: "both",
     },
     Document: MockDocument,
+    LineRuleType: { EXACT: "exact" },
     Paragraph: MockParagraph,
     TextRun: MockTextRun,
+    Tab: vi.fn(),
+    TabStopType: { START: "start", END: "end" },
+    VerticalAlignSection: { CENTER: "center" },
     Packer: {
       toBlob: toBlobMock,
     },
@@ -107,4 +112,91 @@ describe("exportToDocx", () => {
     };
     expect(createdDoc.sections[0]?.children.length).toBeGreaterThan(2);
   });
+
+  it("prepends a centered title page section when title page is provided", async () => {
+    await exportToDocx("", "titled.docx", {
+      blocks: [{ formatId: "action", text: "وصف" }],
+      titlePage: { title: "رحلة الأمل", author: "أحمد خالد", draft: "الثالثة" },
+    });
+
+    const createdDoc = documentCtorMock.mock.calls[0][0] as {
+      sections: Array<{
+        properties: { verticalAlign?: string };
+        children: unknown[];
+      }>;
+    };
+    expect(createdDoc.sections).toHaveLength(2);
+    expect(createdDoc.sections[0].properties.verticalAlign).toBe("center");
+    const titleTexts = createdDoc.sections[0].children.map(
+      (paragraph) =>
+        (
+          paragraph as {
+            options: { children: Array<{ options: { text: string } }> };
+          }
+        ).options.children[0].options.text
+    );
+    expect(titleTexts).toEqual([
+      "رحلة الأمل",
+      "تأليف",
+      "أحمد خالد",
+      "المسودة: الثالثة",
+    ]);
+  });
+
+  it("skips the title page when includeTitlePage is false", async () => {
+    await exportToDocx("", "untitled.docx", {
+      blocks: [{ formatId: "action", text: "وصف" }],
+      titlePage: { title: "رحلة الأمل", author: "" },
+      includeTitlePage: false,
+    });
+
+    const createdDoc = documentCtorMock.mock.calls[0][0] as {
+      sections: unknown[];
+    };
+    expect(createdDoc.sections).toHaveLength(1);
+  });
+
+  it("places scene numbers on both sides of the scene heading", async () => {
+    await exportToDocx("", "numbered.docx", {
+      blocks: [{ formatId: "scene-header-1", text: "مشهد 7" }],
+    });
+
+    const sceneParagraph = paragraphCtorMock.mock.calls[0][0] as {
+      tabStops: unknown[];
+      children: Array<{ options: { text?: string } }>;
+    };
+    const texts = sceneParagraph.children.map((run) => run.options.text);
+    expect(sceneParagraph.tabStops).toHaveLength(2);
+    expect(texts[0]).toBe("7");
+    expect(texts[texts.length - 1]).toBe("7");
+    expect(texts).toContain("مشهد 7");
+  });
+
+  it("breaks pages where the shared layout engine does", async () => {
+    const blocks = Array.from({ length: 60 }, (_, index) => ({
+      formatId: "action" as const,
+      text: `سطر ${index}`,
+    }));
+    const { blockPages } = layoutScreenplayPages(blocks);
+
+    await exportToDocx("", "paged.docx", { blocks });
+
+    const breaks = paragraphCtorMock.mock.calls
+      .slice(0, blocks.length)
+      .map((call, index) =>
+        (call[0] as { pageBreakBefore?: boolean }).pageBreakBefore ? index : -1
+      )
+      .filter((index) => index >= 0);
+    const expectedBreaks = blockPages
+      .map((page, index) =>
+        index > 0 && page !== blockPages[index - 1] ? index : -1
+      )
+      .filter((index) => index >= 0);
+    expect(breaks).toEqual(expectedBreaks);
+    expect(breaks.length).toBeGreaterThan(0);
+    expect(
+      (paragraphCtorMock.mock.calls[0][0] as { spacing: { line: number } })
+        .spacing.line
+    ).toBe(400);
+  });
 });
@@ -1,10 +1,13 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
-import { exportToPDF } from "./exporters";
+import { exportBreakdownToPDF, exportToPDF } from "./exporters";
+import { layoutScreenplayPages, PAGE_LAYOUT } from "./page-layout";
 
 const drawTextMock = vi.fn();
+const drawRectangleMock = vi.fn();
 const addPageMock = vi.fn(() => ({
   drawText: drawTextMock,
+  drawRectangle: drawRectangleMock,
 }));
 const setTitleMock = vi.fn();
 const setSubjectMock = vi.fn();
@@ -15,8 +18,11 @@ const embedFontMock = vi.fn(async () => ({
 const saveMock = vi.fn(async () => new Uint8Array([1, 2, 3]));
 const registerFontkitMock = vi.fn();
 
+const removePageMock = vi.fn();
+
 const createMock = vi.fn(async () => ({
   addPage: addPageMock,
+  removePage: removePageMock,
   setTitle: setTitleMock,
   setSubject: setSubjectMock,
   setKeywords: setKeywordsMock,
@@ -29,13 +35,30 @@ vi.mock("pdf-lib", () => ({
   PDFDocument: {
     create: createMock,
   },
-  rgb: () => ({ r: 0, g: 0, b: 0 }),
+  rgb: (r: number, g: number, b: number) => ({ r, g, b }),
 }));
 
 vi.mock("@pdf-lib/fontkit", () => ({
   default: {},
 }));
 
+const stubDownloadGlobals = () => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => ({
+      ok: true,
+      arrayBuffer: async () => new Uint8Array([10, 20, 30]).buffer,
+    }))
+  );
+  vi.stubGlobal(
+    "URL",
+    Object.assign(URL, {
+      createObjectURL: vi.fn(() => "blob:pdf"),
+      revokeObjectURL: vi.fn(),
+    })
+  );
+};
+
 describe("exportToPDF", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -61,7 +84,7 @@ describe("exportToPDF", () => {
     expect(createMock).toHaveBeenCalledTimes(1);
     expect(setSubjectMock).toHaveBeenCalledTimes(1);
     expect(String(setSubjectMock.mock.calls[0][0])).toContain(
-      "[[FILMLANE_PAYLOAD_V1:"
+      "[[FILMLANE_PAYLOAD_V2:"
     );
     expect(drawTextMock).toHaveBeenCalled();
     expect(openSpy).not.toHaveBeenCalled();
@@ -79,4 +102,184 @@ describe("exportToPDF", () => {
     expect(createMock).toHaveBeenCalledTimes(1);
     expect(drawTextMock).toHaveBeenCalled();
   });
+
+  it("renders the title page as a dedicated first page", async () => {
+    await exportToPDF("", "titled", {
+      blocks: [{ formatId: "action", text: "وصف" }],
+      titlePage: { title: "رحلة الأمل", author: "أحمد خالد", date: "2025" },
+    });
+
+    expect(addPageMock).toHaveBeenCalledTimes(2);
+    const drawnTexts = drawTextMock.mock.calls.map((call) => call[0]);
+    expect(drawnTexts.slice(0, 4)).toEqual([
+      "رحلة الأمل",
+      "تأليف",
+      "أحمد خالد",
+      "التاريخ: 2025",
+    ]);
+    expect(drawnTexts[4]).toBe("وصف");
+    expect(drawTextMock.mock.calls[0][1].size).toBe(24);
+  });
+
+  it("prints scene numbers in both margins", async () => {
+    await exportToPDF("", "numbered", {
+      blocks: [{ formatId: "scene-header-1", text: "مشهد 12A" }],
+    });
+
+    const numberCalls = drawTextMock.mock.calls.filter(
+      (call) => call[0] === "12A"
+    );
+    expect(numberCalls).toHaveLength(2);
+    const [leftX, rightX] = numberCalls.map((call) => call[1].x);
+    expect(leftX).toBeLessThan(56);
+    expect(rightX).toBeGreaterThan(595.28 - 56);
+  });
+
+  it("marks revised lines and heads the page with the revision color", async () => {
+    const sets = [
+      {
+        id: "rev-1-blue",
+        color: "blue" as const,
+        label: "مراجعة أزرق",
+        date: "2025-03-01",
+      },
+    ];
+    await exportToPDF("", "revised", {
+      blocks: [
+        { formatId: "action", text: "ثابت" },
+        {
+          formatId: "action",
+          text: "معدّل",
+          metadata: { revisionSet: "rev-1-blue" },
+        },
+      ],
+      revision: { sets },
+    });
+
+    const texts = drawTextMock.mock.calls.map((call) => call[0]);
+    expect(texts.filter((text) => text === "*")).toHaveLength(1);
+    const headerCall = drawTextMock.mock.calls.find(
+      (call) => call[0] === "مراجعة أزرق - 2025-03-01"
+    );
+    expect(headerCall?.[1].color).toEqual({
+      r: 0x25 / 255,
+      g: 0x63 / 255,
+      b: 0xeb / 255,
+    });
+  });
+
+  it("keeps only pages revised in the active set", async () => {
+    const sets = [
+      {
+        id: "rev-1-blue",
+        color: "blue" as const,
+        label: "مراجعة أزرق",
+        date: "2025-03-01",
+      },
+      {
+        id: "rev-2-pink",
+        color: "pink" as const,
+        label: "مراجعة وردي",
+        date: "2025-03-08",
+      },
+    ];
+    const blocks = Array.from({ length: 120 }, (_, index) => ({
+      formatId: "action" as const,
+      text: `سطر ${index}`,
+      metadata:
+        index === 110
+          ? { revisionSet: "rev-2-pink" }
+          : { revisionSet: "rev-1-blue" },
+    }));
+
+    await exportToPDF("", "revised-only", {
+      blocks,
+      titlePage: { title: "رحلة", author: "كاتب" },
+      revision: { sets, revisedPagesOnly: true },
+    });
+
+    const pageCount = addPageMock.mock.calls.length;
+    expect(pageCount).toBeGreaterThan(2);
+    // تبقى صفحة واحدة فقط: الصفحة الأخيرة التي تحتوي المجموعة الوردية.
+    expect(removePageMock).toHaveBeenCalledTimes(pageCount - 1);
+    expect(removePageMock.mock.calls.at(-1)).toEqual([0]);
+  });
+
+  it("rejects revised-pages export when the active set has no changes", async () => {
+    await expect(
+      exportToPDF("", "none", {
+        blocks: [{ formatId: "action", text: "ثابت" }],
+        revision: {
+          sets: [
+            {
+              id: "rev-1-blue",
+              color: "blue",
+              label: "مراجعة أزرق",
+              date: "2025-03-01",
+            },
+          ],
+          revisedPagesOnly: true,
+        },
+      })
+    ).rejects.toThrow("لا توجد صفحات معدّلة");
+  });
+
+  it("creates one page per page of the shared layout", async () => {
+    const blocks = Array.from({ length: 80 }, (_, index) => ({
+      formatId: "action" as const,
+      text: `سطر ${index}`,
+    }));
+
+    await exportToPDF("", "paged", { blocks });
+
+    expect(addPageMock).toHaveBeenCalledTimes(
+      layoutScreenplayPages(blocks).pageCount
+    );
+  });
+});
+
+describe("exportBreakdownToPDF", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stubDownloadGlobals();
+  });
+
+  it("splits a wide cast matrix across pages within the margins", async () => {
+    const cast = Array.from({ length: 15 }, (_, index) =>
+      index === 0 ? "عبدالرحمنالمحمدي" : `الشخصية ${index + 1}`
+    );
+    await exportBreakdownToPDF(
+      [
+        {
+          title: "الممثلون حسب المشهد",
+          headers: ["المشهد", ...cast],
+          rows: ["1", "2", "3"].map((scene) => [scene, ...cast.map(() => "X")]),
+        },
+      ],
+      "cast"
+    );
+
+    expect(addPageMock.mock.calls.length).toBeGreaterThan(1);
+    const texts = drawTextMock.mock.calls.map((call) => call[0]);
+    // عمود المشهد يتكرر مع كل مجموعة أعمدة، وكل ممثل يُطبع مرة واحدة
+    expect(texts.filter((text) => text === "المشهد")).toHaveLength(
+      addPageMock.mock.calls.length
+    );
+    for (const name of cast.slice(1)) {
+      expect(texts.filter((text) => text === name)).toHaveLength(1);
+    }
+    // الاسم الأعرض من عموده يُقطَّع داخل الخلية
+    expect(texts).not.toContain(cast[0]);
+    expect(texts.filter((text) => cast[0].includes(text))).toHaveLength(2);
+
+    const left = PAGE_LAYOUT.margin;
+    const right = PAGE_LAYOUT.pageWidth - PAGE_LAYOUT.margin;
+    for (const [{ x, width }] of drawRectangleMock.mock.calls) {
+      expect(x).toBeGreaterThanOrEqual(left - 0.01);
+      expect(x + width).toBeLessThanOrEqual(right + 0.01);
+    }
+    for (const [, { x }] of drawTextMock.mock.calls) {
+      expect(x).toBeGreaterThanOrEqual(left);
+    }
+  });
 });
@@ -1,43 +1,49 @@
+import type { PDFFont } from "pdf-lib";
 import {
   buildPayloadMarker,
   createPayloadFromBlocks,
   encodeScreenplayPayload,
   htmlToScreenplayBlocks,
+  normalizeTitlePage,
+  type InlineRun,
   type ScreenplayBlock,
 } from "./document-model";
+import { breakdownTableToCsv, type BreakdownTable } from "./breakdown-reports";
+import { buildFdxDocument } from "./fdx-format";
+import { buildFountainDocument } from "./fountain-writer";
+import {
+  getBlockLayoutPreset,
+  getBlockTextWidth,
+  layoutScreenplayPages,
+  PAGE_LAYOUT,
+  wrapTextToWidth,
+} from "./page-layout";
+import {
+  getBlockRevisionSet,
+  getRevisionColor,
+  type RevisionModeState,
+  type RevisionSet,
+} from "./revision-mode";
+import { getSceneNumberState } from "./scene-numbering";
+import {
+  createProjectFromBlocks,
+  FILMLANE_PROJECT_EXTENSION,
+  FILMLANE_PROJECT_MIME_TYPE,
+  serializeProject,
+  type FilmlaneProject,
+} from "./project-file";
+import type { ISectionOptions } from "docx";
+import type {
+  EditorSettings,
+  ExportOptions,
+  TitlePageInfo,
+} from "@/types/screenplay";
 
 /**
  * @description
  * مصدّر السيناريو - Screenplay Exporter
  * أدوات لتصدير السيناريو بصيغ مختلفة
  */
-export const exportToFountain = (htmlContent: string): string => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(htmlContent, "text/html");
-  let fountain = "";
-
-  doc.body.childNodes.forEach((node) => {
-    if (node.nodeType !== Node.ELEMENT_NODE) return;
-    const element = node as HTMLElement;
-    const className = element.className;
-    const text = element.textContent?.trim() || "";
-
-    if (className.includes("scene-heading")) {
-      fountain += `${text.toUpperCase()}\n\n`;
-    } else if (className.includes("character")) {
-      fountain += `${text.toUpperCase()}\n`;
-    } else if (className.includes("dialogue")) {
-      fountain += `${text}\n\n`;
-    } else if (className.includes("action")) {
-      fountain += `${text}\n\n`;
-    } else if (className.includes("transition")) {
-      fountain += `${text.toUpperCase()}\n\n`;
-    }
-  });
-
-  return fountain;
-};
-
 export const downloadFile = (
   content: string,
   filename: string,
@@ -54,114 +60,20 @@ export const downloadFile = (
   URL.revokeObjectURL(url);
 };
 
-type PdfLayoutPreset = {
-  alignment: "right" | "center" | "left";
-  bold?: boolean;
-  spacingBeforePt?: number;
-  spacingAfterPt?: number;
-  indentStartPt?: number;
-  indentEndPt?: number;
-  uppercase?: boolean;
-};
-
-const A4_WIDTH = 595.28;
-const A4_HEIGHT = 841.89;
-const PDF_MARGIN = 56;
-const PDF_FONT_SIZE = 12;
-const PDF_LINE_HEIGHT = 20;
+const A4_WIDTH = PAGE_LAYOUT.pageWidth;
+const A4_HEIGHT = PAGE_LAYOUT.pageHeight;
+const PDF_MARGIN = PAGE_LAYOUT.margin;
+const PDF_FONT_SIZE = PAGE_LAYOUT.fontSize;
+const PDF_LINE_HEIGHT = PAGE_LAYOUT.lineHeight;
 const PDF_MAIN_FONT = "/fonts/AzarMehrMonospaced_Sans_Regular.ttf";
 const PDF_BOLD_FONT = "/fonts/AzarMehrMonospaced_Sans_Bold.ttf";
 
 const pointsToTwips = (value: number): number =>
   Math.max(0, Math.round(value * 20));
 
-const getPdfPreset = (formatId: ScreenplayBlock["formatId"]): PdfLayoutPreset => {
-  switch (formatId) {
-    case "basmala":
-      return { alignment: "center", bold: true, spacingAfterPt: 10 };
-    case "scene-header-1":
-      return {
-        alignment: "right",
-        bold: true,
-        spacingBeforePt: 8,
-        spacingAfterPt: 6,
-        uppercase: true,
-      };
-    case "scene-header-2":
-      return { alignment: "right", spacingAfterPt: 4 };
-    case "scene-header-3":
-      return { alignment: "center", spacingAfterPt: 4 };
-    case "scene-header-top-line":
-      return { alignment: "right", spacingAfterPt: 6 };
-    case "character":
-      return {
-        alignment: "center",
-        bold: true,
-        spacingBeforePt: 8,
-        spacingAfterPt: 2,
-      };
-    case "dialogue":
-      return {
-        alignment: "right",
-        spacingAfterPt: 6,
-        indentStartPt: 28,
-        indentEndPt: 22,
-      };
-    case "parenthetical":
-      return { alignment: "center", spacingAfterPt: 4 };
-    case "transition":
-      return {
-        alignment: "left",
-        bold: true,
-        spacingBeforePt: 6,
-        spacingAfterPt: 6,
-      };
-    case "action":
-      return { alignment: "right", spacingAfterPt: 6 };
-    default:
-      return { alignment: "right", spacingAfterPt: 6 };
-  }
-};
-
 const normalizeText = (value: string): string =>
   (value ?? "").replace(/\u00A0/g, " ").replace(/\r/g, "").trim();
 
-const splitWords = (text: string): string[] =>
-  text
-    .replace(/\s+/g, " ")
-    .trim()
-    .split(" ")
-    .filter(Boolean);
-
-const wrapTextToWidth = (
-  text: string,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  font: any,
-  fontSize: number,
-  maxWidth: number
-): string[] => {
-  const normalized = normalizeText(text);
-  if (!normalized) return [""];
-  const words = splitWords(normalized);
-  if (words.length === 0) return [""];
-
-  const lines: string[] = [];
-  let current = words[0];
-
-  for (let i = 1; i < words.length; i++) {
-    const candidate = `${current} ${words[i]}`;
-    if (font.widthOfTextAtSize(candidate, fontSize) <= maxWidth) {
-      current = candidate;
-      continue;
-    }
-    lines.push(current);
-    current = words[i];
-  }
-
-  lines.push(current);
-  return lines;
-};
-
 const triggerBlobDownload = (blob: Blob, filename: string): void => {
   const blobUrl = URL.createObjectURL(blob);
   const link = document.createElement("a");
@@ -186,6 +98,78 @@ const resolveBlocksForExport = (
   return htmlToScreenplayBlocks(content);
 };
 
+type TitlePageExportOptions = {
+  /** صفحة العنوان (تُحفظ في الـ payload دائمًا) */
+  titlePage?: TitlePageInfo | null;
+  /** رسم صفحة العنوان كصفحة أولى مستقلة (افتراضيًا عند وجودها) */
+  includeTitlePage?: ExportOptions["includeTitlePage"];
+};
+
+type TitlePageLine = {
+  text: string;
+  role: "title" | "credit" | "author" | "source" | "detail";
+};
+
+const resolveTitlePageForRender = (
+  options?: TitlePageExportOptions
+): TitlePageInfo | null =>
+  options?.includeTitlePage === false
+    ? null
+    : normalizeTitlePage(options?.titlePage);
+
+/**
+ * أسطر صفحة العنوان بترتيب العرض: العنوان والمؤلف والمصدر في المنتصف،
+ * ثم تفاصيل المسودة والتاريخ والتواصل في أسفل الصفحة.
+ */
+const buildTitlePageLines = (titlePage: TitlePageInfo): TitlePageLine[] => {
+  const lines: TitlePageLine[] = [];
+  if (titlePage.title) lines.push({ text: titlePage.title, role: "title" });
+  if (titlePage.author) {
+    lines.push({ text: "تأليف", role: "credit" });
+    lines.push({ text: titlePage.author, role: "author" });
+  }
+  if (titlePage.basedOn) {
+    lines.push({ text: `مبني على: ${titlePage.basedOn}`, role: "source" });
+  }
+  if (titlePage.draft) {
+    lines.push({ text: `المسودة: ${titlePage.draft}`, role: "detail" });
+  }
+  if (titlePage.date) {
+    lines.push({ text: `التاريخ: ${titlePage.date}`, role: "detail" });
+  }
+  if (titlePage.contact) {
+    lines.push({ text: `التواصل: ${titlePage.contact}`, role: "detail" });
+  }
+  return lines;
+};
+
+type RevisionExportOptions = {
+  /** مجموعات المراجعة المعروفة؛ الكتل المعلَّمة بها تُطبع بعلامة * */
+  sets: RevisionSet[];
+  /** إخراج صفحات المجموعة النشطة (الأخيرة) المعدّلة فقط */
+  revisedPagesOnly?: boolean;
+};
+
+const hexToRgbComponents = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [
+    ((value >> 16) & 0xff) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  ];
+};
+
+const PDF_TITLE_FONT_SIZE = 24;
+const PDF_AUTHOR_FONT_SIZE = 14;
+
+/**
+ * رقم المشهد المطبوع في الهامشين لكتل scene-header-1 فقط.
+ */
+const getMarginSceneNumber = (block: ScreenplayBlock): string | null =>
+  block.formatId === "scene-header-1"
+    ? getSceneNumberState(block).number
+    : null;
+
 const readFontBytes = async (path: string): Promise<Uint8Array> => {
   const response = await fetch(path);
   if (!response.ok) {
@@ -197,7 +181,11 @@ const readFontBytes = async (path: string): Promise<Uint8Array> => {
 export const exportToPDF = async (
   content: string,
   filename: string = "screenplay",
-  options?: { openAfterExport?: boolean; blocks?: ScreenplayBlock[] }
+  options?: {
+    openAfterExport?: boolean;
+    blocks?: ScreenplayBlock[];
+    revision?: RevisionExportOptions;
+  } & TitlePageExportOptions
 ) => {
   const { PDFDocument, rgb } = await import("pdf-lib");
   const fontkit = (await import("@pdf-lib/fontkit")).default;
@@ -206,6 +194,7 @@ export const exportToPDF = async (
   const payload = createPayloadFromBlocks(blocks, {
     font: "AzarMehrMonospaced-San",
     size: "12pt",
+    titlePage: options?.titlePage,
   });
   const encodedPayload = encodeScreenplayPayload(payload);
   const payloadMarker = buildPayloadMarker(encodedPayload);
@@ -226,31 +215,120 @@ export const exportToPDF = async (
   pdfDoc.setSubject(payloadMarker);
   pdfDoc.setKeywords(["filmlane", "screenplay", "rtl", "payload"]);
 
-  let page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
-  let y = A4_HEIGHT - PDF_MARGIN;
+  const titlePage = resolveTitlePageForRender(options);
+  if (titlePage) {
+    const titleSheet = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+    const usableWidth = A4_WIDTH - PDF_MARGIN * 2;
+    const titleLines = buildTitlePageLines(titlePage);
+    const drawCentered = (
+      text: string,
+      lineY: number,
+      size: number,
+      font: PDFFont
+    ) => {
+      const width = font.widthOfTextAtSize(text, size);
+      titleSheet.drawText(text, {
+        x: Math.max(PDF_MARGIN, PDF_MARGIN + (usableWidth - width) / 2),
+        y: lineY,
+        size,
+        font,
+        color: rgb(0, 0, 0),
+      });
+    };
+
+    // العنوان والمؤلف في منتصف الصفحة تقريبًا (أعلى قليلًا كالعرف).
+    let titleY = A4_HEIGHT * 0.62;
+    for (const line of titleLines) {
+      if (line.role === "detail") continue;
+      const isTitle = line.role === "title";
+      const size = isTitle
+        ? PDF_TITLE_FONT_SIZE
+        : line.role === "author"
+          ? PDF_AUTHOR_FONT_SIZE
+          : PDF_FONT_SIZE;
+      const font = isTitle || line.role === "author" ? boldFont : regularFont;
+      for (const wrapped of wrapTextToWidth(line.text, usableWidth, size)) {
+        drawCentered(wrapped, titleY, size, font);
+        titleY -= size * 1.6;
+      }
+      titleY -= isTitle ? PDF_LINE_HEIGHT * 1.5 : PDF_LINE_HEIGHT * 0.5;
+    }
 
-  const ensureSpace = (requiredHeight: number) => {
-    if (y - requiredHeight >= PDF_MARGIN) return;
-    page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
-    y = A4_HEIGHT - PDF_MARGIN;
-  };
+    // تفاصيل المسودة أسفل الصفحة بمحاذاة يمين (RTL).
+    const details = titleLines.filter((line) => line.role === "detail");
+    let detailY = PDF_MARGIN + (details.length - 1) * PDF_LINE_HEIGHT;
+    for (const line of details) {
+      const width = regularFont.widthOfTextAtSize(line.text, PDF_FONT_SIZE);
+      titleSheet.drawText(line.text, {
+        x: Math.max(PDF_MARGIN, A4_WIDTH - PDF_MARGIN - width),
+        y: detailY,
+        size: PDF_FONT_SIZE,
+        font: regularFont,
+        color: rgb(0, 0, 0),
+      });
+      detailY -= PDF_LINE_HEIGHT;
+    }
+  }
 
-  for (const block of blocks) {
-    const preset = getPdfPreset(block.formatId);
-    const text = preset.uppercase
-      ? normalizeText(block.text).toUpperCase()
-      : normalizeText(block.text);
+  // التوزيع على الصفحات من محرك التخطيط المشترك مع المحرر والإحصاءات.
+  const layout = layoutScreenplayPages(blocks);
+  // صفحات النص بترتيبها مع مجموعات المراجعة التي تحتويها.
+  const bodyPages = Array.from({ length: layout.pageCount }, () => ({
+    page: pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]),
+    revisionSets: new Set<RevisionSet>(),
+  }));
+  let page = bodyPages[bodyPages.length - 1].page;
+
+  for (const fragment of layout.fragments) {
+    const block = blocks[fragment.blockIndex];
+    const bodyPage = bodyPages[fragment.pageIndex];
+    const preset = getBlockLayoutPreset(block.formatId);
     const activeFont = preset.bold ? boldFont : regularFont;
     const indentStart = preset.indentStartPt ?? 0;
-    const indentEnd = preset.indentEndPt ?? 0;
-    const usableWidth =
-      A4_WIDTH - PDF_MARGIN * 2 - Math.max(0, indentStart) - Math.max(0, indentEnd);
-    const lines = wrapTextToWidth(text, activeFont, PDF_FONT_SIZE, usableWidth);
-
-    y -= preset.spacingBeforePt ?? 0;
-    ensureSpace(lines.length * PDF_LINE_HEIGHT + (preset.spacingAfterPt ?? 0) + 12);
+    const usableWidth = getBlockTextWidth(preset);
+
+    // رقم المشهد في الهامشين الأيمن والأيسر على مستوى السطر الأول.
+    const sceneNumber = fragment.isBlockStart
+      ? getMarginSceneNumber(block)
+      : null;
+    if (sceneNumber) {
+      const numberWidth = activeFont.widthOfTextAtSize(
+        sceneNumber,
+        PDF_FONT_SIZE
+      );
+      for (const numberX of [
+        (PDF_MARGIN - numberWidth) / 2,
+        A4_WIDTH - PDF_MARGIN + (PDF_MARGIN - numberWidth) / 2,
+      ]) {
+        bodyPage.page.drawText(sceneNumber, {
+          x: Math.max(0, numberX),
+          y: fragment.y,
+          size: PDF_FONT_SIZE,
+          font: activeFont,
+          color: rgb(0, 0, 0),
+        });
+      }
+    }
 
-    for (const line of lines) {
+    const revisionSet = options?.revision
+      ? getBlockRevisionSet(block, options.revision.sets)
+      : null;
+
+    fragment.lines.forEach((line, lineIndex) => {
+      const y = fragment.y - lineIndex * PDF_LINE_HEIGHT;
+      if (revisionSet) {
+        // علامة المراجعة في الهامش الأيسر (نهاية السطر في RTL).
+        bodyPage.page.drawText("*", {
+          x: PDF_MARGIN - 14,
+          y,
+          size: PDF_FONT_SIZE,
+          font: boldFont,
+          color: rgb(
+            ...hexToRgbComponents(getRevisionColor(revisionSet.color).hex)
+          ),
+        });
+        bodyPage.revisionSets.add(revisionSet);
+      }
       const width = activeFont.widthOfTextAtSize(line, PDF_FONT_SIZE);
       const baseX = PDF_MARGIN + indentStart;
       const lineX =
@@ -259,18 +337,49 @@ export const exportToPDF = async (
           : preset.alignment === "left"
             ? baseX
             : baseX + usableWidth - width;
-      page.drawText(line, {
+      bodyPage.page.drawText(line, {
         x: Math.max(PDF_MARGIN, lineX),
         y,
         size: PDF_FONT_SIZE,
         font: activeFont,
         color: rgb(0, 0, 0),
       });
-      y -= PDF_LINE_HEIGHT;
-      ensureSpace(PDF_LINE_HEIGHT + (preset.spacingAfterPt ?? 0));
-    }
+    });
+  }
+
+  // ترويسة الصفحات المعدّلة بلون أحدث مراجعة فيها وتاريخها.
+  const revisionSets = options?.revision?.sets ?? [];
+  for (const bodyPage of bodyPages) {
+    const latestSet = revisionSets
+      .filter((set) => bodyPage.revisionSets.has(set))
+      .pop();
+    if (!latestSet) continue;
+    const header = `${latestSet.label} - ${latestSet.date}`;
+    const headerWidth = regularFont.widthOfTextAtSize(header, PDF_FONT_SIZE);
+    bodyPage.page.drawText(header, {
+      x: A4_WIDTH - PDF_MARGIN - headerWidth,
+      y: A4_HEIGHT - PDF_MARGIN / 2,
+      size: PDF_FONT_SIZE,
+      font: regularFont,
+      color: rgb(...hexToRgbComponents(getRevisionColor(latestSet.color).hex)),
+    });
+  }
 
-    y -= preset.spacingAfterPt ?? 0;
+  if (options?.revision?.revisedPagesOnly) {
+    const activeSet = revisionSets[revisionSets.length - 1];
+    const keepPage = (bodyPage: (typeof bodyPages)[number]) =>
+      Boolean(activeSet && bodyPage.revisionSets.has(activeSet));
+    if (!bodyPages.some(keepPage)) {
+      throw new Error("لا توجد صفحات معدّلة في مجموعة المراجعة الحالية.");
+    }
+    const firstBodyPageIndex = titlePage ? 1 : 0;
+    for (let index = bodyPages.length - 1; index >= 0; index--) {
+      if (!keepPage(bodyPages[index])) {
+        pdfDoc.removePage(firstBodyPageIndex + index);
+      }
+    }
+    if (titlePage) pdfDoc.removePage(0);
+    page = bodyPages.filter(keepPage).pop()!.page;
   }
 
   // Marker نصي مخفي داخل الملف لدعم الاسترجاع حتى مع فقدان بعض metadata.
@@ -321,77 +430,33 @@ type DocxParagraphPreset = {
 
 const DEFAULT_DOCX_FONT = "AzarMehrMonospaced-San";
 const DEFAULT_DOCX_SIZE_HALF_POINTS = 24; // 12pt
+const DOCX_PAGE_MARGIN_TWIP = pointsToTwips(PAGE_LAYOUT.margin);
+const DOCX_TEXT_WIDTH_TWIP = 11906 - DOCX_PAGE_MARGIN_TWIP * 2; // A4
+const DOCX_SCENE_NUMBER_MARGIN_TWIP = 720;
 
+/**
+ * إعدادات فقرة DOCX مشتقة من إعدادات التخطيط المشتركة حتى تطابق فواصل
+ * الأسطر والصفحات ملف PDF؛ الضبط والمائل لا يغيّران عدد الأسطر.
+ */
 const getDocxPresetForFormat = (
   formatId: ScreenplayBlock["formatId"]
 ): DocxParagraphPreset => {
-  switch (formatId) {
-    case "basmala":
-      return {
-        alignment: "center",
-        bold: true,
-        spacingAfterPt: 10,
-      };
-    case "scene-header-1":
-      return {
-        alignment: "right",
-        bold: true,
-        spacingBeforePt: 8,
-        spacingAfterPt: 6,
-      };
-    case "scene-header-2":
-      return {
-        alignment: "right",
-        spacingAfterPt: 4,
-      };
-    case "scene-header-3":
-      return {
-        alignment: "center",
-        spacingAfterPt: 4,
-      };
-    case "scene-header-top-line":
-      return {
-        alignment: "right",
-        spacingAfterPt: 6,
-      };
-    case "character":
-      return {
-        alignment: "center",
-        bold: true,
-        spacingBeforePt: 8,
-        spacingAfterPt: 2,
-      };
-    case "dialogue":
-      return {
-        alignment: "right",
-        spacingAfterPt: 6,
-        indentStartTwip: 960,
-        indentEndTwip: 720,
-      };
-    case "parenthetical":
-      return {
-        alignment: "center",
-        italics: true,
-        spacingAfterPt: 4,
-      };
-    case "transition":
-      return {
-        alignment: "left",
-        bold: true,
-        spacingBeforePt: 6,
-        spacingAfterPt: 6,
-      };
-    case "action":
-      return {
-        alignment: "justify",
-        spacingAfterPt: 6,
-      };
-    default:
-      return {
-        alignment: "right",
-        spacingAfterPt: 6,
-      };
-  }
+  const preset = getBlockLayoutPreset(formatId);
+  return {
+    alignment: formatId === "action" ? "justify" : preset.alignment,
+    bold: preset.bold,
+    italics: formatId === "parenthetical" || undefined,
+    spacingBeforePt: preset.spacingBeforePt,
+    spacingAfterPt: preset.spacingAfterPt,
+    indentStartTwip:
+      preset.indentStartPt === undefined
+        ? undefined
+        : pointsToTwips(preset.indentStartPt),
+    indentEndTwip:
+      preset.indentEndPt === undefined
+        ? undefined
+        : pointsToTwips(preset.indentEndPt),
+  };
 };
 
 const mapAlignment = (
@@ -411,26 +476,111 @@ const mapAlignment = (
   }
 };
 
+/**
+ * مقاطع DOCX للكتلة: تنسيق الغامق/المائل الداخلي إن وُجد، وإلا مقطع واحد.
+ */
+const toDocxRuns = (block: ScreenplayBlock): InlineRun[] => {
+  const text = normalizeText(block.text);
+  const runs = block.runs ?? [];
+  const joined = normalizeText(runs.map((run) => run.text).join(""));
+  if (runs.length === 0 || joined !== text) {
+    return [{ text }];
+  }
+  return runs.map((run) => ({
+    ...run,
+    text: run.text.replace(/\u00A0/g, " ").replace(/\r/g, ""),
+  }));
+};
+
 export const exportToDocx = async (
   content: string,
   filename: string = "screenplay.docx",
-  options?: { blocks?: ScreenplayBlock[] }
+  options?: { blocks?: ScreenplayBlock[] } & TitlePageExportOptions
 ) => {
-  const { AlignmentType, Document, Packer, Paragraph, TextRun } =
-    await import("docx");
+  const {
+    AlignmentType,
+    Document,
+    LineRuleType,
+    Packer,
+    Paragraph,
+    Tab,
+    TabStopType,
+    TextRun,
+    VerticalAlignSection,
+  } = await import("docx");
   const blocks = resolveBlocksForExport(content, options?.blocks);
   const payload = createPayloadFromBlocks(blocks, {
     font: "AzarMehrMonospaced-San",
     size: "12pt",
+    titlePage: options?.titlePage,
   });
   const payloadMarker = buildPayloadMarker(encodeScreenplayPayload(payload));
 
-  const paragraphs = blocks.map((block) => {
+  // فواصل صفحات صريحة من محرك التخطيط، وتباعد أسطر ثابت بارتفاع سطر PDF.
+  const layout = layoutScreenplayPages(blocks);
+  const lineSpacing = {
+    line: pointsToTwips(PDF_LINE_HEIGHT),
+    lineRule: LineRuleType.EXACT,
+  };
+
+  const paragraphs = blocks.map((block, index) => {
     const preset = getDocxPresetForFormat(block.formatId);
+    const pageBreakBefore =
+      index > 0 && layout.blockPages[index] !== layout.blockPages[index - 1];
+    const textRuns = toDocxRuns(block).map(
+      (run) =>
+        new TextRun({
+          text: run.text,
+          font: DEFAULT_DOCX_FONT,
+          size: DEFAULT_DOCX_SIZE_HALF_POINTS,
+          bold: preset.bold || run.bold,
+          italics: preset.italics || run.italic,
+          underline: run.underline ? {} : undefined,
+        })
+    );
+
+    // رقم المشهد في الهامشين: الرقم ← جدولة ← العنوان ← جدولة ← الرقم،
+    // مع إزاحة الفقرة داخل الهامشين حتى يقع الرقمان خارج عمود النص.
+    const sceneNumber = getMarginSceneNumber(block);
+    if (sceneNumber) {
+      const numberRun = () =>
+        new TextRun({
+          text: sceneNumber,
+          font: DEFAULT_DOCX_FONT,
+          size: DEFAULT_DOCX_SIZE_HALF_POINTS,
+          bold: preset.bold,
+        });
+      const tabRun = () => new TextRun({ children: [new Tab()] });
+      return new Paragraph({
+        bidirectional: true,
+        alignment: AlignmentType.RIGHT,
+        pageBreakBefore,
+        spacing: {
+          ...lineSpacing,
+          before: pointsToTwips(preset.spacingBeforePt ?? 0),
+          after: pointsToTwips(preset.spacingAfterPt ?? 0),
+        },
+        indent: {
+          start: -DOCX_SCENE_NUMBER_MARGIN_TWIP,
+          end: -DOCX_SCENE_NUMBER_MARGIN_TWIP,
+        },
+        tabStops: [
+          { type: TabStopType.START, position: DOCX_SCENE_NUMBER_MARGIN_TWIP },
+          {
+            type: TabStopType.END,
+            position: DOCX_TEXT_WIDTH_TWIP + DOCX_SCENE_NUMBER_MARGIN_TWIP * 2,
+          },
+        ],
+        children: [numberRun(), tabRun(), ...textRuns, tabRun(), numberRun()],
+      });
+    }
+
     return new Paragraph({
       bidirectional: true,
       alignment: mapAlignment(AlignmentType, preset.alignment),
+      pageBreakBefore,
       spacing: {
+        ...lineSpacing,
         before: pointsToTwips(preset.spacingBeforePt ?? 0),
         after: pointsToTwips(preset.spacingAfterPt ?? 0),
       },
@@ -438,15 +588,7 @@ export const exportToDocx = async (
         start: preset.indentStartTwip,
         end: preset.indentEndTwip,
       },
-      children: [
-        new TextRun({
-          text: normalizeText(block.text),
-          font: DEFAULT_DOCX_FONT,
-          size: DEFAULT_DOCX_SIZE_HALF_POINTS,
-          bold: preset.bold,
-          italics: preset.italics,
-        }),
-      ],
+      children: textRuns,
     });
   });
 
@@ -481,23 +623,66 @@ export const exportToDocx = async (
     })
   );
 
-  const doc = new Document({
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: 1440,
-              right: 1440,
-              bottom: 1440,
-              left: 1440,
-            },
+  const pageMargin = {
+    top: DOCX_PAGE_MARGIN_TWIP,
+    right: DOCX_PAGE_MARGIN_TWIP,
+    bottom: DOCX_PAGE_MARGIN_TWIP,
+    left: DOCX_PAGE_MARGIN_TWIP,
+  };
+  const sections: ISectionOptions[] = [
+    {
+      properties: {
+        page: {
+          margin: pageMargin,
+        },
+      },
+      children: paragraphs,
+    },
+  ];
+
+  // صفحة العنوان كقسم مستقل متوسط عموديًا يسبق نص السيناريو.
+  const titlePage = resolveTitlePageForRender(options);
+  if (titlePage) {
+    const titleParagraphs = buildTitlePageLines(titlePage).map(
+      (line, index, lines) => {
+        const isDetail = line.role === "detail";
+        const startsDetails =
+          isDetail && (index === 0 || lines[index - 1].role !== "detail");
+        return new Paragraph({
+          bidirectional: true,
+          alignment: isDetail ? AlignmentType.RIGHT : AlignmentType.CENTER,
+          spacing: {
+            before: pointsToTwips(startsDetails ? 96 : 0),
+            after: pointsToTwips(line.role === "title" ? 24 : 6),
           },
+          children: [
+            new TextRun({
+              text: line.text,
+              font: DEFAULT_DOCX_FONT,
+              size:
+                line.role === "title"
+                  ? 48
+                  : line.role === "author"
+                    ? 28
+                    : DEFAULT_DOCX_SIZE_HALF_POINTS,
+              bold: line.role === "title" || line.role === "author",
+            }),
+          ],
+        });
+      }
+    );
+    sections.unshift({
+      properties: {
+        page: {
+          margin: pageMargin,
         },
-        children: paragraphs,
+        verticalAlign: VerticalAlignSection.CENTER,
       },
-    ],
-  });
+      children: titleParagraphs,
+    });
+  }
+
+  const doc = new Document({ sections });
 
   const blob = await Packer.toBlob(doc);
   const url = URL.createObjectURL(blob);
@@ -510,6 +695,246 @@ export const exportToDocx = async (
   URL.revokeObjectURL(url);
 };
 
+const toFdxFilename = (name: string): string =>
+  name.toLowerCase().endsWith(".fdx") ? name : `${name}.fdx`;
+
+/**
+ * تصدير Final Draft (FDX) مع صفحة العنوان ومحاذاة RTL
+ * وmarker الـ payload داخل تعليق XML لاستعادة 1:1 عند الفتح.
+ */
+export const exportToFdx = (
+  content: string,
+  filename: string = "screenplay.fdx",
+  options?: { blocks?: ScreenplayBlock[]; titlePage?: TitlePageInfo | null }
+) => {
+  const blocks = resolveBlocksForExport(content, options?.blocks);
+  const payload = createPayloadFromBlocks(blocks, {
+    font: "AzarMehrMonospaced-San",
+    size: "12pt",
+    titlePage: options?.titlePage,
+  });
+  const xml = buildFdxDocument(blocks, {
+    titlePage: options?.titlePage,
+    payloadMarker: buildPayloadMarker(encodeScreenplayPayload(payload)),
+  });
+
+  const blob = new Blob([xml], { type: "application/xml;charset=utf-8" });
+  triggerBlobDownload(blob, toFdxFilename(filename));
+};
+
+const toFountainFilename = (name: string): string =>
+  name.toLowerCase().endsWith(".fountain") ? name : `${name}.fountain`;
+
+/**
+ * تصدير Fountain من الكتل البنيوية مع صفحة العنوان،
+ * وmarker الـ payload داخل تعليق boneyard لاستعادة 1:1 عند الفتح.
+ */
+export const exportToFountain = (
+  content: string,
+  filename: string = "screenplay.fountain",
+  options?: { blocks?: ScreenplayBlock[]; titlePage?: TitlePageInfo | null }
+) => {
+  const blocks = resolveBlocksForExport(content, options?.blocks);
+  const payload = createPayloadFromBlocks(blocks, {
+    font: "AzarMehrMonospaced-San",
+    size: "12pt",
+    titlePage: options?.titlePage,
+  });
+  const fountain = buildFountainDocument(blocks, {
+    titlePage: options?.titlePage,
+    payloadMarker: buildPayloadMarker(encodeScreenplayPayload(payload)),
+  });
+
+  const blob = new Blob([fountain], { type: "text/plain;charset=utf-8" });
+  triggerBlobDownload(blob, toFountainFilename(filename));
+};
+
+const toProjectFilename = (name: string): string =>
+  name.toLowerCase().endsWith(FILMLANE_PROJECT_EXTENSION)
+    ? name
+    : `${name}${FILMLANE_PROJECT_EXTENSION}`;
+
+/**
+ * حفظ مشروع Filmlane الأصلي (.filmlane) مع الإبقاء على بيانات المشروع
+ * السابق، وإرجاع المشروع المحفوظ ليصبح الأساس للحفظ التالي.
+ */
+export const exportToFilmlane = async (
+  content: string,
+  filename: string = "screenplay.filmlane",
+  options?: {
+    blocks?: ScreenplayBlock[];
+    previous?: FilmlaneProject | null;
+    titlePage?: TitlePageInfo | null;
+    settings?: EditorSettings;
+    revisionMode?: RevisionModeState | null;
+  }
+): Promise<FilmlaneProject> => {
+  const blocks = resolveBlocksForExport(content, options?.blocks);
+  const project = createProjectFromBlocks(blocks, {
+    previous: options?.previous,
+    titlePage: options?.titlePage,
+    settings: options?.settings,
+    revisionMode: options?.revisionMode,
+  });
+  const bytes = await serializeProject(project);
+
+  const blob = new Blob([bytes as BlobPart], {
+    type: FILMLANE_PROJECT_MIME_TYPE,
+  });
+  triggerBlobDownload(blob, toProjectFilename(filename));
+  return project;
+};
+
+const toCsvFilename = (name: string): string =>
+  name.toLowerCase().endsWith(".csv") ? name : `${name}.csv`;
+
+/**
+ * تصدير جدول تقرير التفريغ إلى CSV؛ صيغة Excel بترميز UTF-8 مع BOM.
+ */
+export const exportBreakdownToCsv = (
+  table: BreakdownTable,
+  filename: string = "breakdown.csv",
+  options?: { excel?: boolean }
+) => {
+  const csv = breakdownTableToCsv(table, { excel: options?.excel });
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  triggerBlobDownload(blob, toCsvFilename(filename));
+};
+
+const BREAKDOWN_PDF_FONT_SIZE = 9;
+const BREAKDOWN_PDF_TITLE_SIZE = 14;
+const BREAKDOWN_PDF_CELL_PADDING = 3;
+const BREAKDOWN_PDF_MIN_COLUMN_WIDTH = 60;
+
+/**
+ * مجموعات أعمدة الجدول التي تسعها الصفحة؛ العمود الأول (المشهد أو
+ * المكان) يتكرر في كل مجموعة.
+ */
+const splitBreakdownColumns = (
+  columnCount: number,
+  maxColumns: number
+): number[][] => {
+  const indices = Array.from({ length: columnCount }, (_, index) => index);
+  if (columnCount <= maxColumns) return [indices];
+  const groups: number[][] = [];
+  for (let start = 1; start < columnCount; start += maxColumns - 1) {
+    groups.push([0, ...indices.slice(start, start + maxColumns - 1)]);
+  }
+  return groups;
+};
+
+/**
+ * تصدير تقارير التفريغ إلى PDF: كل جدول يبدأ صفحة جديدة، والأعمدة
+ * من اليمين إلى اليسار، وسطر العناوين يتكرر عند الانتقال لصفحة تالية.
+ * الجدول الأعرض من الصفحة يُقسَّم أعمدته على صفحات متتالية.
+ */
+export const exportBreakdownToPDF = async (
+  tables: BreakdownTable[],
+  filename: string = "breakdown"
+) => {
+  const { PDFDocument, rgb } = await import("pdf-lib");
+  const fontkit = (await import("@pdf-lib/fontkit")).default;
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  const regularFont = await pdfDoc.embedFont(
+    await readFontBytes(PDF_MAIN_FONT),
+    { subset: true }
+  );
+  const boldFont = await pdfDoc.embedFont(await readFontBytes(PDF_BOLD_FONT), {
+    subset: true,
+  });
+  pdfDoc.setTitle(filename);
+
+  const usableWidth = A4_WIDTH - PDF_MARGIN * 2;
+  const lineHeight = BREAKDOWN_PDF_FONT_SIZE * 1.4;
+  const maxColumns = Math.floor(usableWidth / BREAKDOWN_PDF_MIN_COLUMN_WIDTH);
+
+  const parts = tables.flatMap((table) => {
+    const groups = splitBreakdownColumns(table.headers.length, maxColumns);
+    return groups.map((columns, groupIndex) => ({
+      title:
+        groups.length > 1
+          ? `${table.title} (${groupIndex + 1}/${groups.length})`
+          : table.title,
+      headers: columns.map((column) => table.headers[column]),
+      rows: table.rows.map((row) => columns.map((column) => row[column] ?? "")),
+    }));
+  });
+
+  for (const table of parts) {
+    const columnWidth = usableWidth / Math.max(1, table.headers.length);
+    const cellTextWidth = columnWidth - BREAKDOWN_PDF_CELL_PADDING * 2;
+    let page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+    let y = A4_HEIGHT - PDF_MARGIN;
+
+    const titleWidth = boldFont.widthOfTextAtSize(
+      table.title,
+      BREAKDOWN_PDF_TITLE_SIZE
+    );
+    page.drawText(table.title, {
+      x: A4_WIDTH - PDF_MARGIN - titleWidth,
+      y,
+      size: BREAKDOWN_PDF_TITLE_SIZE,
+      font: boldFont,
+      color: rgb(0, 0, 0),
+    });
+    y -= BREAKDOWN_PDF_TITLE_SIZE * 2;
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      const font = isHeader ? boldFont : regularFont;
+      const wrapped = cells.map((cell) =>
+        wrapTextToWidth(cell, cellTextWidth, BREAKDOWN_PDF_FONT_SIZE)
+      );
+      const rowHeight =
+        Math.max(...wrapped.map((lines) => lines.length)) * lineHeight +
+        BREAKDOWN_PDF_CELL_PADDING * 2;
+      if (y - rowHeight < PDF_MARGIN) {
+        page = pdfDoc.addPage([A4_WIDTH, A4_HEIGHT]);
+        y = A4_HEIGHT - PDF_MARGIN;
+        if (!isHeader) drawRow(table.headers, true);
+      }
+      wrapped.forEach((lines, columnIndex) => {
+        // العمود الأول عند الحافة اليمنى (RTL).
+        const columnRight = A4_WIDTH - PDF_MARGIN - columnIndex * columnWidth;
+        page.drawRectangle({
+          x: columnRight - columnWidth,
+          y: y - rowHeight,
+          width: columnWidth,
+          height: rowHeight,
+          borderColor: rgb(0.6, 0.6, 0.6),
+          borderWidth: 0.5,
+          color: isHeader ? rgb(0.92, 0.92, 0.92) : undefined,
+        });
+        lines.forEach((line, lineIndex) => {
+          const width = font.widthOfTextAtSize(line, BREAKDOWN_PDF_FONT_SIZE);
+          page.drawText(line, {
+            x: columnRight - BREAKDOWN_PDF_CELL_PADDING - width,
+            y:
+              y -
+              BREAKDOWN_PDF_CELL_PADDING -
+              (lineIndex + 1) * lineHeight +
+              (lineHeight - BREAKDOWN_PDF_FONT_SIZE),
+            size: BREAKDOWN_PDF_FONT_SIZE,
+            font,
+            color: rgb(0, 0, 0),
+          });
+        });
+      });
+      y -= rowHeight;
+    };
+
+    drawRow(table.headers, true);
+    for (const row of table.rows) drawRow(row, false);
+  }
+
+  const bytes = await pdfDoc.save();
+  const binary = new Uint8Array(bytes.byteLength);
+  binary.set(bytes);
+  const blob = new Blob([binary.buffer], { type: "application/pdf" });
+  triggerBlobDownload(blob, toPdfFilename(filename));
+};
+
 /**
  * Legacy PDF export - kept for compatibility
  * @deprecated Use exportToPDF(content, filename) instead
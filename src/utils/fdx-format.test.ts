@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import { buildFdxDocument, parseFdx } from "./fdx-format";
+
+const SAMPLE_FDX = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+  '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+  "  <Content>",
+  '    <Paragraph Type="Scene Heading" Number="4">',
+  "      <Text>داخلي - منزل أحمد - ليل</Text>",
+  "    </Paragraph>",
+  '    <Paragraph Type="Action"><Text>يجلس أحمد </Text><Text Style="Bold">وحيدًا</Text></Paragraph>',
+  '    <Paragraph Type="Character"><Text>أحمد</Text></Paragraph>',
+  '    <Paragraph Type="Parenthetical"><Text>(بهدوء)</Text></Paragraph>',
+  '    <Paragraph Type="Dialogue"><Text>أين &amp; متى؟</Text></Paragraph>',
+  '    <Paragraph Type="Transition"><Text>قطع إلى:</Text></Paragraph>',
+  '    <Paragraph Type="General"><Text>بسم الله الرحمن الرحيم</Text></Paragraph>',
+  "  </Content>",
+  "  <TitlePage><Content>",
+  '    <Paragraph Type="Title"><Text>رحلة الأمل</Text></Paragraph>',
+  '    <Paragraph Type="Title"><Text>تأليف</Text></Paragraph>',
+  '    <Paragraph Type="Title"><Text>سارة علي</Text></Paragraph>',
+  '    <Paragraph Type="Title"><Text>التاريخ: 2026-02-08</Text></Paragraph>',
+  "  </Content></TitlePage>",
+  "</FinalDraft>",
+].join("\n");
+
+// مستند Final Draft بأقسام غير السيناريو قبل <Content> وبعده
+const FDX_WITH_SECTIONS = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+  '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+  '  <HeaderAndFooter FooterFirstPage="Yes" HeaderFirstPage="No">',
+  "    <Header>",
+  '      <Paragraph Type="Header"><Text>مسودة التصوير</Text></Paragraph>',
+  "    </Header>",
+  "    <Footer>",
+  '      <Paragraph Type="Footer"><Text>سري</Text></Paragraph>',
+  "    </Footer>",
+  "  </HeaderAndFooter>",
+  "  <Content>",
+  '    <Paragraph Type="Action"><Text>يدخل أحمد.</Text></Paragraph>',
+  '    <Paragraph Type="Character"><Text>أحمد</Text></Paragraph>',
+  '    <Paragraph Type="Dialogue"><Text>مرحبا</Text></Paragraph>',
+  "  </Content>",
+  "  <ScriptNotes>",
+  '    <ScriptNote ID="1" Range="0,4">',
+  "      <Paragraph><Text>راجع هذا الحوار</Text></Paragraph>",
+  "    </ScriptNote>",
+  "  </ScriptNotes>",
+  "  <SmartType>",
+  "    <Characters><Character>أحمد</Character></Characters>",
+  '    <Paragraph Type="General"><Text>قائمة الشخصيات</Text></Paragraph>',
+  "  </SmartType>",
+  "</FinalDraft>",
+].join("\n");
+
+describe("parseFdx", () => {
+  it("maps paragraph types to screenplay blocks", () => {
+    const { blocks } = parseFdx(SAMPLE_FDX);
+
+    expect(blocks).toEqual([
+      { formatId: "scene-header-1", text: "مشهد 4" },
+      { formatId: "scene-header-2", text: "داخلي - ليل" },
+      { formatId: "scene-header-3", text: "منزل أحمد" },
+      { formatId: "action", text: "يجلس أحمد وحيدًا" },
+      { formatId: "character", text: "أحمد:" },
+      { formatId: "parenthetical", text: "(بهدوء)" },
+      { formatId: "dialogue", text: "أين & متى؟" },
+      { formatId: "transition", text: "قطع إلى:" },
+      { formatId: "basmala", text: "بسم الله الرحمن الرحيم" },
+    ]);
+  });
+
+  it("reads only the script body content", () => {
+    expect(parseFdx(FDX_WITH_SECTIONS).blocks).toEqual([
+      { formatId: "action", text: "يدخل أحمد." },
+      { formatId: "character", text: "أحمد:" },
+      { formatId: "dialogue", text: "مرحبا" },
+    ]);
+  });
+
+  it("reads the title page", () => {
+    expect(parseFdx(SAMPLE_FDX).titlePage).toEqual({
+      title: "رحلة الأمل",
+      author: "سارة علي",
+      date: "2026-02-08",
+    });
+  });
+});
+
+describe("buildFdxDocument", () => {
+  it("writes RTL alignment hints and round-trips through parseFdx", () => {
+    const blocks: ScreenplayBlock[] = [
+      { formatId: "scene-header-1", text: "مشهد 2" },
+      { formatId: "scene-header-2", text: "خارجي - نهار" },
+      { formatId: "scene-header-3", text: "الشارع" },
+      { formatId: "action", text: "تمر سيارة <مسرعة>." },
+      { formatId: "character", text: "سارة:" },
+      { formatId: "dialogue", text: "انتظر!" },
+      { formatId: "transition", text: "قطع إلى:" },
+    ];
+
+    const xml = buildFdxDocument(blocks, {
+      titlePage: { title: "الطريق", author: "أحمد" },
+    });
+
+    expect(xml).toContain(
+      '<Paragraph Type="Scene Heading" Alignment="Right" Number="2">'
+    );
+    expect(xml).toContain('<Paragraph Type="Character" Alignment="Center">');
+    expect(xml).toContain('<Paragraph Type="Transition" Alignment="Left">');
+    expect(xml).toContain("&lt;مسرعة&gt;");
+
+    const parsed = parseFdx(xml);
+    expect(parsed.blocks).toEqual(blocks);
+    expect(parsed.titlePage).toEqual({ title: "الطريق", author: "أحمد" });
+  });
+
+  it.each(["عنترة بن شداد", "Date Night", "مسودة الحياة", "Contact Zone"])(
+    "round-trips the title %s without reading it as a labelled field",
+    (title) => {
+      const xml = buildFdxDocument([{ formatId: "action", text: "يدخل." }], {
+        titlePage: {
+          title,
+          author: "أحمد",
+          basedOn: "رواية قديمة",
+          draft: "الثانية",
+          date: "2026-02-08",
+          contact: "ahmed@example.com",
+        },
+      });
+
+      expect(parseFdx(xml).titlePage).toEqual({
+        title,
+        author: "أحمد",
+        basedOn: "رواية قديمة",
+        draft: "الثانية",
+        date: "2026-02-08",
+        contact: "ahmed@example.com",
+      });
+    }
+  );
+});
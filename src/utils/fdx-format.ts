@@ -0,0 +1,352 @@
+/**
+ * fdx-format.ts - قراءة وكتابة صيغة Final Draft (FDX)
+ * تحويل فقرات <Paragraph Type="..."> إلى ScreenplayBlock والعكس،
+ * مع صفحة العنوان وتلميحات المحاذاة من اليمين لليسار.
+ *
+ * يعمل بدون DOMParser حتى يمكن استدعاؤه من مسار الاستخراج على الخادم.
+ */
+
+import type { TitlePageInfo } from "@/types/screenplay";
+import type { ScreenplayBlock } from "./document-model";
+import { splitSceneHeading } from "./scene-heading";
+
+export interface FdxParseResult {
+  /** الكتل البنيوية الناتجة بترتيب ظهورها */
+  blocks: ScreenplayBlock[];
+  /** صفحة العنوان إن وُجدت داخل <TitlePage> */
+  titlePage: TitlePageInfo | null;
+}
+
+export interface FdxBuildOptions {
+  /** صفحة العنوان المراد كتابتها داخل <TitlePage> */
+  titlePage?: TitlePageInfo | null;
+  /** خط الفقرات */
+  font?: string;
+  /** marker الـ payload لإضافته كتعليق XML للاسترجاع 1:1 */
+  payloadMarker?: string;
+}
+
+type FdxAlignment = "Left" | "Center" | "Right";
+
+const XML_COMMENT_RE = /<!--[\s\S]*?-->/g;
+const TITLE_PAGE_RE = /<TitlePage\b[^>]*>([\s\S]*?)<\/TitlePage>/i;
+const TAG_RE = /<(\/?)([A-Za-z_][\w:.-]*)\b[^>]*>/g;
+const PARAGRAPH_RE = /<Paragraph\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Paragraph>)/gi;
+const TEXT_RE = /<Text\b[^>]*?(?:\/>|>([\s\S]*?)<\/Text>)/gi;
+const ATTRIBUTE_RE = /([A-Za-z_:][\w:.-]*)\s*=\s*"([^"]*)"/g;
+const SCENE_NUMBER_DIGITS_RE = /[0-9٠-٩]+[A-Za-z]?/;
+const BASMALA_RE = /^بسم\s+الله/u;
+const AUTHOR_LABEL_RE = /^(?:written\s+by|by|تأليف|بقلم|سيناريو\s+وحوار)$/iu;
+// حقول صفحة العنوان تُقرأ فقط بصيغة "التسمية: القيمة" حتى لا يُؤخذ عنوان
+// يبدأ بكلمة تشبه التسمية ("عنترة"، "Date Night") على أنه ذلك الحقل.
+const BASED_ON_RE = /^(?:based\s+on|مبني\s+على|عن)\s*[:：]\s*(.+)$/iu;
+const DRAFT_RE = /^(?:draft|المسودة|مسودة)\s*[:：]\s*(.+)$/iu;
+const DATE_RE = /^(?:date|التاريخ)\s*[:：]\s*(.+)$/iu;
+const CONTACT_RE = /^(?:contact|التواصل)\s*[:：]\s*(.+)$/iu;
+
+const DEFAULT_FDX_FONT = "AzarMehrMonospaced-San";
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#([0-9]+);/g, (_, dec: string) =>
+      String.fromCodePoint(parseInt(dec, 10))
+    )
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const parseAttributes = (raw: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(ATTRIBUTE_RE)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+};
+
+const readParagraphs = (
+  xml: string
+): Array<{ attributes: Record<string, string>; text: string }> => {
+  const paragraphs: Array<{
+    attributes: Record<string, string>;
+    text: string;
+  }> = [];
+  for (const match of xml.matchAll(PARAGRAPH_RE)) {
+    const inner = match[2] ?? "";
+    let text = "";
+    for (const textMatch of inner.matchAll(TEXT_RE)) {
+      text += decodeXmlEntities(textMatch[1] ?? "");
+    }
+    paragraphs.push({
+      attributes: parseAttributes(match[1] ?? ""),
+      text: text.replace(/\s+/g, " ").trim(),
+    });
+  }
+  return paragraphs;
+};
+
+/**
+ * نص السيناريو: أول <Content> على مستوى جذر المستند. فقرات الأقسام
+ * الأخرى (HeaderAndFooter وScriptNotes وSmartType وصفحة العنوان) ليست منه.
+ */
+const readBodyContent = (xml: string): string => {
+  let depth = 0;
+  let contentStart = -1;
+  let contentDepth = -1;
+  for (const match of xml.matchAll(TAG_RE)) {
+    const [tag, closing, name] = match;
+    if (closing) {
+      depth--;
+      if (depth === contentDepth) {
+        return xml.slice(contentStart, match.index);
+      }
+      continue;
+    }
+    if (contentStart < 0 && depth <= 1 && name === "Content") {
+      contentStart = (match.index ?? 0) + tag.length;
+      contentDepth = depth;
+    }
+    if (!tag.endsWith("/>")) depth++;
+  }
+  return contentStart >= 0 ? xml.slice(contentStart) : "";
+};
+
+const toCharacterCue = (name: string): string =>
+  `${name.replace(/[:：]\s*$/u, "").trim()}:`;
+
+const parseTitlePage = (titleXml: string): TitlePageInfo | null => {
+  const lines = readParagraphs(titleXml)
+    .map((paragraph) => paragraph.text)
+    .filter(Boolean);
+  if (lines.length === 0) return null;
+
+  const titlePage: TitlePageInfo = { title: "", author: "" };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (AUTHOR_LABEL_RE.test(line)) {
+      if (lines[i + 1]) {
+        titlePage.author = lines[i + 1];
+        i++;
+      }
+      continue;
+    }
+
+    const basedOn = line.match(BASED_ON_RE);
+    if (basedOn) {
+      titlePage.basedOn = basedOn[1].trim();
+      continue;
+    }
+    const draft = line.match(DRAFT_RE);
+    if (draft) {
+      titlePage.draft = draft[1].trim();
+      continue;
+    }
+    const date = line.match(DATE_RE);
+    if (date) {
+      titlePage.date = date[1].trim();
+      continue;
+    }
+    const contact = line.match(CONTACT_RE);
+    if (contact) {
+      titlePage.contact = contact[1].trim();
+      continue;
+    }
+
+    if (!titlePage.title) {
+      titlePage.title = line;
+    }
+  }
+
+  return titlePage;
+};
+
+/**
+ * تحليل مستند FDX إلى كتل بنيوية وصفحة عنوان.
+ */
+export const parseFdx = (xml: string): FdxParseResult => {
+  const withoutComments = (xml ?? "").replace(XML_COMMENT_RE, "");
+  const titleMatch = withoutComments.match(TITLE_PAGE_RE);
+  const titlePage = titleMatch ? parseTitlePage(titleMatch[1]) : null;
+  const bodyXml = readBodyContent(withoutComments);
+
+  const blocks: ScreenplayBlock[] = [];
+  let sceneCounter = 0;
+
+  for (const { attributes, text } of readParagraphs(bodyXml)) {
+    if (!text) continue;
+
+    switch ((attributes.Type ?? "").trim().toLowerCase()) {
+      case "scene heading": {
+        sceneCounter++;
+        const explicitNumber = attributes.Number?.match(
+          SCENE_NUMBER_DIGITS_RE
+        )?.[0];
+        blocks.push(...splitSceneHeading(text, explicitNumber ?? sceneCounter));
+        break;
+      }
+      case "character":
+        blocks.push({ formatId: "character", text: toCharacterCue(text) });
+        break;
+      case "dialogue":
+        blocks.push({ formatId: "dialogue", text });
+        break;
+      case "parenthetical":
+        blocks.push({ formatId: "parenthetical", text });
+        break;
+      case "transition":
+        blocks.push({ formatId: "transition", text });
+        break;
+      default:
+        blocks.push({
+          formatId: BASMALA_RE.test(text) ? "basmala" : "action",
+          text,
+        });
+    }
+  }
+
+  return { blocks, titlePage };
+};
+
+const buildParagraph = (
+  type: string,
+  text: string,
+  alignment: FdxAlignment,
+  font: string,
+  extraAttributes = ""
+): string =>
+  `    <Paragraph Type="${type}" Alignment="${alignment}"${extraAttributes}>\n` +
+  `      <Text Font="${escapeXml(font)}">${escapeXml(text)}</Text>\n` +
+  `    </Paragraph>`;
+
+const buildTitlePage = (titlePage: TitlePageInfo, font: string): string => {
+  const paragraphs: string[] = [];
+  const centered = (text: string) =>
+    paragraphs.push(buildParagraph("Title", text, "Center", font));
+
+  if (titlePage.title) centered(titlePage.title);
+  if (titlePage.author) {
+    centered("تأليف");
+    centered(titlePage.author);
+  }
+  if (titlePage.basedOn) centered(`مبني على: ${titlePage.basedOn}`);
+  if (titlePage.draft) {
+    paragraphs.push(
+      buildParagraph("Title", `المسودة: ${titlePage.draft}`, "Right", font)
+    );
+  }
+  if (titlePage.date) {
+    paragraphs.push(
+      buildParagraph("Title", `التاريخ: ${titlePage.date}`, "Right", font)
+    );
+  }
+  if (titlePage.contact) {
+    paragraphs.push(
+      buildParagraph("Title", `التواصل: ${titlePage.contact}`, "Right", font)
+    );
+  }
+
+  return `  <TitlePage>\n    <Content>\n${paragraphs
+    .map((paragraph) => `  ${paragraph.replace(/\n/g, "\n  ")}`)
+    .join("\n")}\n    </Content>\n  </TitlePage>`;
+};
+
+/**
+ * بناء مستند FDX من كتل السيناريو.
+ * تُدمج scene-header-1/2/3 المتتالية في فقرة "Scene Heading" واحدة
+ * مع رقم المشهد في الخاصية Number.
+ */
+export const buildFdxDocument = (
+  blocks: ScreenplayBlock[],
+  options: FdxBuildOptions = {}
+): string => {
+  const font = options.font ?? DEFAULT_FDX_FONT;
+  const paragraphs: string[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const text = (block.text ?? "").replace(/\s+/g, " ").trim();
+
+    switch (block.formatId) {
+      case "scene-header-1":
+      case "scene-header-2":
+      case "scene-header-3":
+      case "scene-header-top-line": {
+        const parts = [text];
+        while (
+          i + 1 < blocks.length &&
+          (blocks[i + 1].formatId === "scene-header-2" ||
+            blocks[i + 1].formatId === "scene-header-3")
+        ) {
+          i++;
+          parts.push(blocks[i].text.replace(/\s+/g, " ").trim());
+        }
+        const number =
+          block.formatId === "scene-header-1"
+            ? text.match(SCENE_NUMBER_DIGITS_RE)?.[0]
+            : undefined;
+        paragraphs.push(
+          buildParagraph(
+            "Scene Heading",
+            parts.filter(Boolean).join(" - "),
+            "Right",
+            font,
+            number ? ` Number="${escapeXml(number)}"` : ""
+          )
+        );
+        break;
+      }
+      case "character":
+        paragraphs.push(
+          buildParagraph(
+            "Character",
+            text.replace(/[:：]\s*$/u, "").trim(),
+            "Center",
+            font
+          )
+        );
+        break;
+      case "dialogue":
+        paragraphs.push(buildParagraph("Dialogue", text, "Right", font));
+        break;
+      case "parenthetical":
+        paragraphs.push(buildParagraph("Parenthetical", text, "Center", font));
+        break;
+      case "transition":
+        paragraphs.push(buildParagraph("Transition", text, "Left", font));
+        break;
+      case "basmala":
+        paragraphs.push(buildParagraph("Action", text, "Center", font));
+        break;
+      default:
+        paragraphs.push(buildParagraph("Action", text, "Right", font));
+    }
+  }
+
+  const sections = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    `  <Content>\n${paragraphs.join("\n")}\n  </Content>`,
+  ];
+  if (options.titlePage) {
+    sections.push(buildTitlePage(options.titlePage, font));
+  }
+  if (options.payloadMarker) {
+    sections.push(`  <!-- ${options.payloadMarker} -->`);
+  }
+  sections.push("</FinalDraft>", "");
+
+  return sections.join("\n");
+};
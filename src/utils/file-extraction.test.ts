@@ -37,8 +37,12 @@ import {
   buildPayloadMarker,
   createPayloadFromBlocks,
   encodeScreenplayPayload,
+  type ScreenplayBlock,
 } from "./document-model";
+import { buildFdxDocument } from "./fdx-format";
+import { buildFountainDocument } from "./fountain-writer";
 import { extractFileText } from "./file-extraction";
+import { createProjectFromBlocks, serializeProject } from "./project-file";
 
 describe("extractFileText", () => {
   beforeEach(() => {
@@ -74,6 +78,143 @@ describe("extractFileText", () => {
     expect(result.usedOcr).toBe(false);
   });
 
+  it("parses fountain files into structured blocks", async () => {
+    const result = await extractFileText(
+      Buffer.from(
+        "Title: الرحلة\nAuthor: سارة\n\n.داخلي - منزل - ليل\n\n@أحمد\nمرحبا"
+      ),
+      "a.fountain",
+      "fountain"
+    );
+    expect(result.method).toBe("fountain-parser");
+    expect(result.titlePage?.title).toBe("الرحلة");
+    expect(result.structuredBlocks?.map((block) => block.formatId)).toEqual([
+      "scene-header-1",
+      "scene-header-2",
+      "scene-header-3",
+      "character",
+      "dialogue",
+    ]);
+  });
+
+  it("restores app payload from fountain boneyard", async () => {
+    const blocks: ScreenplayBlock[] = [
+      { formatId: "scene-header-1", text: "مشهد 1:" },
+      { formatId: "action", text: "وصف" },
+    ];
+    const titlePage = { title: "الرحلة", author: "سارة" };
+    const fountain = buildFountainDocument(blocks, {
+      titlePage,
+      payloadMarker: buildPayloadMarker(
+        encodeScreenplayPayload(createPayloadFromBlocks(blocks, { titlePage }))
+      ),
+    });
+
+    const result = await extractFileText(
+      Buffer.from(fountain),
+      "a.fountain",
+      "fountain"
+    );
+    expect(result.method).toBe("app-payload");
+    expect(result.titlePage?.title).toBe("الرحلة");
+    expect(result.structuredBlocks?.[0]?.text).toBe("مشهد 1:");
+  });
+
+  it("keeps fountain edits made after export", async () => {
+    const blocks: ScreenplayBlock[] = [
+      { formatId: "action", text: "يدخل أحمد." },
+      { formatId: "character", text: "أحمد:" },
+      { formatId: "dialogue", text: "مرحبا" },
+    ];
+    const fountain = buildFountainDocument(blocks, {
+      payloadMarker: buildPayloadMarker(
+        encodeScreenplayPayload(createPayloadFromBlocks(blocks))
+      ),
+    });
+
+    const result = await extractFileText(
+      Buffer.from(fountain.replace("مرحبا", "أهلًا بكم")),
+      "a.fountain",
+      "fountain"
+    );
+    expect(result.method).toBe("fountain-parser");
+    expect(result.structuredBlocks?.map((block) => block.text)).toContain(
+      "أهلًا بكم"
+    );
+    expect(result.warnings).toContain(
+      "عُدّل الملف بعد تصديره من التطبيق، فاستُخدم محتواه الحالي بدل نسخة الاسترجاع المضمّنة."
+    );
+  });
+
+  it("parses fdx paragraphs into structured blocks", async () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      "<FinalDraft><Content>",
+      '<Paragraph Type="Scene Heading"><Text>داخلي - منزل - ليل</Text></Paragraph>',
+      '<Paragraph Type="Character"><Text>أحمد</Text></Paragraph>',
+      '<Paragraph Type="Dialogue"><Text>مرحبا</Text></Paragraph>',
+      "</Content></FinalDraft>",
+    ].join("\n");
+
+    const result = await extractFileText(Buffer.from(xml), "a.fdx", "fdx");
+    expect(result.method).toBe("fdx-parser");
+    expect(result.structuredBlocks?.map((block) => block.formatId)).toEqual([
+      "scene-header-1",
+      "scene-header-2",
+      "scene-header-3",
+      "character",
+      "dialogue",
+    ]);
+  });
+
+  it("restores the fdx payload only while the script body is unchanged", async () => {
+    const blocks: ScreenplayBlock[] = [
+      { formatId: "action", text: "يدخل أحمد." },
+      { formatId: "character", text: "أحمد:" },
+      { formatId: "dialogue", text: "مرحبا" },
+    ];
+    const xml = buildFdxDocument(blocks, {
+      payloadMarker: buildPayloadMarker(
+        encodeScreenplayPayload(createPayloadFromBlocks(blocks))
+      ),
+    });
+
+    const exported = await extractFileText(Buffer.from(xml), "a.fdx", "fdx");
+    expect(exported.method).toBe("app-payload");
+
+    const revised = await extractFileText(
+      Buffer.from(xml.replace("مرحبا", "أهلًا بكم")),
+      "a.fdx",
+      "fdx"
+    );
+    expect(revised.method).toBe("fdx-parser");
+    expect(revised.structuredBlocks?.[2]?.text).toBe("أهلًا بكم");
+    expect(revised.warnings).toContain(
+      "عُدّل الملف بعد تصديره من التطبيق، فاستُخدم محتواه الحالي بدل نسخة الاسترجاع المضمّنة."
+    );
+  });
+
+  it("opens filmlane project files with their metadata", async () => {
+    const project = createProjectFromBlocks(
+      [
+        { formatId: "scene-header-1", text: "مشهد 1" },
+        { formatId: "action", text: "وصف" },
+      ],
+      { titlePage: { title: "الرحلة", author: "سارة" } }
+    );
+    const bytes = await serializeProject(project);
+
+    const result = await extractFileText(
+      Buffer.from(bytes),
+      "a.filmlane",
+      "filmlane"
+    );
+    expect(result.method).toBe("filmlane-project");
+    expect(result.titlePage?.title).toBe("الرحلة");
+    expect(result.structuredBlocks?.length).toBe(2);
+    expect(result.project?.payload.checksum).toBe(project.payload.checksum);
+  });
+
   it("extracts app payload from docx marker", async () => {
     const payload = createPayloadFromBlocks([
       { formatId: "scene-header-1", text: "مشهد 1:" },
@@ -86,7 +227,7 @@ describe("extractFileText", () => {
 
     const result = await extractFileText(Buffer.from("x"), "b.docx", "docx");
     expect(result.method).toBe("app-payload");
-    expect(result.payloadVersion).toBe(1);
+    expect(result.payloadVersion).toBe(2);
     expect(result.structuredBlocks?.length).toBe(2);
     expect(result.structuredBlocks?.[0]?.formatId).toBe("scene-header-1");
   });
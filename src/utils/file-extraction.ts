@@ -1,6 +1,6 @@
 /**
  * file-extraction.ts - منطق استخراج النصوص من الملفات (Server-side)
- * يدعم: txt, fountain, fdx, docx, pdf, doc
+ * يدعم: txt, fountain, fdx, filmlane, docx, pdf, doc
  */
 
 import type {
@@ -16,6 +16,10 @@ import {
   computeImportedTextQualityScore,
 } from "./file-import-preprocessor";
 import { convertDocBufferToText } from "./doc-converter-flow";
+import { buildFdxDocument, parseFdx } from "./fdx-format";
+import { parseFountain } from "./fountain-parser";
+import { buildFountainDocument } from "./fountain-writer";
+import { parseProjectFile } from "./project-file";
 import { runPdfConverterFlow } from "./pdf-converter-flow-runner";
 
 type ExtractionCoreResult = {
@@ -28,6 +32,8 @@ type ExtractionCoreResult = {
   normalizationApplied?: string[];
   structuredBlocks?: FileExtractionResult["structuredBlocks"];
   payloadVersion?: number;
+  titlePage?: FileExtractionResult["titlePage"];
+  project?: FileExtractionResult["project"];
 };
 
 // ==================== Text/Fountain/FDX ====================
@@ -283,9 +289,142 @@ const payloadToExtractionResult = (
     normalizationApplied: ["payload-direct-restore"],
     structuredBlocks: payload.blocks,
     payloadVersion: payload.version,
+    titlePage: payload.titlePage,
   };
 };
 
+const STALE_PAYLOAD_WARNING =
+  "عُدّل الملف بعد تصديره من التطبيق، فاستُخدم محتواه الحالي بدل نسخة الاسترجاع المضمّنة.";
+
+/**
+ * الـ payload المضمّن يطابق الملف إن أعطت كتابته بالصيغة نفسها ثم تحليلها
+ * الكتل التي حُللت من الملف؛ أي تعديل في برنامج آخر يكسر المطابقة.
+ */
+const payloadMatchesParsedBlocks = (
+  payload: NonNullable<ReturnType<typeof extractPayloadFromText>>,
+  parsedBlocks: ScreenplayBlock[],
+  reparse: (blocks: ScreenplayBlock[]) => ScreenplayBlock[]
+): boolean => {
+  const expected = reparse(payload.blocks);
+  return (
+    expected.length === parsedBlocks.length &&
+    expected.every(
+      (block, index) =>
+        block.formatId === parsedBlocks[index].formatId &&
+        block.text === parsedBlocks[index].text
+    )
+  );
+};
+
+// ==================== Fountain ====================
+
+function extractTextFromFountain(buffer: Buffer): ExtractionCoreResult {
+  const text = normalizeExtractedText(extractTextFromBuffer(buffer));
+  const { blocks, titlePage } = parseFountain(text);
+  const payload = extractPayloadFromText(text);
+  const payloadIsCurrent =
+    payload !== null &&
+    payloadMatchesParsedBlocks(
+      payload,
+      blocks,
+      (payloadBlocks) =>
+        parseFountain(
+          buildFountainDocument(payloadBlocks, { titlePage: payload.titlePage })
+        ).blocks
+    );
+  if (payload && payloadIsCurrent) {
+    return {
+      ...payloadToExtractionResult(
+        payload,
+        ["fountain-parser", "payload-marker"],
+        []
+      ),
+      titlePage: payload.titlePage ?? titlePage ?? undefined,
+    };
+  }
+
+  const warnings =
+    blocks.length === 0 && text.trim().length > 0
+      ? ["لم يتم العثور على عناصر Fountain، سيتم تطبيق تصنيف اللصق."]
+      : [];
+  if (payload) warnings.push(STALE_PAYLOAD_WARNING);
+
+  return {
+    text,
+    method: "fountain-parser",
+    usedOcr: false,
+    warnings,
+    attempts: ["fountain-parser"],
+    qualityScore: computeImportedTextQualityScore(text),
+    normalizationApplied: ["fountain-structured-parse"],
+    structuredBlocks: blocks.length > 0 ? blocks : undefined,
+    titlePage: titlePage ?? undefined,
+  };
+}
+
+// ==================== FDX ====================
+
+function extractTextFromFdx(buffer: Buffer): ExtractionCoreResult {
+  const xml = normalizeExtractedText(extractTextFromBuffer(buffer));
+  const { blocks, titlePage } = parseFdx(xml);
+  const payload = extractPayloadFromText(xml);
+  const payloadIsCurrent =
+    payload !== null &&
+    payloadMatchesParsedBlocks(
+      payload,
+      blocks,
+      (payloadBlocks) => parseFdx(buildFdxDocument(payloadBlocks)).blocks
+    );
+  if (payload && payloadIsCurrent) {
+    return {
+      ...payloadToExtractionResult(payload, ["fdx-parser", "payload-marker"], []),
+      titlePage: payload.titlePage ?? titlePage ?? undefined,
+    };
+  }
+
+  const text =
+    blocks.length > 0 ? blocks.map((block) => block.text).join("\n") : xml;
+  const warnings =
+    blocks.length === 0
+      ? ["لم يتم العثور على فقرات FDX صالحة، سيتم تطبيق تصنيف اللصق."]
+      : [];
+  if (payload) warnings.push(STALE_PAYLOAD_WARNING);
+
+  return {
+    text,
+    method: "fdx-parser",
+    usedOcr: false,
+    warnings,
+    attempts: ["fdx-parser"],
+    qualityScore: computeImportedTextQualityScore(text),
+    normalizationApplied: ["fdx-structured-parse"],
+    structuredBlocks: blocks.length > 0 ? blocks : undefined,
+    titlePage: titlePage ?? undefined,
+  };
+}
+
+// ==================== Filmlane Project ====================
+
+async function extractTextFromProject(
+  buffer: Buffer
+): Promise<ExtractionCoreResult> {
+  try {
+    const project = await parseProjectFile(new Uint8Array(buffer));
+    return {
+      ...payloadToExtractionResult(project.payload, ["filmlane-project"], []),
+      method: "filmlane-project",
+      normalizationApplied: ["project-direct-restore"],
+      titlePage: project.titlePage ?? undefined,
+      project,
+    };
+  } catch (error) {
+    throw new Error(
+      `فشل استخراج نص من ملف المشروع: ${error instanceof Error ? error.message : "خطأ غير معروف"}`,
+      { cause: error }
+    );
+  }
+}
+
 // ==================== DOCX ====================
 
 async function extractTextFromDocx(buffer: Buffer): Promise<ExtractionCoreResult> {
@@ -372,9 +511,28 @@ export async function extractFileText(
   fileType: ImportedFileType
 ): Promise<FileExtractionResult> {
   switch (fileType) {
-    case "txt":
-    case "fountain":
+    case "fountain": {
+      return {
+        ...extractTextFromFountain(buffer),
+        fileType,
+      };
+    }
+
     case "fdx": {
+      return {
+        ...extractTextFromFdx(buffer),
+        fileType,
+      };
+    }
+
+    case "filmlane": {
+      return {
+        ...(await extractTextFromProject(buffer)),
+        fileType,
+      };
+    }
+
+    case "txt": {
       const text = normalizeExtractedText(extractTextFromBuffer(buffer));
       return {
         text,
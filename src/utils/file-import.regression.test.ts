@@ -64,16 +64,7 @@ const classifyTextViaPastePipeline = async (
     { current: editor },
     () => ({}),
     () => {},
-    null,
-    `regression-${Date.now()}`,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    importSource
+    { sessionId: `regression-${Date.now()}`, importSource }
   );
   await new Promise((resolveTick) => setTimeout(resolveTick, 0));
 
@@ -1,6 +1,9 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import type { FileExtractionResult } from "@/types/file-import";
-import { buildFileOpenPipelineAction } from "./file-open-pipeline";
+import {
+  buildFileOpenPipelineAction,
+  resolveExtractionBlocks,
+} from "./file-open-pipeline";
 
 const baseExtraction = (
   overrides: Partial<FileExtractionResult>
@@ -92,3 +95,39 @@ describe("buildFileOpenPipelineAction", () => {
     expect(action.telemetry.preprocessedSteps).toEqual([]);
   });
 });
+
+describe("resolveExtractionBlocks", () => {
+  it("uses structured blocks and classifies raw text with the paste classifier", async () => {
+    const classified = [
+      { formatId: "scene-header-1" as const, text: "مشهد 1" },
+      { formatId: "action" as const, text: "يدخل أحمد الغرفة." },
+    ];
+    const classifyText = vi.fn(async () => classified);
+
+    const structured = await resolveExtractionBlocks(
+      baseExtraction({
+        structuredBlocks: [{ formatId: "action", text: "  وصف  " }],
+      }),
+      classifyText
+    );
+    expect(structured).toEqual({
+      blocks: [{ formatId: "action", text: "وصف" }],
+      approximate: false,
+    });
+    expect(classifyText).not.toHaveBeenCalled();
+
+    const fallback = await resolveExtractionBlocks(
+      baseExtraction({ text: "مشهد 1\nيدخل أحمد الغرفة." }),
+      classifyText
+    );
+    expect(classifyText).toHaveBeenCalledWith("مشهد 1\nيدخل أحمد الغرفة.");
+    expect(fallback).toEqual({ blocks: classified, approximate: true });
+
+    const empty = await resolveExtractionBlocks(
+      baseExtraction({ text: "  " }),
+      classifyText
+    );
+    expect(empty).toEqual({ blocks: [], approximate: false });
+    expect(classifyText).toHaveBeenCalledTimes(1);
+  });
+});
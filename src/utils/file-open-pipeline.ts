@@ -65,18 +65,48 @@ const buildTelemetry = (
   preprocessedSteps: [],
 });
 
-export function buildFileOpenPipelineAction(
-  extraction: FileExtractionResult,
-  mode: FileImportMode
-): FileOpenPipelineAction {
-  const modeLabel = buildModeLabel(mode);
-  const normalizedBlocks = (extraction.structuredBlocks ?? [])
+const normalizeStructuredBlocks = (
+  extraction: FileExtractionResult
+): ScreenplayBlock[] =>
+  (extraction.structuredBlocks ?? [])
     .map((block) => ({
       ...block,
       text: (block.text || "").trim(),
     }))
     .filter((block) => block.text.length > 0);
 
+export type ExtractionBlocksResult = {
+  blocks: ScreenplayBlock[];
+  /** true إذا صنّف مصنف اللصق النص الخام لعدم توفر كتل بنيوية */
+  approximate: boolean;
+};
+
+/**
+ * كتل الملف المستخرج دون إدراجها في المحرر (للمقارنة مثلاً): الكتل البنيوية
+ * إن توفرت، وإلا تصنيف النص الخام بمصنف اللصق الذي يمرره المحرر.
+ */
+export async function resolveExtractionBlocks(
+  extraction: FileExtractionResult,
+  classifyText: (text: string) => Promise<ScreenplayBlock[]>
+): Promise<ExtractionBlocksResult> {
+  const structuredBlocks = normalizeStructuredBlocks(extraction);
+  if (structuredBlocks.length > 0) {
+    return { blocks: structuredBlocks, approximate: false };
+  }
+  const text = extraction.text ?? "";
+  if (!text.trim()) {
+    return { blocks: [], approximate: false };
+  }
+  return { blocks: await classifyText(text), approximate: true };
+}
+
+export function buildFileOpenPipelineAction(
+  extraction: FileExtractionResult,
+  mode: FileImportMode
+): FileOpenPipelineAction {
+  const modeLabel = buildModeLabel(mode);
+  const normalizedBlocks = normalizeStructuredBlocks(extraction);
+
   if (normalizedBlocks.length > 0) {
     let description = `${modeLabel} الملف بنجاح\nتم استيراد التنسيق البنيوي مباشرة`;
     if (extraction.usedOcr) {
@@ -85,6 +115,9 @@ export function buildFileOpenPipelineAction(
     if (extraction.method === "app-payload") {
       description += "\n(تم استرجاع بنية Filmlane 1:1)";
     }
+    if (extraction.method === "filmlane-project") {
+      description += "\n(تم فتح مشروع Filmlane مع بياناته)";
+    }
     if (extraction.warnings.length > 0) {
       description += `\n⚠️ ${extraction.warnings[0]}`;
     }
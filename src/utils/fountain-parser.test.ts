@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+
+import { parseFountain } from "./fountain-parser";
+
+describe("parseFountain", () => {
+  it("reads title page keys into TitlePageInfo", () => {
+    const { titlePage, blocks } = parseFountain(
+      [
+        "Title: رحلة الأمل",
+        "Credit: تأليف",
+        "Author: أحمد خالد",
+        "Source: رواية الأمل",
+        "Draft date: 2026-02-08",
+        "Contact:",
+        "    hello@example.com",
+        "",
+        "!يدخل أحمد.",
+      ].join("\n")
+    );
+
+    expect(titlePage).toEqual({
+      title: "رحلة الأمل",
+      author: "أحمد خالد",
+      basedOn: "رواية الأمل",
+      date: "2026-02-08",
+      contact: "hello@example.com",
+    });
+    expect(blocks).toEqual([{ formatId: "action", text: "يدخل أحمد." }]);
+  });
+
+  it("maps Arabic scene headings to scene-header-1/2/3", () => {
+    const { blocks } = parseFountain(
+      [
+        "مشهد 1 - داخلي - منزل أحمد - ليل",
+        "",
+        ".خارجي - الشارع - نهار #7#",
+        "",
+        "مشهد 3",
+        "نهار - داخلي",
+        "مكتب المحامي",
+      ].join("\n")
+    );
+
+    expect(blocks).toEqual([
+      { formatId: "scene-header-1", text: "مشهد 1" },
+      { formatId: "scene-header-2", text: "داخلي - ليل" },
+      { formatId: "scene-header-3", text: "منزل أحمد" },
+      { formatId: "scene-header-1", text: "مشهد 7" },
+      { formatId: "scene-header-2", text: "خارجي - نهار" },
+      { formatId: "scene-header-3", text: "الشارع" },
+      { formatId: "scene-header-1", text: "مشهد 3" },
+      { formatId: "scene-header-2", text: "نهار - داخلي" },
+      { formatId: "scene-header-3", text: "مكتب المحامي" },
+    ]);
+  });
+
+  it("requires a blank line after a natural scene heading", () => {
+    const { blocks } = parseFountain(
+      [
+        "داخلي الغرفة يسود صمت ثقيل.",
+        "يقف أحمد عند النافذة.",
+        "",
+        "INT. he whispers to himself",
+        "and leaves.",
+        "",
+        "مشهد 2",
+        "ليل - خارجي",
+        "الشارع",
+        "",
+        "يركض أحمد.",
+      ].join("\n")
+    );
+
+    expect(blocks).toEqual([
+      { formatId: "action", text: "داخلي الغرفة يسود صمت ثقيل." },
+      { formatId: "action", text: "يقف أحمد عند النافذة." },
+      { formatId: "action", text: "INT. he whispers to himself" },
+      { formatId: "action", text: "and leaves." },
+      { formatId: "scene-header-1", text: "مشهد 2" },
+      { formatId: "scene-header-2", text: "ليل - خارجي" },
+      { formatId: "scene-header-3", text: "الشارع" },
+      { formatId: "action", text: "يركض أحمد." },
+    ]);
+  });
+
+  it("honours forced characters, parentheticals and transitions", () => {
+    const { blocks } = parseFountain(
+      [
+        "@أحمد",
+        "(بهدوء)",
+        "أنا هنا.",
+        "",
+        "سارة:",
+        "لماذا تأخرت؟",
+        "",
+        "> قطع إلى:",
+        "",
+        "MARK (V.O.)",
+        "Hello there.",
+      ].join("\n")
+    );
+
+    expect(blocks).toEqual([
+      { formatId: "character", text: "أحمد:" },
+      { formatId: "parenthetical", text: "(بهدوء)" },
+      { formatId: "dialogue", text: "أنا هنا." },
+      { formatId: "character", text: "سارة:" },
+      { formatId: "dialogue", text: "لماذا تأخرت؟" },
+      { formatId: "transition", text: "قطع إلى:" },
+      { formatId: "character", text: "MARK (V.O.):" },
+      { formatId: "dialogue", text: "Hello there." },
+    ]);
+  });
+
+  it("drops boneyard, notes, sections and synopses", () => {
+    const { blocks } = parseFountain(
+      [
+        "# الفصل الأول",
+        "= ملخص المشهد",
+        "",
+        "يجلس أحمد [[ملاحظة للمخرج]] على المقعد.",
+        "/* مشهد محذوف",
+        "لا يظهر */",
+        "@سارة",
+        "[[ملاحظة داخل الحوار]]",
+        "صباح الخير.",
+        "",
+        "===",
+        ">بسم الله الرحمن الرحيم<",
+      ].join("\n")
+    );
+
+    expect(blocks).toEqual([
+      { formatId: "action", text: "يجلس أحمد على المقعد." },
+      { formatId: "character", text: "سارة:" },
+      { formatId: "dialogue", text: "صباح الخير." },
+      { formatId: "basmala", text: "بسم الله الرحمن الرحيم" },
+    ]);
+  });
+
+  it("keeps plain action lines and strips emphasis markers", () => {
+    const { blocks, titlePage } = parseFountain(
+      "ينظر أحمد إلى **الساعة** بقلق.\nثم يخرج."
+    );
+
+    expect(titlePage).toBeNull();
+    expect(blocks).toEqual([
+      { formatId: "action", text: "ينظر أحمد إلى الساعة بقلق." },
+      { formatId: "action", text: "ثم يخرج." },
+    ]);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * fountain-parser.ts - محلل صيغة Fountain
+ * يحوّل نص Fountain إلى كتل ScreenplayBlock مباشرة دون المرور بمصنّف اللصق،
+ * مع احترام العلامات الصريحة (. @ > ! ~) وصفحة العنوان والتعليقات.
+ */
+
+import type { TitlePageInfo } from "@/types/screenplay";
+import type { ScreenplayBlock } from "./document-model";
+import { TRANSITION_RE } from "./arabic-patterns";
+import { splitSceneHeading, startsWithSceneStatus } from "./scene-heading";
+
+export interface FountainParseResult {
+  /** الكتل البنيوية الناتجة بترتيب ظهورها */
+  blocks: ScreenplayBlock[];
+  /** صفحة العنوان إن وُجدت في بداية الملف */
+  titlePage: TitlePageInfo | null;
+}
+
+const REMOVED_SPAN = "\u0001";
+const BONEYARD_RE = /\/\*[\s\S]*?\*\//g;
+const NOTE_RE = /\[\[[\s\S]*?\]\]/g;
+const PAGE_BREAK_RE = /^={3,}\s*$/;
+const SECTION_RE = /^#+\s*/;
+const SYNOPSIS_RE = /^=(?!=)/;
+const TITLE_KEY_RE = /^([^\s:：][^:：]{0,40}?)\s*[:：]\s*(.*)$/u;
+const CONTINUATION_RE = /^(?:\t| {3,})\S/;
+const SCENE_NUMBER_SUFFIX_RE = /\s*#([^#\s]+)#\s*$/;
+const LATIN_SCENE_START_RE = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const ARABIC_SCENE_START_RE =
+  /^(?:(?:مشهد|scene)\s*[0-9٠-٩]+|داخل[يى]|خارج[يى])(?:\s|[-–—:،.]|$)/iu;
+const SPEAKER_CUE_RE = /^([^:：]{1,30})\s*[:：]$/u;
+const LATIN_UPPER_RE = /[A-Z]/;
+const LATIN_LOWER_RE = /[a-z]/;
+const PARENTHETICAL_LINE_RE = /^[(（].*[)）]$/u;
+const BASMALA_RE = /^بسم\s+الله/u;
+
+const TITLE_PAGE_KEYS: Record<string, keyof TitlePageInfo> = {
+  title: "title",
+  العنوان: "title",
+  author: "author",
+  authors: "author",
+  "written by": "author",
+  المؤلف: "author",
+  تأليف: "author",
+  الكاتب: "author",
+  source: "basedOn",
+  "based on": "basedOn",
+  "مبني على": "basedOn",
+  عن: "basedOn",
+  contact: "contact",
+  التواصل: "contact",
+  draft: "draft",
+  revision: "draft",
+  المسودة: "draft",
+  "draft date": "date",
+  date: "date",
+  التاريخ: "date",
+};
+
+const IGNORED_TITLE_PAGE_KEYS = new Set([
+  "credit",
+  "notes",
+  "copyright",
+  "ملاحظات",
+]);
+
+/** بدائل مؤقتة لـ \* و \_ حتى لا تدخل في علامات التأكيد عند إزالتها */
+const ESCAPED_ASTERISK = "\uE000";
+const ESCAPED_UNDERSCORE = "\uE001";
+
+const stripEmphasis = (value: string): string =>
+  value
+    .replace(/\\\*/g, ESCAPED_ASTERISK)
+    .replace(/\\_/g, ESCAPED_UNDERSCORE)
+    .replace(/(\*{1,3})([^*\s](?:[^*]*[^*\s])?)\1/g, "$2")
+    .replace(/_([^_\s](?:[^_]*[^_\s])?)_/g, "$1")
+    .replace(/\\([(（])/g, "$1")
+    .replaceAll(ESCAPED_ASTERISK, "*")
+    .replaceAll(ESCAPED_UNDERSCORE, "_");
+
+const cleanLine = (value: string): string =>
+  stripEmphasis(value.replace(/\s+/g, " ").trim());
+
+const isBlank = (line: string | undefined): boolean =>
+  line === undefined || line.trim().length === 0;
+
+const isLatinUppercaseLine = (line: string): boolean =>
+  LATIN_UPPER_RE.test(line) && !LATIN_LOWER_RE.test(line);
+
+/**
+ * يزيل boneyard والملاحظات مع حذف السطور التي لم يبقَ فيها سوى التعليق،
+ * حتى لا تتحول إلى أسطر فارغة تقطع كتل الحوار.
+ */
+const stripCommentsToLines = (text: string): string[] => {
+  const withoutComments = text
+    .replace(BONEYARD_RE, REMOVED_SPAN)
+    .replace(NOTE_RE, REMOVED_SPAN);
+
+  const lines: string[] = [];
+  for (const line of withoutComments.split("\n")) {
+    if (!line.includes(REMOVED_SPAN)) {
+      lines.push(line);
+      continue;
+    }
+    const cleaned = line.split(REMOVED_SPAN).join("");
+    if (cleaned.trim().length > 0) {
+      lines.push(cleaned);
+    }
+  }
+  return lines;
+};
+
+const parseTitlePage = (
+  lines: string[]
+): { titlePage: TitlePageInfo | null; bodyStart: number } => {
+  let start = 0;
+  while (start < lines.length && isBlank(lines[start])) start++;
+
+  const firstMatch = lines[start]?.match(TITLE_KEY_RE);
+  const firstKey = firstMatch?.[1]?.trim().toLowerCase() ?? "";
+  if (
+    !firstMatch ||
+    (!(firstKey in TITLE_PAGE_KEYS) && !IGNORED_TITLE_PAGE_KEYS.has(firstKey))
+  ) {
+    return { titlePage: null, bodyStart: 0 };
+  }
+
+  const values: Partial<Record<keyof TitlePageInfo, string[]>> = {};
+  let currentField: keyof TitlePageInfo | null = null;
+  let index = start;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (isBlank(line)) break;
+
+    if (CONTINUATION_RE.test(line)) {
+      if (currentField) {
+        (values[currentField] ??= []).push(cleanLine(line));
+      }
+      continue;
+    }
+
+    const match = line.match(TITLE_KEY_RE);
+    if (!match) break;
+
+    const key = match[1].trim().toLowerCase();
+    currentField = TITLE_PAGE_KEYS[key] ?? null;
+    const inlineValue = cleanLine(match[2] ?? "");
+    if (currentField && inlineValue) {
+      (values[currentField] ??= []).push(inlineValue);
+    }
+  }
+
+  const join = (field: keyof TitlePageInfo): string | undefined => {
+    const parts = values[field]?.filter(Boolean) ?? [];
+    return parts.length > 0 ? parts.join(" ") : undefined;
+  };
+
+  const titlePage: TitlePageInfo = {
+    title: join("title") ?? "",
+    author: join("author") ?? "",
+  };
+  for (const field of ["basedOn", "contact", "draft", "date"] as const) {
+    const value = join(field);
+    if (value) titlePage[field] = value;
+  }
+
+  return { titlePage, bodyStart: index };
+};
+
+const parseSceneHeading = (
+  rawHeading: string,
+  sceneCounter: number
+): ScreenplayBlock[] => {
+  let heading = cleanLine(rawHeading);
+  let explicitNumber: string | null = null;
+
+  const suffixMatch = heading.match(SCENE_NUMBER_SUFFIX_RE);
+  if (suffixMatch) {
+    explicitNumber = suffixMatch[1];
+    heading = heading.slice(0, suffixMatch.index).trim();
+  }
+
+  return splitSceneHeading(heading, explicitNumber ?? sceneCounter);
+};
+
+type HeadingStage = "none" | "after-1" | "after-2";
+
+const getHeadingStage = (blocks: ScreenplayBlock[]): HeadingStage => {
+  const lastFormat = blocks[blocks.length - 1]?.formatId;
+  return lastFormat === "scene-header-1"
+    ? "after-1"
+    : lastFormat === "scene-header-2"
+      ? "after-2"
+      : "none";
+};
+
+/**
+ * قاعدة Fountain: رأس المشهد يليه سطر فارغ. الرأس العربي قد يمتد إلى
+ * سطري الحالة والمكان، فيُشترط الفراغ بعد آخر سطر يستهلكه الرأس.
+ */
+const isHeadingFollowedByBlank = (
+  lines: string[],
+  index: number,
+  stage: HeadingStage
+): boolean => {
+  let next = index + 1;
+  while (stage !== "none" && !isBlank(lines[next])) {
+    stage =
+      stage === "after-1" && startsWithSceneStatus(cleanLine(lines[next]))
+        ? "after-2"
+        : "none";
+    next++;
+  }
+  return isBlank(lines[next]);
+};
+
+const toCharacterCue = (rawName: string): string => {
+  const name = cleanLine(rawName)
+    .replace(/\s*\^\s*$/, "")
+    .replace(/[:：]\s*$/u, "")
+    .trim();
+  return `${name}:`;
+};
+
+/**
+ * تحليل نص Fountain كامل إلى كتل بنيوية وصفحة عنوان.
+ */
+export const parseFountain = (source: string): FountainParseResult => {
+  const normalized = (source ?? "")
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n");
+  const lines = stripCommentsToLines(normalized);
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+
+  const blocks: ScreenplayBlock[] = [];
+  let inDialogue = false;
+  let sceneCounter = 0;
+  // مراحل رأس المشهد العربي متعدد الأسطر: بعد (1) ننتظر (2) ثم (3).
+  let headingStage: HeadingStage = "none";
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const rawLine = lines[i];
+    const line = rawLine.trim();
+
+    if (!line) {
+      inDialogue = false;
+      headingStage = "none";
+      continue;
+    }
+
+    if (PAGE_BREAK_RE.test(line)) continue;
+    if (SECTION_RE.test(line) || SYNOPSIS_RE.test(line)) continue;
+
+    const previousBlank = i === bodyStart || isBlank(lines[i - 1]);
+    const nextBlank = isBlank(lines[i + 1]);
+
+    if (inDialogue) {
+      blocks.push({
+        formatId: PARENTHETICAL_LINE_RE.test(line)
+          ? "parenthetical"
+          : "dialogue",
+        text: cleanLine(line),
+      });
+      continue;
+    }
+
+    if (headingStage !== "none") {
+      const text = cleanLine(line);
+      if (headingStage === "after-1" && startsWithSceneStatus(text)) {
+        blocks.push({ formatId: "scene-header-2", text });
+        headingStage = "after-2";
+        continue;
+      }
+      blocks.push({ formatId: "scene-header-3", text });
+      headingStage = "none";
+      continue;
+    }
+
+    if (line.startsWith("!")) {
+      blocks.push({ formatId: "action", text: cleanLine(line.slice(1)) });
+      continue;
+    }
+
+    if (line.startsWith("@")) {
+      blocks.push({
+        formatId: "character",
+        text: toCharacterCue(line.slice(1)),
+      });
+      inDialogue = true;
+      continue;
+    }
+
+    const isForcedHeading = line.startsWith(".") && !line.startsWith("..");
+    const isHeadingCandidate =
+      isForcedHeading ||
+      (previousBlank &&
+        (LATIN_SCENE_START_RE.test(line) || ARABIC_SCENE_START_RE.test(line)));
+    if (isHeadingCandidate) {
+      const headingBlocks = parseSceneHeading(
+        isForcedHeading ? line.slice(1) : line,
+        sceneCounter + 1
+      );
+      const stage = getHeadingStage(headingBlocks);
+      if (isForcedHeading || isHeadingFollowedByBlank(lines, i, stage)) {
+        sceneCounter++;
+        blocks.push(...headingBlocks);
+        headingStage = stage;
+        continue;
+      }
+    }
+
+    if (line.startsWith(">") && line.endsWith("<")) {
+      const centered = cleanLine(line.slice(1, -1));
+      blocks.push({
+        formatId: BASMALA_RE.test(centered) ? "basmala" : "action",
+        text: centered,
+      });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      blocks.push({ formatId: "transition", text: cleanLine(line.slice(1)) });
+      continue;
+    }
+
+    if (line.startsWith("~")) {
+      blocks.push({ formatId: "action", text: cleanLine(line.slice(1)) });
+      continue;
+    }
+
+    if (BASMALA_RE.test(line)) {
+      blocks.push({ formatId: "basmala", text: cleanLine(line) });
+      continue;
+    }
+
+    if (
+      previousBlank &&
+      nextBlank &&
+      ((isLatinUppercaseLine(line) && /TO:$/.test(line)) ||
+        TRANSITION_RE.test(line))
+    ) {
+      blocks.push({ formatId: "transition", text: cleanLine(line) });
+      continue;
+    }
+
+    const isLatinCue =
+      isLatinUppercaseLine(line.replace(/\([^)]*\)/g, "")) &&
+      !/^[^A-Za-z]*$/.test(line);
+    const isArabicCue = SPEAKER_CUE_RE.test(line);
+    if (previousBlank && !nextBlank && (isLatinCue || isArabicCue)) {
+      blocks.push({ formatId: "character", text: toCharacterCue(line) });
+      inDialogue = true;
+      continue;
+    }
+
+    blocks.push({ formatId: "action", text: cleanLine(rawLine) });
+  }
+
+  return {
+    blocks: blocks.filter((block) => block.text.length > 0),
+    titlePage,
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import { parseFountain } from "./fountain-parser";
+import { buildFountainDocument } from "./fountain-writer";
+
+const BLOCKS: ScreenplayBlock[] = [
+  { formatId: "basmala", text: "بسم الله الرحمن الرحيم" },
+  { formatId: "scene-header-1", text: "مشهد 3" },
+  { formatId: "scene-header-2", text: "داخلي - ليل" },
+  { formatId: "scene-header-3", text: "منزل أحمد" },
+  { formatId: "action", text: "يجلس أحمد على المقعد." },
+  { formatId: "action", text: "داخلي الغرفة صمت تام." },
+  { formatId: "character", text: "أحمد:" },
+  { formatId: "parenthetical", text: "(بهدوء)" },
+  { formatId: "dialogue", text: "أين كنت؟" },
+  { formatId: "transition", text: "قطع إلى:" },
+];
+
+describe("buildFountainDocument", () => {
+  it("emits forced markers for Arabic elements", () => {
+    const fountain = buildFountainDocument(BLOCKS);
+
+    expect(fountain).toBe(
+      [
+        ">بسم الله الرحمن الرحيم<",
+        "",
+        ".داخلي - ليل - منزل أحمد #3#",
+        "",
+        "يجلس أحمد على المقعد.",
+        "",
+        "!داخلي الغرفة صمت تام.",
+        "",
+        "@أحمد",
+        "(بهدوء)",
+        "أين كنت؟",
+        "",
+        ">قطع إلى:",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("round-trips blocks and title page through parseFountain", () => {
+    const fountain = buildFountainDocument(BLOCKS, {
+      titlePage: {
+        title: "رحلة الأمل",
+        author: "سارة علي",
+        date: "2026-02-08",
+      },
+      payloadMarker: "[[FILMLANE_PAYLOAD_V1:abc]]",
+    });
+
+    expect(fountain.startsWith("Title: رحلة الأمل\nAuthor: سارة علي\n")).toBe(
+      true
+    );
+    expect(fountain).toContain("/* [[FILMLANE_PAYLOAD_V1:abc]] */");
+
+    const parsed = parseFountain(fountain);
+    expect(parsed.blocks).toEqual(BLOCKS);
+    expect(parsed.titlePage).toEqual({
+      title: "رحلة الأمل",
+      author: "سارة علي",
+      date: "2026-02-08",
+    });
+  });
+
+  it("keeps literal emphasis characters and parenthesised dialogue", () => {
+    const blocks: ScreenplayBlock[] = [
+      { formatId: "action", text: "على اللوحة: *ممنوع التدخين* و_خطر_." },
+      { formatId: "character", text: "سمير:" },
+      { formatId: "dialogue", text: "كلمة السر 5*3_A" },
+      { formatId: "dialogue", text: "(هذا ما قاله بالحرف)" },
+    ];
+
+    const fountain = buildFountainDocument(blocks);
+    expect(fountain).toContain("\\*ممنوع التدخين\\* و\\_خطر\\_.");
+    expect(fountain).toContain("\\(هذا ما قاله بالحرف)");
+    expect(parseFountain(fountain).blocks).toEqual(blocks);
+  });
+});
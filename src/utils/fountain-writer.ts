@@ -0,0 +1,212 @@
+/**
+ * fountain-writer.ts - كاتب صيغة Fountain
+ * يحوّل كتل ScreenplayBlock إلى نص Fountain مع صفحة العنوان،
+ * ويستخدم العلامات الصريحة (. @ > !) حيث لا تكفي قواعد الأحرف الكبيرة
+ * في Fountain لاكتشاف العناصر العربية.
+ */
+
+import type { TitlePageInfo } from "@/types/screenplay";
+import type { ScreenplayBlock } from "./document-model";
+import { TRANSITION_RE } from "./arabic-patterns";
+
+export interface FountainBuildOptions {
+  /** صفحة العنوان المراد كتابتها في رأس الملف */
+  titlePage?: TitlePageInfo | null;
+  /** marker الـ payload لإضافته داخل تعليق boneyard للاسترجاع 1:1 */
+  payloadMarker?: string;
+}
+
+type FountainElement = {
+  /** هل يُلصق العنصر بما قبله دون سطر فارغ (داخل كتلة الحوار) */
+  attached: boolean;
+  text: string;
+};
+
+const SCENE_NUMBER_DIGITS_RE = /[0-9٠-٩]+[A-Za-z]?/;
+const FORCING_PREFIX_RE = /^(?:[.@>!~=#]|\[\[|\/\*)/;
+const SCENE_START_RE =
+  /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]|^(?:(?:مشهد|scene)\s*[0-9٠-٩]+|داخل[يى]|خارج[يى])(?:\s|[-–—:،.]|$)/iu;
+const CUE_LIKE_RE = /^[^:：]{1,30}[:：]$/u;
+const PARENTHETICAL_LINE_RE = /^[(（].*[)）]$/u;
+const BASMALA_RE = /^بسم\s+الله/u;
+const LATIN_UPPER_RE = /[A-Z]/;
+const LATIN_LOWER_RE = /[a-z]/;
+
+const TITLE_PAGE_FIELDS: Array<[keyof TitlePageInfo, string]> = [
+  ["title", "Title"],
+  ["author", "Author"],
+  ["basedOn", "Source"],
+  ["draft", "Draft"],
+  ["date", "Draft date"],
+  ["contact", "Contact"],
+];
+
+const normalizeText = (value: string): string =>
+  (value ?? "").replace(/\s+/g, " ").trim();
+
+/**
+ * نص العنصر بعد تهريب * و _ حتى لا تُقرأ علامات تأكيد (مائل/غامق/تسطير)
+ * فتضيع عند القراءة.
+ */
+const toFountainText = (value: string): string =>
+  normalizeText(value).replace(/[*_]/g, "\\$&");
+
+const isLatinUppercase = (text: string): boolean =>
+  LATIN_UPPER_RE.test(text) && !LATIN_LOWER_RE.test(text);
+
+/**
+ * هل قد يُساء تفسير سطر الحدث كعنصر آخر عند القراءة؟
+ */
+const needsForcedAction = (text: string): boolean =>
+  FORCING_PREFIX_RE.test(text) ||
+  SCENE_START_RE.test(text) ||
+  CUE_LIKE_RE.test(text) ||
+  TRANSITION_RE.test(text) ||
+  BASMALA_RE.test(text) ||
+  isLatinUppercase(text);
+
+const buildTitlePage = (titlePage: TitlePageInfo): string[] => {
+  const lines: string[] = [];
+  for (const [field, key] of TITLE_PAGE_FIELDS) {
+    const value = normalizeText(titlePage[field] ?? "");
+    if (value) lines.push(`${key}: ${value}`);
+  }
+  return lines;
+};
+
+/**
+ * يبني سطر عنوان المشهد القسري من scene-header-1/2/3،
+ * مع نقل رقم المشهد إلى صيغة #N# القياسية في Fountain.
+ */
+const buildSceneHeading = (parts: ScreenplayBlock[]): string => {
+  const [first, ...rest] = parts;
+  const firstText = toFountainText(first.text);
+  const restText = rest
+    .map((block) => toFountainText(block.text))
+    .filter(Boolean)
+    .join(" - ");
+
+  const number =
+    first.formatId === "scene-header-1"
+      ? firstText.match(SCENE_NUMBER_DIGITS_RE)?.[0]
+      : undefined;
+
+  if (number && restText) {
+    return `.${restText} #${number}#`;
+  }
+  return `.${[firstText, restText].filter(Boolean).join(" - ")}`;
+};
+
+const toElements = (blocks: ScreenplayBlock[]): FountainElement[] => {
+  const elements: FountainElement[] = [];
+  let inDialogue = false;
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const text = toFountainText(block.text);
+
+    switch (block.formatId) {
+      case "scene-header-1":
+      case "scene-header-2":
+      case "scene-header-3":
+      case "scene-header-top-line": {
+        const parts = [block];
+        while (
+          i + 1 < blocks.length &&
+          (blocks[i + 1].formatId === "scene-header-2" ||
+            blocks[i + 1].formatId === "scene-header-3")
+        ) {
+          i++;
+          parts.push(blocks[i]);
+        }
+        elements.push({ attached: false, text: buildSceneHeading(parts) });
+        inDialogue = false;
+        break;
+      }
+      case "character": {
+        const name = text.replace(/[:：]\s*$/u, "").trim();
+        if (!name) break;
+        elements.push({
+          attached: false,
+          text: isLatinUppercase(name) ? name : `@${name}`,
+        });
+        inDialogue = true;
+        break;
+      }
+      case "parenthetical": {
+        if (!text) break;
+        elements.push({
+          attached: inDialogue,
+          text: PARENTHETICAL_LINE_RE.test(text) ? text : `(${text})`,
+        });
+        break;
+      }
+      case "dialogue": {
+        if (!text) break;
+        // حوار بين قوسين بكامله يُقرأ إرشادًا، فيُهرَّب قوسه الأول
+        elements.push({
+          attached: inDialogue,
+          text: PARENTHETICAL_LINE_RE.test(text) ? `\\${text}` : text,
+        });
+        break;
+      }
+      case "transition": {
+        if (!text) break;
+        elements.push({
+          attached: false,
+          text: isLatinUppercase(text) && /TO:$/.test(text) ? text : `>${text}`,
+        });
+        inDialogue = false;
+        break;
+      }
+      case "basmala": {
+        if (!text) break;
+        elements.push({ attached: false, text: `>${text}<` });
+        inDialogue = false;
+        break;
+      }
+      default: {
+        if (!text) break;
+        elements.push({
+          attached: false,
+          text: needsForcedAction(text) ? `!${text}` : text,
+        });
+        inDialogue = false;
+      }
+    }
+  }
+
+  return elements;
+};
+
+/**
+ * بناء نص Fountain كامل من كتل السيناريو.
+ */
+export const buildFountainDocument = (
+  blocks: ScreenplayBlock[],
+  options: FountainBuildOptions = {}
+): string => {
+  const sections: string[] = [];
+
+  const titleLines = options.titlePage ? buildTitlePage(options.titlePage) : [];
+  if (titleLines.length > 0) {
+    sections.push(titleLines.join("\n"));
+  }
+
+  let body = "";
+  for (const element of toElements(blocks)) {
+    if (body) {
+      body += element.attached ? "\n" : "\n\n";
+    }
+    body += element.text;
+  }
+  if (body) {
+    sections.push(body);
+  }
+
+  if (options.payloadMarker) {
+    sections.push(`/* ${options.payloadMarker} */`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
@@ -272,8 +272,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "merge-broken-character-name"
+      { sessionId: "merge-broken-character-name" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -315,8 +314,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "action-inside-dialogue-block"
+      { sessionId: "action-inside-dialogue-block" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -367,8 +365,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "ignore-dom-artifacts"
+      { sessionId: "ignore-dom-artifacts" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -415,8 +412,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "negation-dialogue-guard"
+      { sessionId: "negation-dialogue-guard" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -463,8 +459,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "negation-narrative-action"
+      { sessionId: "negation-narrative-action" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -505,8 +500,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "audio-narrative-action"
+      { sessionId: "audio-narrative-action" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -549,8 +543,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "direct-speech-not-action"
+      { sessionId: "direct-speech-not-action" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -597,8 +590,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "name-inside-action"
+      { sessionId: "name-inside-action" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -641,8 +633,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "character-needs-colon"
+      { sessionId: "character-needs-colon" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -691,8 +682,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "implicit-speaker-without-colon-inside-dialogue"
+      { sessionId: "implicit-speaker-without-colon-inside-dialogue" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -745,8 +735,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "implicit-speaker-guard-no-negation-interrogative"
+      { sessionId: "implicit-speaker-guard-no-negation-interrogative" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -795,8 +784,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "no-action-overmerge"
+      { sessionId: "no-action-overmerge" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -845,8 +833,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "realistic-action-inside-dialogue-block"
+      { sessionId: "realistic-action-inside-dialogue-block" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -901,8 +888,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "broken-name-with-dom-artifacts"
+      { sessionId: "broken-name-with-dom-artifacts" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -946,8 +932,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "merge-broken-character-names-alif-cases"
+      { sessionId: "merge-broken-character-names-alif-cases" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -1000,8 +985,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "no-inline-name-split-before-colon"
+      { sessionId: "no-inline-name-split-before-colon" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -1062,8 +1046,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "merge-broken-character-with-html-artifacts"
+      { sessionId: "merge-broken-character-with-html-artifacts" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -1114,8 +1097,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "merge-broken-character-with-rtl-mark-line"
+      { sessionId: "merge-broken-character-with-rtl-mark-line" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -1166,8 +1148,7 @@ describe("Full Integration Test", () => {
       { current: editor } as any,
       () => ({}) as any,
       updateContentFn,
-      null,
-      "sandwiched-narrative-action-without-dash"
+      { sessionId: "sandwiched-narrative-action-without-dash" }
     );
 
     await new Promise((resolve) => setTimeout(resolve, 0));
@@ -24,6 +24,7 @@ export type { EditorStyleFormatId } from "./editor-styles";
 
 // Paste Classifier
 export { handlePaste, runPendingPasteConfirmations } from "./paste-classifier";
+export type { PasteClassifierMode } from "./paste-classifier";
 
 // Context Memory Manager
 export { ContextMemoryManager } from "./context-memory-manager";
@@ -60,14 +61,46 @@ export type {
   HybridResult,
 } from "./classification-core";
 
+// Post-Classification Review (Suspicion Detectors)
+export {
+  PostClassificationReviewer,
+  registerSuspicionDetector,
+  unregisterSuspicionDetector,
+  getSuspicionDetectors,
+  getSuspicionDetectorLabel,
+  reviewerConfigFromSettings,
+} from "./classification-core";
+export type {
+  SuspicionDetector,
+  DetectorFinding,
+  TextFeatures,
+  ReviewerConfig,
+  ReviewerProjectSettings,
+} from "./classification-core";
+
 // Feedback Collector
 export { FeedbackCollector } from "./feedback-collector";
 
+// Learned Overrides
+export {
+  LearnedOverrides,
+  clearLearnedOverrides,
+  moveLearnedOverrides,
+  getOverrideLineKey,
+  getOverridePatternKey,
+  type LearnedOverrideMatch,
+  type LearnedOverrideScope,
+} from "./learned-overrides";
+
 // Exporters
 export {
   exportToFountain,
   exportToPDF,
   exportToDocx,
+  exportToFdx,
+  exportToFilmlane,
+  exportBreakdownToCsv,
+  exportBreakdownToPDF,
   downloadFile,
 } from "./exporters";
 
@@ -78,12 +111,106 @@ export {
   computeImportedTextQualityScore,
 } from "./file-import-preprocessor";
 
+// Fountain
+export { parseFountain, type FountainParseResult } from "./fountain-parser";
+export {
+  buildFountainDocument,
+  type FountainBuildOptions,
+} from "./fountain-writer";
+
+// Final Draft (FDX)
+export {
+  parseFdx,
+  buildFdxDocument,
+  type FdxParseResult,
+  type FdxBuildOptions,
+} from "./fdx-format";
+
+// Filmlane Project File
+export {
+  FILMLANE_PROJECT_VERSION,
+  FILMLANE_PROJECT_EXTENSION,
+  DEFAULT_EDITOR_SETTINGS,
+  createProjectFromBlocks,
+  createProjectId,
+  appendProjectRevision,
+  collectCharacters,
+  collectLocations,
+  migrateProject,
+  serializeProject,
+  parseProjectFile,
+  type FilmlaneProject,
+  type ProjectNote,
+  type ProjectRevision,
+} from "./project-file";
+
 // File Open Pipeline
 export {
   buildFileOpenPipelineAction,
+  resolveExtractionBlocks,
+  type ExtractionBlocksResult,
   type FileOpenPipelineAction,
 } from "./file-open-pipeline";
 
+// Page Layout
+export {
+  PAGE_LAYOUT,
+  SCREENPLAY_FONT_METRICS,
+  getBlockLayoutPreset,
+  getBlockTextWidth,
+  measureTextWidth,
+  wrapTextToWidth,
+  wrapBlockLines,
+  layoutScreenplayPages,
+  type BlockLayoutPreset,
+  type PageLayoutFragment,
+  type ScreenplayPageLayout,
+} from "./page-layout";
+
+// Screenplay Diff
+export {
+  diffScreenplayBlocks,
+  summarizeScreenplayDiff,
+  applyAcceptedChanges,
+  type BlockDiffEntry,
+  type BlockDiffKind,
+  type ScreenplayDiffSummary,
+} from "./screenplay-diff";
+
+// Document Store
+export {
+  DocumentStore,
+  getDocumentStore,
+  createIndexedDbBackend,
+  createMemoryBackend,
+  type DocumentStoreBackend,
+  type RecoverySnapshot,
+  type WorkspaceDocument,
+  type WorkspaceProject,
+  type WorkspaceProjectKind,
+} from "./document-store";
+
+// Series Bible
+export {
+  buildSeriesBible,
+  findCharacterAppearances,
+  type SeriesBible,
+  type SeriesBibleAppearance,
+  type SeriesBibleEntry,
+  type SeriesEpisodeSource,
+} from "./series-bible";
+
+// Version History
+export {
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  MAX_AUTO_SNAPSHOTS,
+  createSnapshotRevision,
+  appendSnapshot,
+  isSameSnapshotContent,
+  getRevisionStats,
+  type RevisionStats,
+} from "./version-history";
+
 // File Operations
 export {
   saveScreenplay,
@@ -102,6 +229,7 @@ export { getNextFormatOnTab, getNextFormatOnEnter } from "./screenplay-rules";
 export {
   normalizeLine,
   normalizeCharacterName,
+  foldArabic,
   stripLeadingBullets,
   cleanInvisibleChars,
   cssObjectToString,
@@ -122,10 +250,114 @@ export {
   applyPhotoMontageToSceneHeaderLine,
 } from "./photo-montage";
 
+// Revision Mode
+export {
+  REVISION_COLORS,
+  getRevisionColor,
+  getActiveRevisionSet,
+  getBlockRevisionSet,
+  findChangedBlocks,
+  applyRevisionMarks,
+  startRevisionSet,
+  clearRevisionMarks,
+  type RevisionColor,
+  type RevisionColorId,
+  type RevisionSet,
+  type RevisionModeState,
+} from "./revision-mode";
+
+// Scene Numbering
+export {
+  OMITTED_SCENE_LABEL,
+  readSceneNumber,
+  setSceneNumberInText,
+  getSceneNumberState,
+  hasLockedSceneNumbers,
+  renumberScenes,
+  lockSceneNumbers,
+  unlockSceneNumbers,
+  type SceneNumberState,
+  type SceneNumberingResult,
+} from "./scene-numbering";
+
+// Scene Outline
+export {
+  buildSceneOutline,
+  moveSceneBlocks,
+  type SceneOutlineEntry,
+} from "./scene-outline";
+
+// Scene Cards (Corkboard)
+export {
+  STORYLINE_COLORS,
+  getStorylineColor,
+  formatPageEighths,
+  buildSceneCards,
+  withSceneCardDetails,
+  type StorylineColor,
+  type StorylineColorId,
+  type SceneCard,
+  type SceneCardDetails,
+} from "./scene-cards";
+
+// Character Stats
+export {
+  getCharacterKey,
+  getCueName,
+  collectCharacterStats,
+  renameCharacter,
+  type CharacterStats,
+  type CharacterRenameResult,
+} from "./character-stats";
+
+// Autocomplete
+export {
+  DEFAULT_TRANSITIONS,
+  getAutocompleteKind,
+  getAutocompleteSuggestions,
+  type AutocompleteKind,
+  type AutocompleteQuery,
+  type AutocompleteSuggestion,
+} from "./autocomplete";
+
+// Breakdown Reports
+export {
+  BREAKDOWN_REPORT_TITLES,
+  buildBreakdownScenes,
+  groupScenesByLocation,
+  buildBreakdownTable,
+  breakdownTableToCsv,
+  type BreakdownReportKind,
+  type BreakdownScene,
+  type BreakdownLocation,
+  type BreakdownTable,
+} from "./breakdown-reports";
+
+// Breakdown Tags
+export {
+  BREAKDOWN_CATEGORIES,
+  getBreakdownCategory,
+  readBreakdownTags,
+  addBreakdownTag,
+  removeBreakdownTags,
+  buildSceneBreakdownSheets,
+  buildBreakdownElements,
+  buildBreakdownSheetsTable,
+  buildBreakdownElementsTable,
+  type BreakdownCategory,
+  type BreakdownCategoryId,
+  type BreakdownTag,
+  type BreakdownTagRange,
+  type SceneBreakdownSheet,
+  type BreakdownElement,
+} from "./breakdown-tags";
+
 // Document Model / Payload
 export {
   SCREENPLAY_PAYLOAD_VERSION,
   SCREENPLAY_PAYLOAD_TOKEN,
+  LEGACY_SCREENPLAY_PAYLOAD_TOKEN,
+  createBlockId,
   buildPayloadMarker,
   extractEncodedPayloadMarker,
   encodeScreenplayPayload,
@@ -136,5 +368,18 @@ export {
   createPayloadFromBlocks,
   createPayloadFromHtml,
   ensurePayloadChecksum,
+  upgradePayloadV1,
+  readInlineRunsFromElement,
+  readBlockAttributesFromElement,
+  normalizeTitlePage,
+  isSceneStart,
+} from "./document-model";
+export type {
+  InlineRun,
+  IdentifiedScreenplayBlock,
+  ScreenplayBlock,
+  ScreenplayBlockMetadata,
+  ScreenplayPayload,
+  ScreenplayPayloadV1,
+  ScreenplayPayloadV2,
 } from "./document-model";
-export type { ScreenplayBlock, ScreenplayPayloadV1 } from "./document-model";
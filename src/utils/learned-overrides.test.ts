@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getOverrideLineKey,
+  getOverridePatternKey,
+  clearLearnedOverrides,
+  LearnedOverrides,
+  moveLearnedOverrides,
+} from "./learned-overrides";
+import { handlePaste } from "./paste-classifier";
+
+describe("learned-overrides", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("normalizes exact and pattern keys", () => {
+    expect(getOverrideLineKey("  أحمد :  ")).toBe(getOverrideLineKey("احمد"));
+    expect(getOverridePatternKey("مشهد 12")).toBe(
+      getOverridePatternKey("مشهد ١٣")
+    );
+    expect(getOverridePatternKey("الأسطى محمود:")).toBe("الاسطي|short:");
+    expect(getOverridePatternKey("   ")).toBeNull();
+  });
+
+  it("applies exact corrections immediately and patterns after agreement", () => {
+    const overrides = new LearnedOverrides("doc-1");
+    overrides.record("الأسطى محمود", "character");
+
+    expect(overrides.lookup("الاسطى محمود:")).toEqual({
+      type: "character",
+      scope: "exact",
+    });
+    expect(overrides.lookup("الأسطى حسن")).toBeNull();
+
+    overrides.record("الأسطى سيد", "character");
+    expect(overrides.lookup("الأسطى حسن")).toEqual({
+      type: "character",
+      scope: "pattern",
+    });
+  });
+
+  it("ignores conflicting patterns and forgets reverted corrections", () => {
+    const overrides = new LearnedOverrides("doc-2");
+    overrides.record("يا سلام", "dialogue");
+    overrides.record("يا جماعة", "dialogue");
+    overrides.record("يا ليل", "action");
+    overrides.record("يا قمر", "action");
+    expect(overrides.lookup("يا صباح")).toBeNull();
+
+    overrides.forget("يا ليل", "action");
+    // لم تبق مطابقة تامة، والنمط صار بأغلبية الحوار.
+    expect(overrides.lookup("يا ليل")).toEqual({
+      type: "dialogue",
+      scope: "pattern",
+    });
+  });
+
+  it("persists per document", () => {
+    new LearnedOverrides("doc-3").record("منزل أحمد", "scene-header-3");
+
+    expect(new LearnedOverrides("doc-3").lookup("منزل أحمد")?.type).toBe(
+      "scene-header-3"
+    );
+    expect(new LearnedOverrides("doc-4").lookup("منزل أحمد")).toBeNull();
+  });
+
+  it("moves an unsaved session's table to the saved document id", () => {
+    new LearnedOverrides("unsaved-1").record("منزل أحمد", "scene-header-3");
+    new LearnedOverrides("unsaved-2").record("ظلام", "action");
+
+    moveLearnedOverrides("unsaved-1", "doc-saved");
+
+    expect(new LearnedOverrides("doc-saved").lookup("منزل أحمد")?.type).toBe(
+      "scene-header-3"
+    );
+    expect(new LearnedOverrides("doc-saved").lookup("ظلام")).toBeNull();
+    expect(new LearnedOverrides("unsaved-1").getExactCount()).toBe(0);
+    expect(new LearnedOverrides("unsaved-2").getExactCount()).toBe(1);
+  });
+
+  it("clears a discarded session's table without touching other documents", () => {
+    new LearnedOverrides("unsaved-discarded").record("منزل أحمد", "action");
+    new LearnedOverrides("doc-kept").record("منزل أحمد", "scene-header-3");
+
+    clearLearnedOverrides("unsaved-discarded");
+
+    expect(
+      localStorage.getItem("screenplay-learned-overrides:unsaved-discarded")
+    ).toBeNull();
+    expect(new LearnedOverrides("doc-kept").getExactCount()).toBe(1);
+  });
+
+  it("exports exact corrections with their original text for training", () => {
+    const overrides = new LearnedOverrides("doc-training");
+    overrides.record("  الأسطى محمود:  ", "character");
+    overrides.record("ظلام", "action");
+    overrides.forget("ظلام", "action");
+
+    expect(new LearnedOverrides("doc-training").exportForTraining()).toEqual([
+      { text: "الأسطى محمود:", label: "character" },
+    ]);
+
+    localStorage.setItem(
+      "screenplay-learned-overrides:doc-legacy",
+      JSON.stringify({ exact: { ظلام: "action" }, patterns: {} })
+    );
+    expect(new LearnedOverrides("doc-legacy").exportForTraining()).toEqual([
+      { text: "ظلام", label: "action" },
+    ]);
+  });
+
+  it("is consulted by the paste classifier before its heuristics", async () => {
+    const overrides = new LearnedOverrides("doc-paste");
+    overrides.record("يدخل أحمد الغرفة", "dialogue");
+
+    const editor = document.createElement("div");
+    editor.contentEditable = "true";
+    document.body.appendChild(editor);
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    range.collapse(false);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    const event = {
+      preventDefault: vi.fn(),
+      clipboardData: {
+        getData: (type: string) =>
+          type === "text/plain" ? "يدخل أحمد الغرفة" : "",
+      },
+    } as unknown as React.ClipboardEvent;
+
+    await handlePaste(event, { current: editor }, () => ({}), vi.fn(), {
+      sessionId: "learned-override",
+      learnedOverrides: overrides,
+    });
+
+    const line = editor.querySelector("div");
+    expect(line?.className).toBe("format-dialogue");
+    expect(line?.getAttribute("data-classified-as")).toBe("dialogue");
+    editor.remove();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * =========================
+ *  Learned Overrides - التصنيفات المتعلّمة من تصحيحات المستخدم
+ * =========================
+ *
+ * @description
+ * جدول تصحيحات خاص بكل مستند يرجع إليه مصنف اللصق قبل قواعده:
+ * - مطابقة السطر نفسه (exact): تصحيح واحد يكفي.
+ * - مطابقة النمط (pattern): أول كلمة (الأرقام مقنّعة) وطول السطر ونهايته
+ *   بنقطتين؛ يُطبَّق بعد تصحيحين متفقين على الأقل ولا يعارضهما أغلب التصحيحات.
+ *
+ * @stateManagement
+ * - Persistent: localStorage بمفتاح خاص بالمستند؛ المستند غير المحفوظ
+ *   يُعطى مفتاح جلسة يُنقل جدوله إلى معرّف المستند عند حفظه، ويُحذف إن
+ *   تُركت الجلسة دون حفظ
+ */
+
+import { loadJSON, safeRemoveItem, saveJSON } from "./storage";
+import { foldArabic, normalizeLine } from "./text-utils";
+
+export type LearnedOverrideScope = "exact" | "pattern";
+
+export interface LearnedOverrideMatch {
+  type: string;
+  scope: LearnedOverrideScope;
+}
+
+interface LearnedOverridesState {
+  /** مفتاح السطر ← النوع المصحَّح */
+  exact: Record<string, string>;
+  /** مفتاح السطر ← نصه كما صُحِّح (لتدريب المصنف التسلسلي) */
+  lines: Record<string, string>;
+  /** مفتاح النمط ← عدد التصحيحات لكل نوع */
+  patterns: Record<string, Record<string, number>>;
+}
+
+const STORAGE_KEY_PREFIX = "screenplay-learned-overrides";
+const PATTERN_MIN_CORRECTIONS = 2;
+const SHORT_LINE_MAX_WORDS = 4;
+
+/**
+ * مفتاح مطابقة السطر: بلا تشكيل أو نقطتين ختاميتين، وبمسافات موحّدة.
+ */
+export const getOverrideLineKey = (line: string): string =>
+  foldArabic(
+    normalizeLine(line)
+      .replace(/\s+/g, " ")
+      .replace(/[:：]\s*$/, "")
+      .trim()
+  );
+
+/**
+ * مفتاح نمط السطر، أو null للسطر الفارغ.
+ */
+export const getOverridePatternKey = (line: string): string | null => {
+  const normalized = normalizeLine(line).replace(/\s+/g, " ").trim();
+  const words = normalized.split(" ").filter(Boolean);
+  if (words.length === 0) return null;
+  const firstWord = foldArabic(words[0].replace(/[:：]$/, "")).replace(
+    /[0-9٠-٩]+/g,
+    "#"
+  );
+  const length = words.length <= SHORT_LINE_MAX_WORDS ? "short" : "long";
+  const colon = /[:：]$/.test(normalized) ? ":" : "";
+  return `${firstWord}|${length}${colon}`;
+};
+
+/**
+ * جدول التصنيفات المتعلّمة لمستند واحد
+ *
+ * @class LearnedOverrides
+ */
+export class LearnedOverrides {
+  private state: LearnedOverridesState = { exact: {}, lines: {}, patterns: {} };
+  private readonly storageKey: string;
+
+  constructor(documentKey: string = "default") {
+    this.storageKey = `${STORAGE_KEY_PREFIX}:${documentKey}`;
+    this.loadState();
+  }
+
+  /**
+   * تسجيل تصحيح المستخدم لنوع السطر.
+   */
+  record(line: string, correctedType: string): void {
+    const key = getOverrideLineKey(line);
+    if (!key) return;
+    this.state.exact[key] = correctedType;
+    this.state.lines[key] = line.trim();
+
+    const patternKey = getOverridePatternKey(line);
+    if (patternKey) {
+      const counts = (this.state.patterns[patternKey] ??= {});
+      counts[correctedType] = (counts[correctedType] ?? 0) + 1;
+    }
+    this.saveState();
+  }
+
+  /**
+   * التراجع عن تصحيح (عاد المستخدم إلى تصنيف المصنف الأصلي).
+   */
+  forget(line: string, correctedType: string): void {
+    const key = getOverrideLineKey(line);
+    delete this.state.exact[key];
+    delete this.state.lines[key];
+
+    const patternKey = getOverridePatternKey(line);
+    const counts = patternKey ? this.state.patterns[patternKey] : undefined;
+    if (patternKey && counts?.[correctedType]) {
+      counts[correctedType]--;
+      if (counts[correctedType] === 0) delete counts[correctedType];
+      if (Object.keys(counts).length === 0) {
+        delete this.state.patterns[patternKey];
+      }
+    }
+    this.saveState();
+  }
+
+  /**
+   * النوع المتعلَّم للسطر: المطابقة التامة أولاً ثم النمط.
+   */
+  lookup(line: string): LearnedOverrideMatch | null {
+    const exact = this.state.exact[getOverrideLineKey(line)];
+    if (exact) return { type: exact, scope: "exact" };
+
+    const patternKey = getOverridePatternKey(line);
+    const counts = patternKey ? this.state.patterns[patternKey] : undefined;
+    if (!counts) return null;
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const [type, count] = Object.entries(counts).sort(
+      (left, right) => right[1] - left[1]
+    )[0];
+    if (count < PATTERN_MIN_CORRECTIONS || count * 2 <= total) return null;
+    return { type, scope: "pattern" };
+  }
+
+  /**
+   * التصحيحات التامة كبيانات تدريب، لتهيئة المصنف التسلسلي عند فتح المستند.
+   */
+  exportForTraining(): { text: string; label: string }[] {
+    return Object.entries(this.state.exact).map(([key, label]) => ({
+      text: this.state.lines[key] ?? key,
+      label,
+    }));
+  }
+
+  getExactCount(): number {
+    return Object.keys(this.state.exact).length;
+  }
+
+  clear(): void {
+    this.state = { exact: {}, lines: {}, patterns: {} };
+    this.saveState();
+  }
+
+  private saveState(): void {
+    saveJSON(this.storageKey, this.state);
+  }
+
+  private loadState(): void {
+    const saved = loadJSON<LearnedOverridesState | null>(this.storageKey, null);
+    if (saved?.exact && saved.patterns) {
+      // الجداول المحفوظة قبل حفظ نصوص الأسطر تُدرَّب على مفاتيحها
+      this.state = { ...saved, lines: saved.lines ?? {} };
+    }
+  }
+}
+
+/**
+ * نقل جدول مستند إلى مفتاح آخر (مفتاح الجلسة ← معرّف المستند بعد حفظه).
+ */
+export const moveLearnedOverrides = (fromKey: string, toKey: string): void => {
+  if (fromKey === toKey) return;
+  const fromStorageKey = `${STORAGE_KEY_PREFIX}:${fromKey}`;
+  const saved = loadJSON<LearnedOverridesState | null>(fromStorageKey, null);
+  if (!saved) return;
+  saveJSON(`${STORAGE_KEY_PREFIX}:${toKey}`, saved);
+  safeRemoveItem(fromStorageKey);
+};
+
+/**
+ * حذف جدول مستند (جلسة غير محفوظة تُركت، أو مستند حُذف من مساحة العمل).
+ */
+export const clearLearnedOverrides = (documentKey: string): void => {
+  safeRemoveItem(`${STORAGE_KEY_PREFIX}:${documentKey}`);
+};
+
+export default LearnedOverrides;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import {
+  getBlockLayoutPreset,
+  getBlockTextWidth,
+  layoutScreenplayPages,
+  measureTextWidth,
+  PAGE_LAYOUT,
+  wrapBlockLines,
+  wrapTextToWidth,
+} from "./page-layout";
+
+const block = (
+  formatId: ScreenplayBlock["formatId"],
+  text: string
+): ScreenplayBlock => ({ formatId, text });
+
+/** عدد أسطر الكتل من نوع action التي تملأ صفحة كاملة بتباعدها */
+const ACTION_BLOCKS_PER_PAGE = Math.floor(
+  (PAGE_LAYOUT.pageHeight - PAGE_LAYOUT.margin * 2 + 6) /
+    (PAGE_LAYOUT.lineHeight + 6)
+);
+
+describe("page layout engine", () => {
+  it("measures text with the monospaced font metrics", () => {
+    const charWidth = (1086 * 12) / 2048;
+    expect(measureTextWidth("مرحبا")).toBeCloseTo(5 * charWidth);
+    expect(measureTextWidth("مَرحبًا")).toBeCloseTo(5 * charWidth);
+    expect(measureTextWidth("abc", 24)).toBeCloseTo(6 * charWidth);
+  });
+
+  it("wraps block text within the format column width", () => {
+    const dialogue = block("dialogue", "كلمة ".repeat(60));
+    const lines = wrapBlockLines(dialogue);
+    const width = getBlockTextWidth(getBlockLayoutPreset("dialogue"));
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(measureTextWidth(line)).toBeLessThanOrEqual(width);
+    }
+    expect(lines.join(" ")).toBe("كلمة ".repeat(60).trim());
+  });
+
+  it("breaks a word wider than the line", () => {
+    const word = "ا".repeat(30);
+    const lines = wrapTextToWidth(
+      `قصير ${word}`,
+      measureTextWidth("ا".repeat(12))
+    );
+
+    expect(lines).toEqual([
+      "قصير",
+      "ا".repeat(12),
+      "ا".repeat(12),
+      "ا".repeat(6),
+    ]);
+  });
+
+  it("starts a new page when a block does not fit", () => {
+    const blocks = Array.from({ length: ACTION_BLOCKS_PER_PAGE + 1 }, (_, i) =>
+      block("action", `سطر ${i}`)
+    );
+
+    const layout = layoutScreenplayPages(blocks);
+
+    expect(layout.pageCount).toBe(2);
+    expect(layout.blockPages.filter((page) => page === 0)).toHaveLength(
+      ACTION_BLOCKS_PER_PAGE
+    );
+    expect(layout.fragments[ACTION_BLOCKS_PER_PAGE].y).toBe(
+      PAGE_LAYOUT.pageHeight - PAGE_LAYOUT.margin
+    );
+  });
+
+  it("keeps a character with its first dialogue across page breaks", () => {
+    const blocks = [
+      ...Array.from({ length: ACTION_BLOCKS_PER_PAGE - 1 }, (_, i) =>
+        block("action", `سطر ${i}`)
+      ),
+      block("character", "أحمد:"),
+      block("dialogue", "مرحبا"),
+    ];
+
+    const layout = layoutScreenplayPages(blocks);
+
+    expect(layout.blockPages.slice(-2)).toEqual([1, 1]);
+  });
+
+  it("splits blocks longer than a full page", () => {
+    const longAction = block("action", "كلمة ".repeat(3000));
+
+    const layout = layoutScreenplayPages([longAction]);
+
+    expect(layout.pageCount).toBeGreaterThan(1);
+    expect(layout.fragments.map((fragment) => fragment.isBlockStart)).toEqual(
+      layout.fragments.map((_, index) => index === 0)
+    );
+    expect(
+      layout.fragments.reduce((sum, fragment) => sum + fragment.lines.length, 0)
+    ).toBe(wrapBlockLines(longAction).length);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * page-layout.ts - محرك تخطيط الصفحات الموحّد
+ * يحسب فواصل الأسطر والصفحات بشكل حتمي من مقاييس خط AzarMehrMonospaced
+ * وإعدادات كل تنسيق، ويستخدمه المحرر (فواصل الصفحات)، والإحصاءات
+ * (عدد الصفحات)، ومصدّرا PDF و DOCX، فتعني "الصفحة 37" الشيء نفسه في كل مكان.
+ */
+
+import type { ScreenplayBlock } from "./document-model";
+
+/** أبعاد صفحة A4 وشبكة الأسطر بالنقاط (pt) */
+export const PAGE_LAYOUT = {
+  pageWidth: 595.28,
+  pageHeight: 841.89,
+  margin: 56,
+  fontSize: 12,
+  lineHeight: 20,
+} as const;
+
+/**
+ * مقاييس AzarMehrMonospaced_Sans (Regular و Bold) من جدول hmtx في ملف TTF:
+ * كل المحارف بعرض واحد (1086 من 2048 وحدة em)، بما فيها أشكال الحروف
+ * العربية المتصلة؛ علامات التشكيل وعلامات الاتجاه بلا عرض.
+ */
+export const SCREENPLAY_FONT_METRICS = {
+  unitsPerEm: 2048,
+  advanceWidth: 1086,
+} as const;
+
+export type BlockLayoutPreset = {
+  alignment: "right" | "center" | "left";
+  bold?: boolean;
+  spacingBeforePt?: number;
+  spacingAfterPt?: number;
+  indentStartPt?: number;
+  indentEndPt?: number;
+  uppercase?: boolean;
+};
+
+export interface PageLayoutFragment {
+  /** موضع الكتلة في المصفوفة المُدخلة */
+  blockIndex: number;
+  /** رقم الصفحة بدءًا من 0 (دون صفحة العنوان) */
+  pageIndex: number;
+  /** خط الأساس للسطر الأول بإحداثيات PDF (من أسفل الصفحة) */
+  y: number;
+  lines: string[];
+  /** الجزء الأول من الكتلة (الكتل الأطول من صفحة تُقسَّم على أكثر من جزء) */
+  isBlockStart: boolean;
+}
+
+export interface ScreenplayPageLayout {
+  pageCount: number;
+  fragments: PageLayoutFragment[];
+  /** صفحة بداية كل كتلة بترتيب الكتل */
+  blockPages: number[];
+}
+
+const ZERO_WIDTH_RE =
+  /[\u064B-\u065F\u0670\u06D6-\u06ED\u200B-\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
+export const getBlockLayoutPreset = (
+  formatId: ScreenplayBlock["formatId"]
+): BlockLayoutPreset => {
+  switch (formatId) {
+    case "basmala":
+      return { alignment: "center", bold: true, spacingAfterPt: 10 };
+    case "scene-header-1":
+      return {
+        alignment: "right",
+        bold: true,
+        spacingBeforePt: 8,
+        spacingAfterPt: 6,
+        uppercase: true,
+      };
+    case "scene-header-2":
+      return { alignment: "right", spacingAfterPt: 4 };
+    case "scene-header-3":
+      return { alignment: "center", spacingAfterPt: 4 };
+    case "scene-header-top-line":
+      return { alignment: "right", spacingAfterPt: 6 };
+    case "character":
+      return {
+        alignment: "center",
+        bold: true,
+        spacingBeforePt: 8,
+        spacingAfterPt: 2,
+      };
+    case "dialogue":
+      return {
+        alignment: "right",
+        spacingAfterPt: 6,
+        indentStartPt: 28,
+        indentEndPt: 22,
+      };
+    case "parenthetical":
+      return { alignment: "center", spacingAfterPt: 4 };
+    case "transition":
+      return {
+        alignment: "left",
+        bold: true,
+        spacingBeforePt: 6,
+        spacingAfterPt: 6,
+      };
+    case "action":
+      return { alignment: "right", spacingAfterPt: 6 };
+    default:
+      return { alignment: "right", spacingAfterPt: 6 };
+  }
+};
+
+const normalizeLayoutText = (value: string): string =>
+  (value ?? "")
+    .replace(/\u00A0/g, " ")
+    .replace(/\r/g, "")
+    .trim();
+
+/**
+ * عرض النص بالنقاط وفق مقاييس الخط أحادي المسافة.
+ */
+export const measureTextWidth = (
+  text: string,
+  fontSize: number = PAGE_LAYOUT.fontSize
+): number => {
+  const visibleLength = Array.from(text.replace(ZERO_WIDTH_RE, "")).length;
+  return (
+    (visibleLength * SCREENPLAY_FONT_METRICS.advanceWidth * fontSize) /
+    SCREENPLAY_FONT_METRICS.unitsPerEm
+  );
+};
+
+/**
+ * تقطيع كلمة أعرض من السطر إلى أجزاء تسع العرض.
+ */
+const breakLongWord = (
+  word: string,
+  maxWidth: number,
+  fontSize: number
+): string[] => {
+  const parts: string[] = [];
+  let part = "";
+  for (const char of Array.from(word)) {
+    if (part && measureTextWidth(part + char, fontSize) > maxWidth) {
+      parts.push(part);
+      part = char;
+    } else {
+      part += char;
+    }
+  }
+  if (part) parts.push(part);
+  return parts;
+};
+
+/**
+ * تقسيم النص إلى أسطر على حدود الكلمات دون تجاوز العرض المتاح؛
+ * الكلمة الأعرض من السطر وحدها تُقطَّع.
+ */
+export const wrapTextToWidth = (
+  text: string,
+  maxWidth: number,
+  fontSize: number = PAGE_LAYOUT.fontSize
+): string[] => {
+  const words = normalizeLayoutText(text)
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((word) =>
+      measureTextWidth(word, fontSize) > maxWidth
+        ? breakLongWord(word, maxWidth, fontSize)
+        : [word]
+    );
+  if (words.length === 0) return [""];
+
+  const lines: string[] = [];
+  let current = words[0];
+  for (let i = 1; i < words.length; i++) {
+    const candidate = `${current} ${words[i]}`;
+    if (measureTextWidth(candidate, fontSize) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    lines.push(current);
+    current = words[i];
+  }
+  lines.push(current);
+  return lines;
+};
+
+/**
+ * عرض عمود النص المتاح للتنسيق بعد المسافات البادئة.
+ */
+export const getBlockTextWidth = (preset: BlockLayoutPreset): number =>
+  PAGE_LAYOUT.pageWidth -
+  PAGE_LAYOUT.margin * 2 -
+  Math.max(0, preset.indentStartPt ?? 0) -
+  Math.max(0, preset.indentEndPt ?? 0);
+
+/**
+ * أسطر الكتلة كما تُطبع (بعد التحويل للأحرف الكبيرة إن لزم).
+ */
+export const wrapBlockLines = (block: ScreenplayBlock): string[] => {
+  const preset = getBlockLayoutPreset(block.formatId);
+  const text = preset.uppercase
+    ? normalizeLayoutText(block.text).toUpperCase()
+    : normalizeLayoutText(block.text);
+  return wrapTextToWidth(text, getBlockTextWidth(preset));
+};
+
+/**
+ * الكتل التي لا تُفصل عن بعضها بفاصل صفحة: الشخصية مع ما يليها من
+ * توصيفات وأول حوار، وسطر عنوان المشهد الأول مع الثاني.
+ */
+const collectKeepTogetherGroups = (blocks: ScreenplayBlock[]): number[][] => {
+  const groups: number[][] = [];
+  for (let index = 0; index < blocks.length; index++) {
+    const group = [index];
+    const formatId = blocks[index].formatId;
+    if (formatId === "character") {
+      for (let next = index + 1; next < blocks.length; next++) {
+        const nextFormat = blocks[next].formatId;
+        if (nextFormat !== "dialogue" && nextFormat !== "parenthetical") break;
+        group.push(next);
+        if (nextFormat === "dialogue") break;
+      }
+    } else if (
+      formatId === "scene-header-1" &&
+      blocks[index + 1]?.formatId === "scene-header-2"
+    ) {
+      group.push(index + 1);
+    }
+    groups.push(group);
+    index = group[group.length - 1];
+  }
+  return groups;
+};
+
+/**
+ * تخطيط الكتل على صفحات A4: كل كتلة تبقى في صفحة واحدة ما لم تكن أطول
+ * من صفحة كاملة، ومجموعات الترابط تنتقل كاملة إلى الصفحة التالية.
+ */
+export const layoutScreenplayPages = (
+  blocks: ScreenplayBlock[]
+): ScreenplayPageLayout => {
+  const { pageHeight, margin, lineHeight } = PAGE_LAYOUT;
+  const top = pageHeight - margin;
+  const wrapped = blocks.map(wrapBlockLines);
+  const presets = blocks.map((block) => getBlockLayoutPreset(block.formatId));
+
+  const fragments: PageLayoutFragment[] = [];
+  const blockPages = new Array<number>(blocks.length).fill(0);
+  let pageIndex = 0;
+  let y = top;
+  let pageHasContent = false;
+
+  const newPage = () => {
+    pageIndex += 1;
+    y = top;
+    pageHasContent = false;
+  };
+
+  for (const group of collectKeepTogetherGroups(blocks)) {
+    const groupHeight = group.reduce(
+      (height, blockIndex, position) =>
+        height +
+        (presets[blockIndex].spacingBeforePt ?? 0) +
+        wrapped[blockIndex].length * lineHeight +
+        (position < group.length - 1
+          ? (presets[blockIndex].spacingAfterPt ?? 0)
+          : 0),
+      0
+    );
+    if (pageHasContent && y - groupHeight < margin) newPage();
+
+    for (const blockIndex of group) {
+      const preset = presets[blockIndex];
+      if (pageHasContent) y -= preset.spacingBeforePt ?? 0;
+
+      let remaining = wrapped[blockIndex];
+      let isBlockStart = true;
+      while (remaining.length > 0) {
+        const capacity = Math.floor((y - margin) / lineHeight);
+        if (isBlockStart && pageHasContent && capacity < remaining.length) {
+          newPage();
+          continue;
+        }
+        const count = Math.max(1, Math.min(capacity, remaining.length));
+        if (isBlockStart) blockPages[blockIndex] = pageIndex;
+        fragments.push({
+          blockIndex,
+          pageIndex,
+          y,
+          lines: remaining.slice(0, count),
+          isBlockStart,
+        });
+        remaining = remaining.slice(count);
+        y -= count * lineHeight;
+        pageHasContent = true;
+        isBlockStart = false;
+        if (remaining.length > 0) newPage();
+      }
+      y -= preset.spacingAfterPt ?? 0;
+    }
+  }
+
+  return { pageCount: pageIndex + 1, fragments, blockPages };
+};
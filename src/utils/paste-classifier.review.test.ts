@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type {
+  AgentReviewRequestPayload,
+  SuspiciousLineReview,
+} from "@/types/agent-review";
+import {
+  registerSuspicionDetector,
+  unregisterSuspicionDetector,
+} from "./classification-core";
+import { buildSuspiciousLineReviews } from "./paste-classifier";
+import { pasteIntoTestEditor } from "./paste-classifier.test-utils";
+
+const request: AgentReviewRequestPayload = {
+  sessionId: "session-1",
+  totalReviewed: 3,
+  suspiciousLines: [
+    {
+      itemIndex: 1,
+      lineIndex: 1,
+      text: "ظلام",
+      assignedType: "character",
+      totalSuspicion: 82,
+      reasons: ["اسم شخصية بلا حوار بعده"],
+      detectorIds: ["sequence-violation"],
+      contextLines: [],
+    },
+    {
+      itemIndex: 2,
+      lineIndex: 2,
+      text: "يجلس على الكرسي",
+      assignedType: "dialogue",
+      totalSuspicion: 76,
+      reasons: ["حوار يبدأ بفعل حركة"],
+      contextLines: [],
+    },
+  ],
+};
+
+describe("suspicious line reviews", () => {
+  afterEach(() => {
+    unregisterSuspicionDetector("test-flag-all");
+  });
+
+  it("attaches agent decisions without applying them", () => {
+    const reviews = buildSuspiciousLineReviews(
+      "paste-1",
+      request,
+      {
+        status: "applied",
+        model: "test",
+        decisions: [
+          {
+            itemIndex: 1,
+            finalType: "action",
+            confidence: 0.9,
+            reason: "وصف مكان",
+          },
+        ],
+        message: "",
+        latencyMs: 0,
+      },
+      ["action", "character", "action"]
+    );
+
+    expect(reviews.map((review) => review.id)).toEqual([
+      "paste-1:1",
+      "paste-1:2",
+    ]);
+    expect(reviews[0]).toMatchObject({
+      assignedType: "character",
+      suggestedType: "action",
+      agentConfidence: 0.9,
+      agentReason: "وصف مكان",
+    });
+    // النوع المعروض بعد التصحيح التلقائي يغلب نوع الطلب
+    expect(reviews[1]).toMatchObject({
+      assignedType: "action",
+      suggestedType: null,
+      agentConfidence: null,
+    });
+  });
+
+  it("ignores decisions from responses that were not applied", () => {
+    const [review] = buildSuspiciousLineReviews(
+      "paste-1",
+      request,
+      {
+        status: "warning",
+        model: "test",
+        decisions: [
+          { itemIndex: 1, finalType: "action", confidence: 1, reason: "" },
+        ],
+        message: "timeout",
+        latencyMs: 0,
+      },
+      []
+    );
+    expect(review.suggestedType).toBeNull();
+    expect(review.assignedType).toBe("character");
+  });
+
+  it("reports suspicious pasted lines to the review panel", async () => {
+    registerSuspicionDetector(
+      {
+        id: "test-flag-all",
+        label: "كل الأسطر",
+        detect: (line) => ({
+          detectorId: "test-flag-all",
+          suspicionScore: 95,
+          reason: `فحص ${line.text}`,
+          suggestedType: null,
+        }),
+      },
+      { enabledByDefault: false }
+    );
+
+    const text = "يدخل أحمد إلى الغرفة\nأحمد:\nصباح الخير";
+    const reported: SuspiciousLineReview[] = [];
+    const { editor } = await pasteIntoTestEditor(text, {
+      sessionId: "review-session",
+      reviewerConfig: {
+        enabledDetectors: new Set(["test-flag-all"]),
+        minSignalsForSuspicion: 1,
+        maxSuspicionRatio: 1,
+      },
+      onSuspiciousLines: (reviews) => reported.push(...reviews),
+    });
+
+    expect(reported.length).toBeGreaterThan(0);
+    expect(reported.map((review) => review.text)).toContain("صباح الخير");
+    expect(reported[0].detectorIds).toEqual(["test-flag-all"]);
+    expect(reported[0].suggestedType).toBeNull();
+    const flagged = editor.querySelector<HTMLElement>(
+      `[data-paste-batch="${reported[0].pasteBatchId}"][data-paste-index="${reported[0].itemIndex}"]`
+    );
+    expect(flagged?.getAttribute("data-suspicion-detectors")).toBe(
+      "test-flag-all"
+    );
+    expect(flagged?.title).toContain("كل الأسطر: فحص");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+import { SequenceLineClassifier } from "@/ml/sequence-classifier";
+import { pasteIntoTestEditor } from "./paste-classifier.test-utils";
+
+describe("paste with the sequence classifier", () => {
+  it("leaves lines that are empty without their bullets out of decoding", async () => {
+    const lines = [
+      "مشهد 4",
+      "داخلي - شقة هند - ليل",
+      "تجلس هند أمام التلفزيون",
+      "هند:",
+      "هو اتأخر ليه كده؟",
+    ];
+    const classifier = new SequenceLineClassifier();
+    const decode = vi.spyOn(classifier, "decode");
+
+    const { classifiedAs: classified } = await pasteIntoTestEditor(
+      lines.join("\n— —\n"),
+      { sessionId: "sequence-session", sequenceClassifier: classifier }
+    );
+
+    expect(decode).toHaveBeenCalledTimes(1);
+    const decodedTexts = decode.mock.calls[0][0];
+    expect(decodedTexts).not.toContain("");
+    expect(decodedTexts).toEqual(expect.arrayContaining(lines));
+    expect(classified.length).toBeGreaterThan(decodedTexts.length);
+    expect(classified).not.toContain("undefined");
+  });
+});
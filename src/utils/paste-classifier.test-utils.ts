@@ -0,0 +1,57 @@
+/**
+ * أداة اختبار مشتركة لمسار اللصق: تلصق النص في محرر مؤقت عبر handlePaste
+ * ثم تفصل المحرر عن المستند وتعيده مع ما صنّفه.
+ */
+
+import { htmlToScreenplayBlocks, type ScreenplayBlock } from "./document-model";
+import { handlePaste, type PasteOptions } from "./paste-classifier";
+
+export type PastedText = {
+  /** المحرر المؤقت بعد فصله عن المستند */
+  editor: HTMLDivElement;
+  blocks: ScreenplayBlock[];
+  /** قيمة data-classified-as لكل سطر صنّفه اللصق */
+  classifiedAs: string[];
+};
+
+export const pasteIntoTestEditor = async (
+  text: string,
+  options: PasteOptions = {}
+): Promise<PastedText> => {
+  const editor = document.createElement("div");
+  editor.contentEditable = "true";
+  document.body.appendChild(editor);
+
+  const selection = window.getSelection();
+  if (!selection) throw new Error("Selection unavailable");
+  const range = document.createRange();
+  range.selectNodeContents(editor);
+  range.collapse(false);
+  selection.removeAllRanges();
+  selection.addRange(range);
+
+  await handlePaste(
+    {
+      preventDefault: () => {},
+      clipboardData: {
+        getData: (type: string) => (type === "text/plain" ? text : ""),
+      },
+    } as unknown as Parameters<typeof handlePaste>[0],
+    { current: editor },
+    () => ({}),
+    () => {},
+    options
+  );
+  // المرحلة المؤجلة (التأكيدات والمراجعة) تكتمل في الدورة التالية
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  editor.remove();
+  return {
+    editor,
+    blocks: htmlToScreenplayBlocks(editor.innerHTML),
+    classifiedAs: Array.from(
+      editor.querySelectorAll<HTMLElement>("[data-classified-as]"),
+      (line) => line.getAttribute("data-classified-as") ?? ""
+    ),
+  };
+};
@@ -43,15 +43,24 @@ import {
 import {
   addLineRelation,
   createContextWindow,
+  getSuspicionDetectorLabel,
   PostClassificationReviewer,
   trackDialogueBlock as trackWindowDialogueBlock,
   updateConfidence as updateWindowConfidence,
 } from "./classification-core";
-import type { ClassifiedLine, HybridClassifier } from "./classification-core";
+import type {
+  ClassifiedLine,
+  HybridClassifier,
+  ReviewerConfig,
+} from "./classification-core";
 import type { FeedbackCollector } from "./feedback-collector";
+import type { LearnedOverrides } from "./learned-overrides";
+import type { SequenceLineClassifier } from "@/ml/sequence-classifier";
 import type {
   AgentReviewRequestPayload,
   AgentReviewResponsePayload,
+  AgentSuspiciousLinePayload,
+  SuspiciousLineReview,
 } from "@/types/agent-review";
 import type { LineType } from "@/types/screenplay";
 
@@ -104,7 +113,35 @@ type AgentAppliedCallback = (meta: {
   latencyMs: number;
 }) => void;
 type AgentSkippedCallback = (reason: string) => void;
+type SuspiciousLinesCallback = (reviews: SuspiciousLineReview[]) => void;
 type ImportSource = "clipboard" | "file-import";
+/** مصنف اللصق: قواعد سطرًا بسطر، أو النموذج التسلسلي على المستند كله */
+export type PasteClassifierMode = "heuristic" | "sequence";
+
+/** خيارات handlePaste؛ كلها اختيارية وقيمتها الافتراضية تعطيل الميزة */
+export type PasteOptions = {
+  memoryManager?: ContextMemoryManager | null;
+  /** false لتصنيف مؤقت لا تُسجَّل نتائجه في ذاكرة السياق (الافتراضي true) */
+  recordMemory?: boolean;
+  sessionId?: string;
+  hybridClassifier?: HybridClassifier | null;
+  feedbackCollector?: FeedbackCollector | null;
+  confirmationCallback?: ConfirmationCallback | null;
+  onPendingConfirmations?:
+    | ((pasteBatchId: string, pendingCount: number) => void)
+    | null;
+  onAgentWarning?: AgentWarningCallback | null;
+  onAgentApplied?: AgentAppliedCallback | null;
+  onAgentSkipped?: AgentSkippedCallback | null;
+  importSource?: ImportSource;
+  /** تصحيحات المستخدم المتعلّمة للمستند، تسبق كل القواعد */
+  learnedOverrides?: LearnedOverrides | null;
+  /** المصنف التسلسلي عند اختيار وضع "sequence" */
+  sequenceClassifier?: SequenceLineClassifier | null;
+  reviewerConfig?: Partial<ReviewerConfig>;
+  /** عند تمريره تُعرض الأسطر المشبوهة للمراجعة بدل تطبيق قرارات الوكيل */
+  onSuspiciousLines?: SuspiciousLinesCallback | null;
+};
 
 const extractPlainTextFromHtmlLikeLine = (line: string): string => {
   const raw = (line ?? "").trim();
@@ -194,6 +231,165 @@ const toClassifiedLineRecords = (
   return records;
 };
 
+type AgentReviewPreparation =
+  | { status: "ready"; request: AgentReviewRequestPayload }
+  | {
+      status: "skipped";
+      reason: "no-suspicious-lines" | "suspicious-filtered-out";
+    };
+
+/**
+ * تجهيز طلب مراجعة الوكيل من الأسطر المصنّفة: PostClassificationReviewer
+ * يختار الأسطر المشبوهة مع سياقها. مُصدَّر لمقيّم المصنفات ليمر بالمسار نفسه.
+ * reviewerConfig: إعدادات الكاشفات الخاصة بالمشروع (أوزان، عتبات، تفعيل).
+ */
+export const buildAgentReviewRequest = (
+  items: Array<{
+    line: string;
+    sceneHeaderParts?: { number: string; description: string } | null;
+  }>,
+  resolvedTypes: string[],
+  resolvedConfidences: number[],
+  sessionId: string,
+  reviewerConfig?: Partial<ReviewerConfig>
+): AgentReviewPreparation => {
+  const classifiedLines = toClassifiedLineRecords(
+    items,
+    resolvedTypes,
+    resolvedConfidences
+  );
+  const reviewer = new PostClassificationReviewer(reviewerConfig);
+  const reviewPacket = reviewer.review(classifiedLines);
+
+  if (reviewPacket.suspiciousLines.length === 0) {
+    return { status: "skipped", reason: "no-suspicious-lines" };
+  }
+
+  const suspiciousPayload = reviewPacket.suspiciousLines
+    .map((suspect) => {
+      const itemIndex = suspect.line.lineIndex;
+      const item = items[itemIndex];
+      if (!item) return null;
+      if (!isLineType(suspect.line.assignedType)) return null;
+
+      return {
+        itemIndex,
+        lineIndex: suspect.line.lineIndex,
+        text: item.line,
+        assignedType: suspect.line.assignedType,
+        totalSuspicion: suspect.totalSuspicion,
+        reasons: suspect.findings.map((f) => f.reason),
+        detectorIds: suspect.findings.map((f) => f.detectorId),
+        contextLines: suspect.contextLines
+          .filter((ctxLine) => isLineType(ctxLine.assignedType))
+          .map((ctxLine) => ({
+            lineIndex: ctxLine.lineIndex,
+            assignedType: ctxLine.assignedType,
+            text: ctxLine.text,
+          })),
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  if (suspiciousPayload.length === 0) {
+    return { status: "skipped", reason: "suspicious-filtered-out" };
+  }
+
+  return {
+    status: "ready",
+    request: {
+      sessionId,
+      totalReviewed: reviewPacket.totalReviewed,
+      suspiciousLines: suspiciousPayload,
+    },
+  };
+};
+
+/**
+ * تطبيق قرارات الوكيل على الأنواع والثقة (في مكانها)؛ يرجع عدد الأسطر المتغيرة.
+ */
+export const applyAgentReviewDecisions = (
+  response: AgentReviewResponsePayload,
+  resolvedTypes: string[],
+  resolvedConfidences: number[]
+): number => {
+  let appliedCount = 0;
+  for (const decision of response.decisions) {
+    const idx = decision.itemIndex;
+    if (idx < 0 || idx >= resolvedTypes.length) continue;
+    if (!isLineType(decision.finalType)) continue;
+    if (resolvedTypes[idx] === decision.finalType) continue;
+    resolvedTypes[idx] = decision.finalType;
+    resolvedConfidences[idx] = Math.max(
+      85,
+      Math.round((decision.confidence ?? 0.9) * 100)
+    );
+    appliedCount += 1;
+  }
+  return appliedCount;
+};
+
+/**
+ * تعليم السطر المشتبه فيه بالكاشفات التي رفعت الاشتباه (معرّفات + تلميح بالأسباب).
+ */
+const markSuspiciousLine = (
+  element: HTMLElement,
+  suspect: AgentSuspiciousLinePayload | undefined
+): void => {
+  if (!suspect) {
+    element.removeAttribute("data-suspicion-detectors");
+    element.removeAttribute("title");
+    return;
+  }
+  const detectorIds = suspect.detectorIds ?? [];
+  element.setAttribute("data-suspicion-detectors", detectorIds.join(" "));
+  element.setAttribute(
+    "title",
+    [
+      `اشتباه ${suspect.totalSuspicion}%`,
+      ...suspect.reasons.map((reason, index) =>
+        detectorIds[index]
+          ? `${getSuspicionDetectorLabel(detectorIds[index])}: ${reason}`
+          : reason
+      ),
+    ].join("\n")
+  );
+};
+
+/**
+ * أسطر لوحة المراجعة: الأسطر المشتبه فيها مع قرار الوكيل المقترح دون تطبيقه.
+ * assignedType هو النوع المعروض فعلاً في المحرر (بعد التصحيح التلقائي).
+ */
+export const buildSuspiciousLineReviews = (
+  pasteBatchId: string,
+  request: AgentReviewRequestPayload,
+  response: AgentReviewResponsePayload | null,
+  displayedTypes: readonly (string | undefined)[]
+): SuspiciousLineReview[] => {
+  const decisions = new Map(
+    (response?.status === "applied" ? response.decisions : []).map(
+      (decision) => [decision.itemIndex, decision]
+    )
+  );
+  return request.suspiciousLines.map((suspect) => {
+    const decision = decisions.get(suspect.itemIndex);
+    const displayedType = displayedTypes[suspect.itemIndex];
+    return {
+      ...suspect,
+      assignedType:
+        displayedType && isLineType(displayedType)
+          ? displayedType
+          : suspect.assignedType,
+      id: `${pasteBatchId}:${suspect.itemIndex}`,
+      pasteBatchId,
+      suggestedType:
+        decision && isLineType(decision.finalType) ? decision.finalType : null,
+      agentConfidence: decision?.confidence ?? null,
+      agentReason: decision?.reason ?? null,
+    };
+  });
+};
+
 const requestAgentReview = async (
   request: AgentReviewRequestPayload,
   sessionId: string
@@ -2069,19 +2265,25 @@ export const handlePaste = async (
     font: string
   ) => React.CSSProperties,
   updateContentFn: () => void,
-  memoryManager: ContextMemoryManager | null = null,
-  sessionId: string = `session-${Date.now()}`,
-  hybridClassifier: HybridClassifier | null = null,
-  feedbackCollector: FeedbackCollector | null = null,
-  confirmationCallback: ConfirmationCallback | null = null,
-  onPendingConfirmations:
-    | ((pasteBatchId: string, pendingCount: number) => void)
-    | null = null,
-  onAgentWarning: AgentWarningCallback | null = null,
-  onAgentApplied: AgentAppliedCallback | null = null,
-  onAgentSkipped: AgentSkippedCallback | null = null,
-  importSource: ImportSource = "clipboard"
+  options: PasteOptions = {}
 ): Promise<void> => {
+  const {
+    memoryManager = null,
+    recordMemory = true,
+    sessionId = `session-${Date.now()}`,
+    hybridClassifier = null,
+    feedbackCollector = null,
+    confirmationCallback = null,
+    onPendingConfirmations = null,
+    onAgentWarning = null,
+    onAgentApplied = null,
+    onAgentSkipped = null,
+    importSource = "clipboard",
+    learnedOverrides = null,
+    sequenceClassifier = null,
+    reviewerConfig,
+    onSuspiciousLines = null,
+  } = options;
   e.preventDefault();
 
   const previousAgentController = pendingAgentAbortControllers.get(sessionId);
@@ -2323,6 +2525,31 @@ export const handlePaste = async (
 
   logger.info(`بدء معالجة ${lines.length} سطر...`, { component: "Processing" });
 
+  // المصنف التسلسلي (عند اختياره) يفك ترميز المستند كله دفعة واحدة،
+  // ويحل ناتجه محل قواعد التصنيف سطرًا بسطر. الأسطر الفارغة بعد إزالة
+  // التعداد (فواصل مثل "— —") ليست من التسلسل الذي تعلّمه فتبقى للقواعد.
+  const sequenceDecoded = new Map<
+    number,
+    { type: string; confidence: number }
+  >();
+  if (sequenceClassifier) {
+    const decodedLineIndexes: number[] = [];
+    const decodedTexts: string[] = [];
+    lines.forEach((line, index) => {
+      const text = parseBulletLine(line.trim()).text;
+      if (!text) return;
+      decodedLineIndexes.push(index);
+      decodedTexts.push(text);
+    });
+    const decoded = sequenceClassifier.decode(decodedTexts);
+    decodedLineIndexes.forEach((lineIndex, position) => {
+      sequenceDecoded.set(lineIndex, {
+        type: decoded.types[position],
+        confidence: decoded.confidences[position],
+      });
+    });
+  }
+
   for (let i = 0; i < lines.length; i++) {
     const trimmedLine = lines[i].trim();
     if (!trimmedLine) continue;
@@ -2331,6 +2558,23 @@ export const handlePaste = async (
     const strippedLine = bulletParsed.text;
     const ctx = buildContext(lines, i, provisionalTypes);
 
+    // تصحيحات المستخدم المتعلّمة لهذا المستند تسبق كل القواعد.
+    const learned = learnedOverrides?.lookup(strippedLine);
+    if (learned) {
+      collectedItems.push({
+        sourceLineIndex: i,
+        line: strippedLine,
+        ctx,
+        classification: learned.type,
+        confidence: 100,
+        needsConfirmation: false,
+        skipAutoFix: true,
+        skipColonFix: false,
+      });
+      provisionalTypes.push(learned.type);
+      continue;
+    }
+
     const actionPrefixed = splitActionPrefixedCharacter(strippedLine);
     if (actionPrefixed) {
       collectedItems.push({
@@ -2414,7 +2658,18 @@ export const handlePaste = async (
     let needsConfirmation = false;
     let suggestedType: string | undefined;
 
-    if (
+    const sequenceLine = sequenceDecoded.get(i);
+
+    if (sequenceLine) {
+      classification = sequenceLine.type;
+      hybridConfidence = sequenceLine.confidence;
+      if (
+        classification === "scene-header-1" &&
+        splitSceneHeader(strippedLine)?.description
+      ) {
+        classification = "scene-header-top-line";
+      }
+    } else if (
       HYBRID_AND_ML_ENABLED &&
       hybridClassifier &&
       hybridClassifier.isReady()
@@ -2474,15 +2729,13 @@ export const handlePaste = async (
       needsConfirmation,
       suggestedType,
       sceneHeaderParts: null,
-      skipAutoFix: false,
+      skipAutoFix: Boolean(sequenceLine),
       skipColonFix: false,
     });
 
-    const provisionalFormatClass = autoFixClassification(
-      strippedLine,
-      ctx,
-      classification
-    );
+    const provisionalFormatClass = sequenceLine
+      ? classification
+      : autoFixClassification(strippedLine, ctx, classification);
 
     provisionalTypes.push(provisionalFormatClass);
   }
@@ -2499,8 +2752,7 @@ export const handlePaste = async (
   for (let itemIndex = 0; itemIndex < collectedItems.length; itemIndex++) {
     const item = collectedItems[itemIndex];
     const resolvedType = resolvedTypes[itemIndex];
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const _resolvedConfidence = resolvedConfidences[itemIndex];
+    const resolvedConfidence = resolvedConfidences[itemIndex];
 
     if (item.sceneHeaderParts) {
       const parts = item.sceneHeaderParts;
@@ -2583,6 +2835,9 @@ export const handlePaste = async (
       {
         "data-paste-batch": pasteBatchId,
         "data-paste-index": String(itemIndex),
+        // أساس التقاط التصحيح إن غيّر المستخدم تنسيق السطر لاحقًا.
+        "data-classified-as": formatClass,
+        "data-classified-confidence": String(Math.round(resolvedConfidence)),
       }
     );
     formattedHTML += lineHTML;
@@ -2694,89 +2949,62 @@ export const handlePaste = async (
       }
     }
 
-    const classifiedLines = toClassifiedLineRecords(
+    const agentReview = buildAgentReviewRequest(
       collectedItems,
       finalResolvedTypes,
-      finalResolvedConfidences
+      finalResolvedConfidences,
+      sessionId,
+      reviewerConfig
+    );
+    const suspiciousByItem = new Map(
+      agentReview.status === "ready"
+        ? agentReview.request.suspiciousLines.map((suspect) => [
+            suspect.itemIndex,
+            suspect,
+          ])
+        : []
     );
-    const reviewer = new PostClassificationReviewer();
-    const reviewPacket = reviewer.review(classifiedLines);
+    // مع لوحة المراجعة لا تُطبَّق قرارات الوكيل تلقائياً بل تُعرض للكاتب
+    let pendingAgentResponse: AgentReviewResponsePayload | null = null;
 
-    if (reviewPacket.suspiciousLines.length === 0) {
-      onAgentSkipped?.("no-suspicious-lines");
+    if (agentReview.status === "skipped") {
+      onAgentSkipped?.(agentReview.reason);
     } else {
-      const suspiciousPayload = reviewPacket.suspiciousLines
-        .map((suspect) => {
-          const itemIndex = suspect.line.lineIndex;
-          const item = collectedItems[itemIndex];
-          if (!item) return null;
-          if (!isLineType(suspect.line.assignedType)) return null;
-
-          return {
-            itemIndex,
-            lineIndex: suspect.line.lineIndex,
-            text: item.line,
-            assignedType: suspect.line.assignedType,
-            totalSuspicion: suspect.totalSuspicion,
-            reasons: suspect.findings.map((f) => f.reason),
-            contextLines: suspect.contextLines
-              .filter((ctxLine) => isLineType(ctxLine.assignedType))
-              .map((ctxLine) => ({
-                lineIndex: ctxLine.lineIndex,
-                assignedType: ctxLine.assignedType,
-                text: ctxLine.text,
-              })),
-          };
-        })
-        .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
-
-      if (suspiciousPayload.length === 0) {
-        onAgentSkipped?.("suspicious-filtered-out");
-      } else {
-        const agentRequest: AgentReviewRequestPayload = {
-          sessionId,
-          totalReviewed: reviewPacket.totalReviewed,
-          suspiciousLines: suspiciousPayload,
-        };
-
-        const agentResponse = await requestAgentReview(agentRequest, sessionId);
-        if (agentResponse.status === "warning") {
-          onAgentWarning?.(agentResponse.message);
-          onAgentSkipped?.("warning");
-        } else if (agentResponse.status === "error") {
-          onAgentWarning?.(agentResponse.message);
-          onAgentSkipped?.("error");
-        } else if (agentResponse.status === "applied") {
-          let appliedCount = 0;
-          for (const decision of agentResponse.decisions) {
-            const idx = decision.itemIndex;
-            if (idx < 0 || idx >= finalResolvedTypes.length) continue;
-            if (!isLineType(decision.finalType)) continue;
-            if (finalResolvedTypes[idx] === decision.finalType) continue;
-            finalResolvedTypes[idx] = decision.finalType;
-            finalResolvedConfidences[idx] = Math.max(
-              85,
-              Math.round((decision.confidence ?? 0.9) * 100)
-            );
-            appliedCount += 1;
-          }
+      const agentResponse = await requestAgentReview(
+        agentReview.request,
+        sessionId
+      );
+      if (agentResponse.status === "warning") {
+        onAgentWarning?.(agentResponse.message);
+        onAgentSkipped?.("warning");
+      } else if (agentResponse.status === "error") {
+        onAgentWarning?.(agentResponse.message);
+        onAgentSkipped?.("error");
+      } else if (agentResponse.status === "applied" && onSuspiciousLines) {
+        pendingAgentResponse = agentResponse;
+      } else if (agentResponse.status === "applied") {
+        const appliedCount = applyAgentReviewDecisions(
+          agentResponse,
+          finalResolvedTypes,
+          finalResolvedConfidences
+        );
 
-          if (appliedCount > 0) {
-            onAgentApplied?.({
-              appliedCount,
-              model: agentResponse.model,
-              latencyMs: agentResponse.latencyMs,
-            });
-          } else {
-            onAgentSkipped?.("applied-without-diff");
-          }
+        if (appliedCount > 0) {
+          onAgentApplied?.({
+            appliedCount,
+            model: agentResponse.model,
+            latencyMs: agentResponse.latencyMs,
+          });
         } else {
-          onAgentSkipped?.("skipped");
+          onAgentSkipped?.("applied-without-diff");
         }
+      } else {
+        onAgentSkipped?.("skipped");
       }
     }
 
     const domTypes: string[] = [];
+    const displayedTypes: string[] = [];
     let domPreviousFormat = "action";
 
     for (let itemIndex = 0; itemIndex < collectedItems.length; itemIndex++) {
@@ -2817,16 +3045,30 @@ export const handlePaste = async (
 
       el.className = `format-${formatClass}`;
       el.setAttribute("style", cssObjectToString(finalStyles));
+      el.setAttribute("data-classified-as", formatClass);
       el.textContent = cleanLine;
+      markSuspiciousLine(el, suspiciousByItem.get(itemIndex));
 
+      displayedTypes[itemIndex] = formatClass;
       domTypes.push(formatClass);
       domPreviousFormat = formatClass;
     }
 
     updateContentFn();
 
+    if (onSuspiciousLines && agentReview.status === "ready") {
+      onSuspiciousLines(
+        buildSuspiciousLineReviews(
+          pasteBatchId,
+          agentReview.request,
+          pendingAgentResponse,
+          displayedTypes
+        )
+      );
+    }
+
     // تحديث الذاكرة بعد التأكيدات (أو بدونها) بناءً على الأنواع النهائية
-    if (memoryManager) {
+    if (memoryManager && recordMemory) {
       classificationRecords.length = 0;
       dialogueBlocksToTrack.length = 0;
       contextWindow = createContextWindow();
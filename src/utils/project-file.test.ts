@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createPayloadFromBlocks,
+  type ScreenplayBlock,
+} from "./document-model";
+import {
+  appendProjectRevision,
+  createProjectFromBlocks,
+  DEFAULT_EDITOR_SETTINGS,
+  FILMLANE_PROJECT_VERSION,
+  migrateProject,
+  parseProjectFile,
+  serializeProject,
+} from "./project-file";
+
+const BLOCKS: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "scene-header-2", text: "داخلي - ليل" },
+  { formatId: "scene-header-3", text: "منزل أحمد" },
+  { formatId: "character", text: "أحمد:" },
+  { formatId: "dialogue", text: "مرحبا" },
+  { formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "scene-header-3", text: "منزل أحمد" },
+  { formatId: "character", text: "أحمد:" },
+  { formatId: "dialogue", text: "وداعا" },
+  { formatId: "character", text: "سارة:" },
+  { formatId: "dialogue", text: "إلى اللقاء" },
+];
+
+describe("createProjectFromBlocks", () => {
+  it("collects characters and locations per scene", () => {
+    const project = createProjectFromBlocks(BLOCKS);
+
+    expect(project.version).toBe(FILMLANE_PROJECT_VERSION);
+    expect(project.characters).toEqual([
+      { name: "أحمد", dialogueCount: 2, scenes: [1, 2] },
+      { name: "سارة", dialogueCount: 1, scenes: [2] },
+    ]);
+    expect(project.locations).toEqual([{ name: "منزل أحمد", scenes: [1, 2] }]);
+  });
+
+  it("keeps notes, revisions and descriptions from the previous project", () => {
+    const first = appendProjectRevision(
+      createProjectFromBlocks(BLOCKS, {
+        titlePage: { title: "الرحلة", author: "سارة" },
+        notes: [{ id: "n1", text: "راجع الحوار", createdAt: "2026-01-01" }],
+      }),
+      "المسودة الأولى"
+    );
+    first.characters[0].description = "بطل القصة";
+
+    const second = createProjectFromBlocks(BLOCKS.slice(0, 5), {
+      previous: first,
+    });
+
+    expect(second.titlePage).toEqual({ title: "الرحلة", author: "سارة" });
+    expect(second.notes).toHaveLength(1);
+    expect(second.revisions.map((revision) => revision.label)).toEqual([
+      "المسودة الأولى",
+    ]);
+    expect(second.characters).toEqual([
+      {
+        name: "أحمد",
+        dialogueCount: 1,
+        scenes: [1],
+        description: "بطل القصة",
+      },
+    ]);
+    expect(second.createdAt).toBe(first.createdAt);
+  });
+
+  it("stores the editor settings passed at save time", () => {
+    const previous = createProjectFromBlocks(BLOCKS);
+    const settings = {
+      ...DEFAULT_EDITOR_SETTINGS,
+      fontSize: "14pt",
+      autoSaveInterval: 60,
+    };
+
+    const project = createProjectFromBlocks(BLOCKS, { previous, settings });
+
+    expect(project.settings).toEqual(settings);
+    expect(project.payload.size).toBe("14pt");
+  });
+});
+
+describe("project file serialization", () => {
+  it("round-trips through the gzipped file format", async () => {
+    const project = createProjectFromBlocks(BLOCKS, {
+      titlePage: { title: "الرحلة", author: "سارة" },
+    });
+
+    const bytes = await serializeProject(project);
+    expect(Array.from(bytes.slice(0, 2))).toEqual([0x1f, 0x8b]);
+
+    const restored = await parseProjectFile(bytes);
+    expect(restored).toEqual(project);
+  });
+
+  it("keeps per-project reviewer settings and drops invalid values", () => {
+    const project = createProjectFromBlocks(BLOCKS);
+    const restored = migrateProject({
+      ...project,
+      reviewer: {
+        disabledDetectors: ["confidence-drop", 3],
+        detectorWeights: { "sequence-violation": 1.5, broken: "x" },
+        suspicionThreshold: 60,
+      },
+    });
+
+    expect(restored.reviewer).toEqual({
+      disabledDetectors: ["confidence-drop"],
+      detectorWeights: { "sequence-violation": 1.5 },
+      suspicionThreshold: 60,
+    });
+    expect(
+      createProjectFromBlocks(BLOCKS, { previous: restored }).reviewer
+    ).toEqual(restored.reviewer);
+  });
+
+  it("rejects corrupted payloads", async () => {
+    const project = createProjectFromBlocks(BLOCKS);
+    const tampered = {
+      ...project,
+      payload: { ...project.payload, checksum: "00000000" },
+    };
+
+    await expect(
+      parseProjectFile(new TextEncoder().encode(JSON.stringify(tampered)))
+    ).rejects.toThrow("تالف");
+  });
+});
+
+describe("migrateProject", () => {
+  it("imports a bare screenplay payload as a new project", () => {
+    const payload = createPayloadFromBlocks(BLOCKS, {
+      createdAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    const project = migrateProject(payload);
+
+    expect(project.version).toBe(FILMLANE_PROJECT_VERSION);
+    expect(project.payload).toEqual(payload);
+    expect(project.titlePage).toBeNull();
+    expect(project.createdAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(project.characters.map((character) => character.name)).toEqual([
+      "أحمد",
+      "سارة",
+    ]);
+  });
+
+  it("refuses files from a newer version", () => {
+    expect(() =>
+      migrateProject({ format: "filmlane-project", version: 99 })
+    ).toThrow("إصدار أحدث");
+  });
+});
@@ -0,0 +1,517 @@
+/**
+ * project-file.ts - صيغة مشروع Filmlane الأصلية (.filmlane)
+ * ملف JSON مضغوط (gzip) مبني على ScreenplayPayload ويحمل بيانات المشروع:
+ * صفحة العنوان، إعدادات المحرر، الشخصيات والأماكن، الملاحظات وسجل المراجعات.
+ *
+ * الإصدارات القديمة تُرقّى عبر PROJECT_MIGRATIONS خطوة بخطوة حتى
+ * FILMLANE_PROJECT_VERSION عند الفتح.
+ */
+
+import type {
+  CharacterInfo,
+  EditorSettings,
+  LocationInfo,
+  TitlePageInfo,
+} from "@/types/screenplay";
+import { getCharacterKey, getCueName } from "./character-stats";
+import type { ReviewerProjectSettings } from "./classification-core";
+import {
+  createPayloadFromBlocks,
+  decodeScreenplayPayload,
+  encodeScreenplayPayload,
+  isSceneStart,
+  normalizeTitlePage,
+  type ScreenplayBlock,
+  type ScreenplayPayload,
+} from "./document-model";
+import {
+  REVISION_COLORS,
+  type RevisionColorId,
+  type RevisionModeState,
+  type RevisionSet,
+} from "./revision-mode";
+
+export const FILMLANE_PROJECT_FORMAT = "filmlane-project" as const;
+export const FILMLANE_PROJECT_VERSION = 2 as const;
+export const FILMLANE_PROJECT_EXTENSION = ".filmlane" as const;
+export const FILMLANE_PROJECT_MIME_TYPE = "application/x-filmlane+gzip";
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+  font: "AzarMehrMonospaced-San",
+  fontSize: "12pt",
+  lineHeight: "1.5",
+  autoSave: true,
+  autoSaveInterval: 30,
+  spellCheck: true,
+  showPageNumbers: true,
+  theme: "dark",
+  language: "ar",
+};
+
+/** ملاحظة مرتبطة بالمشروع أو بكتلة محددة */
+export interface ProjectNote {
+  id: string;
+  text: string;
+  /** فهرس الكتلة المرتبطة (اختياري) */
+  blockIndex?: number;
+  createdAt: string;
+}
+
+/** نسخة محفوظة من السيناريو ضمن سجل المراجعات */
+export interface ProjectRevision {
+  id: string;
+  label: string;
+  author?: string;
+  /** لقطة تلقائية دورية (تُحذف أقدمها عند تجاوز الحد) */
+  auto?: boolean;
+  createdAt: string;
+  payload: ScreenplayPayload;
+}
+
+export interface FilmlaneProjectV2 {
+  format: typeof FILMLANE_PROJECT_FORMAT;
+  version: 2;
+  payload: ScreenplayPayload;
+  titlePage: TitlePageInfo | null;
+  settings: EditorSettings;
+  characters: CharacterInfo[];
+  locations: LocationInfo[];
+  notes: ProjectNote[];
+  revisions: ProjectRevision[];
+  /** وضع المراجعات الإنتاجية الملونة إن كان مفعّلًا */
+  revisionMode?: RevisionModeState | null;
+  /** إعدادات كاشفات الاشتباه الخاصة بالمشروع (تفعيل، أوزان، عتبات) */
+  reviewer?: ReviewerProjectSettings | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** الإصدار الحالي من مشروع Filmlane */
+export type FilmlaneProject = FilmlaneProjectV2;
+
+type RawProject = Record<string, unknown>;
+type ProjectMigration = (raw: RawProject) => RawProject;
+
+const GZIP_MAGIC = [0x1f, 0x8b] as const;
+
+/**
+ * ترقيات الإصدارات: المفتاح هو الإصدار المصدر، والناتج هو الإصدار التالي.
+ * لا ترقيات بعد؛ الإصدار 2 هو أول صيغة لملف المشروع.
+ */
+const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {};
+
+/** payload سيناريو مجرد (JSON بلا غلاف المشروع) */
+const isLegacyPayload = (raw: RawProject): boolean =>
+  raw.format === undefined &&
+  Array.isArray(raw.blocks) &&
+  typeof raw.checksum === "string";
+
+/**
+ * استيراد payload مجرد بتغليفه في مشروع بالإصدار الحالي؛ هذا استيراد
+ * لصيغة أقدم من ملفات المشروع وليس ترقية من إصدار مشروع سابق.
+ */
+const wrapLegacyPayload = (raw: RawProject): RawProject => {
+  const createdAt =
+    typeof raw.createdAt === "string"
+      ? raw.createdAt
+      : new Date().toISOString();
+  return {
+    format: FILMLANE_PROJECT_FORMAT,
+    version: FILMLANE_PROJECT_VERSION,
+    payload: raw,
+    titlePage: null,
+    settings: DEFAULT_EDITOR_SETTINGS,
+    characters: [],
+    locations: [],
+    notes: [],
+    revisions: [],
+    createdAt,
+    updatedAt: createdAt,
+  };
+};
+
+export const createProjectId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is RawProject =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * يجمع الشخصيات من كتل السيناريو مع عدد الحوارات والمشاهد،
+ * ويحافظ على أوصاف الشخصيات المحفوظة سابقًا. صيغ الاسم التي لا تختلف
+ * إلا في الهمزات أو التاء المربوطة شخصية واحدة (getCharacterKey) باسم
+ * أول ظهور لها.
+ */
+export const collectCharacters = (
+  blocks: ScreenplayBlock[],
+  previous: CharacterInfo[] = []
+): CharacterInfo[] => {
+  const descriptions = new Map(
+    previous.map((character) => [
+      getCharacterKey(character.name),
+      character.description,
+    ])
+  );
+  const byKey = new Map<string, CharacterInfo>();
+  let sceneNumber = 0;
+
+  for (const block of blocks) {
+    if (isSceneStart(block)) {
+      sceneNumber++;
+      continue;
+    }
+    if (block.formatId !== "character") continue;
+
+    const name = getCueName(block.text);
+    if (!name) continue;
+    const key = getCharacterKey(name);
+
+    let character = byKey.get(key);
+    if (!character) {
+      character = { name, dialogueCount: 0, scenes: [] };
+      const description = descriptions.get(key);
+      if (description) character.description = description;
+      byKey.set(key, character);
+    }
+    character.dialogueCount++;
+    if (sceneNumber > 0 && !character.scenes.includes(sceneNumber)) {
+      character.scenes.push(sceneNumber);
+    }
+  }
+
+  return Array.from(byKey.values());
+};
+
+/**
+ * يجمع الأماكن من scene-header-3 مع أرقام المشاهد التي تدور فيها.
+ */
+export const collectLocations = (
+  blocks: ScreenplayBlock[],
+  previous: LocationInfo[] = []
+): LocationInfo[] => {
+  const descriptions = new Map(
+    previous.map((location) => [location.name, location.description])
+  );
+  const byName = new Map<string, LocationInfo>();
+  let sceneNumber = 0;
+
+  for (const block of blocks) {
+    if (isSceneStart(block)) {
+      sceneNumber++;
+      continue;
+    }
+    if (block.formatId !== "scene-header-3") continue;
+
+    const name = block.text.replace(/\s+/g, " ").trim();
+    if (!name) continue;
+
+    let location = byName.get(name);
+    if (!location) {
+      location = { name, scenes: [] };
+      const description = descriptions.get(name);
+      if (description) location.description = description;
+      byName.set(name, location);
+    }
+    if (sceneNumber > 0 && !location.scenes.includes(sceneNumber)) {
+      location.scenes.push(sceneNumber);
+    }
+  }
+
+  return Array.from(byName.values());
+};
+
+/**
+ * بناء مشروع من كتل المحرر الحالية مع الإبقاء على بيانات المشروع السابق
+ * (الملاحظات، المراجعات، أوصاف الشخصيات والأماكن).
+ */
+export const createProjectFromBlocks = (
+  blocks: ScreenplayBlock[],
+  options: {
+    previous?: FilmlaneProject | null;
+    titlePage?: TitlePageInfo | null;
+    settings?: EditorSettings;
+    notes?: ProjectNote[];
+    revisionMode?: RevisionModeState | null;
+  } = {}
+): FilmlaneProject => {
+  const previous = options.previous ?? null;
+  const now = new Date().toISOString();
+  const settings =
+    options.settings ?? previous?.settings ?? DEFAULT_EDITOR_SETTINGS;
+  const titlePage = normalizeTitlePage(
+    options.titlePage !== undefined ? options.titlePage : previous?.titlePage
+  );
+  const payload = createPayloadFromBlocks(blocks, {
+    font: settings.font,
+    size: settings.fontSize,
+    createdAt: now,
+    titlePage,
+  });
+
+  return {
+    format: FILMLANE_PROJECT_FORMAT,
+    version: FILMLANE_PROJECT_VERSION,
+    payload,
+    titlePage,
+    settings,
+    characters: collectCharacters(payload.blocks, previous?.characters),
+    locations: collectLocations(payload.blocks, previous?.locations),
+    notes: options.notes ?? previous?.notes ?? [],
+    revisions: previous?.revisions ?? [],
+    revisionMode:
+      options.revisionMode !== undefined
+        ? options.revisionMode
+        : (previous?.revisionMode ?? null),
+    reviewer: previous?.reviewer ?? null,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * إضافة لقطة من السيناريو الحالي إلى سجل المراجعات.
+ */
+export const appendProjectRevision = (
+  project: FilmlaneProject,
+  label: string,
+  author?: string
+): FilmlaneProject => {
+  const revision: ProjectRevision = {
+    id: createProjectId("rev"),
+    label,
+    createdAt: new Date().toISOString(),
+    payload: project.payload,
+  };
+  if (author) revision.author = author;
+  return { ...project, revisions: [...project.revisions, revision] };
+};
+
+const sanitizePayload = (value: unknown): ScreenplayPayload | null => {
+  if (!isRecord(value)) return null;
+  return decodeScreenplayPayload(
+    encodeScreenplayPayload(value as unknown as ScreenplayPayload)
+  );
+};
+
+const sanitizeNotes = (value: unknown): ProjectNote[] =>
+  (Array.isArray(value) ? value : []).filter(
+    (note): note is ProjectNote =>
+      isRecord(note) &&
+      typeof note.id === "string" &&
+      typeof note.text === "string" &&
+      typeof note.createdAt === "string"
+  );
+
+const sanitizeRevisions = (value: unknown): ProjectRevision[] => {
+  const revisions: ProjectRevision[] = [];
+  for (const entry of Array.isArray(value) ? value : []) {
+    if (!isRecord(entry)) continue;
+    const payload = sanitizePayload(entry.payload);
+    if (
+      !payload ||
+      typeof entry.id !== "string" ||
+      typeof entry.label !== "string" ||
+      typeof entry.createdAt !== "string"
+    ) {
+      continue;
+    }
+    const revision: ProjectRevision = {
+      id: entry.id,
+      label: entry.label,
+      createdAt: entry.createdAt,
+      payload,
+    };
+    if (typeof entry.author === "string") revision.author = entry.author;
+    if (entry.auto === true) revision.auto = true;
+    revisions.push(revision);
+  }
+  return revisions;
+};
+
+const detectProjectVersion = (raw: RawProject): number | null =>
+  raw.format === FILMLANE_PROJECT_FORMAT && typeof raw.version === "number"
+    ? raw.version
+    : null;
+
+/**
+ * ترقية كائن مشروع خام إلى الإصدار الحالي والتحقق من سلامته؛ الـ payload
+ * المجرد يُستورد كمشروع جديد.
+ */
+export const migrateProject = (input: unknown): FilmlaneProject => {
+  if (!isRecord(input)) {
+    throw new Error("ملف المشروع لا يحتوي على بيانات صالحة.");
+  }
+
+  let raw = isLegacyPayload(input) ? wrapLegacyPayload(input) : input;
+  let version = detectProjectVersion(raw);
+  if (version === null) {
+    throw new Error("ملف المشروع غير معروف الصيغة.");
+  }
+  if (version > FILMLANE_PROJECT_VERSION) {
+    throw new Error(
+      `ملف المشروع من إصدار أحدث (${version}). يرجى تحديث التطبيق.`
+    );
+  }
+
+  while (version < FILMLANE_PROJECT_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`لا توجد ترقية لملف المشروع من الإصدار ${version}.`);
+    }
+    raw = migrate(raw);
+    version = detectProjectVersion(raw) ?? FILMLANE_PROJECT_VERSION;
+  }
+
+  const payload = sanitizePayload(raw.payload);
+  if (!payload) {
+    throw new Error("محتوى السيناريو داخل ملف المشروع تالف.");
+  }
+
+  const now = new Date().toISOString();
+  const settings = isRecord(raw.settings)
+    ? ({ ...DEFAULT_EDITOR_SETTINGS, ...raw.settings } as EditorSettings)
+    : DEFAULT_EDITOR_SETTINGS;
+  const previousCharacters = Array.isArray(raw.characters)
+    ? (raw.characters as CharacterInfo[]).filter(
+        (character) => isRecord(character) && typeof character.name === "string"
+      )
+    : [];
+  const previousLocations = Array.isArray(raw.locations)
+    ? (raw.locations as LocationInfo[]).filter(
+        (location) => isRecord(location) && typeof location.name === "string"
+      )
+    : [];
+
+  return {
+    format: FILMLANE_PROJECT_FORMAT,
+    version: FILMLANE_PROJECT_VERSION,
+    payload,
+    titlePage: normalizeTitlePage(raw.titlePage) ?? payload.titlePage ?? null,
+    settings,
+    characters: collectCharacters(payload.blocks, previousCharacters),
+    locations: collectLocations(payload.blocks, previousLocations),
+    notes: sanitizeNotes(raw.notes),
+    revisions: sanitizeRevisions(raw.revisions),
+    revisionMode: sanitizeRevisionMode(raw.revisionMode),
+    reviewer: sanitizeReviewerSettings(raw.reviewer),
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : now,
+  };
+};
+
+const REVISION_COLOR_IDS = new Set<string>(
+  REVISION_COLORS.map((color) => color.id)
+);
+
+const sanitizeRevisionMode = (value: unknown): RevisionModeState | null => {
+  if (!isRecord(value) || !Array.isArray(value.sets)) return null;
+  const baseline = sanitizePayload(value.baseline);
+  if (!baseline) return null;
+
+  const sets: RevisionSet[] = [];
+  for (const entry of value.sets) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.id !== "string" ||
+      typeof entry.color !== "string" ||
+      !REVISION_COLOR_IDS.has(entry.color) ||
+      typeof entry.label !== "string" ||
+      typeof entry.date !== "string"
+    ) {
+      continue;
+    }
+    sets.push({
+      id: entry.id,
+      color: entry.color as RevisionColorId,
+      label: entry.label,
+      date: entry.date,
+    });
+  }
+  return sets.length > 0 ? { baseline, sets } : null;
+};
+
+const sanitizeStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : undefined;
+
+const sanitizeNumberRecord = (
+  value: unknown
+): Record<string, number> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const record: Record<string, number> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "number" && Number.isFinite(entry)) {
+      record[key] = entry;
+    }
+  }
+  return record;
+};
+
+const sanitizeReviewerSettings = (
+  value: unknown
+): ReviewerProjectSettings | null => {
+  if (!isRecord(value)) return null;
+  return {
+    enabledDetectors: sanitizeStringList(value.enabledDetectors),
+    disabledDetectors: sanitizeStringList(value.disabledDetectors),
+    detectorWeights: sanitizeNumberRecord(value.detectorWeights),
+    detectorThresholds: sanitizeNumberRecord(value.detectorThresholds),
+    suspicionThreshold:
+      typeof value.suspicionThreshold === "number"
+        ? value.suspicionThreshold
+        : undefined,
+    minSignalsForSuspicion:
+      typeof value.minSignalsForSuspicion === "number"
+        ? value.minSignalsForSuspicion
+        : undefined,
+  };
+};
+
+const pipeBytes = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const stream = new Response(bytes as BodyInit).body!;
+  const output = new Response(stream.pipeThrough(transform));
+  return new Uint8Array(await output.arrayBuffer());
+};
+
+const isGzip = (bytes: Uint8Array): boolean =>
+  bytes.length > 2 && bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+
+/**
+ * تحويل المشروع إلى بايتات ملف .filmlane (JSON مضغوط).
+ */
+export const serializeProject = async (
+  project: FilmlaneProject
+): Promise<Uint8Array> => {
+  const json = new TextEncoder().encode(JSON.stringify(project));
+  return pipeBytes(json, new CompressionStream("gzip"));
+};
+
+/**
+ * قراءة ملف .filmlane (مضغوط أو JSON عادي) وترقيته للإصدار الحالي.
+ */
+export const parseProjectFile = async (
+  bytes: Uint8Array
+): Promise<FilmlaneProject> => {
+  const jsonBytes = isGzip(bytes)
+    ? await pipeBytes(bytes, new DecompressionStream("gzip"))
+    : bytes;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(
+      new TextDecoder().decode(jsonBytes).replace(/^\uFEFF/, "")
+    );
+  } catch (error) {
+    throw new Error("تعذر قراءة ملف المشروع: JSON غير صالح.", {
+      cause: error,
+    });
+  }
+
+  return migrateProject(parsed);
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import {
+  applyRevisionMarks,
+  clearRevisionMarks,
+  findChangedBlocks,
+  getBlockRevisionSet,
+  REVISION_COLORS,
+  startRevisionSet,
+} from "./revision-mode";
+
+const action = (text: string): ScreenplayBlock => ({
+  formatId: "action",
+  text,
+});
+
+describe("revision mode", () => {
+  it("detects edited and added blocks against the baseline", () => {
+    const { blocks, state } = startRevisionSet(
+      [action("أ"), action("ب")],
+      null,
+      "2025-03-01"
+    );
+    expect(state.sets).toEqual([
+      {
+        id: "rev-1-blue",
+        color: "blue",
+        label: "مراجعة أزرق",
+        date: "2025-03-01",
+      },
+    ]);
+
+    const edited = [blocks[0], { ...blocks[1], text: "ب معدل" }, action("ج")];
+    const changed = findChangedBlocks(edited, state.baseline.blocks);
+
+    expect(changed.has(edited[0])).toBe(false);
+    expect(changed.has(edited[1])).toBe(true);
+    expect(changed.has(edited[2])).toBe(true);
+
+    const marked = applyRevisionMarks(edited, state);
+    expect(
+      marked.map((block) => getBlockRevisionSet(block, state.sets)?.id)
+    ).toEqual([undefined, "rev-1-blue", "rev-1-blue"]);
+  });
+
+  it("keeps earlier marks when a new revision set starts", () => {
+    const first = startRevisionSet(
+      [action("أ"), action("ب")],
+      null,
+      "2025-03-01"
+    );
+    const revisedBlue = [first.blocks[0], { ...first.blocks[1], text: "ب2" }];
+
+    const second = startRevisionSet(revisedBlue, first.state, "2025-03-08");
+    expect(second.state.sets.map((set) => set.color)).toEqual(["blue", "pink"]);
+
+    const revisedPink = [{ ...second.blocks[0], text: "أ2" }, second.blocks[1]];
+    const marked = applyRevisionMarks(revisedPink, second.state);
+
+    expect(
+      marked.map(
+        (block) => getBlockRevisionSet(block, second.state.sets)?.color
+      )
+    ).toEqual(["pink", "blue"]);
+  });
+
+  it("drops the active mark from a block edited back to its baseline text", () => {
+    const first = startRevisionSet(
+      [action("أ"), action("ب")],
+      null,
+      "2025-03-01"
+    );
+    const revisedBlue = [first.blocks[0], { ...first.blocks[1], text: "ب2" }];
+    const second = startRevisionSet(revisedBlue, first.state, "2025-03-08");
+
+    const edited = applyRevisionMarks(
+      [
+        { ...second.blocks[0], text: "أ2" },
+        { ...second.blocks[1], text: "ب3" },
+      ],
+      second.state
+    );
+    expect(
+      edited.map(
+        (block) => getBlockRevisionSet(block, second.state.sets)?.color
+      )
+    ).toEqual(["pink", "pink"]);
+
+    const restored = applyRevisionMarks(
+      [
+        { ...edited[0], text: "أ" },
+        { ...edited[1], text: "ب2" },
+      ],
+      second.state
+    );
+    expect(restored[0].metadata).toBeUndefined();
+    expect(getBlockRevisionSet(restored[1], second.state.sets)?.color).toBe(
+      "blue"
+    );
+  });
+
+  it("cycles colors and clears marks when leaving revision mode", () => {
+    let current = startRevisionSet([action("أ")], null);
+    for (let index = 1; index <= REVISION_COLORS.length; index++) {
+      current = startRevisionSet(current.blocks, current.state);
+    }
+    const lastSet = current.state.sets[current.state.sets.length - 1];
+    expect(lastSet.color).toBe("blue");
+    expect(lastSet.label).toBe("مراجعة أزرق 2");
+
+    const marked = applyRevisionMarks([action("جديد")], current.state);
+    expect(marked[0].metadata).toEqual({ revisionSet: lastSet.id });
+    expect(clearRevisionMarks(marked)[0].metadata).toBeUndefined();
+  });
+});
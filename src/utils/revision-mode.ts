@@ -0,0 +1,208 @@
+/**
+ * revision-mode.ts - وضع المراجعات الإنتاجية
+ * مجموعات مراجعة ملونة بتواريخ (أزرق، وردي، أصفر...) على طريقة هوليوود:
+ * تُقارن الكتل الحالية بأساس مثبت، وتُعلَّم الكتل المتغيرة بمعرّف المجموعة
+ * في metadata حتى تُطبع بعلامة * في الهامش وبترويسة بلون المراجعة.
+ */
+
+import {
+  createPayloadFromBlocks,
+  type ScreenplayBlock,
+  type ScreenplayBlockMetadata,
+  type ScreenplayPayload,
+} from "./document-model";
+
+export type RevisionColorId =
+  | "blue"
+  | "pink"
+  | "yellow"
+  | "green"
+  | "goldenrod"
+  | "buff"
+  | "salmon"
+  | "cherry";
+
+export interface RevisionColor {
+  id: RevisionColorId;
+  label: string;
+  /** لون الترويسة والعلامة عند العرض والطباعة */
+  hex: string;
+}
+
+/** الترتيب القياسي لألوان المراجعات بعد المسودة البيضاء */
+export const REVISION_COLORS: RevisionColor[] = [
+  { id: "blue", label: "أزرق", hex: "#2563EB" },
+  { id: "pink", label: "وردي", hex: "#DB2777" },
+  { id: "yellow", label: "أصفر", hex: "#CA8A04" },
+  { id: "green", label: "أخضر", hex: "#16A34A" },
+  { id: "goldenrod", label: "ذهبي", hex: "#B45309" },
+  { id: "buff", label: "بيج", hex: "#A16207" },
+  { id: "salmon", label: "سلموني", hex: "#EA580C" },
+  { id: "cherry", label: "كرزي", hex: "#BE123C" },
+];
+
+export interface RevisionSet {
+  id: string;
+  color: RevisionColorId;
+  /** اسم المجموعة كما يظهر في الترويسة (مثل "مراجعة أزرق") */
+  label: string;
+  /** تاريخ المراجعة YYYY-MM-DD */
+  date: string;
+}
+
+export interface RevisionModeState {
+  /** لقطة الأساس المثبتة التي تُقارن بها التغييرات الحالية */
+  baseline: ScreenplayPayload;
+  /** كل مجموعات المراجعة بالترتيب، وآخرها هي النشطة */
+  sets: RevisionSet[];
+}
+
+const REVISION_SET_META_KEY = "revisionSet";
+
+const todayIsoDate = (): string => new Date().toISOString().slice(0, 10);
+
+export const getRevisionColor = (colorId: RevisionColorId): RevisionColor =>
+  REVISION_COLORS.find((color) => color.id === colorId) ?? REVISION_COLORS[0];
+
+export const getActiveRevisionSet = (
+  state: RevisionModeState | null
+): RevisionSet | null => state?.sets[state.sets.length - 1] ?? null;
+
+/**
+ * مجموعة المراجعة المعلَّمة على الكتلة إن وُجدت ضمن المجموعات المعروفة.
+ */
+export const getBlockRevisionSet = (
+  block: ScreenplayBlock,
+  sets: RevisionSet[]
+): RevisionSet | null => {
+  const setId = block.metadata?.[REVISION_SET_META_KEY];
+  if (typeof setId !== "string") return null;
+  return sets.find((set) => set.id === setId) ?? null;
+};
+
+/**
+ * الكتل التي أُضيفت أو تغيّر نوعها أو نصها منذ الأساس.
+ * المقارنة بمعرّف الكتلة (payload v2)، وتُقارن الكتل بلا معرّف بمحتواها.
+ */
+export const findChangedBlocks = (
+  current: ScreenplayBlock[],
+  baseline: ScreenplayBlock[]
+): Set<ScreenplayBlock> => {
+  const baselineById = new Map<string, ScreenplayBlock>();
+  const baselineContent = new Set<string>();
+  for (const block of baseline) {
+    if (block.id) baselineById.set(block.id, block);
+    baselineContent.add(`${block.formatId}\u0000${block.text}`);
+  }
+
+  const changed = new Set<ScreenplayBlock>();
+  for (const block of current) {
+    const previous = block.id ? baselineById.get(block.id) : undefined;
+    if (previous) {
+      if (
+        previous.formatId !== block.formatId ||
+        previous.text !== block.text
+      ) {
+        changed.add(block);
+      }
+      continue;
+    }
+    if (!baselineContent.has(`${block.formatId}\u0000${block.text}`)) {
+      changed.add(block);
+    }
+  }
+  return changed;
+};
+
+const withRevisionSet = (
+  block: ScreenplayBlock,
+  setId: string | null
+): ScreenplayBlock => {
+  const metadata: ScreenplayBlockMetadata = { ...block.metadata };
+  if (setId) {
+    metadata[REVISION_SET_META_KEY] = setId;
+  } else {
+    delete metadata[REVISION_SET_META_KEY];
+  }
+  const next: ScreenplayBlock = { ...block };
+  if (Object.keys(metadata).length > 0) {
+    next.metadata = metadata;
+  } else {
+    delete next.metadata;
+  }
+  return next;
+};
+
+/**
+ * تعليم الكتل المتغيرة منذ الأساس بالمجموعة النشطة؛ الكتل غير المتغيرة
+ * تحتفظ بعلامات المجموعات السابقة، والكتلة التي عادت إلى نص الأساس تفقد
+ * علامة المجموعة النشطة وتستعيد علامتها في الأساس.
+ */
+export const applyRevisionMarks = (
+  blocks: ScreenplayBlock[],
+  state: RevisionModeState | null
+): ScreenplayBlock[] => {
+  const activeSet = getActiveRevisionSet(state);
+  if (!state || !activeSet) return blocks;
+  const changed = findChangedBlocks(blocks, state.baseline.blocks);
+  const baselineById = new Map<string, ScreenplayBlock>();
+  const baselineByContent = new Map<string, ScreenplayBlock>();
+  for (const block of state.baseline.blocks) {
+    if (block.id) baselineById.set(block.id, block);
+    const key = `${block.formatId}\u0000${block.text}`;
+    if (!baselineByContent.has(key)) baselineByContent.set(key, block);
+  }
+  return blocks.map((block) => {
+    if (changed.has(block)) return withRevisionSet(block, activeSet.id);
+    if (block.metadata?.[REVISION_SET_META_KEY] !== activeSet.id) return block;
+    const original =
+      (block.id ? baselineById.get(block.id) : undefined) ??
+      baselineByContent.get(`${block.formatId}\u0000${block.text}`);
+    const originalSet = original?.metadata?.[REVISION_SET_META_KEY];
+    return withRevisionSet(
+      block,
+      typeof originalSet === "string" ? originalSet : null
+    );
+  });
+};
+
+/**
+ * بدء مجموعة مراجعة جديدة: تثبيت علامات المجموعة الحالية في الكتل،
+ * ثم أخذ لقطة أساس جديدة بلون المراجعة التالي.
+ */
+export const startRevisionSet = (
+  blocks: ScreenplayBlock[],
+  state: RevisionModeState | null,
+  date: string = todayIsoDate()
+): { blocks: ScreenplayBlock[]; state: RevisionModeState } => {
+  const markedBlocks = applyRevisionMarks(blocks, state);
+  const sets = state?.sets ?? [];
+  const color = REVISION_COLORS[sets.length % REVISION_COLORS.length];
+  const round = Math.floor(sets.length / REVISION_COLORS.length) + 1;
+  const set: RevisionSet = {
+    id: `rev-${sets.length + 1}-${color.id}`,
+    color: color.id,
+    label:
+      round > 1 ? `مراجعة ${color.label} ${round}` : `مراجعة ${color.label}`,
+    date,
+  };
+
+  const baseline = createPayloadFromBlocks(markedBlocks);
+  return {
+    // الأساس قد يضيف معرّفات للكتل التي بلا معرّف؛ نعيدها للمحرر.
+    blocks: baseline.blocks,
+    state: { baseline, sets: [...sets, set] },
+  };
+};
+
+/**
+ * الخروج من وضع المراجعة مع إزالة كل علامات المراجعة من الكتل.
+ */
+export const clearRevisionMarks = (
+  blocks: ScreenplayBlock[]
+): ScreenplayBlock[] =>
+  blocks.map((block) =>
+    block.metadata?.[REVISION_SET_META_KEY] !== undefined
+      ? withRevisionSet(block, null)
+      : block
+  );
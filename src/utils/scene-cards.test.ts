@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import {
+  buildSceneCards,
+  formatPageEighths,
+  withSceneCardDetails,
+} from "./scene-cards";
+
+const blocks: ScreenplayBlock[] = [
+  {
+    id: "s1",
+    formatId: "scene-header-1",
+    text: "مشهد 1",
+    metadata: {
+      sceneSynopsis: "سمير يكتشف الرسالة",
+      sceneStoryline: "blue",
+      sceneNumberLocked: true,
+    },
+  },
+  { formatId: "scene-header-2", text: "داخلي - ليل" },
+  { formatId: "scene-header-3", text: "شقة سمير" },
+  { formatId: "action", text: "يفتح سمير الظرف بحذر." },
+  { formatId: "character", text: "سمير:" },
+  { formatId: "dialogue", text: "من أرسل هذا؟" },
+  { formatId: "character", text: "ليلى" },
+  { formatId: "dialogue", text: "لا أعرف." },
+  { formatId: "character", text: "سمير" },
+  { formatId: "dialogue", text: "سنعرف." },
+  { id: "s2", formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "dialogue", text: "..." },
+];
+
+describe("scene-cards", () => {
+  it("builds cards with heading, first action, characters and stored details", () => {
+    const [first, second] = buildSceneCards(blocks);
+
+    expect(first).toMatchObject({
+      blockId: "s1",
+      heading: "مشهد 1 - داخلي - ليل - شقة سمير",
+      firstAction: "يفتح سمير الظرف بحذر.",
+      characters: ["سمير", "ليلى"],
+      synopsis: "سمير يكتشف الرسالة",
+      storyline: "blue",
+    });
+    expect(first.pageEighths).toBeGreaterThanOrEqual(2);
+    expect(second).toMatchObject({
+      heading: "مشهد 2",
+      firstAction: "",
+      characters: [],
+      pageEighths: 1,
+      synopsis: "",
+      storyline: null,
+    });
+  });
+
+  it("formats page lengths in eighths", () => {
+    expect(formatPageEighths(3)).toBe("3/8");
+    expect(formatPageEighths(8)).toBe("1");
+    expect(formatPageEighths(10)).toBe("1 2/8");
+  });
+
+  it("updates synopsis and storyline without touching other metadata", () => {
+    const metadata = blocks[0].metadata;
+
+    expect(
+      withSceneCardDetails(metadata, {
+        synopsis: "  ملخص جديد ",
+        storyline: null,
+      })
+    ).toEqual({ sceneSynopsis: "ملخص جديد", sceneNumberLocked: true });
+    expect(
+      withSceneCardDetails({ sceneSynopsis: "قديم" }, { synopsis: "" })
+    ).toBeUndefined();
+  });
+});
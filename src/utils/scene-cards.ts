@@ -0,0 +1,164 @@
+/**
+ * scene-cards.ts - بطاقات المشاهد للوحة الفلّين
+ * بطاقة لكل مشهد (العنوان، أول سطر حدث، الشخصيات، الطول بأثمان الصفحة)
+ * مع ملخص ولون خط درامي يُحفظان في metadata كتلة scene-header-1،
+ * فيبقيان مع المشهد عند نقله أو حفظ المستند.
+ */
+
+import { getCueName } from "./character-stats";
+import type {
+  ScreenplayBlock,
+  ScreenplayBlockMetadata,
+} from "./document-model";
+import {
+  getBlockLayoutPreset,
+  PAGE_LAYOUT,
+  wrapBlockLines,
+} from "./page-layout";
+import { buildSceneOutline, type SceneOutlineEntry } from "./scene-outline";
+
+const SCENE_SYNOPSIS_META_KEY = "sceneSynopsis";
+const SCENE_STORYLINE_META_KEY = "sceneStoryline";
+
+export type StorylineColorId =
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "blue"
+  | "purple";
+
+export interface StorylineColor {
+  id: StorylineColorId;
+  label: string;
+  hex: string;
+}
+
+/** ألوان الخطوط الدرامية المتاحة للبطاقات */
+export const STORYLINE_COLORS: StorylineColor[] = [
+  { id: "red", label: "أحمر", hex: "#DC2626" },
+  { id: "orange", label: "برتقالي", hex: "#EA580C" },
+  { id: "yellow", label: "أصفر", hex: "#CA8A04" },
+  { id: "green", label: "أخضر", hex: "#16A34A" },
+  { id: "blue", label: "أزرق", hex: "#2563EB" },
+  { id: "purple", label: "بنفسجي", hex: "#9333EA" },
+];
+
+export interface SceneCard extends SceneOutlineEntry {
+  heading: string;
+  /** أول سطر حدث في المشهد (فارغ إن لم يوجد) */
+  firstAction: string;
+  characters: string[];
+  /** طول المشهد بأثمان الصفحة (1/8) كما في جداول التصوير */
+  pageEighths: number;
+  synopsis: string;
+  storyline: StorylineColorId | null;
+}
+
+export interface SceneCardDetails {
+  synopsis?: string;
+  storyline?: StorylineColorId | null;
+}
+
+const HEADER_FORMAT_IDS = new Set([
+  "scene-header-1",
+  "scene-header-2",
+  "scene-header-3",
+  "scene-header-top-line",
+]);
+
+const isStorylineColorId = (value: unknown): value is StorylineColorId =>
+  STORYLINE_COLORS.some((color) => color.id === value);
+
+export const getStorylineColor = (
+  colorId: StorylineColorId | null
+): StorylineColor | null =>
+  STORYLINE_COLORS.find((color) => color.id === colorId) ?? null;
+
+/**
+ * طول الكتل بأثمان الصفحة من محرك تخطيط الصفحات (ثُمن واحد على الأقل).
+ */
+const measurePageEighths = (blocks: ScreenplayBlock[]): number => {
+  const { pageHeight, margin, lineHeight } = PAGE_LAYOUT;
+  const height = blocks.reduce((total, block) => {
+    const preset = getBlockLayoutPreset(block.formatId);
+    return (
+      total +
+      (preset.spacingBeforePt ?? 0) +
+      wrapBlockLines(block).length * lineHeight +
+      (preset.spacingAfterPt ?? 0)
+    );
+  }, 0);
+  return Math.max(1, Math.ceil((height / (pageHeight - 2 * margin)) * 8));
+};
+
+/**
+ * عرض أثمان الصفحة بصيغة جداول التصوير: 3/8، 1، 1 2/8.
+ */
+export const formatPageEighths = (eighths: number): string => {
+  const pages = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (rest === 0) return String(pages);
+  return pages > 0 ? `${pages} ${rest}/8` : `${rest}/8`;
+};
+
+export const buildSceneCards = (blocks: ScreenplayBlock[]): SceneCard[] =>
+  buildSceneOutline(blocks).map((scene) => {
+    const sceneBlocks = blocks.slice(
+      scene.blockIndex,
+      scene.blockIndex + scene.blockCount
+    );
+    const metadata = sceneBlocks[0].metadata ?? {};
+    const characters = new Set<string>();
+    for (const block of sceneBlocks) {
+      if (block.formatId !== "character") continue;
+      const name = getCueName(block.text);
+      if (name) characters.add(name);
+    }
+    const synopsis = metadata[SCENE_SYNOPSIS_META_KEY];
+    const storyline = metadata[SCENE_STORYLINE_META_KEY];
+
+    return {
+      ...scene,
+      heading: sceneBlocks
+        .filter((block) => HEADER_FORMAT_IDS.has(block.formatId))
+        .map((block) => block.text.trim())
+        .filter(Boolean)
+        .join(" - "),
+      firstAction:
+        sceneBlocks
+          .find((block) => block.formatId === "action" && block.text.trim())
+          ?.text.trim() ?? "",
+      characters: Array.from(characters),
+      pageEighths: measurePageEighths(sceneBlocks),
+      synopsis: typeof synopsis === "string" ? synopsis : "",
+      storyline: isStorylineColorId(storyline) ? storyline : null,
+    };
+  });
+
+/**
+ * بيانات scene-header-1 الوصفية بعد تطبيق ملخص المشهد ولونه؛
+ * القيم الفارغة تحذف مفاتيحها.
+ */
+export const withSceneCardDetails = (
+  metadata: ScreenplayBlockMetadata | undefined,
+  details: SceneCardDetails
+): ScreenplayBlockMetadata | undefined => {
+  const next: ScreenplayBlockMetadata = { ...metadata };
+  if (details.synopsis !== undefined) {
+    const synopsis = details.synopsis.trim();
+    if (synopsis) {
+      next[SCENE_SYNOPSIS_META_KEY] = synopsis;
+    } else {
+      delete next[SCENE_SYNOPSIS_META_KEY];
+    }
+  }
+  if (details.storyline !== undefined) {
+    if (details.storyline) {
+      next[SCENE_STORYLINE_META_KEY] = details.storyline;
+    } else {
+      delete next[SCENE_STORYLINE_META_KEY];
+    }
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+};
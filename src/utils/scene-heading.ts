@@ -0,0 +1,82 @@
+/**
+ * scene-heading.ts - تفكيك عناوين المشاهد أحادية السطر
+ * يحوّل عنوانًا مثل "مشهد 3 - داخلي - منزل أحمد - ليل" أو "INT. HOUSE - DAY"
+ * إلى كتل scene-header-1/2/3 وفق أعراف السيناريو العربي في المحرر.
+ */
+
+import type { ScreenplayBlock } from "./document-model";
+
+const SCENE_NUMBER_PREFIX_RE =
+  /^((?:مشهد|scene)\s*[0-9٠-٩]+[A-Za-z]?)\s*(?:[-–—:،]\s*)?(.*)$/iu;
+const SCENE_STATUS_SEGMENT_RE =
+  /^(?:داخل[يى]|خارج[يى]|داخل[يى]\s*\/\s*خارج[يى]|خارج[يى]\s*\/\s*داخل[يى]|نهار|ليل|صباح|مساء|فجر|INT|EXT|EST|INT\.?\/EXT|I\/E|DAY|NIGHT|MORNING|EVENING|DAWN|DUSK|CONTINUOUS|LATER)\.?$/iu;
+const SCENE_SEGMENT_SPLIT_RE = /\s*[-–—]\s*/u;
+const LATIN_PREFIX_SPLIT_RE = /^((?:INT|EXT|EST|INT\.?\/EXT|I\/E)\.?)\s+(.+)$/i;
+
+/**
+ * هل يبدأ النص بمقطع حالة (داخلي/خارجي/الزمن)؟
+ * يُستخدم لتمييز سطر scene-header-2 المستقل عن سطر المكان.
+ */
+export const startsWithSceneStatus = (text: string): boolean => {
+  const firstSegment = (text ?? "").trim().split(SCENE_SEGMENT_SPLIT_RE)[0];
+  return SCENE_STATUS_SEGMENT_RE.test(firstSegment ?? "");
+};
+
+/**
+ * يفكك عنوان مشهد إلى scene-header-1/2/3:
+ * رقم المشهد ← (1)، الزمن والداخلي/الخارجي ← (2)، المكان ← (3).
+ * إذا خلا العنوان من "مشهد N" يُستخدم fallbackNumber لبناء (1).
+ */
+export const splitSceneHeading = (
+  heading: string,
+  fallbackNumber: string | number
+): ScreenplayBlock[] => {
+  const normalized = (heading ?? "").replace(/\s+/g, " ").trim();
+
+  let sceneHeader1: string;
+  let rest: string;
+  const numberMatch = normalized.match(SCENE_NUMBER_PREFIX_RE);
+  if (numberMatch) {
+    sceneHeader1 = numberMatch[1].replace(/\s+/g, " ").trim();
+    rest = (numberMatch[2] ?? "").trim();
+  } else {
+    sceneHeader1 = `مشهد ${fallbackNumber}`;
+    rest = normalized;
+  }
+
+  const latinPrefix = rest.match(LATIN_PREFIX_SPLIT_RE);
+  const segments = (
+    latinPrefix
+      ? [latinPrefix[1], ...latinPrefix[2].split(SCENE_SEGMENT_SPLIT_RE)]
+      : rest.split(SCENE_SEGMENT_SPLIT_RE)
+  )
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  const statusSegments: string[] = [];
+  const locationSegments: string[] = [];
+  for (const segment of segments) {
+    if (SCENE_STATUS_SEGMENT_RE.test(segment)) {
+      statusSegments.push(segment);
+    } else {
+      locationSegments.push(segment);
+    }
+  }
+
+  const blocks: ScreenplayBlock[] = [
+    { formatId: "scene-header-1", text: sceneHeader1 },
+  ];
+  if (statusSegments.length > 0) {
+    blocks.push({
+      formatId: "scene-header-2",
+      text: statusSegments.join(" - "),
+    });
+  }
+  if (locationSegments.length > 0) {
+    blocks.push({
+      formatId: "scene-header-3",
+      text: locationSegments.join(" - "),
+    });
+  }
+  return blocks;
+};
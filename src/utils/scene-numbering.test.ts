@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import {
+  getSceneNumberState,
+  lockSceneNumbers,
+  readSceneNumber,
+  renumberScenes,
+  setSceneNumberInText,
+  unlockSceneNumbers,
+} from "./scene-numbering";
+
+const scene = (text: string): ScreenplayBlock => ({
+  formatId: "scene-header-1",
+  text,
+});
+const action = (text: string): ScreenplayBlock => ({
+  formatId: "action",
+  text,
+});
+
+const headings = (blocks: ScreenplayBlock[]): string[] =>
+  blocks
+    .filter((block) => block.formatId === "scene-header-1")
+    .map((block) => block.text);
+
+describe("scene numbering", () => {
+  it("reads and writes scene numbers in heading text", () => {
+    expect(readSceneNumber("مشهد ١٢:")).toBe("12");
+    expect(readSceneNumber("مشهد 12a")).toBe("12A");
+    expect(readSceneNumber("scene A1")).toBe("A1");
+    expect(readSceneNumber("وصف")).toBeNull();
+
+    expect(setSceneNumberInText("مشهد 5 (فوتومونتاج)", "7")).toBe(
+      "مشهد 7 (فوتومونتاج)"
+    );
+    expect(setSceneNumberInText("Scene 3", "4")).toBe("Scene 4");
+    expect(setSceneNumberInText("", "9", { omitted: true })).toBe(
+      "مشهد 9 محذوف"
+    );
+  });
+
+  it("renumbers scenes sequentially when numbers are not locked", () => {
+    const result = renumberScenes([
+      scene("مشهد 4"),
+      action("وصف"),
+      scene("مشهد"),
+      scene("مشهد 2:"),
+    ]);
+
+    expect(headings(result.blocks)).toEqual(["مشهد 1", "مشهد 2", "مشهد 3"]);
+    expect(result.changed).toBe(3);
+    expect(result.blocks[1]).toEqual(action("وصف"));
+  });
+
+  it("gives new scenes insert numbers after locking", () => {
+    const locked = lockSceneNumbers([scene("مشهد 1"), scene("مشهد 2")]).blocks;
+    expect(getSceneNumberState(locked[0])).toEqual({
+      number: "1",
+      locked: true,
+      omitted: false,
+    });
+
+    const result = renumberScenes([
+      scene("مشهد"),
+      locked[0],
+      scene("مشهد جديد"),
+      scene("مشهد 99"),
+      locked[1],
+    ]);
+
+    expect(headings(result.blocks)).toEqual([
+      "مشهد A1",
+      "مشهد 1",
+      "مشهد 1A جديد",
+      "مشهد 1B",
+      "مشهد 2",
+    ]);
+  });
+
+  it("marks deleted locked scenes as omitted in place", () => {
+    const locked = lockSceneNumbers([
+      scene("مشهد 1"),
+      action("أ"),
+      scene("مشهد 2"),
+      action("ب"),
+      scene("مشهد 3"),
+    ]).blocks;
+    const withoutSceneTwo = [locked[0], locked[1], locked[4]];
+
+    const result = renumberScenes(withoutSceneTwo);
+
+    expect(result.omitted).toEqual(["2"]);
+    expect(result.blocks.map((block) => block.text)).toEqual([
+      "مشهد 1",
+      "أ",
+      "مشهد 2 محذوف",
+      "مشهد 3",
+    ]);
+    expect(getSceneNumberState(result.blocks[2]).omitted).toBe(true);
+    expect(renumberScenes(result.blocks).omitted).toEqual([]);
+  });
+
+  it("marks the first, the last and inserted locked scenes as omitted", () => {
+    const firstLock = lockSceneNumbers([
+      scene("مشهد 1"),
+      scene("مشهد 2"),
+      scene("مشهد 3"),
+    ]).blocks;
+    const locked = lockSceneNumbers(
+      renumberScenes([
+        firstLock[0],
+        firstLock[1],
+        scene("مشهد جديد"),
+        firstLock[2],
+      ]).blocks
+    ).blocks;
+    expect(headings(locked)).toEqual([
+      "مشهد 1",
+      "مشهد 2",
+      "مشهد 2A جديد",
+      "مشهد 3",
+    ]);
+
+    const result = renumberScenes([locked[1], action("ب")]);
+
+    expect(result.omitted).toEqual(["1", "2A", "3"]);
+    expect(result.blocks.map((block) => block.text)).toEqual([
+      "مشهد 1 محذوف",
+      "مشهد 2",
+      "ب",
+      "مشهد 2A محذوف",
+      "مشهد 3 محذوف",
+    ]);
+    expect(renumberScenes(result.blocks).omitted).toEqual([]);
+  });
+
+  it("removes omitted headings and lock metadata when unlocking", () => {
+    const locked = lockSceneNumbers([scene("مشهد 1"), scene("مشهد 3")]);
+    const withOmitted = renumberScenes(locked.blocks).blocks;
+
+    const result = unlockSceneNumbers(withOmitted);
+
+    expect(headings(result.blocks)).toEqual(["مشهد 1", "مشهد 2"]);
+    expect(result.blocks.every((block) => !block.metadata)).toBe(true);
+  });
+});
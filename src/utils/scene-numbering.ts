@@ -0,0 +1,401 @@
+/**
+ * scene-numbering.ts - محرك ترقيم المشاهد
+ * يعيد ترقيم كتل scene-header-1 عند الطلب، ويدعم تثبيت الأرقام للإنتاج:
+ * المشاهد الجديدة بعد التثبيت تأخذ أرقام إدراج (12A، 12B)،
+ * والمشاهد المثبتة التي حُذفت تظهر كعناوين "محذوف" في موضعها.
+ *
+ * حالة الترقيم تُحفظ في metadata كتلة scene-header-1 (payload v2)،
+ * فلا يحتاج المحرك إلى حالة خارجية. كل عنوان مثبت يحمل أيضًا قائمة كل
+ * الأرقام المثبتة، فيُعرف المحذوف منها ولو كان أول مشهد أو آخره أو إدراجًا.
+ */
+
+import type {
+  ScreenplayBlock,
+  ScreenplayBlockMetadata,
+} from "./document-model";
+import { convertHindiToArabic, SCENE_NUMBER_RE } from "./arabic-patterns";
+
+export const OMITTED_SCENE_LABEL = "محذوف";
+
+const SCENE_NUMBER_META_KEY = "sceneNumber";
+const SCENE_LOCKED_META_KEY = "sceneNumberLocked";
+const SCENE_OMITTED_META_KEY = "sceneOmitted";
+const SCENE_LOCKED_SET_META_KEY = "lockedSceneNumbers";
+
+// امتداد لـ SCENE_NUMBER_RE يقبل بادئة/لاحقة الإدراج (A1، 12A).
+const SCENE_LABEL_RE =
+  /^\s*(مشهد|scene)\s*([A-Za-z]?)([0-9٠-٩]+)([A-Za-z]*)\s*[:：]?\s*/iu;
+const BARE_KEYWORD_RE = /^\s*(مشهد|scene)(?![\p{L}\p{N}])\s*[:：]?\s*/iu;
+const OMITTED_SUFFIX_RE = new RegExp(`\\s*${OMITTED_SCENE_LABEL}\\s*$`, "u");
+const INSERT_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export interface SceneNumberState {
+  /** الرقم الحالي كما يظهر في العنوان (12، 12A، A1) */
+  number: string | null;
+  /** هل الرقم مثبت للإنتاج */
+  locked: boolean;
+  /** هل هو عنوان مشهد محذوف */
+  omitted: boolean;
+}
+
+export interface SceneNumberingResult {
+  blocks: ScreenplayBlock[];
+  /** عدد عناوين المشاهد التي تغيّر نصها */
+  changed: number;
+  /** أرقام المشاهد المثبتة المحذوفة التي أُضيفت لها عناوين "محذوف" */
+  omitted: string[];
+}
+
+type ParsedSceneNumber = {
+  prefix: string;
+  base: number;
+  suffix: string;
+};
+
+const parseSceneNumber = (value: string): ParsedSceneNumber | null => {
+  const match = convertHindiToArabic(value ?? "")
+    .trim()
+    .match(/^([A-Za-z]?)([0-9]+)([A-Za-z]*)$/);
+  if (!match) return null;
+  return {
+    prefix: match[1].toUpperCase(),
+    base: Number(match[2]),
+    suffix: match[3].toUpperCase(),
+  };
+};
+
+/**
+ * ترتيب أرقام المشاهد في السيناريو: A1 قبل 1، ثم 1، ثم 1A، 1B، ثم 2.
+ */
+const compareSceneNumbers = (
+  left: ParsedSceneNumber,
+  right: ParsedSceneNumber
+): number =>
+  left.base - right.base ||
+  Number(!left.prefix) - Number(!right.prefix) ||
+  left.prefix.localeCompare(right.prefix) ||
+  left.suffix.length - right.suffix.length ||
+  left.suffix.localeCompare(right.suffix);
+
+const readLockedSet = (block: ScreenplayBlock): string[] => {
+  const stored = block.metadata?.[SCENE_LOCKED_SET_META_KEY];
+  return typeof stored === "string" && stored ? stored.split(",") : [];
+};
+
+/**
+ * كتابة قائمة الأرقام المثبتة على كل عنوان مثبت.
+ */
+const withLockedSet = (
+  blocks: ScreenplayBlock[],
+  lockedNumbers: string[]
+): ScreenplayBlock[] => {
+  const lockedSet = lockedNumbers.join(",");
+  return blocks.map((block) =>
+    block.formatId === "scene-header-1" &&
+    block.metadata?.[SCENE_LOCKED_META_KEY] === true
+      ? {
+          ...block,
+          metadata: {
+            ...block.metadata,
+            [SCENE_LOCKED_SET_META_KEY]: lockedSet,
+          },
+        }
+      : block
+  );
+};
+
+/**
+ * قراءة رقم المشهد من نص scene-header-1 ("مشهد ١٢" ← "12"، "مشهد 12A" ← "12A").
+ */
+export const readSceneNumber = (text: string): string | null => {
+  const match = (text ?? "").match(SCENE_LABEL_RE);
+  if (match) {
+    return `${match[2].toUpperCase()}${convertHindiToArabic(
+      match[3]
+    )}${match[4].toUpperCase()}`;
+  }
+  // عناوين لا تبدأ بالرقم مباشرة (مثل "المشهد 5") تُقرأ بالنمط العام.
+  const looseMatch = (text ?? "").match(SCENE_NUMBER_RE);
+  return looseMatch ? convertHindiToArabic(looseMatch[1]) : null;
+};
+
+/**
+ * كتابة رقم المشهد في نص العنوان مع الإبقاء على بقية النص
+ * (مثل "(فوتومونتاج)") وعلى كلمة البداية الأصلية (مشهد/scene).
+ */
+export const setSceneNumberInText = (
+  text: string,
+  sceneNumber: string,
+  options: { omitted?: boolean } = {}
+): string => {
+  const normalized = (text ?? "").replace(/\s+/g, " ").trim();
+  const match =
+    normalized.match(SCENE_LABEL_RE) ?? normalized.match(BARE_KEYWORD_RE);
+  const keyword = match?.[1] ?? "مشهد";
+  const rest = (match ? normalized.slice(match[0].length) : normalized)
+    .replace(OMITTED_SUFFIX_RE, "")
+    .trim();
+
+  if (options.omitted) {
+    return `${keyword} ${sceneNumber} ${OMITTED_SCENE_LABEL}`;
+  }
+  return rest
+    ? `${keyword} ${sceneNumber} ${rest}`
+    : `${keyword} ${sceneNumber}`;
+};
+
+/**
+ * حالة ترقيم كتلة scene-header-1 من بياناتها الوصفية ونصها.
+ */
+export const getSceneNumberState = (
+  block: ScreenplayBlock
+): SceneNumberState => {
+  const metadata = block.metadata ?? {};
+  const storedNumber = metadata[SCENE_NUMBER_META_KEY];
+  return {
+    number:
+      typeof storedNumber === "string" && storedNumber
+        ? storedNumber
+        : readSceneNumber(block.text),
+    locked: metadata[SCENE_LOCKED_META_KEY] === true,
+    omitted: metadata[SCENE_OMITTED_META_KEY] === true,
+  };
+};
+
+const withoutNumberingMetadata = (
+  metadata: ScreenplayBlockMetadata | undefined
+): ScreenplayBlockMetadata | undefined => {
+  if (!metadata) return undefined;
+  const rest = { ...metadata };
+  delete rest[SCENE_NUMBER_META_KEY];
+  delete rest[SCENE_LOCKED_META_KEY];
+  delete rest[SCENE_OMITTED_META_KEY];
+  delete rest[SCENE_LOCKED_SET_META_KEY];
+  return Object.keys(rest).length > 0 ? rest : undefined;
+};
+
+const withSceneText = (
+  block: ScreenplayBlock,
+  text: string,
+  metadata: ScreenplayBlockMetadata | undefined
+): ScreenplayBlock => {
+  const next: ScreenplayBlock = { ...block, text };
+  // المقاطع المنسقة لم تعد تطابق النص بعد تغيير الرقم.
+  if (text !== block.text) delete next.runs;
+  if (metadata) {
+    next.metadata = metadata;
+  } else {
+    delete next.metadata;
+  }
+  return next;
+};
+
+const nextInsertLetter = (used: Set<string>, build: (l: string) => string) => {
+  for (const letter of INSERT_LETTERS) {
+    if (!used.has(build(letter))) return build(letter);
+  }
+  // أكثر من 26 إدراجًا متتاليًا: مضاعفة الحرف (12AA).
+  for (const letter of INSERT_LETTERS) {
+    if (!used.has(build(`${letter}${letter}`))) {
+      return build(`${letter}${letter}`);
+    }
+  }
+  return build("Z");
+};
+
+const sceneHeaderIndices = (blocks: ScreenplayBlock[]): number[] =>
+  blocks.reduce<number[]>((indices, block, index) => {
+    if (block.formatId === "scene-header-1") indices.push(index);
+    return indices;
+  }, []);
+
+const renumberSequential = (
+  blocks: ScreenplayBlock[]
+): SceneNumberingResult => {
+  let sceneCounter = 0;
+  let changed = 0;
+  const next = blocks.map((block) => {
+    if (block.formatId !== "scene-header-1") return block;
+    sceneCounter++;
+    const text = setSceneNumberInText(block.text, String(sceneCounter));
+    if (text !== block.text) changed++;
+    return withSceneText(block, text, block.metadata);
+  });
+  return { blocks: next, changed, omitted: [] };
+};
+
+/**
+ * في الوضع المثبت: الأرقام المثبتة لا تتغير، والمشاهد الجديدة تأخذ
+ * رقم المشهد المثبت السابق مع حرف (12A، 12B)، أو حرفًا قبل أول رقم (A1).
+ * الأرقام المثبتة المفقودة (من قائمة التثبيت أو الفجوات بين الأرقام
+ * الأساسية) تُعاد كعناوين "محذوف" في موضعها من الترتيب.
+ */
+const renumberLocked = (blocks: ScreenplayBlock[]): SceneNumberingResult => {
+  const used = new Set<string>();
+  const lockedBases = new Set<number>();
+  const registered = new Set<string>();
+  for (const index of sceneHeaderIndices(blocks)) {
+    readLockedSet(blocks[index]).forEach((number) => registered.add(number));
+    const state = getSceneNumberState(blocks[index]);
+    if (!state.locked || !state.number) continue;
+    used.add(state.number);
+    const parsed = parseSceneNumber(state.number);
+    if (parsed && !parsed.prefix && !parsed.suffix) {
+      lockedBases.add(parsed.base);
+    }
+  }
+
+  // مستندات ثُبّتت قبل حفظ قائمة التثبيت: الفجوات بين الأرقام الأساسية.
+  const sortedBases = [...lockedBases].sort((a, b) => a - b);
+  for (let i = 1; i < sortedBases.length; i++) {
+    for (let base = sortedBases[i - 1] + 1; base < sortedBases[i]; base++) {
+      registered.add(String(base));
+    }
+  }
+
+  const missing = [...registered]
+    .filter((number) => !used.has(number))
+    .map((number) => ({ number, parsed: parseSceneNumber(number) }))
+    .filter(
+      (entry): entry is { number: string; parsed: ParsedSceneNumber } =>
+        entry.parsed !== null
+    )
+    .sort((left, right) => compareSceneNumbers(left.parsed, right.parsed));
+  const lockedNumbers = [...used, ...missing.map((entry) => entry.number)];
+
+  const result: ScreenplayBlock[] = [];
+  const omitted: string[] = [];
+  let changed = 0;
+  let previousLocked: ParsedSceneNumber | null = null;
+
+  const firstLockedBase = sortedBases[0] ?? 1;
+  const flushOmittedBefore = (limit: ParsedSceneNumber | null) => {
+    while (
+      missing.length > 0 &&
+      (!limit || compareSceneNumbers(missing[0].parsed, limit) < 0)
+    ) {
+      const { number } = missing.shift()!;
+      omitted.push(number);
+      result.push({
+        formatId: "scene-header-1",
+        text: setSceneNumberInText("", number, { omitted: true }),
+        metadata: {
+          [SCENE_NUMBER_META_KEY]: number,
+          [SCENE_LOCKED_META_KEY]: true,
+          [SCENE_OMITTED_META_KEY]: true,
+        },
+      });
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.formatId !== "scene-header-1") {
+      result.push(block);
+      continue;
+    }
+
+    const state = getSceneNumberState(block);
+    if (state.locked && state.number) {
+      const parsed = parseSceneNumber(state.number);
+      if (parsed) flushOmittedBefore(parsed);
+      previousLocked = parsed ?? previousLocked;
+      const text = setSceneNumberInText(block.text, state.number, {
+        omitted: state.omitted,
+      });
+      if (text !== block.text) changed++;
+      result.push(withSceneText(block, text, block.metadata));
+      continue;
+    }
+
+    const anchor = previousLocked;
+    const sceneNumber = anchor
+      ? nextInsertLetter(
+          used,
+          (letter) => `${anchor.prefix}${anchor.base}${anchor.suffix}${letter}`
+        )
+      : nextInsertLetter(used, (letter) => `${letter}${firstLockedBase}`);
+    used.add(sceneNumber);
+    const text = setSceneNumberInText(block.text, sceneNumber);
+    if (text !== block.text) changed++;
+    result.push(
+      withSceneText(block, text, withoutNumberingMetadata(block.metadata))
+    );
+  }
+  // المحذوف بعد آخر مشهد مثبت يُضاف في نهاية المستند.
+  flushOmittedBefore(null);
+
+  return { blocks: withLockedSet(result, lockedNumbers), changed, omitted };
+};
+
+/**
+ * هل في الكتل أرقام مشاهد مثبتة؟
+ */
+export const hasLockedSceneNumbers = (blocks: ScreenplayBlock[]): boolean =>
+  blocks.some(
+    (block) =>
+      block.formatId === "scene-header-1" && getSceneNumberState(block).locked
+  );
+
+/**
+ * إعادة ترقيم عناوين المشاهد: تسلسلي (1..N) ما لم تكن الأرقام مثبتة.
+ */
+export const renumberScenes = (
+  blocks: ScreenplayBlock[]
+): SceneNumberingResult =>
+  hasLockedSceneNumbers(blocks)
+    ? renumberLocked(blocks)
+    : renumberSequential(blocks);
+
+/**
+ * تثبيت أرقام المشاهد الحالية للإنتاج بعد إعادة الترقيم، مع حفظ قائمة
+ * الأرقام المثبتة على كل عنوان.
+ */
+export const lockSceneNumbers = (
+  blocks: ScreenplayBlock[]
+): SceneNumberingResult => {
+  const renumbered = renumberScenes(blocks);
+  const lockedNumbers = new Set<string>();
+  const locked = renumbered.blocks.map((block) => {
+    if (block.formatId !== "scene-header-1") return block;
+    readLockedSet(block).forEach((number) => lockedNumbers.add(number));
+    const state = getSceneNumberState(block);
+    if (!state.number) return block;
+    lockedNumbers.add(state.number);
+    return {
+      ...block,
+      metadata: {
+        ...block.metadata,
+        [SCENE_NUMBER_META_KEY]: state.number,
+        [SCENE_LOCKED_META_KEY]: true,
+      },
+    };
+  });
+  return {
+    ...renumbered,
+    blocks: withLockedSet(locked, [...lockedNumbers]),
+  };
+};
+
+/**
+ * إلغاء التثبيت: حذف عناوين "محذوف" وبيانات التثبيت ثم الترقيم التسلسلي.
+ */
+export const unlockSceneNumbers = (
+  blocks: ScreenplayBlock[]
+): SceneNumberingResult =>
+  renumberSequential(
+    blocks
+      .filter(
+        (block) =>
+          block.formatId !== "scene-header-1" ||
+          !getSceneNumberState(block).omitted
+      )
+      .map((block) =>
+        block.formatId === "scene-header-1"
+          ? withSceneText(
+              block,
+              block.text,
+              withoutNumberingMetadata(block.metadata)
+            )
+          : block
+      )
+  );
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import { buildSceneOutline, moveSceneBlocks } from "./scene-outline";
+
+const blocks: ScreenplayBlock[] = [
+  { formatId: "basmala", text: "بسم الله الرحمن الرحيم" },
+  { id: "s1", formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "scene-header-2", text: "داخلي - نهار" },
+  { formatId: "scene-header-3", text: "شقة  سمير" },
+  { formatId: "action", text: "يدخل سمير." },
+  { id: "s2", formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "scene-header-2", text: "ليل - خارجي" },
+  { formatId: "action", text: "الشارع خالٍ." },
+  { id: "s3", formatId: "scene-header-1", text: "مشهد 3" },
+  { formatId: "dialogue", text: "أين كنت؟" },
+];
+
+describe("scene-outline", () => {
+  it("builds scene entries from scene header blocks", () => {
+    const outline = buildSceneOutline(blocks);
+
+    expect(outline).toHaveLength(3);
+    expect(outline[0]).toEqual({
+      index: 0,
+      blockIndex: 1,
+      blockId: "s1",
+      sceneNumber: "1",
+      setting: "داخلي",
+      time: "نهار",
+      location: "شقة سمير",
+      blockCount: 4,
+    });
+    expect(outline[1]).toMatchObject({
+      setting: "خارجي",
+      time: "ليل",
+      location: "",
+      blockCount: 3,
+    });
+    expect(outline[2]).toMatchObject({ setting: null, blockCount: 2 });
+  });
+
+  it("moves whole scenes and keeps the prelude in place", () => {
+    const moved = moveSceneBlocks(blocks, 2, 0);
+
+    expect(moved?.map((block) => block.text)).toEqual([
+      "بسم الله الرحمن الرحيم",
+      "مشهد 3",
+      "أين كنت؟",
+      "مشهد 1",
+      "داخلي - نهار",
+      "شقة  سمير",
+      "يدخل سمير.",
+      "مشهد 2",
+      "ليل - خارجي",
+      "الشارع خالٍ.",
+    ]);
+    expect(moveSceneBlocks(blocks, 1, 1)).toBeNull();
+    expect(moveSceneBlocks(blocks, 0, 3)).toBeNull();
+  });
+});
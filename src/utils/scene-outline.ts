@@ -0,0 +1,107 @@
+/**
+ * scene-outline.ts - مخطط المشاهد لمستكشف المشاهد
+ * يبني قائمة المشاهد من كتل scene-header-1/2/3 (الرقم، داخلي/خارجي، الزمن،
+ * المكان)، ويعيد ترتيب مشهد كامل (كل كتله حتى scene-header-1 التالي).
+ */
+
+import { isSceneStart, type ScreenplayBlock } from "./document-model";
+import { readSceneNumber } from "./scene-numbering";
+
+export interface SceneOutlineEntry {
+  /** ترتيب المشهد في المستند بدءًا من 0 */
+  index: number;
+  /** موضع عنوان المشهد في مصفوفة الكتل */
+  blockIndex: number;
+  blockId?: string;
+  sceneNumber: string | null;
+  /** داخلي/خارجي كما كُتب في scene-header-2 */
+  setting: string | null;
+  time: string | null;
+  location: string;
+  /** عدد كتل المشهد بما فيها العناوين */
+  blockCount: number;
+}
+
+type SceneSlice = { start: number; end: number };
+
+const SETTING_SEGMENT_RE =
+  /^(?:داخل[يى]|خارج[يى]|داخل[يى]\s*\/\s*خارج[يى]|خارج[يى]\s*\/\s*داخل[يى]|INT|EXT|EST|INT\.?\/EXT|I\/E)\.?$/iu;
+const SEGMENT_SPLIT_RE = /\s*[-–—]\s*/u;
+
+/**
+ * حدود المشاهد في الكتل؛ ما قبل أول مشهد (البسملة مثلاً) ليس مشهدًا.
+ */
+const findSceneSlices = (blocks: ScreenplayBlock[]): SceneSlice[] => {
+  const slices: SceneSlice[] = [];
+  blocks.forEach((block, index) => {
+    if (!isSceneStart(block)) return;
+    if (slices.length > 0) slices[slices.length - 1].end = index;
+    slices.push({ start: index, end: blocks.length });
+  });
+  return slices;
+};
+
+const splitSettingAndTime = (
+  text: string
+): { setting: string | null; time: string | null } => {
+  const settings: string[] = [];
+  const times: string[] = [];
+  for (const segment of text.split(SEGMENT_SPLIT_RE)) {
+    const trimmed = segment.trim();
+    if (!trimmed) continue;
+    (SETTING_SEGMENT_RE.test(trimmed) ? settings : times).push(trimmed);
+  }
+  return {
+    setting: settings.length > 0 ? settings.join(" - ") : null,
+    time: times.length > 0 ? times.join(" - ") : null,
+  };
+};
+
+export const buildSceneOutline = (
+  blocks: ScreenplayBlock[]
+): SceneOutlineEntry[] =>
+  findSceneSlices(blocks).map(({ start, end }, index) => {
+    const entry: SceneOutlineEntry = {
+      index,
+      blockIndex: start,
+      sceneNumber: readSceneNumber(blocks[start].text),
+      setting: null,
+      time: null,
+      location: "",
+      blockCount: end - start,
+    };
+    if (blocks[start].id) entry.blockId = blocks[start].id;
+
+    for (let cursor = start + 1; cursor < end; cursor++) {
+      const block = blocks[cursor];
+      if (block.formatId === "scene-header-2") {
+        Object.assign(entry, splitSettingAndTime(block.text));
+      } else if (block.formatId === "scene-header-3") {
+        entry.location = block.text.replace(/\s+/g, " ").trim();
+      } else {
+        break;
+      }
+    }
+    return entry;
+  });
+
+/**
+ * نقل المشهد fromIndex بكل كتله إلى الموضع toIndex بين المشاهد.
+ * يعيد null إذا كان النقل غير صالح أو لا يغيّر شيئًا.
+ */
+export const moveSceneBlocks = (
+  blocks: ScreenplayBlock[],
+  fromIndex: number,
+  toIndex: number
+): ScreenplayBlock[] | null => {
+  const slices = findSceneSlices(blocks);
+  const isValidIndex = (value: number) =>
+    Number.isInteger(value) && value >= 0 && value < slices.length;
+  if (!isValidIndex(fromIndex) || !isValidIndex(toIndex)) return null;
+  if (fromIndex === toIndex) return null;
+
+  const scenes = slices.map(({ start, end }) => blocks.slice(start, end));
+  const [moved] = scenes.splice(fromIndex, 1);
+  scenes.splice(toIndex, 0, moved);
+  return [...blocks.slice(0, slices[0].start), ...scenes.flat()];
+};
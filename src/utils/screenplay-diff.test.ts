@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import type { ScreenplayBlock } from "./document-model";
+import {
+  applyAcceptedChanges,
+  diffScreenplayBlocks,
+  summarizeScreenplayDiff,
+} from "./screenplay-diff";
+
+const block = (
+  formatId: ScreenplayBlock["formatId"],
+  text: string,
+  id?: string
+): ScreenplayBlock => (id ? { id, formatId, text } : { formatId, text });
+
+describe("screenplay diff", () => {
+  it("detects inserted, deleted, edited and retyped blocks", () => {
+    const base = [
+      block("scene-header-1", "مشهد 1"),
+      block("action", "يدخل أحمد الغرفة ببطء"),
+      block("action", "نور: أين كنت؟"),
+      block("action", "سطر سيُحذف تمامًا"),
+    ];
+    const revised = [
+      block("scene-header-1", "مشهد 1"),
+      block("action", "يدخل أحمد الغرفة مسرعًا"),
+      block("dialogue", "نور: أين كنت؟"),
+      block("transition", "قطع إلى:"),
+    ];
+
+    const entries = diffScreenplayBlocks(base, revised);
+
+    expect(entries.map((entry) => entry.kind)).toEqual([
+      "equal",
+      "edited",
+      "retyped",
+      "deleted",
+      "inserted",
+    ]);
+    expect(entries[2].formatChanged).toBe(true);
+    expect(summarizeScreenplayDiff(entries)).toEqual({
+      inserted: 1,
+      deleted: 1,
+      retyped: 1,
+      edited: 1,
+    });
+  });
+
+  it("aligns scenes by heading even when scenes are renumbered", () => {
+    const base = [
+      block("scene-header-1", "مشهد 1"),
+      block("scene-header-2", "داخلي - بيت - نهار"),
+      block("action", "أ"),
+      block("scene-header-1", "مشهد 2"),
+      block("scene-header-2", "خارجي - شارع - ليل"),
+      block("action", "ب"),
+    ];
+    const revised = [
+      block("scene-header-1", "مشهد 1"),
+      block("scene-header-2", "خارجي - سطح - فجر"),
+      block("action", "جديد"),
+      block("scene-header-1", "مشهد 2"),
+      block("scene-header-2", "داخلي - بيت - نهار"),
+      block("action", "أ"),
+      block("scene-header-1", "مشهد 3"),
+      block("scene-header-2", "خارجي - شارع - ليل"),
+      block("action", "ب"),
+    ];
+
+    const entries = diffScreenplayBlocks(base, revised);
+    const inserted = entries.filter((entry) => entry.kind === "inserted");
+    const edited = entries.filter((entry) => entry.kind === "edited");
+
+    expect(inserted.map((entry) => entry.revised?.text)).toEqual([
+      "مشهد 1",
+      "خارجي - سطح - فجر",
+      "جديد",
+    ]);
+    expect(edited.map((entry) => entry.revised?.text)).toEqual([
+      "مشهد 2",
+      "مشهد 3",
+    ]);
+    expect(new Set(inserted.map((entry) => entry.sceneIndex)).size).toBe(1);
+  });
+
+  it("applies only accepted changes and keeps base block ids", () => {
+    const base = [
+      block("action", "الأول", "b1"),
+      block("action", "الثاني القديم", "b2"),
+      block("action", "محذوف", "b3"),
+    ];
+    const revised = [
+      block("action", "الأول"),
+      block("action", "الثاني الجديد"),
+      block("action", "مضاف"),
+    ];
+    const entries = diffScreenplayBlocks(base, revised);
+    const editedEntry = entries.find((entry) => entry.kind === "edited")!;
+    const insertedEntry = entries.find((entry) => entry.kind === "inserted")!;
+
+    expect(applyAcceptedChanges(entries, new Set())).toEqual(base);
+
+    const merged = applyAcceptedChanges(
+      entries,
+      new Set([editedEntry.id, insertedEntry.id])
+    );
+    expect(merged).toEqual([
+      block("action", "الأول", "b1"),
+      block("action", "الثاني الجديد", "b2"),
+      block("action", "محذوف", "b3"),
+      block("action", "مضاف"),
+    ]);
+  });
+});
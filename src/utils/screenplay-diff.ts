@@ -0,0 +1,309 @@
+/**
+ * screenplay-diff.ts - مقارنة نسختين من السيناريو على مستوى الكتل
+ * تُحاذى النسختان مشهدًا بمشهد أولاً (بعنوان المشهد دون رقمه)، ثم كتلة بكتلة
+ * داخل كل مشهد، فتظهر الكتل المضافة والمحذوفة والمعدّلة وتغييرات النوع
+ * (مثل action ← dialogue)، مع إمكانية قبول التغييرات كتلةً كتلة.
+ */
+
+import type { ScreenplayBlock } from "./document-model";
+
+export type BlockDiffKind =
+  | "equal"
+  | "inserted"
+  | "deleted"
+  | "retyped"
+  | "edited";
+
+export interface BlockDiffEntry {
+  /** معرّف ثابت للمدخل داخل نتيجة المقارنة (لقرارات القبول) */
+  id: string;
+  kind: BlockDiffKind;
+  /** الكتلة في النسخة الأساسية (null للكتل المضافة) */
+  base: ScreenplayBlock | null;
+  /** الكتلة في النسخة المعدّلة (null للكتل المحذوفة) */
+  revised: ScreenplayBlock | null;
+  /** ترتيب المشهد في نتيجة المحاذاة (0 لما قبل أول مشهد) */
+  sceneIndex: number;
+  /** تغيّر نوع الكتلة (قد يصاحب تعديل النص) */
+  formatChanged: boolean;
+}
+
+export interface ScreenplayDiffSummary {
+  inserted: number;
+  deleted: number;
+  retyped: number;
+  edited: number;
+}
+
+type SceneGroup = {
+  key: string;
+  blocks: ScreenplayBlock[];
+};
+
+type AlignedPair<T> = { base: T | null; revised: T | null };
+
+/** أقل تشابه نصي لاعتبار كتلتين غير متطابقتين تعديلاً لبعضهما */
+const EDIT_SIMILARITY_THRESHOLD = 0.5;
+
+const SCENE_LABEL_RE =
+  /(?:مشهد|scene)\s*[A-Za-z]?[0-9٠-٩]+[A-Za-z]*\s*[:：]?/giu;
+
+const normalizeText = (text: string): string =>
+  (text ?? "").replace(/\s+/g, " ").trim();
+
+const isSceneHeaderBlock = (block: ScreenplayBlock): boolean =>
+  block.formatId.startsWith("scene-header");
+
+/**
+ * تقسيم الكتل إلى مشاهد تبدأ عند كل scene-header-1؛ مفتاح المشهد هو نص
+ * عناوينه دون رقم المشهد حتى لا تُفسد إعادة الترقيم المحاذاة.
+ */
+const splitIntoScenes = (blocks: ScreenplayBlock[]): SceneGroup[] => {
+  const scenes: SceneGroup[] = [];
+  let current: SceneGroup = { key: "", blocks: [] };
+  let readingHeading = false;
+
+  for (const block of blocks) {
+    if (block.formatId === "scene-header-1") {
+      if (current.blocks.length > 0) scenes.push(current);
+      current = { key: "", blocks: [] };
+      readingHeading = true;
+    } else if (!isSceneHeaderBlock(block)) {
+      readingHeading = false;
+    }
+    if (readingHeading) {
+      current.key = normalizeText(
+        `${current.key} ${block.text.replace(SCENE_LABEL_RE, " ")}`
+      );
+    }
+    current.blocks.push(block);
+  }
+  if (current.blocks.length > 0) scenes.push(current);
+  return scenes;
+};
+
+/**
+ * تشابه نصي بمعامل Dice على الثنائيات الحرفية (0..1).
+ */
+const textSimilarity = (left: string, right: string): number => {
+  const a = normalizeText(left);
+  const b = normalizeText(right);
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index++) {
+    const bigram = a.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let index = 0; index < b.length - 1; index++) {
+    const bigram = b.slice(index, index + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap += 1;
+    }
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+};
+
+/**
+ * محاذاة تسلسلين بأطول تسلسل مشترك للمفاتيح، ثم إقران العناصر غير
+ * المتطابقة بين كل نقطتي ارتكاز بالترتيب عبر pairGap.
+ */
+const alignSequences = <T>(
+  base: T[],
+  revised: T[],
+  keyOf: (item: T) => string,
+  pairGap: (baseGap: T[], revisedGap: T[]) => AlignedPair<T>[]
+): AlignedPair<T>[] => {
+  const baseKeys = base.map(keyOf);
+  const revisedKeys = revised.map(keyOf);
+  const lcs: number[][] = Array.from({ length: base.length + 1 }, () =>
+    new Array<number>(revised.length + 1).fill(0)
+  );
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = revised.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        baseKeys[i] === revisedKeys[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const aligned: AlignedPair<T>[] = [];
+  let baseGap: T[] = [];
+  let revisedGap: T[] = [];
+  const flushGap = () => {
+    if (baseGap.length === 0 && revisedGap.length === 0) return;
+    aligned.push(...pairGap(baseGap, revisedGap));
+    baseGap = [];
+    revisedGap = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < revised.length) {
+    if (baseKeys[i] === revisedKeys[j]) {
+      flushGap();
+      aligned.push({ base: base[i], revised: revised[j] });
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      baseGap.push(base[i]);
+      i += 1;
+    } else {
+      revisedGap.push(revised[j]);
+      j += 1;
+    }
+  }
+  baseGap.push(...base.slice(i));
+  revisedGap.push(...revised.slice(j));
+  flushGap();
+  return aligned;
+};
+
+/** المشاهد غير المتطابقة بين نقطتي ارتكاز تُقرن بالترتيب (عنوان معدّل). */
+const pairScenesByPosition = (
+  baseGap: SceneGroup[],
+  revisedGap: SceneGroup[]
+): AlignedPair<SceneGroup>[] => {
+  const pairs: AlignedPair<SceneGroup>[] = [];
+  const length = Math.max(baseGap.length, revisedGap.length);
+  for (let index = 0; index < length; index++) {
+    pairs.push({
+      base: baseGap[index] ?? null,
+      revised: revisedGap[index] ?? null,
+    });
+  }
+  return pairs;
+};
+
+/**
+ * الكتل غير المتطابقة تُقرن كتعديل إذا تشابه نصها بما يكفي،
+ * وإلا تبقى حذفًا وإضافة منفصلين.
+ */
+const pairBlocksBySimilarity = (
+  baseGap: ScreenplayBlock[],
+  revisedGap: ScreenplayBlock[]
+): AlignedPair<ScreenplayBlock>[] => {
+  const pairs: AlignedPair<ScreenplayBlock>[] = [];
+  let revisedIndex = 0;
+
+  for (const baseBlock of baseGap) {
+    let matchIndex = -1;
+    for (let index = revisedIndex; index < revisedGap.length; index++) {
+      if (
+        textSimilarity(baseBlock.text, revisedGap[index].text) >=
+        EDIT_SIMILARITY_THRESHOLD
+      ) {
+        matchIndex = index;
+        break;
+      }
+    }
+    if (matchIndex === -1) {
+      pairs.push({ base: baseBlock, revised: null });
+      continue;
+    }
+    for (; revisedIndex < matchIndex; revisedIndex++) {
+      pairs.push({ base: null, revised: revisedGap[revisedIndex] });
+    }
+    pairs.push({ base: baseBlock, revised: revisedGap[matchIndex] });
+    revisedIndex = matchIndex + 1;
+  }
+  for (; revisedIndex < revisedGap.length; revisedIndex++) {
+    pairs.push({ base: null, revised: revisedGap[revisedIndex] });
+  }
+  return pairs;
+};
+
+const classifyPair = ({
+  base,
+  revised,
+}: AlignedPair<ScreenplayBlock>): Pick<
+  BlockDiffEntry,
+  "kind" | "formatChanged"
+> => {
+  if (!base) return { kind: "inserted", formatChanged: false };
+  if (!revised) return { kind: "deleted", formatChanged: false };
+  const formatChanged = base.formatId !== revised.formatId;
+  if (normalizeText(base.text) !== normalizeText(revised.text)) {
+    return { kind: "edited", formatChanged };
+  }
+  return { kind: formatChanged ? "retyped" : "equal", formatChanged };
+};
+
+/**
+ * مقارنة نسختين من الكتل وإرجاع مدخلات الفرق بترتيب القراءة.
+ */
+export const diffScreenplayBlocks = (
+  base: ScreenplayBlock[],
+  revised: ScreenplayBlock[]
+): BlockDiffEntry[] => {
+  const sceneKey = (scene: SceneGroup) => scene.key;
+  const alignedScenes = alignSequences(
+    splitIntoScenes(base),
+    splitIntoScenes(revised),
+    sceneKey,
+    pairScenesByPosition
+  );
+
+  const entries: BlockDiffEntry[] = [];
+  alignedScenes.forEach((scenePair, sceneIndex) => {
+    const blockPairs = alignSequences(
+      scenePair.base?.blocks ?? [],
+      scenePair.revised?.blocks ?? [],
+      (block) => normalizeText(block.text),
+      pairBlocksBySimilarity
+    );
+    for (const pair of blockPairs) {
+      entries.push({
+        id: `diff-${entries.length + 1}`,
+        ...classifyPair(pair),
+        base: pair.base,
+        revised: pair.revised,
+        sceneIndex,
+      });
+    }
+  });
+  return entries;
+};
+
+export const summarizeScreenplayDiff = (
+  entries: BlockDiffEntry[]
+): ScreenplayDiffSummary => {
+  const summary: ScreenplayDiffSummary = {
+    inserted: 0,
+    deleted: 0,
+    retyped: 0,
+    edited: 0,
+  };
+  for (const entry of entries) {
+    if (entry.kind !== "equal") summary[entry.kind] += 1;
+  }
+  return summary;
+};
+
+/**
+ * بناء النسخة الناتجة: النسخة الأساسية مع تطبيق التغييرات المقبولة فقط.
+ * الكتل المعدّلة المقبولة تحتفظ بمعرّف الكتلة الأساسية.
+ */
+export const applyAcceptedChanges = (
+  entries: BlockDiffEntry[],
+  acceptedIds: ReadonlySet<string>
+): ScreenplayBlock[] => {
+  const result: ScreenplayBlock[] = [];
+  for (const entry of entries) {
+    const accepted = acceptedIds.has(entry.id);
+    if (entry.kind === "equal" || !accepted) {
+      if (entry.base) result.push(entry.base);
+      continue;
+    }
+    if (!entry.revised) continue;
+    result.push(
+      entry.base?.id ? { ...entry.revised, id: entry.base.id } : entry.revised
+    );
+  }
+  return result;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import { createProjectFromBlocks } from "./project-file";
+import {
+  buildSeriesBible,
+  findCharacterAppearances,
+  type SeriesEpisodeSource,
+} from "./series-bible";
+
+const episode = (
+  episodeNumber: number,
+  blocks: ScreenplayBlock[]
+): SeriesEpisodeSource => ({
+  documentId: `doc-${episodeNumber}`,
+  episodeNumber,
+  name: `الحلقة ${episodeNumber}`,
+  project: createProjectFromBlocks(blocks),
+});
+
+const scene = (location: string): ScreenplayBlock[] => [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "scene-header-2", text: "داخلي - نهار" },
+  { formatId: "scene-header-3", text: location },
+];
+
+describe("series-bible", () => {
+  it("answers which episodes a character appears in across the season", () => {
+    const bible = buildSeriesBible([
+      episode(3, [
+        ...scene("بيت سمير"),
+        { formatId: "character", text: "سمير:" },
+        { formatId: "dialogue", text: "عدت." },
+      ]),
+      episode(1, [
+        ...scene("بيت سمير"),
+        { formatId: "character", text: "سمير" },
+        { formatId: "dialogue", text: "صباح الخير." },
+        { formatId: "character", text: "ليلى" },
+        { formatId: "dialogue", text: "أهلاً." },
+        ...scene("المقهى"),
+        { formatId: "character", text: "سمير" },
+        { formatId: "dialogue", text: "قهوة." },
+      ]),
+      episode(2, [
+        ...scene("المقهى"),
+        { formatId: "character", text: "ليلى" },
+        { formatId: "dialogue", text: "أين سمير؟" },
+      ]),
+    ]);
+
+    expect(bible.episodeCount).toBe(3);
+    expect(
+      findCharacterAppearances(bible, "سمير:").map(
+        (appearance) => appearance.episodeNumber
+      )
+    ).toEqual([1, 3]);
+
+    const samir = bible.characters.find((entry) => entry.name === "سمير");
+    expect(samir?.dialogueCount).toBe(3);
+    expect(samir?.appearances[0]).toMatchObject({
+      documentId: "doc-1",
+      scenes: [1, 2],
+      dialogueCount: 2,
+    });
+    expect(findCharacterAppearances(bible, "كريم")).toEqual([]);
+  });
+
+  it("groups spellings of the same character name across episodes", () => {
+    const bible = buildSeriesBible([
+      episode(1, [
+        ...scene("بيت أسامة"),
+        { formatId: "character", text: "أسامة:" },
+        { formatId: "dialogue", text: "صباح الخير." },
+        { formatId: "character", text: "اسامه:" },
+        { formatId: "dialogue", text: "هل من أحد؟" },
+      ]),
+      episode(2, [
+        ...scene("المقهى"),
+        { formatId: "character", text: "اسامة" },
+        { formatId: "dialogue", text: "قهوة." },
+      ]),
+    ]);
+
+    expect(bible.characters.map((entry) => entry.name)).toEqual(["أسامة"]);
+    expect(bible.characters[0].dialogueCount).toBe(3);
+    expect(
+      findCharacterAppearances(bible, "إسامه").map(
+        (appearance) => appearance.episodeNumber
+      )
+    ).toEqual([1, 2]);
+  });
+
+  it("merges locations from scene-header-3 blocks and keeps saved descriptions", () => {
+    const first = episode(1, scene("المقهى"));
+    first.project.locations = [
+      { name: "المقهى", scenes: [1], description: "مقهى شعبي في الحارة" },
+    ];
+    const bible = buildSeriesBible([
+      first,
+      episode(2, [...scene("المقهى"), ...scene("السطح")]),
+    ]);
+
+    expect(bible.locations.map((location) => location.name)).toEqual([
+      "المقهى",
+      "السطح",
+    ]);
+    expect(bible.locations[0]).toMatchObject({
+      description: "مقهى شعبي في الحارة",
+      sceneCount: 2,
+    });
+    expect(bible.locations[1].appearances[0].scenes).toEqual([2]);
+  });
+});
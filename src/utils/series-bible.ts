@@ -0,0 +1,143 @@
+/**
+ * series-bible.ts - كتاب المسلسل (الشخصيات والأماكن عبر الحلقات)
+ * يُشتق من كتل character و scene-header-3 في كل حلقات المشروع، فيجيب عن
+ * أسئلة الاستمرارية عبر الموسم كاملاً ("في أي الحلقات يظهر سمير؟").
+ */
+
+import { getCharacterKey } from "./character-stats";
+import {
+  collectCharacters,
+  collectLocations,
+  type FilmlaneProject,
+} from "./project-file";
+
+/** حلقة مصدر للكتاب: بياناتها في مساحة العمل ومحتواها */
+export interface SeriesEpisodeSource {
+  documentId: string;
+  episodeNumber: number | null;
+  name: string;
+  project: FilmlaneProject;
+}
+
+export interface SeriesBibleAppearance {
+  documentId: string;
+  episodeNumber: number | null;
+  episodeName: string;
+  /** أرقام المشاهد داخل الحلقة */
+  scenes: number[];
+  /** عدد الحوارات في الحلقة (للشخصيات فقط) */
+  dialogueCount: number;
+}
+
+export interface SeriesBibleEntry {
+  name: string;
+  /** أول وصف محفوظ للاسم في أي حلقة */
+  description?: string;
+  /** الحلقات التي يظهر فيها بترتيب الحلقات */
+  appearances: SeriesBibleAppearance[];
+  dialogueCount: number;
+  sceneCount: number;
+}
+
+export interface SeriesBible {
+  episodeCount: number;
+  characters: SeriesBibleEntry[];
+  locations: SeriesBibleEntry[];
+}
+
+type EpisodeEntry = {
+  name: string;
+  scenes: number[];
+  dialogueCount?: number;
+  description?: string;
+};
+
+const byEpisodeNumber = (
+  left: SeriesEpisodeSource,
+  right: SeriesEpisodeSource
+): number =>
+  (left.episodeNumber ?? Number.MAX_SAFE_INTEGER) -
+  (right.episodeNumber ?? Number.MAX_SAFE_INTEGER);
+
+/**
+ * دمج مدخلات كل حلقة في مدخل واحد لكل مفتاح اسم عبر الحلقات؛ يُعرض
+ * المدخل باسم أول حلقة يظهر فيها.
+ */
+const mergeAcrossEpisodes = (
+  episodes: SeriesEpisodeSource[],
+  collect: (project: FilmlaneProject) => EpisodeEntry[],
+  keyOf: (name: string) => string = (name) => name
+): SeriesBibleEntry[] => {
+  const byKey = new Map<string, SeriesBibleEntry>();
+
+  for (const episode of episodes) {
+    for (const item of collect(episode.project)) {
+      const key = keyOf(item.name);
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = {
+          name: item.name,
+          appearances: [],
+          dialogueCount: 0,
+          sceneCount: 0,
+        };
+        byKey.set(key, entry);
+      }
+      if (!entry.description && item.description) {
+        entry.description = item.description;
+      }
+      entry.appearances.push({
+        documentId: episode.documentId,
+        episodeNumber: episode.episodeNumber,
+        episodeName: episode.name,
+        scenes: item.scenes,
+        dialogueCount: item.dialogueCount ?? 0,
+      });
+      entry.dialogueCount += item.dialogueCount ?? 0;
+      entry.sceneCount += item.scenes.length;
+    }
+  }
+
+  return Array.from(byKey.values()).sort(
+    (left, right) =>
+      right.appearances.length - left.appearances.length ||
+      right.sceneCount - left.sceneCount ||
+      left.name.localeCompare(right.name, "ar")
+  );
+};
+
+/**
+ * بناء كتاب المسلسل من كل الحلقات؛ الشخصيات الأكثر ظهورًا عبر الحلقات أولاً.
+ */
+export const buildSeriesBible = (
+  episodes: SeriesEpisodeSource[]
+): SeriesBible => {
+  const ordered = [...episodes].sort(byEpisodeNumber);
+  return {
+    episodeCount: ordered.length,
+    characters: mergeAcrossEpisodes(
+      ordered,
+      (project) =>
+        collectCharacters(project.payload.blocks, project.characters),
+      getCharacterKey
+    ),
+    locations: mergeAcrossEpisodes(ordered, (project) =>
+      collectLocations(project.payload.blocks, project.locations)
+    ),
+  };
+};
+
+/**
+ * الحلقات التي تظهر فيها الشخصية (بمفتاح الاسم المطبّع).
+ */
+export const findCharacterAppearances = (
+  bible: SeriesBible,
+  characterName: string
+): SeriesBibleAppearance[] => {
+  const key = getCharacterKey(characterName);
+  return (
+    bible.characters.find(
+      (character) => getCharacterKey(character.name) === key
+    )?.appearances ?? []
+  );
+};
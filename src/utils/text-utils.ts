@@ -87,6 +87,19 @@ export const normalizeCharacterName = (input: string): string => {
     .trim();
 };
 
+/**
+ * Folds Arabic letter variants (alef forms, alef maqsura, taa marbuta) and
+ * case so spelling variants of the same word compare equal.
+ * @param text - The text to fold.
+ * @returns The folded text.
+ */
+export const foldArabic = (text: string): string =>
+  text
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .toLowerCase();
+
 /**
  * Checks if a line is an action line starting with a dash.
  * @param line - The line to check.
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { ScreenplayBlock } from "./document-model";
+import {
+  appendSnapshot,
+  createSnapshotRevision,
+  getRevisionStats,
+  isSameSnapshotContent,
+} from "./version-history";
+
+const blocks: ScreenplayBlock[] = [
+  { formatId: "scene-header-1", text: "مشهد 1" },
+  { formatId: "action", text: "يدخل سمير الغرفة ببطء" },
+  { formatId: "scene-header-1", text: "مشهد 2" },
+  { formatId: "dialogue", text: "أين كنت؟" },
+];
+
+describe("version-history", () => {
+  it("creates named snapshots with word and scene counts", () => {
+    const revision = createSnapshotRevision(blocks, "  مسودة ثانية للمنتج ");
+
+    expect(revision.label).toBe("مسودة ثانية للمنتج");
+    expect(revision.auto).toBeUndefined();
+    expect(revision.payload.blocks.map((block) => block.text)).toEqual(
+      blocks.map((block) => block.text)
+    );
+    expect(getRevisionStats(revision)).toEqual({ words: 10, scenes: 2 });
+    expect(() => createSnapshotRevision(blocks, " ")).toThrow(
+      "اسم اللقطة لا يمكن أن يكون فارغًا"
+    );
+  });
+
+  it("drops the oldest automatic snapshots beyond the limit and keeps manual ones", () => {
+    const manual = createSnapshotRevision(blocks, "يدوية");
+    const autos = [1, 2, 3].map((index) =>
+      createSnapshotRevision(blocks, `تلقائية ${index}`, { auto: true })
+    );
+
+    let revisions = appendSnapshot([], autos[0], 2);
+    revisions = appendSnapshot(revisions, manual, 2);
+    revisions = appendSnapshot(revisions, autos[1], 2);
+    revisions = appendSnapshot(revisions, autos[2], 2);
+
+    expect(revisions.map((revision) => revision.label)).toEqual([
+      "يدوية",
+      "تلقائية 2",
+      "تلقائية 3",
+    ]);
+  });
+
+  it("compares snapshot content by block type and text only", () => {
+    const revision = createSnapshotRevision(blocks, "تلقائية", { auto: true });
+
+    expect(isSameSnapshotContent(blocks, revision)).toBe(true);
+    expect(isSameSnapshotContent(blocks, undefined)).toBe(false);
+    expect(
+      isSameSnapshotContent(
+        blocks.map((block, index) =>
+          index === 3 ? { ...block, formatId: "action" } : block
+        ),
+        revision
+      )
+    ).toBe(false);
+  });
+});
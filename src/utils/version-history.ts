@@ -0,0 +1,94 @@
+/**
+ * version-history.ts - سجل نسخ المستند
+ * لقطات دائمة من المستند (تلقائية كل بضع دقائق، ويدوية باسم مثل
+ * "مسودة ثانية للمنتج") تُحفظ في revisions داخل مشروع Filmlane،
+ * مع إحصاءات كل لقطة للعرض في الخط الزمني.
+ */
+
+import type { TitlePageInfo } from "@/types/screenplay";
+import {
+  createPayloadFromBlocks,
+  type ScreenplayBlock,
+} from "./document-model";
+import { createProjectId, type ProjectRevision } from "./project-file";
+
+/** الفاصل بين اللقطات التلقائية */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+/** أقصى عدد من اللقطات التلقائية المحتفظ بها (اللقطات اليدوية لا تُحذف) */
+export const MAX_AUTO_SNAPSHOTS = 20;
+
+export interface RevisionStats {
+  words: number;
+  scenes: number;
+}
+
+/**
+ * إنشاء لقطة من كتل المحرر الحالية.
+ */
+export const createSnapshotRevision = (
+  blocks: ScreenplayBlock[],
+  label: string,
+  options: {
+    auto?: boolean;
+    author?: string;
+    titlePage?: TitlePageInfo | null;
+  } = {}
+): ProjectRevision => {
+  const trimmedLabel = label.trim();
+  if (!trimmedLabel) throw new Error("اسم اللقطة لا يمكن أن يكون فارغًا");
+
+  const createdAt = new Date().toISOString();
+  const revision: ProjectRevision = {
+    id: createProjectId("rev"),
+    label: trimmedLabel,
+    createdAt,
+    payload: createPayloadFromBlocks(blocks, {
+      createdAt,
+      titlePage: options.titlePage,
+    }),
+  };
+  if (options.auto) revision.auto = true;
+  if (options.author) revision.author = options.author;
+  return revision;
+};
+
+/**
+ * إضافة لقطة إلى السجل مع حذف أقدم اللقطات التلقائية الزائدة.
+ */
+export const appendSnapshot = (
+  revisions: ProjectRevision[],
+  revision: ProjectRevision,
+  maxAutoSnapshots: number = MAX_AUTO_SNAPSHOTS
+): ProjectRevision[] => {
+  const next = [...revisions, revision];
+  let autoToDrop = next.filter((entry) => entry.auto).length - maxAutoSnapshots;
+  return next.filter((entry) => {
+    if (!entry.auto || autoToDrop <= 0) return true;
+    autoToDrop -= 1;
+    return false;
+  });
+};
+
+const blocksContentKey = (blocks: ScreenplayBlock[]): string =>
+  blocks.map((block) => `${block.formatId}\u0000${block.text}`).join("\u0001");
+
+/**
+ * هل تطابق الكتل محتوى اللقطة (النوع والنص فقط)؟
+ */
+export const isSameSnapshotContent = (
+  blocks: ScreenplayBlock[],
+  revision: ProjectRevision | undefined
+): boolean =>
+  revision !== undefined &&
+  blocksContentKey(blocks) === blocksContentKey(revision.payload.blocks);
+
+export const getRevisionStats = (revision: ProjectRevision): RevisionStats => {
+  let words = 0;
+  let scenes = 0;
+  for (const block of revision.payload.blocks) {
+    words += block.text.trim().split(/\s+/).filter(Boolean).length;
+    if (block.formatId === "scene-header-1") scenes += 1;
+  }
+  return { words, scenes };
+};